@@ -1,47 +1,143 @@
 import React, { useRef, useEffect, useCallback, useState, useImperativeHandle, forwardRef } from 'react';
-import { useThree, RootState } from '@react-three/fiber';
+import { useThree, useFrame, RootState } from '@react-three/fiber';
 import { OrbitControls as OrbitControlsImpl } from 'three-stdlib';
 import { OrbitControls } from '@react-three/drei';
 import * as THREE from 'three';
 import { cameraPresets, CELL_SIZE } from '../../config/constants';
-import { CameraViewPreset } from '../../types';
+import {
+  CameraBookmark,
+  CameraEasing,
+  CameraFollowMode,
+  CameraFollowOptions,
+  CameraKeyframe,
+  CameraProjection,
+  CameraState,
+  CameraTransitionOptions,
+  CameraViewPreset,
+} from '../../types';
+import { useDataStoreApi, useSharedTrajectoryAnimation } from '../../providers/DataProvider';
+import { computeCameraFollowPose, resolveCameraFollowOptions } from '../../utils/cameraFollow';
+import {
+  applyCameraEasing,
+  interpolateCameraState,
+  sampleCameraPath,
+  sortCameraKeyframes,
+  toPerspectiveEquivalentState,
+} from '../../utils/cameraAnimation';
+import { parseCameraState } from '../../utils/cameraState';
+
+// 透視投影カメラの垂直画角[deg]
+const PERSPECTIVE_FOV = 75;
+
+// 追従カメラのモード
+const FOLLOW_MODES: readonly CameraViewPreset[] = ['chase', 'firstPerson', 'tracking'];
+
+// マウスに近づく追従カメラ（chase・firstPerson）のニアクリップ[m]（壁や床が切れないようにする）
+const FOLLOW_CAMERA_NEAR = 0.005;
+
+const isFollowMode = (preset: CameraViewPreset): preset is CameraFollowMode => FOLLOW_MODES.includes(preset);
+
+// 実行中のカメラの移動アニメーション
+interface CameraTransition {
+  from: CameraState;
+  to: CameraState;       // アニメーションの終了時の状態（直交投影へ切り替える場合は同じ大きさに見える透視投影の状態）
+  final: CameraState;    // 移動先の状態
+  elapsed: number;       // 経過時間[s]
+  duration: number;      // 移動にかける時間[s]
+  easing: CameraEasing;
+}
 
 // カメラコントロールAPIの型定義
 export interface CameraControlAPI {
-  setCameraView: (preset: CameraViewPreset) => void;
-  resetCamera: (preset?: CameraViewPreset) => void;
-  toggleCameraProjection: () => void;
+  setCameraView: (preset: CameraViewPreset, options?: CameraTransitionOptions) => void;
+  resetCamera: (preset?: CameraViewPreset, options?: CameraTransitionOptions) => void;
+  toggleCameraProjection: (options?: CameraTransitionOptions) => void;
   /**
    * 指定した物理座標の領域にズームする（直交投影モード）
    * @param x1 領域の左下X座標（メートル）
    * @param y1 領域の左下Y座標（メートル）
    * @param x2 領域の右上X座標（メートル）
    * @param y2 領域の右上Y座標（メートル）
+   * @param options アニメーション設定（省略時は即座に移動）
+   */
+  zoomToRegion: (x1: number, y1: number, x2: number, y2: number, options?: CameraTransitionOptions) => void;
+  /**
+   * 軌跡アニメーションの時刻に合わせて移動するカメラパスを設定する（nullで解除）
+   * @param keyframes キーフレーム（時刻は軌道プロファイルと同じ時間軸）
+   */
+  setCameraPath: (keyframes: CameraKeyframe[] | null) => void;
+  /**
+   * 現在のカメラの状態（位置・注視点・上方向・ズーム倍率・投影方法・画角）を取得する
+   * 戻り値はJSONとして保存・共有できる
    */
-  zoomToRegion: (x1: number, y1: number, x2: number, y2: number) => void;
+  getCameraState: () => CameraState;
+  /**
+   * カメラの状態を設定する（値が不正な場合は例外を投げる）
+   * @param state カメラの状態
+   * @param options アニメーション設定（省略時は即座に移動）
+   */
+  setCameraState: (state: CameraState, options?: CameraTransitionOptions) => void;
+  /**
+   * 現在の視点を名前付きのブックマークとしてストアに保存する（同じ名前の場合は上書き）
+   * @param name ブックマークの名前
+   */
+  saveBookmark: (name: string) => CameraBookmark;
+  /**
+   * ストアに保存したブックマークの視点に移動する（見つからない場合は例外を投げる）
+   * @param name ブックマークの名前
+   * @param options アニメーション設定（省略時は即座に移動）
+   */
+  restoreBookmark: (name: string, options?: CameraTransitionOptions) => void;
 }
 
 interface CameraControllerProps {
   initialViewPreset?: CameraViewPreset;
-  mazeSize?: number;
+  mazeSize?: number;    // 正方形の迷路のサイズ[マス]
+  mazeWidth?: number;   // 迷路の幅[マス]（省略時はmazeSize）
+  mazeHeight?: number;  // 迷路の高さ[マス]（省略時はmazeSize）
+  followOptions?: Partial<Record<CameraFollowMode, CameraFollowOptions>>; // 追従カメラのモードごとの設定（省略した項目は既定値）
+  cameraPath?: CameraKeyframe[];  // 軌跡アニメーションの時刻に合わせて移動するカメラパス
 }
 
 // カメラコントロール用コンポーネント
-const CameraController = forwardRef<CameraControlAPI, CameraControllerProps>(({ initialViewPreset = 'angle', mazeSize = 16 }, ref) => {
-  const { camera, controls: controlsFromHook, set, size } = useThree<RootState>();
+const CameraController = forwardRef<CameraControlAPI, CameraControllerProps>(({
+  initialViewPreset = 'angle',
+  mazeSize = 16,
+  mazeWidth: mazeWidthCells = mazeSize,
+  mazeHeight: mazeHeightCells = mazeSize,
+  followOptions,
+  cameraPath,
+}, ref) => {
+  const { camera, controls: controlsFromHook, set, get, size } = useThree<RootState>();
+  const store = useDataStoreApi();
+  const { currentMouseStateRef, currentTimeRef } = useSharedTrajectoryAnimation();
   const controlsRef = useRef<OrbitControlsImpl>(null);
   const mazeCenterRef = useRef<THREE.Vector3>(
-    new THREE.Vector3(mazeSize * CELL_SIZE / 2, mazeSize * CELL_SIZE / 2, 0)
+    new THREE.Vector3(mazeWidthCells * CELL_SIZE / 2, mazeHeightCells * CELL_SIZE / 2, 0)
   );
+  // OrbitControlsの注視点の高さ（操作中もこの高さに固定する。適用したカメラの状態や追従中の注視点の高さを保つ）
+  const targetZRef = useRef(0);
   const [isOrtho, setIsOrtho] = useState(false);
   
-  // zoomToRegionのペンディング状態を管理
-  const pendingZoomRef = useRef<{x1: number, y1: number, x2: number, y2: number} | null>(null);
+  // 実行中の移動アニメーションとカメラパス（ユーザーがドラッグした場合は終了する）
+  const transitionRef = useRef<CameraTransition | null>(null);
+  const cameraPathRef = useRef<CameraKeyframe[] | null>(null);
+  // 透視投影の画角[deg]（setCameraStateで変更した画角をリサイズ後も保つ）
+  const fovRef = useRef(PERSPECTIVE_FOV);
+
+  // 追従中のモード（ユーザーがドラッグした場合はnullに戻してOrbitControlsに操作を返す）
+  const followModeRef = useRef<CameraFollowMode | null>(null);
+  // 平滑化したカメラの位置と注視点（nullの場合は次のフレームで目標位置に直接移動する）
+  const followPositionRef = useRef<THREE.Vector3 | null>(null);
+  const followTargetRef = useRef<THREE.Vector3 | null>(null);
 
   // 迷路サイズからカメラのパラメータを計算
-  const mazeWidth = mazeSize * CELL_SIZE;
-  const mazeHeight = mazeSize * CELL_SIZE;
-  const distanceFactor = mazeSize * CELL_SIZE * 1.5;
+  const mazeWidth = mazeWidthCells * CELL_SIZE;
+  const mazeHeight = mazeHeightCells * CELL_SIZE;
+  const mazeExtent = Math.max(mazeWidth, mazeHeight); // 長い方の辺の長さ
+  const mazeCenterX = mazeWidth / 2;
+  const mazeCenterY = mazeHeight / 2;
+  const distanceFactor = mazeExtent * 1.5;
 
   // Z-up設定
   useEffect(() => {
@@ -52,8 +148,8 @@ const CameraController = forwardRef<CameraControlAPI, CameraControllerProps>(({
             (currentControls as any).target.set(
               mazeCenterRef.current.x, 
               mazeCenterRef.current.y, 
-              0
-            ); // Z座標を0に固定
+              targetZRef.current
+            ); // Z座標を注視点の高さに固定
         }
         if (typeof (currentControls as any).update === 'function') {
             (currentControls as any).update();
@@ -66,48 +162,47 @@ const CameraController = forwardRef<CameraControlAPI, CameraControllerProps>(({
     const aspect = size.width / size.height;
     if (aspect >= 1) {
       // 横長の場合
-      orthoCamera.left = -mazeWidth;
-      orthoCamera.right = mazeWidth;
-      orthoCamera.top = mazeWidth / aspect;
-      orthoCamera.bottom = -mazeWidth / aspect;
+      orthoCamera.left = -mazeExtent;
+      orthoCamera.right = mazeExtent;
+      orthoCamera.top = mazeExtent / aspect;
+      orthoCamera.bottom = -mazeExtent / aspect;
     } else {
       // 縦長の場合
-      orthoCamera.left = -mazeHeight * aspect;
-      orthoCamera.right = mazeHeight * aspect;
-      orthoCamera.top = mazeHeight;
-      orthoCamera.bottom = -mazeHeight;
+      orthoCamera.left = -mazeExtent * aspect;
+      orthoCamera.right = mazeExtent * aspect;
+      orthoCamera.top = mazeExtent;
+      orthoCamera.bottom = -mazeExtent;
     }
     orthoCamera.near = 0.1;
     orthoCamera.far = 1000;
     orthoCamera.updateProjectionMatrix();
-  }, [mazeWidth, mazeHeight, size.width, size.height]);
+  }, [mazeExtent, size.width, size.height]);
 
   // 透視投影カメラの設定を更新する関数
   const updatePerspectiveCamera = useCallback((perspCamera: THREE.PerspectiveCamera) => {
     perspCamera.aspect = size.width / size.height;
-    perspCamera.fov = 75;
+    perspCamera.fov = fovRef.current;
     perspCamera.near = 0.1;
     perspCamera.far = 1000;
     perspCamera.updateProjectionMatrix();
   }, [size.width, size.height]);
 
-  // 直交投影カメラに切り替える関数
-  const enableOrthographicCamera = useCallback(() => {
-    if (isOrtho) return; // 既に直交投影モードの場合は何もしない
+  // 直交投影カメラに切り替える関数（切り替え後のカメラを返す）
+  const enableOrthographicCamera = useCallback((): THREE.Camera => {
+    if (isOrtho) return camera; // 既に直交投影モードの場合は何もしない
     
     // 直交投影カメラの作成
     const orthoCamera = new THREE.OrthographicCamera();
     updateOrthographicCamera(orthoCamera);
     
     // 直交投影カメラは常に上面から見る位置に固定
-    const mazeCenterOffset = mazeSize * CELL_SIZE / 2;
-    orthoCamera.position.set(mazeCenterOffset, mazeCenterOffset, mazeSize * CELL_SIZE * 2);
+    orthoCamera.position.set(mazeCenterX, mazeCenterY, mazeExtent * 2);
     
     // カメラのup方向を設定（Z軸が上）
     orthoCamera.up.set(0, 0, 1);
     
     // 迷路の中心をターゲットとする
-    const target = new THREE.Vector3(mazeCenterOffset, mazeCenterOffset, 0);
+    const target = new THREE.Vector3(mazeCenterX, mazeCenterY, 0);
     orthoCamera.lookAt(target);
     
     // react-three-fiberのsetメソッドを使って新しいカメラを設定
@@ -125,6 +220,7 @@ const CameraController = forwardRef<CameraControlAPI, CameraControllerProps>(({
       if ('target' in currentControls && typeof (currentControls as any).target?.copy === 'function') {
         (currentControls as any).target.copy(target);
         (currentControls as any).target.z = 0; // Z座標を0に固定
+        targetZRef.current = 0;
       }
       
       // カメラオブジェクトを更新
@@ -133,7 +229,7 @@ const CameraController = forwardRef<CameraControlAPI, CameraControllerProps>(({
       }
       
       // 位置と向きを再設定
-      orthoCamera.position.set(mazeCenterOffset, mazeCenterOffset, mazeSize * CELL_SIZE * 2);
+      orthoCamera.position.set(mazeCenterX, mazeCenterY, mazeExtent * 2);
       orthoCamera.up.set(0, 0, 1);
       orthoCamera.lookAt(target);
       
@@ -145,11 +241,12 @@ const CameraController = forwardRef<CameraControlAPI, CameraControllerProps>(({
     
     // 状態を更新
     setIsOrtho(true);
-  }, [isOrtho, mazeSize, set, updateOrthographicCamera, controlsFromHook]);
+    return orthoCamera;
+  }, [isOrtho, camera, mazeCenterX, mazeCenterY, mazeExtent, set, updateOrthographicCamera, controlsFromHook]);
 
-  // 透視投影カメラに切り替える関数
-  const enablePerspectiveCamera = useCallback(() => {
-    if (!isOrtho) return; // 既に透視投影モードの場合は何もしない
+  // 透視投影カメラに切り替える関数（切り替え後のカメラを返す）
+  const enablePerspectiveCamera = useCallback((): THREE.Camera => {
+    if (!isOrtho) return camera; // 既に透視投影モードの場合は何もしない
     
     // 既存のカメラの位置と向きを保持
     const position = camera.position.clone();
@@ -171,6 +268,7 @@ const CameraController = forwardRef<CameraControlAPI, CameraControllerProps>(({
     
     // 状態を更新
     setIsOrtho(false);
+    return perspCamera;
   }, [isOrtho, camera, set, updatePerspectiveCamera]);
 
   // ウィンドウサイズ変更時にカメラの設定を更新
@@ -182,256 +280,290 @@ const CameraController = forwardRef<CameraControlAPI, CameraControllerProps>(({
     }
   }, [size, isOrtho, camera, updateOrthographicCamera, updatePerspectiveCamera]);
 
-  // isOrthoの状態変化を監視してペンディング中のzoomToRegionを実行
-  useEffect(() => {
-    if (isOrtho && camera instanceof THREE.OrthographicCamera && pendingZoomRef.current) {
-      console.log('isOrtho became true, executing pending zoom...');
-      const { x1, y1, x2, y2 } = pendingZoomRef.current;
-      const currentControls = controlsRef.current || controlsFromHook;
-      
-      // ペンディング状態をクリア
-      pendingZoomRef.current = null;
-      
-      // 少し遅延してからズーム実行（カメラの初期化完了を待つ）
-      setTimeout(() => {
-        performRegionZoom(camera, x1, y1, x2, y2, currentControls);
-      }, 50);
+  // 直交投影のズーム倍率1での表示範囲の高さ（updateOrthographicCameraと同じ計算）
+  const getOrthographicFrustumHeight = useCallback(() => {
+    const aspect = size.width / size.height;
+    return aspect >= 1 ? mazeExtent * 2 / aspect : mazeExtent * 2;
+  }, [mazeExtent, size.width, size.height]);
+
+  // 投影方法を切り替え、切り替え後のカメラを返す
+  const switchProjection = useCallback((projection: CameraProjection): THREE.Camera =>
+    projection === 'orthographic' ? enableOrthographicCamera() : enablePerspectiveCamera(),
+  [enableOrthographicCamera, enablePerspectiveCamera]);
+
+  // 現在のカメラの状態を取得
+  const captureCameraState = useCallback((sourceCamera: THREE.Camera): CameraState => {
+    const currentControls = controlsRef.current;
+    const target = currentControls && currentControls.object === sourceCamera
+      ? currentControls.target
+      : mazeCenterRef.current;
+    return {
+      position: sourceCamera.position.toArray() as [number, number, number],
+      target: target.toArray() as [number, number, number],
+      up: sourceCamera.up.toArray() as [number, number, number],
+      zoom: sourceCamera instanceof THREE.PerspectiveCamera || sourceCamera instanceof THREE.OrthographicCamera
+        ? sourceCamera.zoom
+        : 1,
+      projection: sourceCamera instanceof THREE.OrthographicCamera ? 'orthographic' : 'perspective',
+      ...(sourceCamera instanceof THREE.PerspectiveCamera ? { fov: sourceCamera.fov } : {}),
+    };
+  }, []);
+
+  // カメラに位置・注視点・上方向・ズーム倍率・画角を適用（投影方法は切り替えない）
+  const applyCameraState = useCallback((targetCamera: THREE.Camera, state: Omit<CameraState, 'projection'>) => {
+    const target = new THREE.Vector3(...state.target);
+    targetCamera.position.set(...state.position);
+    targetCamera.up.set(...(state.up ?? [0, 0, 1]));
+    targetCamera.lookAt(target);
+    if (targetCamera instanceof THREE.PerspectiveCamera && state.fov !== undefined) {
+      fovRef.current = state.fov;
+      targetCamera.fov = state.fov;
+    }
+    if (targetCamera instanceof THREE.PerspectiveCamera || targetCamera instanceof THREE.OrthographicCamera) {
+      targetCamera.zoom = state.zoom;
+      targetCamera.updateProjectionMatrix();
     }
-  }, [isOrtho, camera, controlsFromHook]);
 
-  const setCameraView = useCallback((presetKey: CameraViewPreset) => {
-    // ビューモードに応じた位置を計算
-    const preset = cameraPresets[presetKey];
-    const mazeCenterOffset = mazeSize * CELL_SIZE / 2;
-    let adjustedPosition;
+    // カメラの切り替えでOrbitControlsが作り直された場合も、Z-up設定のeffectでこの注視点が設定される
+    mazeCenterRef.current = target.clone();
+    targetZRef.current = target.z;
+    const currentControls = controlsRef.current;
+    if (currentControls && currentControls.object === targetCamera) {
+      currentControls.target.copy(target);
+    }
+  }, []);
+
+  // 指定した状態へカメラを移動する（durationを指定した場合はアニメーション）
+  const transitionToCameraState = useCallback((state: CameraState, options?: CameraTransitionOptions) => {
+    // 追従・カメラパス・実行中のアニメーションを終了
+    followModeRef.current = null;
+    cameraPathRef.current = null;
+    transitionRef.current = null;
+    if (camera instanceof THREE.PerspectiveCamera) {
+      updatePerspectiveCamera(camera); // 追従時に変更したニアクリップを戻す
+    }
+
+    const currentProjection: CameraProjection = camera instanceof THREE.OrthographicCamera ? 'orthographic' : 'perspective';
+    const duration = options?.duration ?? 0;
+    if (duration <= 0) {
+      const targetCamera = state.projection === currentProjection ? camera : switchProjection(state.projection);
+      applyCameraState(targetCamera, state);
+      return;
+    }
+
+    let from = captureCameraState(camera);
+    let to = state;
+    if (currentProjection === 'orthographic' && state.projection === 'perspective') {
+      // 直交投影から透視投影へは、同じ大きさに見える透視投影に切り替えてから移動する
+      from = toPerspectiveEquivalentState(from, getOrthographicFrustumHeight(), fovRef.current);
+      applyCameraState(switchProjection('perspective'), from);
+    } else if (currentProjection === 'perspective' && state.projection === 'orthographic') {
+      // 透視投影から直交投影へは、移動先と同じ大きさに見える透視投影の状態まで移動してから切り替える
+      to = toPerspectiveEquivalentState(state, getOrthographicFrustumHeight(), fovRef.current);
+    }
+
+    transitionRef.current = {
+      from,
+      to,
+      final: state,
+      elapsed: 0,
+      duration,
+      easing: options?.easing ?? 'easeInOut',
+    };
+  }, [camera, updatePerspectiveCamera, switchProjection, applyCameraState, captureCameraState, getOrthographicFrustumHeight]);
+
+  // プリセットのカメラの状態を計算
+  const getPresetCameraState = useCallback((presetKey: Exclude<CameraViewPreset, CameraFollowMode>): CameraState => {
+    const target: [number, number, number] = [mazeCenterX, mazeCenterY, 0];
 
     // ビューの種類に応じて位置を調整
     if (presetKey === 'top') {
-      adjustedPosition = new THREE.Vector3(mazeCenterOffset, mazeCenterOffset, mazeSize * CELL_SIZE * 1.5); // 真上から
-      if (isOrtho) enablePerspectiveCamera();
+      return { position: [mazeCenterX, mazeCenterY, mazeExtent * 1.5], target, zoom: 1, projection: 'perspective', fov: PERSPECTIVE_FOV }; // 真上から
     } else if (presetKey === 'side') {
-      adjustedPosition = new THREE.Vector3(mazeCenterOffset, -mazeSize * CELL_SIZE * 1.5, mazeCenterOffset); // 横から
-      if (isOrtho) enablePerspectiveCamera();
+      return { position: [mazeCenterX, -mazeExtent * 1.5, mazeExtent / 2], target, zoom: 1, projection: 'perspective', fov: PERSPECTIVE_FOV }; // 横から
     } else if (presetKey === 'ortho') {
-      // 直交投影モード
-      enableOrthographicCamera();
-      return; // enableOrthographicCamera内でカメラ位置とターゲットを設定するため、ここで終了
-    } else {
-      // angleビューなど、その他のプリセット
-      adjustedPosition = new THREE.Vector3(...preset.position)
-        .add(new THREE.Vector3(mazeCenterOffset, mazeCenterOffset, 0))
-        .normalize()
-        .multiplyScalar(distanceFactor);
-      if (isOrtho) enablePerspectiveCamera();
+      // 直交投影モード（真上から）
+      return { position: [mazeCenterX, mazeCenterY, mazeExtent * 2], target, zoom: 1, projection: 'orthographic' };
     }
-    
-    // カメラのターゲットを迷路の中心に設定
-    const target = new THREE.Vector3(mazeSize * CELL_SIZE / 2, mazeSize * CELL_SIZE / 2, 0);
-    mazeCenterRef.current = target.clone();
 
-    // カメラの位置を設定
-    camera.position.copy(adjustedPosition);
-    camera.lookAt(target);
-    
-    // コントロールの更新
-    const currentControls = controlsRef.current || controlsFromHook;
-    if (currentControls) {
-      if ('target' in currentControls && typeof (currentControls as any).target?.copy === 'function') {
-        (currentControls as any).target.copy(target);
-      }
-      if (typeof (currentControls as any).update === 'function') {
-        (currentControls as any).update();
-      }
+    // angleビューなど、その他のプリセット
+    const position = new THREE.Vector3(...cameraPresets[presetKey].position)
+      .add(new THREE.Vector3(mazeCenterX, mazeCenterY, 0))
+      .normalize()
+      .multiplyScalar(distanceFactor);
+    return { position: position.toArray() as [number, number, number], target, zoom: 1, projection: 'perspective', fov: PERSPECTIVE_FOV };
+  }, [mazeCenterX, mazeCenterY, mazeExtent, distanceFactor]);
+
+  const setCameraView = useCallback((presetKey: CameraViewPreset, options?: CameraTransitionOptions) => {
+    // 追従モードの場合は透視投影に切り替え、位置の更新はuseFrameに任せる
+    if (isFollowMode(presetKey)) {
+      transitionRef.current = null;
+      cameraPathRef.current = null;
+      if (isOrtho) enablePerspectiveCamera();
+      followModeRef.current = presetKey;
+      followPositionRef.current = null;
+      followTargetRef.current = null;
+      return;
     }
-  }, [
-    camera, 
-    controlsFromHook, 
-    mazeSize, 
-    distanceFactor, 
-    enableOrthographicCamera, 
-    enablePerspectiveCamera,
-    isOrtho
-  ]);
+
+    transitionToCameraState(getPresetCameraState(presetKey), options);
+  }, [isOrtho, enablePerspectiveCamera, transitionToCameraState, getPresetCameraState]);
 
   // カメラリセット機能
-  const resetCamera = useCallback((presetKey: CameraViewPreset = initialViewPreset) => {
-    setCameraView(presetKey);
+  const resetCamera = useCallback((presetKey: CameraViewPreset = initialViewPreset, options?: CameraTransitionOptions) => {
+    setCameraView(presetKey, options);
   }, [initialViewPreset, setCameraView]);
 
   // カメラのパースペクティブを切り替える関数
-  const toggleCameraProjection = useCallback(() => {
+  const toggleCameraProjection = useCallback((options?: CameraTransitionOptions) => {
     if (isOrtho) {
-      setCameraView('angle'); // 透視投影に戻す場合はangleビューに
+      setCameraView('angle', options); // 透視投影に戻す場合はangleビューに
     } else {
-      setCameraView('ortho'); // 直交投影に切り替え
+      setCameraView('ortho', options); // 直交投影に切り替え
     }
   }, [isOrtho, setCameraView]);
 
-  // 指定された領域にズームする関数（直交投影モード専用）
-  const zoomToRegion = useCallback((x1: number, y1: number, x2: number, y2: number) => {
-    console.log('zoomToRegion called:', { x1, y1, x2, y2, isOrtho });
-    
-    // OrbitControlsを取得
-    const currentControls = controlsRef.current || controlsFromHook;
-    
-    // 直交投影モードでない場合は切り替える
-    if (!isOrtho) {
-      console.log('Not in ortho mode, switching and setting pending zoom...');
-      
-      // ズーム領域をペンディング状態に保存
-      pendingZoomRef.current = { x1, y1, x2, y2 };
-      
-      // OrbitControlsをリセットしてから直交投影に切り替える
-      if (currentControls && 'reset' in currentControls && typeof (currentControls as any).reset === 'function') {
-        (currentControls as any).reset();
-      }
-      
-      // 直交投影に切り替え（useEffectが状態変化を検知してズーム実行）
-      enableOrthographicCamera();
-      return;
-    }
-    
-    // 既存のカメラが直交投影カメラの場合は直接ズーム処理を実行
-    if (camera instanceof THREE.OrthographicCamera) {
-      console.log('Already in ortho mode, performing zoom immediately...');
-      performRegionZoom(camera, x1, y1, x2, y2, currentControls);
-    }
-  }, [camera, controlsRef, controlsFromHook, enableOrthographicCamera, isOrtho]);
-
-  // ズーム領域設定の実際の処理（再帰呼び出しを避けるため分離）
-  const performRegionZoom = useCallback((
-    orthoCamera: THREE.OrthographicCamera,
-    x1: number,
-    y1: number,
-    x2: number,
-    y2: number,
-    currentControls: any
-  ) => {
+  // 指定された領域にズームする関数（直交投影に切り替えて真上から表示）
+  const zoomToRegion = useCallback((x1: number, y1: number, x2: number, y2: number, options?: CameraTransitionOptions) => {
     // 領域の中心とサイズを計算
     const centerX = (x1 + x2) / 2;
     const centerY = (y1 + y2) / 2;
     const regionWidth = Math.abs(x2 - x1);
     const regionHeight = Math.abs(y2 - y1);
-    
-    // Three.jsの直交投影の座標系を確認
-    // left/right: X軸 (左右)
-    // top/bottom: Y軸 (上下)
-    // 注意: Three.jsのtop/bottomは数学的なY軸と同じ向き（topが正の値、bottomが負の値）
-    // OrbitControlsを一時的に無効化し、ズームとパンも無効化
-    const wasEnabled = currentControls ? (currentControls as any).enabled : true;
-    const wasZoomEnabled = currentControls ? (currentControls as any).enableZoom : true;
-    const wasPanEnabled = currentControls ? (currentControls as any).enablePan : true;
-    
-    if (currentControls) {
-      (currentControls as any).enabled = false;
-      // 直交投影カメラの投影範囲を確実に制御するため、ズームとパンを一時的に無効化
-      (currentControls as any).enableZoom = false;
-      (currentControls as any).enablePan = false;
-    }
-    
-    // アスペクト比を考慮してカメラの範囲を設定
-    const aspect = size.width / size.height;
-    const padding = Math.max(regionWidth, regionHeight) * 0.1; // 10%のパディング
-    
-    // 指定された範囲を確実に含むように計算
+
+    // 指定された範囲を確実に含むように10%のパディングを加える
+    const padding = Math.max(regionWidth, regionHeight) * 0.1;
     const paddedRegionWidth = regionWidth + padding;
     const paddedRegionHeight = regionHeight + padding;
-    
-    let adjustedWidth, adjustedHeight;
-    
-    if (aspect >= 1) {
-      // 横長画面の場合：縦方向を基準にして横方向を調整
-      adjustedHeight = paddedRegionHeight;
-      adjustedWidth = adjustedHeight * aspect;
-      
-      // 横方向が足りない場合は横方向を基準に再計算
-      if (adjustedWidth < paddedRegionWidth) {
-        adjustedWidth = paddedRegionWidth;
-        adjustedHeight = adjustedWidth / aspect;
-      }
-    } else {
-      // 縦長画面の場合：横方向を基準にして縦方向を調整
-      adjustedWidth = paddedRegionWidth;
-      adjustedHeight = adjustedWidth / aspect;
-      
-      // 縦方向が足りない場合は縦方向を基準に再計算
-      if (adjustedHeight < paddedRegionHeight) {
-        adjustedHeight = paddedRegionHeight;
-        adjustedWidth = adjustedHeight * aspect;
-      }
+
+    // 直交投影の表示範囲は迷路全体のまま、ズーム倍率で領域を画面に収める
+    const frustumHeight = getOrthographicFrustumHeight();
+    const frustumWidth = frustumHeight * size.width / size.height;
+    const zoom = Math.min(frustumWidth / paddedRegionWidth, frustumHeight / paddedRegionHeight);
+
+    transitionToCameraState({
+      position: [centerX, centerY, mazeExtent * 2],
+      target: [centerX, centerY, 0],
+      zoom: Number.isFinite(zoom) ? zoom : 1,
+      projection: 'orthographic',
+    }, options);
+  }, [getOrthographicFrustumHeight, size.width, size.height, mazeExtent, transitionToCameraState]);
+
+  // カメラパスを設定（nullの場合は解除）
+  // 軌跡アニメーションの現在時刻に合わせて毎フレームカメラを移動する
+  const setCameraPath = useCallback((keyframes: CameraKeyframe[] | null) => {
+    followModeRef.current = null;
+    transitionRef.current = null;
+    cameraPathRef.current = keyframes && keyframes.length > 0 ? sortCameraKeyframes(keyframes) : null;
+  }, []);
+
+  // 現在のカメラの状態を取得（JSONとして保存・共有できる値）
+  // カメラの切り替え直後でも新しいカメラを参照するため、ストアから直接取得する
+  const getCameraState = useCallback((): CameraState => captureCameraState(get().camera), [get, captureCameraState]);
+
+  // カメラの状態を設定（不正な値の場合は例外を投げる）
+  const setCameraState = useCallback((state: CameraState, options?: CameraTransitionOptions) => {
+    transitionToCameraState(parseCameraState(state), options);
+  }, [transitionToCameraState]);
+
+  // 現在の視点を名前付きのブックマークとしてストアに保存
+  const saveBookmark = useCallback((name: string): CameraBookmark => {
+    const state = getCameraState();
+    store.getState().saveCameraBookmark(name, state);
+    return { name, state };
+  }, [store, getCameraState]);
+
+  // ストアに保存したブックマークの視点に移動
+  const restoreBookmark = useCallback((name: string, options?: CameraTransitionOptions) => {
+    const bookmark = store.getState().cameraBookmarks.find((item) => item.name === name);
+    if (!bookmark) {
+      throw new Error(`カメラのブックマーク「${name}」が見つかりません`);
     }
-    
-    // 既存のカメラの投影設定を更新
-    // 問題の修正: 直交投影カメラの投影範囲は、カメラ位置を基準とした相対座標で設定する
-    // カメラは(centerX, centerY, height)の位置から(centerX, centerY, 0)を見下ろしているので
-    // 投影範囲は中心からの相対距離で設定する必要がある
-    orthoCamera.left = -adjustedWidth / 2;
-    orthoCamera.right = adjustedWidth / 2;
-    orthoCamera.top = adjustedHeight / 2;
-    orthoCamera.bottom = -adjustedHeight / 2;
-    orthoCamera.updateProjectionMatrix();
-    
-    // カメラの位置を設定（真上から見下ろす）
-    const cameraHeight = mazeSize * CELL_SIZE * 2;
-    orthoCamera.position.set(centerX, centerY, cameraHeight);
-    
-    // カメラのup方向を設定（Z軸が上方向、プロジェクトの座標系）
-    orthoCamera.up.set(0, 0, 1);
-    
-    // カメラのターゲットを領域の中心に設定
-    const target = new THREE.Vector3(centerX, centerY, 0);
-    orthoCamera.lookAt(target);
-    
-    // OrbitControlsのターゲットと状態を更新
-    if (currentControls) {
-      // 一時的にOrbitControlsを完全に無効化してテスト
+    setCameraState(bookmark.state, options);
+  }, [store, setCameraState]);
 
-      // ターゲットを設定
-      if ('target' in currentControls && typeof (currentControls as any).target?.copy === 'function') {
-        (currentControls as any).target.copy(target);
-        (currentControls as any).target.z = 0; // Z座標を0に固定
-      }
-      
-      // オブジェクトの再設定を確実に行う
-      if ('object' in currentControls) {
-        (currentControls as any).object = orthoCamera;
+  // 追従モードではマウスの位置・姿勢から毎フレームカメラを更新
+  // OrbitControlsの更新（優先度-1）の後に実行し、注視点もマウスに合わせることでドラッグ開始時にその位置から操作できるようにする
+  useFrame((state, delta) => {
+    // 移動アニメーション
+    const transition = transitionRef.current;
+    if (transition) {
+      transition.elapsed += delta;
+      const t = Math.min(1, transition.elapsed / transition.duration);
+      if (t < 1) {
+        applyCameraState(
+          state.camera,
+          interpolateCameraState(transition.from, transition.to, applyCameraEasing(transition.easing, t))
+        );
+      } else {
+        // 終了時に投影方法を切り替えて移動先の状態を適用
+        transitionRef.current = null;
+        const currentProjection: CameraProjection = state.camera instanceof THREE.OrthographicCamera ? 'orthographic' : 'perspective';
+        const targetCamera = transition.final.projection === currentProjection
+          ? state.camera
+          : switchProjection(transition.final.projection);
+        applyCameraState(targetCamera, transition.final);
       }
-      
-      // カメラの位置、向き、ターゲットを enableOrthographicCamera と同じ方法で設定
-      orthoCamera.position.set(centerX, centerY, cameraHeight);
-      orthoCamera.up.set(0, 0, 1); // Z軸が上方向（プロジェクトの座標系）
-      orthoCamera.lookAt(target);
-      
-      // 投影範囲を再度強制設定（OrbitControlsの影響を確実に排除）
-      orthoCamera.left = -adjustedWidth / 2;
-      orthoCamera.right = adjustedWidth / 2;
-      orthoCamera.top = adjustedHeight / 2;
-      orthoCamera.bottom = -adjustedHeight / 2;
-      orthoCamera.updateProjectionMatrix();
-      
-      // カメラのズーム状態を確実にリセット
-      orthoCamera.zoom = 1.0;
-      
-      // 投影行列を再更新（ズームリセット後）
-      orthoCamera.updateProjectionMatrix();
-      
-      // OrbitControlsの更新（カメラ設定とズームリセット後）
-      if (typeof (currentControls as any).update === 'function') {
-        (currentControls as any).update();
-      }
-      
-      // OrbitControlsの内部ズーム状態を再度確認・リセット
-      if ('scale' in currentControls) {
-        (currentControls as any).scale = 1.0;
+      return;
+    }
+
+    // カメラパス（軌跡アニメーションの現在時刻で補間）
+    const keyframes = cameraPathRef.current;
+    if (keyframes) {
+      const sampled = sampleCameraPath(keyframes, currentTimeRef.current);
+      if (sampled) {
+        applyCameraState(state.camera, sampled);
       }
-      
-      // OrbitControlsを再有効化（ズーム・パン操作を可能にする）
-      (currentControls as any).enabled = wasEnabled;
-      (currentControls as any).enableZoom = wasZoomEnabled;
-      (currentControls as any).enablePan = wasPanEnabled;
-      
+      return;
+    }
+
+    // 追従モード
+    const mode = followModeRef.current;
+    if (!mode) return;
+
+    // 軌道アニメーション中は補間したマウスの状態、軌道がない場合はストアのマウスの状態を使用
+    const { trajectoryProfile, mouseState } = store.getState();
+    const currentMouseState = trajectoryProfile.size > 0 && currentMouseStateRef.current
+      ? currentMouseStateRef.current
+      : mouseState;
+
+    const options = resolveCameraFollowOptions(mode, followOptions?.[mode]);
+    const pose = computeCameraFollowPose(mode, currentMouseState, options);
+    const desiredPosition = new THREE.Vector3(...pose.position);
+    const desiredTarget = new THREE.Vector3(...pose.target);
+
+    // 指数平滑化でカメラを目標に近づける（モード切り替え直後は直接移動）
+    if (!followPositionRef.current || !followTargetRef.current) {
+      followPositionRef.current = desiredPosition;
+      followTargetRef.current = desiredTarget;
+    } else {
+      const alpha = options.smoothing > 0 ? 1 - Math.exp(-delta / options.smoothing) : 1;
+      followPositionRef.current.lerp(desiredPosition, alpha);
+      followTargetRef.current.lerp(desiredTarget, alpha);
+    }
+
+    const currentCamera = state.camera;
+    if (mode !== 'tracking' && currentCamera instanceof THREE.PerspectiveCamera && currentCamera.near !== FOLLOW_CAMERA_NEAR) {
+      currentCamera.near = FOLLOW_CAMERA_NEAR;
+      currentCamera.updateProjectionMatrix();
     }
-  }, [mazeSize, size.width, size.height]);
+    currentCamera.position.copy(followPositionRef.current);
+    currentCamera.up.set(0, 0, 1);
+    currentCamera.lookAt(followTargetRef.current);
+
+    const currentControls = controlsRef.current;
+    if (currentControls) {
+      currentControls.target.copy(followTargetRef.current);
+    }
+    targetZRef.current = followTargetRef.current.z;
+  });
+
+  // ユーザーがカメラを操作し始めたら追従・移動アニメーション・カメラパスを終了してOrbitControlsに操作を返す
+  const handleControlStart = useCallback(() => {
+    followModeRef.current = null;
+    transitionRef.current = null;
+    cameraPathRef.current = null;
+  }, []);
 
   // 外部からカメラを操作できるAPIを公開
   useImperativeHandle(ref, () => ({
@@ -439,7 +571,31 @@ const CameraController = forwardRef<CameraControlAPI, CameraControllerProps>(({
     resetCamera,
     toggleCameraProjection,
     zoomToRegion,
-  }), [setCameraView, resetCamera, toggleCameraProjection, zoomToRegion]);
+    setCameraPath,
+    getCameraState,
+    setCameraState,
+    saveBookmark,
+    restoreBookmark,
+  }), [
+    setCameraView,
+    resetCamera,
+    toggleCameraProjection,
+    zoomToRegion,
+    setCameraPath,
+    getCameraState,
+    setCameraState,
+    saveBookmark,
+    restoreBookmark,
+  ]);
+
+  // Propsで指定したカメラパスを設定（Propsから外された場合はカメラパスのみ解除）
+  useEffect(() => {
+    if (!cameraPath) return;
+    setCameraPath(cameraPath);
+    return () => {
+      cameraPathRef.current = null;
+    };
+  }, [cameraPath, setCameraPath]);
 
   // 初期設定
   useEffect(() => {
@@ -464,6 +620,12 @@ const CameraController = forwardRef<CameraControlAPI, CameraControllerProps>(({
         setCameraView('side');
       } else if (key === '4') {
         setCameraView('ortho');
+      } else if (key === '5') {
+        setCameraView('chase');
+      } else if (key === '6') {
+        setCameraView('firstPerson');
+      } else if (key === '7') {
+        setCameraView('tracking');
       } else if (key === 'o') {
         // Oキーで直交投影モードと透視投影モードを切り替え
         toggleCameraProjection();
@@ -474,11 +636,11 @@ const CameraController = forwardRef<CameraControlAPI, CameraControllerProps>(({
     return () => window.removeEventListener('keydown', handleKeyDown);
   }, [resetCamera, setCameraView, toggleCameraProjection]);
 
-  // ターゲット座標のZ値を0に固定するためのハンドラ
+  // ターゲット座標のZ値を注視点の高さ（通常は0、適用したカメラの状態ではその注視点の高さ）に固定するためのハンドラ
   const handleControlChange = useCallback(() => {
     const currentControls = controlsRef.current;
     if (currentControls && 'target' in currentControls) {
-      (currentControls as any).target.z = 0;
+      (currentControls as any).target.z = targetZRef.current;
     }
   }, []);
 
@@ -486,6 +648,7 @@ const CameraController = forwardRef<CameraControlAPI, CameraControllerProps>(({
     <OrbitControls 
       ref={controlsRef} 
       onChange={handleControlChange}
+      onStart={handleControlStart}
       makeDefault
       enableRotate={!isOrtho} // 直交投影カメラの場合、回転を無効化
     />
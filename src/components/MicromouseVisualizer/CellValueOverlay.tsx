@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import { useData } from '../../providers/DataProvider';
+import { CELL_SIZE, FLOOR_THICKNESS } from '../../config/constants';
+import { getMazeDimensions } from '../../utils/mazeGeometry';
+import { Colormap, valueToColor } from '../../utils/colormap';
+
+/**
+ * セルごとの値
+ * values[y][x] 形式の2次元配列、またはセル座標から値を返す関数
+ * null・undefined・NaN・Infinityのセルは表示しない
+ */
+export type CellValueSource =
+  | ArrayLike<ArrayLike<number | null | undefined>>
+  | ((x: number, y: number) => number | null | undefined);
+
+// CellValueOverlayのProps定義
+export interface CellValueOverlayProps {
+  values: CellValueSource;        // セルごとの値（配列の中身を書き換えた場合も毎フレーム反映される）
+  width?: number;                 // 表示するマス数（横）（省略時は迷路のサイズ）
+  height?: number;                // 表示するマス数（縦）（省略時は迷路のサイズ）
+  colormap?: Colormap;            // カラーマップ
+  range?: [number, number];       // 色を割り当てる値の範囲（省略時は有限値の最小・最大）
+  showValues?: boolean;           // 数値を表示するかどうか
+  formatValue?: (value: number) => string; // 数値の表示形式
+  textColor?: string;             // 数値の色
+  opacity?: number;               // タイルの透明度
+  scale?: number;                 // タイルのサイズ比率 (0-1)
+  elevation?: number;             // 床からの高さオフセット
+  pixelsPerCell?: number;         // 数値を描画するテクスチャの1マスあたりの解像度
+}
+
+// 数値のデフォルト表示形式（整数はそのまま、それ以外は小数点以下1桁）
+const defaultFormatValue = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+// 値を読み出す（表示しないセルはNaN）
+const readValue = (values: CellValueSource, x: number, y: number): number => {
+  const value = typeof values === 'function' ? values(x, y) : values[y]?.[x];
+  return typeof value === 'number' && Number.isFinite(value) ? value : NaN;
+};
+
+/**
+ * セルごとの数値（歩数マップなど）をヒートマップと数値で表示するコンポーネント
+ * タイルは1つのInstancedMesh、数値は迷路全体を覆う1枚のテクスチャに描画する
+ * 値はuseFrameで毎フレーム読み出し、変化があった場合のみThree.jsオブジェクトを直接更新する
+ */
+const CellValueOverlay: React.FC<CellValueOverlayProps> = ({
+  values,
+  width,
+  height,
+  colormap = 'viridis',
+  range,
+  showValues = true,
+  formatValue = defaultFormatValue,
+  textColor = '#ffffff',
+  opacity = 0.6,
+  scale = 0.9,
+  elevation = 0.0015,
+  pixelsPerCell = 64,
+}) => {
+  const mazeData = useData((state) => state.mazeData);
+
+  // 表示範囲のマス数（指定値 → 迷路のサイズ → 配列のサイズの順に決定）
+  const mazeDimensions = mazeData ? getMazeDimensions(mazeData) : null;
+  const gridWidth = width ?? mazeDimensions?.width
+    ?? (typeof values === 'function' ? 0 : Math.max(0, ...Array.from(values, (row) => row?.length ?? 0)));
+  const gridHeight = height ?? mazeDimensions?.height
+    ?? (typeof values === 'function' ? 0 : values.length);
+  const cellCount = gridWidth * gridHeight;
+
+  // 毎フレーム参照する最新のprops
+  const propsRef = useRef({ values, colormap, range, showValues, formatValue, textColor, scale });
+  propsRef.current = { values, colormap, range, showValues, formatValue, textColor, scale };
+
+  // 前回描画した値（変化の検出用）
+  const lastValuesRef = useRef<Float64Array>(new Float64Array(0));
+  const dirtyRef = useRef(true);
+
+  // propsの変更時は値が同じでも再描画する
+  useEffect(() => {
+    dirtyRef.current = true;
+  }, [values, colormap, range, showValues, formatValue, textColor, scale, gridWidth, gridHeight]);
+
+  // 作成時の透明度（以降の変更はマテリアルを直接更新するため、タイルは作り直さない）
+  const opacityRef = useRef(opacity);
+  opacityRef.current = opacity;
+
+  // タイル用のInstancedMesh
+  const tiles = useMemo(() => {
+    const geometry = new THREE.PlaneGeometry(CELL_SIZE, CELL_SIZE);
+    const material = new THREE.MeshBasicMaterial({
+      transparent: true,
+      opacity: opacityRef.current,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    });
+    const mesh = new THREE.InstancedMesh(geometry, material, Math.max(cellCount, 1));
+    // インスタンスカラーを有効にするため、初期色を設定しておく
+    const white = new THREE.Color('#ffffff');
+    for (let i = 0; i < Math.max(cellCount, 1); i++) {
+      mesh.setColorAt(i, white);
+    }
+    mesh.count = cellCount;
+    mesh.frustumCulled = false;
+    return mesh;
+  }, [cellCount]);
+
+  // 数値用のキャンバステクスチャ
+  const label = useMemo(() => {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, gridWidth * pixelsPerCell);
+    canvas.height = Math.max(1, gridHeight * pixelsPerCell);
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.anisotropy = 4;
+    const material = new THREE.MeshBasicMaterial({
+      map: texture,
+      transparent: true,
+      depthWrite: false,
+      side: THREE.DoubleSide,
+    });
+    const geometry = new THREE.PlaneGeometry(gridWidth * CELL_SIZE, gridHeight * CELL_SIZE);
+    return { canvas, texture, material, geometry };
+  }, [gridWidth, gridHeight, pixelsPerCell]);
+
+  // 透明度の変更を反映
+  useEffect(() => {
+    (tiles.material as THREE.MeshBasicMaterial).opacity = opacity;
+  }, [tiles, opacity]);
+
+  // オブジェクト再作成時は必ず再描画し、不要になったリソースを破棄する
+  useEffect(() => {
+    dirtyRef.current = true;
+    return () => {
+      tiles.geometry.dispose();
+      (tiles.material as THREE.Material).dispose();
+      tiles.dispose();
+    };
+  }, [tiles]);
+
+  useEffect(() => {
+    dirtyRef.current = true;
+    return () => {
+      label.texture.dispose();
+      label.material.dispose();
+      label.geometry.dispose();
+    };
+  }, [label]);
+
+  // 毎フレーム値を読み出し、変化があればタイルと数値を更新
+  useFrame(() => {
+    if (cellCount === 0) return;
+    const props = propsRef.current;
+
+    // 値を読み出して前回との差分を確認
+    if (lastValuesRef.current.length !== cellCount) {
+      lastValuesRef.current = new Float64Array(cellCount).fill(NaN);
+      dirtyRef.current = true;
+    }
+    const lastValues = lastValuesRef.current;
+    let changed = dirtyRef.current;
+    let min = Infinity;
+    let max = -Infinity;
+    for (let y = 0; y < gridHeight; y++) {
+      for (let x = 0; x < gridWidth; x++) {
+        const index = y * gridWidth + x;
+        const value = readValue(props.values, x, y);
+        if (!Object.is(value, lastValues[index])) {
+          lastValues[index] = value;
+          changed = true;
+        }
+        if (!Number.isNaN(value)) {
+          min = Math.min(min, value);
+          max = Math.max(max, value);
+        }
+      }
+    }
+    if (!changed) return;
+    dirtyRef.current = false;
+
+    const valueRange: [number, number] = props.range ?? (min <= max ? [min, max] : [0, 1]);
+
+    // タイルの位置と色を更新
+    const matrix = new THREE.Matrix4();
+    const color = new THREE.Color();
+    const z = FLOOR_THICKNESS / 2 + elevation;
+    for (let index = 0; index < cellCount; index++) {
+      const x = index % gridWidth;
+      const y = Math.floor(index / gridWidth);
+      const value = lastValues[index];
+      if (Number.isNaN(value)) {
+        // 表示しないセルはスケール0にする
+        matrix.makeScale(0, 0, 0);
+      } else {
+        matrix.makeScale(props.scale, props.scale, 1);
+        matrix.setPosition(x * CELL_SIZE + CELL_SIZE / 2, y * CELL_SIZE + CELL_SIZE / 2, z);
+        const [r, g, b] = valueToColor(props.colormap, value, valueRange);
+        tiles.setColorAt(index, color.setRGB(r, g, b));
+      }
+      tiles.setMatrixAt(index, matrix);
+    }
+    tiles.instanceMatrix.needsUpdate = true;
+    if (tiles.instanceColor) {
+      tiles.instanceColor.needsUpdate = true;
+    }
+
+    // 数値をテクスチャに描画（キャンバスのY軸は下向きなので上下を反転）
+    const context = label.canvas.getContext('2d');
+    if (!context) return;
+    context.clearRect(0, 0, label.canvas.width, label.canvas.height);
+    if (props.showValues) {
+      context.fillStyle = props.textColor;
+      context.textAlign = 'center';
+      context.textBaseline = 'middle';
+      for (let index = 0; index < cellCount; index++) {
+        const value = lastValues[index];
+        if (Number.isNaN(value)) continue;
+        const text = props.formatValue(value);
+        const x = index % gridWidth;
+        const y = Math.floor(index / gridWidth);
+        // 文字数に応じてフォントサイズを調整し、セルからはみ出さないようにする
+        const fontSize = Math.min(pixelsPerCell * 0.5, (pixelsPerCell * 0.9) / Math.max(1, text.length * 0.6));
+        context.font = `${Math.floor(fontSize)}px sans-serif`;
+        context.fillText(text, (x + 0.5) * pixelsPerCell, (gridHeight - y - 0.5) * pixelsPerCell);
+      }
+    }
+    label.texture.needsUpdate = true;
+  });
+
+  if (cellCount === 0) {
+    return null;
+  }
+
+  return (
+    <group>
+      <primitive object={tiles} />
+      {showValues && (
+        <mesh
+          geometry={label.geometry}
+          material={label.material}
+          position={[gridWidth * CELL_SIZE / 2, gridHeight * CELL_SIZE / 2, FLOOR_THICKNESS / 2 + elevation + 0.0005]}
+        />
+      )}
+    </group>
+  );
+};
+
+export default CellValueOverlay;
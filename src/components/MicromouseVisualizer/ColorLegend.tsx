@@ -0,0 +1,119 @@
+import React, { useMemo } from 'react';
+import { useData } from '../../providers/DataProvider';
+import { Colormap, computeValueRange, rgbToCss, sampleColormap } from '../../utils/colormap';
+import { getTrajectoryValues, TrajectoryColorBy } from '../../utils/trajectory';
+
+// ColorLegendのProps
+export interface ColorLegendProps {
+  colormap?: Colormap;            // カラーマップ（TrajectoryPathと同じものを指定）
+  range?: [number, number];       // 値の範囲（省略時はcolorByの値の軌道全体の最小・最大）
+  colorBy?: TrajectoryColorBy;    // 範囲を求める値（rangeを省略した場合に使用）
+  mouseId?: string;               // 複数マウス表示時のマウスID（指定した場合はそのマウスの軌道から範囲を求める）
+  label?: string;                 // 凡例のラベル（省略時はcolorByから決定）
+  ticks?: number;                 // 目盛りの数
+  formatValue?: (value: number) => string; // 目盛りの値の表示形式
+  width?: number;                 // カラーバーの幅[px]
+  barHeight?: number;             // カラーバーの高さ[px]
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// カラーバーのグラデーションの分割数
+const GRADIENT_STOPS = 16;
+
+// colorByから凡例のラベルを決める
+const defaultLabel = (colorBy?: TrajectoryColorBy): string | undefined => {
+  if (colorBy === undefined) return undefined;
+  if (colorBy === 'speed') return '速度 [m/s]';
+  if (colorBy === 'angularVelocity') return '角速度 [rad/s]';
+  return colorBy.channel;
+};
+
+/**
+ * 色分け表示の凡例を表示するコンポーネント
+ * Canvasの外（DOM）に配置し、TrajectoryPathのcolorByと同じ値・カラーマップを指定する
+ */
+const ColorLegend: React.FC<ColorLegendProps> = ({
+  colormap = 'turbo',
+  range,
+  colorBy,
+  mouseId,
+  label,
+  ticks = 5,
+  formatValue = (value) => value.toPrecision(3),
+  width = 200,
+  barHeight = 12,
+  className,
+  style,
+}) => {
+  // 範囲の指定がない場合は軌道の値から求める
+  const mainTrajectoryProfile = useData((state) => state.trajectoryProfile);
+  const mouseEntry = useData((state) => (mouseId !== undefined ? state.mice.get(mouseId) : undefined));
+  const trajectoryProfile = mouseId !== undefined ? mouseEntry?.trajectoryProfile : mainTrajectoryProfile;
+  // オブジェクトの指定でも毎回再計算しないように、値の種類とチャンネル名に分けて比較する
+  const colorByName = typeof colorBy === 'string' ? colorBy : undefined;
+  const colorByChannel = typeof colorBy === 'object' ? colorBy.channel : undefined;
+
+  const autoRange = useMemo((): [number, number] => {
+    const valueSource: TrajectoryColorBy | undefined = colorByChannel !== undefined ? { channel: colorByChannel } : colorByName;
+    if (range || !valueSource || !trajectoryProfile || trajectoryProfile.size === 0) return [0, 1];
+    const sortedTimes = Array.from(trajectoryProfile.keys()).sort((a, b) => a - b);
+    return computeValueRange(getTrajectoryValues(trajectoryProfile, sortedTimes, valueSource));
+  }, [range, trajectoryProfile, colorByName, colorByChannel]);
+  const [min, max] = range ?? autoRange;
+
+  // カラーバーのグラデーション
+  const gradient = useMemo(() => {
+    const stops: string[] = [];
+    for (let i = 0; i <= GRADIENT_STOPS; i++) {
+      const t = i / GRADIENT_STOPS;
+      stops.push(`${rgbToCss(sampleColormap(colormap, t))} ${(t * 100).toFixed(1)}%`);
+    }
+    return `linear-gradient(to right, ${stops.join(', ')})`;
+  }, [colormap]);
+
+  // 目盛りの値
+  const tickValues = useMemo(() => {
+    const count = Math.max(2, Math.floor(ticks));
+    return Array.from({ length: count }, (_, i) => min + ((max - min) * i) / (count - 1));
+  }, [min, max, ticks]);
+
+  const legendLabel = label ?? defaultLabel(colorBy);
+
+  return (
+    <div
+      className={className}
+      style={{
+        display: 'inline-block',
+        padding: '6px 8px',
+        background: 'rgba(0, 0, 0, 0.6)',
+        borderRadius: '4px',
+        color: '#ffffff',
+        fontSize: '11px',
+        fontFamily: 'Arial, sans-serif',
+        userSelect: 'none',
+        ...style,
+      }}
+    >
+      {legendLabel && <div style={{ marginBottom: '4px' }}>{legendLabel}</div>}
+      <div style={{ width, height: barHeight, background: gradient, borderRadius: '2px' }} />
+      <div style={{ position: 'relative', width, height: '14px', marginTop: '2px' }}>
+        {tickValues.map((value, i) => (
+          <span
+            key={i}
+            style={{
+              position: 'absolute',
+              left: `${(i / (tickValues.length - 1)) * 100}%`,
+              transform: i === 0 ? 'none' : i === tickValues.length - 1 ? 'translateX(-100%)' : 'translateX(-50%)',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {formatValue(value)}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ColorLegend;
@@ -0,0 +1,83 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { useData, useSharedTrajectoryAnimation } from '../../providers/DataProvider';
+import {
+  ExplorationState,
+  applyExplorationEvents,
+  countExplorationEventsUntil,
+  createExplorationState,
+  filterValidExplorationEvents,
+} from '../../utils/exploration';
+
+/**
+ * 探索イベントを軌跡アニメーションの現在時刻に同期させるコンポーネント
+ * 再生による時刻の進行だけでなく、シークによる巻き戻しにも追従して
+ * 壁の既知状態と訪問済みセルをその時刻の状態に更新する
+ * 迷路の範囲外のセルを指すイベントは適用せずに読み飛ばし、イベントが空になった場合は探索開始前の状態に戻す
+ * このコンポーネントはCanvasの中に配置する必要があります
+ */
+const ExplorationReplayController: React.FC = () => {
+  const mazeData = useData((state) => state.mazeData);
+  const explorationEvents = useData((state) => state.explorationEvents);
+  const setWallKnowledge = useData((state) => state.setWallKnowledge);
+  const setVisitedCells = useData((state) => state.setVisitedCells);
+  const resetWallKnowledge = useData((state) => state.resetWallKnowledge);
+
+  // 高性能アニメーション用のref管理（共有）
+  const { currentTimeRef } = useSharedTrajectoryAnimation();
+
+  // 適用済みのイベント数とその時点の状態
+  const appliedCountRef = useRef<number>(-1);
+  const stateRef = useRef<ExplorationState | null>(null);
+
+  // 迷路に適用できるイベント（範囲外のセルを指すイベントを除く）
+  const events = useMemo(
+    () => (mazeData ? filterValidExplorationEvents(explorationEvents, mazeData) : []),
+    [mazeData, explorationEvents]
+  );
+
+  // 迷路やイベントが変更された場合は最初から再構築する
+  // 再生中の状態を反映した後にイベントが空になった場合は、壁の既知状態と訪問済みセルを初期状態に戻す
+  useEffect(() => {
+    if (stateRef.current && events.length === 0) {
+      if (mazeData) {
+        resetWallKnowledge();
+      } else {
+        setWallKnowledge(null);
+      }
+      setVisitedCells([]);
+    }
+    appliedCountRef.current = -1;
+    stateRef.current = null;
+  }, [mazeData, events, resetWallKnowledge, setWallKnowledge, setVisitedCells]);
+
+  useFrame(() => {
+    if (!mazeData || events.length === 0) {
+      return;
+    }
+
+    const count = countExplorationEventsUntil(events, currentTimeRef.current);
+
+    // 適用済みのイベント数が変わっていなければ更新不要
+    if (count === appliedCountRef.current) {
+      return;
+    }
+
+    // 時刻が進んだ場合は差分のみ適用し、戻った場合は初期状態から再構築する
+    const state = stateRef.current && count > appliedCountRef.current
+      ? applyExplorationEvents(stateRef.current, events, appliedCountRef.current, count)
+      : applyExplorationEvents(createExplorationState(mazeData), events, 0, count);
+
+    stateRef.current = state;
+    appliedCountRef.current = count;
+
+    // 変化があった場合のみZustandを更新（Mazeの再描画はイベント発生時のみ）
+    setWallKnowledge(state.wallKnowledge);
+    setVisitedCells(state.visitedCells);
+  });
+
+  // このコンポーネントは何もレンダリングしない
+  return null;
+};
+
+export default ExplorationReplayController;
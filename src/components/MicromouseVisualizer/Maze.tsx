@@ -1,22 +1,53 @@
 import React from 'react';
 import * as THREE from 'three';
-import { MazeData } from '../../types';
+import { Instances, Instance } from '@react-three/drei';
+import { CellPosition, MazeData, WallKnowledge, WallKnowledgeState } from '../../types';
 import {
   CELL_SIZE,
   FLOOR_THICKNESS,
 } from '../../config/constants';
 import Wall, { WallInstances } from './Wall';
 import { PillarInstances } from './Pillar';
+import { getMazeDimensions } from '../../utils/mazeGeometry';
+import { isWallKnowledgeCompatible } from '../../utils/wallKnowledge';
 
-// 迷路描画コンポーネント
-const Maze: React.FC<{ mazeData: MazeData }> = ({ mazeData }) => {
-  const { size, walls } = mazeData;
-  const mazeWidth = size * CELL_SIZE;
-  const mazeDepth = size * CELL_SIZE; // Y方向のサイズだが変数名はDepthのまま
+// MazeのProps定義
+export interface MazeProps {
+  mazeData: MazeData;
+  wallKnowledge?: WallKnowledge | null; // 壁の既知状態（指定した場合は既知状態に応じて壁の表示を切り替える）
+  unknownWallOpacity?: number;          // 未確認の壁（実際には存在する壁）の透明度
+  absentWallColor?: string;             // 壁なし確認済みを示す床の目印の色
+  visitedCells?: CellPosition[];        // 訪問済みのセル（床を着色して表示）
+  visitedCellColor?: string;            // 訪問済みのセルの色
+}
+
+// 壁の配置情報
+interface WallConfig {
+  position: [number, number, number];
+  rotation: [number, number, number];
+}
+
+/**
+ * 迷路描画コンポーネント
+ * 壁の既知状態が指定された場合は、壁あり確認済みの壁を通常表示、未確認の壁を半透明表示、
+ * 壁なし確認済みの区画境界を床の目印で表示する
+ */
+const Maze: React.FC<MazeProps> = ({
+  mazeData,
+  wallKnowledge,
+  unknownWallOpacity = 0.2,
+  absentWallColor = '#44cc66',
+  visitedCells,
+  visitedCellColor = '#2a4a6a',
+}) => {
+  const { walls } = mazeData;
+  const { width, height } = getMazeDimensions(mazeData);
+  const mazeWidth = width * CELL_SIZE;
+  const mazeDepth = height * CELL_SIZE; // Y方向のサイズだが変数名はDepthのまま
 
   // 床 (X-Y平面に配置) - 迷路全体に加えて全方向に1マスずつ大きくする
-  const extendedMazeWidth = (size + 2) * CELL_SIZE; // 横方向に両側1マスずつ拡張
-  const extendedMazeDepth = (size + 2) * CELL_SIZE; // 縦方向に両側1マスずつ拡張
+  const extendedMazeWidth = (width + 2) * CELL_SIZE; // 横方向に両側1マスずつ拡張
+  const extendedMazeDepth = (height + 2) * CELL_SIZE; // 縦方向に両側1マスずつ拡張
 
   // 床の位置を調整 - 原点が左下のまま床全体が広がるように
   const floorPosX = mazeWidth / 2; // 元の迷路の中心X座標
@@ -29,48 +60,63 @@ const Maze: React.FC<{ mazeData: MazeData }> = ({ mazeData }) => {
     </mesh>
   );
 
-  // 壁の情報を収集
-  const wallConfigs = [];
+  // 壁の既知状態（迷路のサイズと一致しない場合は使用しない）
+  const knowledge = wallKnowledge && isWallKnowledgeCompatible(wallKnowledge, mazeData) ? wallKnowledge : null;
+
+  // 壁の情報を既知状態ごとに収集
+  const wallConfigs: WallConfig[] = [];        // 壁あり（既知状態がない場合は実際の壁）
+  const unknownWallConfigs: WallConfig[] = []; // 未確認だが実際には存在する壁
+  const absentWallConfigs: WallConfig[] = [];  // 壁なし確認済み
+
+  const classifyWall = (exists: boolean, state: WallKnowledgeState | undefined, config: WallConfig) => {
+    if (!knowledge) {
+      if (exists) wallConfigs.push(config);
+      return;
+    }
+    if (state === 'present') {
+      wallConfigs.push(config);
+    } else if (state === 'absent') {
+      absentWallConfigs.push(config);
+    } else if (exists) {
+      unknownWallConfigs.push(config);
+    }
+  };
 
   // 垂直壁 (vwall[y][x] はマス(x,y)の左の壁 = X軸に平行な壁)
-  for (let y = 0; y < size; y++) {
-    // xは0からsizeまで（size+1列）
-    for (let x = 0; x < size + 1; x++) {
-      if (walls.vwall[y]?.[x]) { // 存在チェック
-        // 壁の中心座標を計算（オフセットなし）
-        const posX = x * CELL_SIZE; // X座標（グリッドライン上）
-        const posY = y * CELL_SIZE + CELL_SIZE / 2; // Y座標（セルの中心）
-
-        wallConfigs.push({
-          position: [posX, posY, 0] as [number, number, number],
-          rotation: [0, Math.PI / 2, 0] as [number, number, number], // 垂直壁は90度回転
-        });
-      }
+  for (let y = 0; y < height; y++) {
+    // xは0からwidthまで（width+1列）
+    for (let x = 0; x < width + 1; x++) {
+      // 壁の中心座標を計算（オフセットなし）
+      const posX = x * CELL_SIZE; // X座標（グリッドライン上）
+      const posY = y * CELL_SIZE + CELL_SIZE / 2; // Y座標（セルの中心）
+
+      classifyWall(Boolean(walls.vwall[y]?.[x]), knowledge?.vwall[y][x], {
+        position: [posX, posY, 0],
+        rotation: [0, Math.PI / 2, 0], // 垂直壁は90度回転
+      });
     }
   }
 
   // 水平壁 (hwall[y][x] はマス(x,y)の上の壁 = Y軸に平行な壁)
-  // yは0からsizeまで（size+1行）
-  for (let y = 0; y < size + 1; y++) {
-    for (let x = 0; x < size; x++) {
-      if (walls.hwall[y]?.[x]) { // 存在チェック
-        // 壁の中心座標を計算（オフセットなし）
-        const posX = x * CELL_SIZE + CELL_SIZE / 2; // X座標（セルの中心）
-        const posY = y * CELL_SIZE; // Y座標（グリッドライン上）
-
-        wallConfigs.push({
-          position: [posX, posY, 0] as [number, number, number],
-          rotation: [0, 0, 0] as [number, number, number], // 水平壁は回転なし
-        });
-      }
+  // yは0からheightまで（height+1行）
+  for (let y = 0; y < height + 1; y++) {
+    for (let x = 0; x < width; x++) {
+      // 壁の中心座標を計算（オフセットなし）
+      const posX = x * CELL_SIZE + CELL_SIZE / 2; // X座標（セルの中心）
+      const posY = y * CELL_SIZE; // Y座標（グリッドライン上）
+
+      classifyWall(Boolean(walls.hwall[y]?.[x]), knowledge?.hwall[y][x], {
+        position: [posX, posY, 0],
+        rotation: [0, 0, 0], // 水平壁は回転なし
+      });
     }
   }
 
   // 柱の位置情報を収集
   const pillarPositions: [number, number, number][] = [];
-  // 柱は (size + 1) x (size + 1) 個配置される
-  for (let y = 0; y < size + 1; y++) {
-    for (let x = 0; x < size + 1; x++) {
+  // 柱は (width + 1) x (height + 1) 個配置される
+  for (let y = 0; y < height + 1; y++) {
+    for (let x = 0; x < width + 1; x++) {
       // 柱の中心座標を計算（オフセットなし）
       const posX = x * CELL_SIZE; // X座標（グリッドライン上）
       const posY = y * CELL_SIZE; // Y座標（グリッドライン上）
@@ -81,16 +127,71 @@ const Maze: React.FC<{ mazeData: MazeData }> = ({ mazeData }) => {
   return (
     <group>
       {floor}
+      {visitedCells && visitedCells.length > 0 && (
+        <VisitedCellMarkers
+          key={`visited-cells-${visitedCells.length}`}
+          cells={visitedCells}
+          color={visitedCellColor}
+        />
+      )}
       <WallInstances 
-        key={`walls-${size}-${wallConfigs.length}`}
+        key={`walls-${width}x${height}-${wallConfigs.length}`}
         walls={wallConfigs} 
       />
+      {unknownWallConfigs.length > 0 && (
+        <WallInstances
+          key={`unknown-walls-${width}x${height}-${unknownWallConfigs.length}`}
+          walls={unknownWallConfigs}
+          opacity={unknownWallOpacity}
+        />
+      )}
+      {absentWallConfigs.length > 0 && (
+        <AbsentWallMarkers
+          key={`absent-walls-${width}x${height}-${absentWallConfigs.length}`}
+          walls={absentWallConfigs}
+          color={absentWallColor}
+        />
+      )}
       <PillarInstances 
-        key={`pillars-${size}-${pillarPositions.length}`}
+        key={`pillars-${width}x${height}-${pillarPositions.length}`}
         positions={pillarPositions} 
       />
     </group>
   );
 };
 
+/**
+ * 壁なし確認済みの区画境界に、床の上の短い線を目印として描画するコンポーネント
+ */
+const AbsentWallMarkers: React.FC<{ walls: WallConfig[]; color: string }> = ({ walls, color }) => (
+  <Instances limit={Math.max(walls.length, 1)} range={walls.length}>
+    <boxGeometry args={[CELL_SIZE * 0.4, CELL_SIZE * 0.04, 0.0005]} />
+    <meshBasicMaterial color={color} transparent opacity={0.8} />
+    {walls.map((wall, i) => (
+      <Instance
+        key={`absent-wall-${i}`}
+        position={[wall.position[0], wall.position[1], FLOOR_THICKNESS / 2 + 0.0005]}
+        // 垂直壁の目印はY軸方向に向ける
+        rotation={[0, 0, wall.rotation[1] !== 0 ? Math.PI / 2 : 0]}
+      />
+    ))}
+  </Instances>
+);
+
+/**
+ * 訪問済みのセルの床を着色するコンポーネント
+ */
+const VisitedCellMarkers: React.FC<{ cells: CellPosition[]; color: string }> = ({ cells, color }) => (
+  <Instances limit={Math.max(cells.length, 1)} range={cells.length}>
+    <planeGeometry args={[CELL_SIZE * 0.96, CELL_SIZE * 0.96]} />
+    <meshBasicMaterial color={color} transparent opacity={0.6} />
+    {cells.map((cell, i) => (
+      <Instance
+        key={`visited-cell-${i}`}
+        position={[cell.x * CELL_SIZE + CELL_SIZE / 2, cell.y * CELL_SIZE + CELL_SIZE / 2, 0.0002]}
+      />
+    ))}
+  </Instances>
+);
+
 export default Maze;
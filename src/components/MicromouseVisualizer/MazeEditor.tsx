@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { useData } from '../../providers/DataProvider';
+import { CELL_SIZE } from '../../config/constants';
+import type { CellPosition } from '../../types';
+import { getMazeDimensions } from '../../utils/mazeGeometry';
+import { isBorderWall } from '../../utils/mazeEditor';
+import { getCellAtPosition, MazeCellPick, MazePillarPick, MazeWallPick } from '../../utils/mazePicking';
+import MazeInteraction from './MazeInteraction';
+import CellMarker from './CellMarker';
+
+// MazeEditorのProps
+export interface MazeEditorProps {
+  allowBorderEdit?: boolean;          // 外周の壁の切り替えを許可するかどうか
+  showStartGoal?: boolean;            // スタート・ゴールのマーカー表示の有効/無効
+  startColor?: string;                // スタートのマーカーの色
+  goalColor?: string;                 // ゴールのマーカーの色
+  hoverColor?: string;                // ポインタが指す区画のマーカーの色
+  enableKeyboardShortcuts?: boolean;  // Ctrl/Cmd+Zで元に戻す、Ctrl/Cmd+Shift+Z・Ctrl+Yでやり直す
+  wallPickWidth?: number;             // 床の上で壁と判定する境界線まわりの幅[m]
+  onCellClick?: (pick: MazeCellPick, event: MouseEvent) => void;         // 区画をクリックした時（編集の後に呼ばれる）
+  onCellHover?: (pick: MazeCellPick | null, event: PointerEvent) => void; // ポインタが指す区画が変わった時
+  onWallClick?: (pick: MazeWallPick, event: MouseEvent) => void;         // 壁をクリックした時（編集の後に呼ばれる）
+  onPillarClick?: (pick: MazePillarPick, event: MouseEvent) => void;     // 柱をクリックした時
+}
+
+// キー入力を受け付ける要素かどうか（入力中のテキストの取り消しと区別する）
+const isEditableTarget = (target: EventTarget | null): boolean =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * 迷路の編集モードのコンポーネント
+ * 壁（区画の境界線）のクリックで壁の有無を切り替え、Shift+クリックでスタート、Shift+Alt+クリックでゴールを設定する
+ * 編集はすべてDataProviderのストアを通して行うため、他のコンポーネントにも即座に反映され、元に戻す・やり直すことができる
+ */
+const MazeEditor: React.FC<MazeEditorProps> = ({
+  allowBorderEdit = false,
+  showStartGoal = true,
+  startColor = '#33cc66',
+  goalColor = '#ff5577',
+  hoverColor = '#ffcc00',
+  enableKeyboardShortcuts = true,
+  wallPickWidth = CELL_SIZE * 0.25,
+  onCellClick,
+  onCellHover,
+  onWallClick,
+  onPillarClick,
+}) => {
+  // DataProviderからデータとアクションを取得
+  const mazeData = useData((state) => state.mazeData);
+  const toggleWall = useData((state) => state.toggleWall);
+  const setStartCell = useData((state) => state.setStartCell);
+  const toggleGoalCell = useData((state) => state.toggleGoalCell);
+  const undoMazeEdit = useData((state) => state.undoMazeEdit);
+  const redoMazeEdit = useData((state) => state.redoMazeEdit);
+
+  // ポインタが指している区画
+  const [hoveredCell, setHoveredCell] = useState<CellPosition | null>(null);
+
+  // キーボードショートカット（元に戻す・やり直す）
+  useEffect(() => {
+    if (!enableKeyboardShortcuts) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!event.key || !(event.ctrlKey || event.metaKey) || isEditableTarget(event.target)) return;
+
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        undoMazeEdit();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        redoMazeEdit();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enableKeyboardShortcuts, undoMazeEdit, redoMazeEdit]);
+
+  if (!mazeData) {
+    return null;
+  }
+
+  const dimensions = getMazeDimensions(mazeData);
+
+  // Shift+クリックは指している点を含む区画をスタート（Altを併用した場合はゴール）にする
+  const handleShiftClick = (point: [number, number, number], event: MouseEvent) => {
+    const cell = getCellAtPosition(point[0], point[1], dimensions);
+    if (!cell) return;
+    if (event.altKey) {
+      toggleGoalCell(cell);
+    } else {
+      setStartCell(cell);
+    }
+  };
+
+  const handleCellClick = (pick: MazeCellPick, event: MouseEvent) => {
+    if (event.shiftKey) {
+      handleShiftClick(pick.point, event);
+    }
+    onCellClick?.(pick, event);
+  };
+
+  const handleWallClick = (pick: MazeWallPick, event: MouseEvent) => {
+    if (event.shiftKey) {
+      handleShiftClick(pick.point, event);
+    } else if (allowBorderEdit || !isBorderWall(pick.wall, dimensions)) {
+      toggleWall(pick.wall);
+    }
+    onWallClick?.(pick, event);
+  };
+
+  const handlePillarClick = (pick: MazePillarPick, event: MouseEvent) => {
+    if (event.shiftKey) {
+      handleShiftClick(pick.point, event);
+    }
+    onPillarClick?.(pick, event);
+  };
+
+  const handleCellHover = (pick: MazeCellPick | null, event: PointerEvent) => {
+    setHoveredCell(pick ? pick.cell : null);
+    onCellHover?.(pick, event);
+  };
+
+  return (
+    <group>
+      <MazeInteraction
+        mazeData={mazeData}
+        wallPickWidth={wallPickWidth}
+        onCellClick={handleCellClick}
+        onCellHover={handleCellHover}
+        onWallClick={handleWallClick}
+        onPillarClick={handlePillarClick}
+      />
+
+      {/* スタート・ゴールのマーカー */}
+      {showStartGoal && (
+        <>
+          <CellMarker cell={mazeData.start} color={startColor} opacity={0.8} scale={0.6} type="circle" />
+          {mazeData.goal.map((cell, index) => (
+            <CellMarker key={`editor-goal-${index}`} cell={cell} color={goalColor} opacity={0.6} scale={0.7} />
+          ))}
+        </>
+      )}
+
+      {/* ポインタが指している区画 */}
+      {hoveredCell && (
+        <CellMarker cell={hoveredCell} color={hoverColor} opacity={0.25} scale={0.95} height={0.0015} />
+      )}
+    </group>
+  );
+};
+
+export default MazeEditor;
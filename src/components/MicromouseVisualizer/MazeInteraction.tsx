@@ -0,0 +1,111 @@
+import React, { useRef } from 'react';
+import { ThreeEvent } from '@react-three/fiber';
+import { useData } from '../../providers/DataProvider';
+import { CELL_SIZE, WALL_THICKNESS } from '../../config/constants';
+import type { MazeData } from '../../types';
+import { getMazeDimensions } from '../../utils/mazeGeometry';
+import {
+  getCellAtPosition,
+  MazeCellPick,
+  MazePillarPick,
+  MazeWallPick,
+  pickMaze,
+} from '../../utils/mazePicking';
+
+// ドラッグ（カメラ操作）とみなすポインタの移動量[px]
+const CLICK_DRAG_THRESHOLD = 2;
+
+// MazeInteractionのProps
+export interface MazeInteractionProps {
+  mazeData?: MazeData | null;  // 判定に使用する迷路データ（省略時はDataProviderのmazeData）
+  onCellClick?: (pick: MazeCellPick, event: MouseEvent) => void;         // 区画をクリックした時
+  onCellHover?: (pick: MazeCellPick | null, event: PointerEvent) => void; // ポインタが指す区画が変わった時（迷路の外に出た場合はnull）
+  onWallClick?: (pick: MazeWallPick, event: MouseEvent) => void;         // 壁（または壁を置ける位置）をクリックした時
+  onPillarClick?: (pick: MazePillarPick, event: MouseEvent) => void;     // 柱をクリックした時
+  wallPickWidth?: number;      // 床の上で壁と判定する境界線まわりの幅[m]
+}
+
+/**
+ * 迷路の区画・壁・柱のクリックとホバーを検出するコンポーネント
+ * 床の位置に見えない平面を置いてポインタイベントを受け取り、
+ * ポインタのレイと壁・柱・床との交差を解析的に計算して指している要素を求める
+ * （透視投影・直交投影のどちらのカメラでも動作する）
+ */
+const MazeInteraction: React.FC<MazeInteractionProps> = ({
+  mazeData: propMazeData,
+  onCellClick,
+  onCellHover,
+  onWallClick,
+  onPillarClick,
+  wallPickWidth = WALL_THICKNESS,
+}) => {
+  // DataProviderからデータを取得
+  const storeMazeData = useData((state) => state.mazeData);
+  const mazeData = propMazeData ?? storeMazeData;
+
+  // 最後にホバーした区画（区画が変わった場合のみonCellHoverを呼ぶ）
+  const hoveredCellRef = useRef<string | null>(null);
+
+  if (!mazeData) {
+    return null;
+  }
+
+  const { width, height } = getMazeDimensions(mazeData);
+
+  const handleClick = (event: ThreeEvent<MouseEvent>) => {
+    // カメラ操作のドラッグの後のクリックは無視する
+    if (event.delta > CLICK_DRAG_THRESHOLD) {
+      return;
+    }
+    const pick = pickMaze(event.ray, mazeData, wallPickWidth);
+    if (!pick) {
+      return;
+    }
+    switch (pick.type) {
+      case 'cell':
+        onCellClick?.(pick, event.nativeEvent);
+        break;
+      case 'wall':
+        onWallClick?.(pick, event.nativeEvent);
+        break;
+      case 'pillar':
+        onPillarClick?.(pick, event.nativeEvent);
+        break;
+    }
+  };
+
+  const updateHover = (pick: MazeCellPick | null, event: PointerEvent) => {
+    const key = pick ? `${pick.cell.x},${pick.cell.y}` : null;
+    if (hoveredCellRef.current === key) {
+      return;
+    }
+    hoveredCellRef.current = key;
+    onCellHover?.(pick, event);
+  };
+
+  const handlePointerMove = (event: ThreeEvent<PointerEvent>) => {
+    // 壁・柱を指している場合も、その点を含む区画をホバー中の区画とする
+    const pick = pickMaze(event.ray, mazeData, wallPickWidth);
+    const cell = pick ? getCellAtPosition(pick.point[0], pick.point[1], { width, height }) : null;
+    updateHover(pick && cell ? { type: 'cell', cell, point: pick.point } : null, event.nativeEvent);
+  };
+
+  const handlePointerOut = (event: ThreeEvent<PointerEvent>) => {
+    updateHover(null, event.nativeEvent);
+  };
+
+  return (
+    // 迷路の周囲1マスまでを覆う見えない平面（床の上面 z=0 に配置）
+    <mesh
+      position={[width * CELL_SIZE / 2, height * CELL_SIZE / 2, 0]}
+      onClick={handleClick}
+      onPointerMove={onCellHover ? handlePointerMove : undefined}
+      onPointerOut={onCellHover ? handlePointerOut : undefined}
+    >
+      <planeGeometry args={[(width + 2) * CELL_SIZE, (height + 2) * CELL_SIZE]} />
+      <meshBasicMaterial visible={false} />
+    </mesh>
+  );
+};
+
+export default MazeInteraction;
@@ -3,12 +3,25 @@ import { Canvas, useFrame } from '@react-three/fiber';
 import { Line } from '@react-three/drei'; // Lineコンポーネントをインポート
 import * as THREE from 'three';
 import Stats from 'stats.js';
-import { MazeData, CameraViewPreset } from '../../types';
+import {
+  MazeData,
+  CameraBookmark,
+  CameraFollowMode,
+  CameraFollowOptions,
+  CameraKeyframe,
+  CameraState,
+  CameraTransitionOptions,
+  CameraViewPreset,
+} from '../../types';
 import { CELL_SIZE, cameraPresets } from '../../config/constants';
 import CameraController, { CameraControlAPI } from './CameraController';
 import Maze from './Maze';
+import MazeInteraction from './MazeInteraction';
+import MazeEditor from './MazeEditor';
 import CellMarker from './CellMarker';
 import { useData } from '../../providers/DataProvider';
+import { getMazeDimensions } from '../../utils/mazeGeometry';
+import { MazeCellPick, MazePillarPick, MazeWallPick } from '../../utils/mazePicking';
 
 // Stats.jsを使ったパフォーマンスモニターコンポーネント
 const PerformanceMonitor: React.FC<{ enabled: boolean }> = ({ enabled }) => {
@@ -45,16 +58,132 @@ const PerformanceMonitor: React.FC<{ enabled: boolean }> = ({ enabled }) => {
   return null;
 };
 
+// 正方形の迷路の斜めのライン（セルの中心を通る45度の線。四隅の半マス分の短い線も含めて描画する）
+const getSquareDiagonalLines = (mazeSize: number, cellSize: number): [number, number, number][] => {
+  const mazePhysicalSize = mazeSize * cellSize;
+  const allLines: [number, number, number][] = [];
+
+  // 斜め（左下から右上）のライン
+  for (let i = -1; i < 2 * mazeSize; i++) {
+    // i は対角線のインデックス（-1からスタート）
+    
+    // 対角線の開始点と終了点を計算
+    let startX, startY, endX, endY;
+    
+    if (i < mazeSize) {
+      // 左辺からスタートする対角線
+      startX = 0;
+      startY = (mazeSize - 1 - i) * cellSize + cellSize / 2; // セルの中心を通る
+      
+      // 特殊ケース: i = -1 のとき、(CELL_SIZE/2, 0)からの線を描画
+      if (i === -1) {
+        startX = cellSize / 2;
+        startY = 0;
+      }
+    } else {
+      // 下辺からスタートする対角線
+      startX = (i - mazeSize + 1) * cellSize + cellSize / 2; // セルの中心を通る
+      startY = 0;
+    }
+    
+    // 終点は迷路の端まで延長
+    const diagonal = Math.min(
+      mazePhysicalSize - startX,
+      mazePhysicalSize - startY
+    );
+    
+    endX = startX + diagonal;
+    endY = startY + diagonal;
+    
+    // 右下の角に表示される線をスキップする
+    if (i >= mazeSize && 
+        ((i === 2 * mazeSize - 1) || 
+         (startX >= (mazeSize - 1) * cellSize && startY === 0))) {
+      continue; // 右下の角付近の線はスキップ
+    }
+    
+    // 範囲チェック
+    if (startX >= 0 && startY >= 0 && endX <= mazePhysicalSize && endY <= mazePhysicalSize) {
+      // 四隅のチェック
+      if (!(startX === 0 && startY === 0) && 
+          !(endX === mazePhysicalSize && endY === mazePhysicalSize)) {
+        // 線分を追加
+        allLines.push([startX, startY, 0.001]);
+        allLines.push([endX, endY, 0.001]);
+      }
+    }
+  }
+  
+  // 斜め（右下から左上）のライン
+  for (let i = -1; i < 2 * mazeSize; i++) {
+    // i は対角線のインデックス（-1からスタート）
+    
+    // 対角線の開始点と終了点を計算
+    let startX, startY, endX, endY;
+    
+    if (i < mazeSize) {
+      // 右辺からスタートする対角線
+      startX = mazePhysicalSize;
+      startY = (mazeSize - 1 - i) * cellSize + cellSize / 2; // セルの中心を通る
+      
+      // 特殊ケース: i = -1 のとき、(0, CELL_SIZE*(size-0.5))からの線を描画
+      if (i === -1) {
+        startX = 0;
+        startY = (mazeSize - 0.5) * cellSize;
+      }
+    } else {
+      // 下辺からスタートする対角線
+      startX = mazePhysicalSize - (i - mazeSize + 1) * cellSize - cellSize / 2; // セルの中心を通る
+      startY = 0;
+    }
+    
+    // 特殊ケース: i = -1 の対応終点計算
+    if (i === -1) {
+      // (0, CELL_SIZE*(size-0.5))からの線の終点計算
+      endX = Math.min(mazePhysicalSize, startY);
+      endY = Math.max(0, startY - endX);
+    } else {
+      // 通常の終点計算
+      const diagonal = Math.min(
+        startX,
+        mazePhysicalSize - startY
+      );
+      endX = startX - diagonal;
+      endY = startY + diagonal;
+    }
+    
+    // 範囲チェック（迷路の外はスキップ）
+    if (startX >= 0 && startY >= 0 && 
+        ((i === -1 && endX <= mazePhysicalSize && endY >= 0) || 
+         (i !== -1 && endX >= 0 && endY <= mazePhysicalSize))) {
+      
+      // 範囲チェック - 迷路の四隅を超える線は描画しない
+      if (!(startX === mazePhysicalSize && startY === 0) && 
+          !(endX === 0 && endY === mazePhysicalSize) &&
+          !(startX === 0 && startY === mazePhysicalSize) && 
+          !(endX === mazePhysicalSize && endY === 0)) {
+        // 線分を追加
+        allLines.push([startX, startY, 0.001]);
+        allLines.push([endX, endY, 0.001]);
+      }
+    }
+  }
+
+  return allLines;
+};
+
 // カスタムグリッドコンポーネント
 const CustomGrid: React.FC<{
-  mazeSize: number;
+  mazeWidth: number;
+  mazeHeight: number;
   cellSize: number;
   showDiagonalLines?: boolean;
   horizontalColor?: string;
   verticalColor?: string;
   diagonalColor?: string;
 }> = ({
-  mazeSize,
+  mazeWidth,
+  mazeHeight,
   cellSize,
   showDiagonalLines = true,
   horizontalColor = '#888888',
@@ -63,134 +192,55 @@ const CustomGrid: React.FC<{
 }) => {
   // グリッドのラインを生成する関数
   const gridLines = useMemo(() => {
-    const mazePhysicalSize = mazeSize * cellSize;
+    const physicalWidth = mazeWidth * cellSize;
+    const physicalHeight = mazeHeight * cellSize;
     const lineOpacity = 0.4; // グリッド線の透明度
     
     // すべての線の点を格納する配列
     const allLines: [number, number, number][] = [];
     
     // 水平方向のライン
-    for (let i = 0; i < mazeSize; i++) {
+    for (let i = 0; i < mazeHeight; i++) {
       const y = i * cellSize + cellSize / 2; // セルの中心を通るように配置
       // 1本の線につき2点（始点と終点）
       allLines.push([0, y, 0.001]);
-      allLines.push([mazePhysicalSize, y, 0.001]);
+      allLines.push([physicalWidth, y, 0.001]);
     }
     
     // 垂直方向のライン
-    for (let i = 0; i < mazeSize; i++) {
+    for (let i = 0; i < mazeWidth; i++) {
       const x = i * cellSize + cellSize / 2; // セルの中心を通るように配置
       // 1本の線につき2点（始点と終点）
       allLines.push([x, 0, 0.001]);
-      allLines.push([x, mazePhysicalSize, 0.001]);
+      allLines.push([x, physicalHeight, 0.001]);
     }
     
     // 斜めのライン
-    if (showDiagonalLines) {
-      // 斜め（左下から右上）のライン
-      for (let i = -1; i < 2 * mazeSize; i++) {
-        // i は対角線のインデックス（-1からスタート）
-        
-        // 対角線の開始点と終了点を計算
-        let startX, startY, endX, endY;
-        
-        if (i < mazeSize) {
-          // 左辺からスタートする対角線
-          startX = 0;
-          startY = (mazeSize - 1 - i) * cellSize + cellSize / 2; // セルの中心を通る
-          
-          // 特殊ケース: i = -1 のとき、(CELL_SIZE/2, 0)からの線を描画
-          if (i === -1) {
-            startX = cellSize / 2;
-            startY = 0;
-          }
-        } else {
-          // 下辺からスタートする対角線
-          startX = (i - mazeSize + 1) * cellSize + cellSize / 2; // セルの中心を通る
-          startY = 0;
-        }
-        
-        // 終点は迷路の端まで延長
-        const diagonal = Math.min(
-          mazePhysicalSize - startX,
-          mazePhysicalSize - startY
-        );
-        
-        endX = startX + diagonal;
-        endY = startY + diagonal;
-        
-        // 右下の角に表示される線をスキップする
-        if (i >= mazeSize && 
-            ((i === 2 * mazeSize - 1) || 
-             (startX >= (mazeSize - 1) * cellSize && startY === 0))) {
-          continue; // 右下の角付近の線はスキップ
-        }
-        
-        // 範囲チェック
-        if (startX >= 0 && startY >= 0 && endX <= mazePhysicalSize && endY <= mazePhysicalSize) {
-          // 四隅のチェック
-          if (!(startX === 0 && startY === 0) && 
-              !(endX === mazePhysicalSize && endY === mazePhysicalSize)) {
-            // 線分を追加
-            allLines.push([startX, startY, 0.001]);
-            allLines.push([endX, endY, 0.001]);
-          }
-        }
+    if (showDiagonalLines && mazeWidth === mazeHeight) {
+      allLines.push(...getSquareDiagonalLines(mazeWidth, cellSize));
+    } else if (showDiagonalLines) {
+      // 長方形の迷路ではセルの中心を通る45度の線を迷路の範囲でクリップして追加する
+      // 四隅にできる半マス分の短い線は描画しない
+      const minSpan = cellSize * 0.75;
+      
+      // 斜め（左下から右上）のライン: y = x + offset
+      for (let i = -mazeWidth; i < mazeHeight; i++) {
+        const offset = i * cellSize + cellSize / 2;
+        const startX = Math.max(0, -offset);
+        const endX = Math.min(physicalWidth, physicalHeight - offset);
+        if (endX - startX < minSpan) continue;
+        allLines.push([startX, startX + offset, 0.001]);
+        allLines.push([endX, endX + offset, 0.001]);
       }
       
-      // 斜め（右下から左上）のライン
-      for (let i = -1; i < 2 * mazeSize; i++) {
-        // i は対角線のインデックス（-1からスタート）
-        
-        // 対角線の開始点と終了点を計算
-        let startX, startY, endX, endY;
-        
-        if (i < mazeSize) {
-          // 右辺からスタートする対角線
-          startX = mazePhysicalSize;
-          startY = (mazeSize - 1 - i) * cellSize + cellSize / 2; // セルの中心を通る
-          
-          // 特殊ケース: i = -1 のとき、(0, CELL_SIZE*(size-0.5))からの線を描画
-          if (i === -1) {
-            startX = 0;
-            startY = (mazeSize - 0.5) * cellSize;
-          }
-        } else {
-          // 下辺からスタートする対角線
-          startX = mazePhysicalSize - (i - mazeSize + 1) * cellSize - cellSize / 2; // セルの中心を通る
-          startY = 0;
-        }
-        
-        // 特殊ケース: i = -1 の対応終点計算
-        if (i === -1) {
-          // (0, CELL_SIZE*(size-0.5))からの線の終点計算
-          endX = Math.min(mazePhysicalSize, startY);
-          endY = Math.max(0, startY - endX);
-        } else {
-          // 通常の終点計算
-          const diagonal = Math.min(
-            startX,
-            mazePhysicalSize - startY
-          );
-          endX = startX - diagonal;
-          endY = startY + diagonal;
-        }
-        
-        // 範囲チェック（迷路の外はスキップ）
-        if (startX >= 0 && startY >= 0 && 
-            ((i === -1 && endX <= mazePhysicalSize && endY >= 0) || 
-             (i !== -1 && endX >= 0 && endY <= mazePhysicalSize))) {
-          
-          // 範囲チェック - 迷路の四隅を超える線は描画しない
-          if (!(startX === mazePhysicalSize && startY === 0) && 
-              !(endX === 0 && endY === mazePhysicalSize) &&
-              !(startX === 0 && startY === mazePhysicalSize) && 
-              !(endX === mazePhysicalSize && endY === 0)) {
-            // 線分を追加
-            allLines.push([startX, startY, 0.001]);
-            allLines.push([endX, endY, 0.001]);
-          }
-        }
+      // 斜め（右下から左上）のライン: y = -x + offset
+      for (let i = 0; i < mazeWidth + mazeHeight; i++) {
+        const offset = i * cellSize + cellSize / 2;
+        const startX = Math.max(0, offset - physicalHeight);
+        const endX = Math.min(physicalWidth, offset);
+        if (endX - startX < minSpan) continue;
+        allLines.push([startX, offset - startX, 0.001]);
+        allLines.push([endX, offset - endX, 0.001]);
       }
     }
     
@@ -205,17 +255,22 @@ const CustomGrid: React.FC<{
         segments={true} // セグメントとして描画
       />
     );
-  }, [mazeSize, cellSize, horizontalColor, verticalColor, diagonalColor, showDiagonalLines]);
+  }, [mazeWidth, mazeHeight, cellSize, horizontalColor, verticalColor, diagonalColor, showDiagonalLines]);
   
   return gridLines;
 };
 
 // --- Visualizer API型定義 ---
 export interface MicromouseVisualizerAPI {
-  setCameraView: (preset: CameraViewPreset) => void;
-  resetCamera: (preset?: CameraViewPreset) => void;
-  toggleCameraProjection: () => void;
-  zoomToRegion: (x1: number, y1: number, x2: number, y2: number) => void;
+  setCameraView: (preset: CameraViewPreset, options?: CameraTransitionOptions) => void;
+  resetCamera: (preset?: CameraViewPreset, options?: CameraTransitionOptions) => void;
+  toggleCameraProjection: (options?: CameraTransitionOptions) => void;
+  zoomToRegion: (x1: number, y1: number, x2: number, y2: number, options?: CameraTransitionOptions) => void;
+  setCameraPath: (keyframes: CameraKeyframe[] | null) => void;
+  getCameraState: () => CameraState | null; // CameraControllerの準備前はnull
+  setCameraState: (state: CameraState, options?: CameraTransitionOptions) => void;
+  saveBookmark: (name: string) => CameraBookmark | null; // CameraControllerの準備前はnull
+  restoreBookmark: (name: string, options?: CameraTransitionOptions) => void;
 }
 
 // --- Props定義 ---
@@ -228,6 +283,13 @@ interface MicromouseVisualizerProps {
   showPerformanceStats?: boolean; // パフォーマンス表示のオプション
   showDiagonalGrid?: boolean; // 斜めグリッドを表示するかどうか
   initialViewPreset?: CameraViewPreset;
+  cameraFollowOptions?: Partial<Record<CameraFollowMode, CameraFollowOptions>>; // 追従カメラ（chase・firstPerson・tracking）の設定
+  cameraPath?: CameraKeyframe[]; // 軌跡アニメーションの時刻に合わせて移動するカメラパス
+  onCellClick?: (pick: MazeCellPick, event: MouseEvent) => void; // 区画をクリックした時
+  onCellHover?: (pick: MazeCellPick | null, event: PointerEvent) => void; // ポインタが指す区画が変わった時（迷路の外に出た場合はnull）
+  onWallClick?: (pick: MazeWallPick, event: MouseEvent) => void; // 壁（または壁を置ける位置）をクリックした時
+  onPillarClick?: (pick: MazePillarPick, event: MouseEvent) => void; // 柱をクリックした時
+  editable?: boolean; // 迷路の編集モード（壁のクリックで切り替え、Shift+クリックでスタート、Shift+Alt+クリックでゴールを設定）
   className?: string; // TailwindCSSなどのクラス名を受け取る
   style?: React.CSSProperties; // インラインスタイルも受け取れるように
   children?: React.ReactNode;
@@ -245,6 +307,13 @@ export const MicromouseVisualizer = forwardRef<MicromouseVisualizerAPI, Micromou
     showPerformanceStats = false, // デフォルトはOFF
     showDiagonalGrid = true, // デフォルトは表示する
     initialViewPreset = 'angle',
+    cameraFollowOptions,
+    cameraPath,
+    onCellClick,
+    onCellHover,
+    onWallClick,
+    onPillarClick,
+    editable = false,
     className,
     style,
     children,
@@ -258,35 +327,57 @@ export const MicromouseVisualizer = forwardRef<MicromouseVisualizerAPI, Micromou
 
   // DataProviderからmazeDataを取得
   const mazeData = useData((state) => state.mazeData);
+  const wallKnowledge = useData((state) => state.wallKnowledge);
+  const visitedCells = useData((state) => state.visitedCells);
 
   // デフォルトの迷路サイズ（データがない場合）
   const DEFAULT_MAZE_SIZE = 16;
   
   // 迷路サイズの決定（データがない場合はデフォルト値を使用）
-  const mazeSize = mazeData?.size || DEFAULT_MAZE_SIZE;
-  const mazePhysicalSize = mazeSize * CELL_SIZE;
+  const { width: mazeWidth, height: mazeHeight } = mazeData
+    ? getMazeDimensions(mazeData)
+    : { width: DEFAULT_MAZE_SIZE, height: DEFAULT_MAZE_SIZE };
+  const mazePhysicalSize = Math.max(mazeWidth, mazeHeight) * CELL_SIZE;
   const initialCameraPosition = cameraPresets[initialViewPreset].position as [number, number, number];
+  const hasMazeInteraction = Boolean(onCellClick || onCellHover || onWallClick || onPillarClick);
 
   // 外部からカメラを操作できるAPIを公開
   useImperativeHandle(ref, () => ({
-    setCameraView: (preset: CameraViewPreset) => {
+    setCameraView: (preset: CameraViewPreset, options?: CameraTransitionOptions) => {
+      if (actualCameraRef.current) {
+        actualCameraRef.current.setCameraView(preset, options);
+      }
+    },
+    resetCamera: (preset?: CameraViewPreset, options?: CameraTransitionOptions) => {
       if (actualCameraRef.current) {
-        actualCameraRef.current.setCameraView(preset);
+        actualCameraRef.current.resetCamera(preset, options);
       }
     },
-    resetCamera: (preset?: CameraViewPreset) => {
+    toggleCameraProjection: (options?: CameraTransitionOptions) => {
       if (actualCameraRef.current) {
-        actualCameraRef.current.resetCamera(preset);
+        actualCameraRef.current.toggleCameraProjection(options);
       }
     },
-    toggleCameraProjection: () => {
+    zoomToRegion: (x1: number, y1: number, x2: number, y2: number, options?: CameraTransitionOptions) => {
       if (actualCameraRef.current) {
-        actualCameraRef.current.toggleCameraProjection();
+        actualCameraRef.current.zoomToRegion(x1, y1, x2, y2, options);
       }
     },
-    zoomToRegion: (x1: number, y1: number, x2: number, y2: number) => {
+    setCameraPath: (keyframes: CameraKeyframe[] | null) => {
       if (actualCameraRef.current) {
-        actualCameraRef.current.zoomToRegion(x1, y1, x2, y2);
+        actualCameraRef.current.setCameraPath(keyframes);
+      }
+    },
+    getCameraState: () => actualCameraRef.current?.getCameraState() ?? null,
+    setCameraState: (state: CameraState, options?: CameraTransitionOptions) => {
+      if (actualCameraRef.current) {
+        actualCameraRef.current.setCameraState(state, options);
+      }
+    },
+    saveBookmark: (name: string) => actualCameraRef.current?.saveBookmark(name) ?? null,
+    restoreBookmark: (name: string, options?: CameraTransitionOptions) => {
+      if (actualCameraRef.current) {
+        actualCameraRef.current.restoreBookmark(name, options);
       }
     },
   }), [actualCameraRef]);
@@ -309,7 +400,7 @@ export const MicromouseVisualizer = forwardRef<MicromouseVisualizerAPI, Micromou
         {/* ライト設定 */}
         <ambientLight intensity={0.7} />
         <directionalLight
-          position={[mazePhysicalSize * 0.5, mazePhysicalSize * 0.5, mazePhysicalSize]}
+          position={[mazeWidth * CELL_SIZE * 0.5, mazeHeight * CELL_SIZE * 0.5, mazePhysicalSize]}
           intensity={1.0}
           castShadow
           shadow-mapSize-width={1024}
@@ -326,17 +417,39 @@ export const MicromouseVisualizer = forwardRef<MicromouseVisualizerAPI, Micromou
         {/* Mazeコンポーネントの原点をシーンの原点に合わせる */}
         {mazeData && (
           <group position={[0, 0, 0]}>
-            <Maze mazeData={mazeData} />
+            <Maze mazeData={mazeData} wallKnowledge={wallKnowledge} visitedCells={visitedCells} />
           </group>
         )}
 
+        {/* 迷路の編集モード（クリックとホバーのコールバックは編集の後に呼ばれる） */}
+        {mazeData && editable && (
+          <MazeEditor
+            onCellClick={onCellClick}
+            onCellHover={onCellHover}
+            onWallClick={onWallClick}
+            onPillarClick={onPillarClick}
+          />
+        )}
+
+        {/* 区画・壁・柱のクリックとホバーの検出（コールバックが指定された場合のみ） */}
+        {mazeData && !editable && hasMazeInteraction && (
+          <MazeInteraction
+            mazeData={mazeData}
+            onCellClick={onCellClick}
+            onCellHover={onCellHover}
+            onWallClick={onWallClick}
+            onPillarClick={onPillarClick}
+          />
+        )}
+
         {/* children をレンダリング */}
         {children}
 
         {/* カスタムグリッド */}
         {showGridHelper && (
           <CustomGrid 
-            mazeSize={mazeSize}
+            mazeWidth={mazeWidth}
+            mazeHeight={mazeHeight}
             cellSize={CELL_SIZE}
             showDiagonalLines={showDiagonalGrid}
             horizontalColor="#888888"
@@ -353,7 +466,14 @@ export const MicromouseVisualizer = forwardRef<MicromouseVisualizerAPI, Micromou
         )}
 
         {/* カメラコントロール */}
-        <CameraController ref={actualCameraRef} initialViewPreset={initialViewPreset} mazeSize={mazeSize} />
+        <CameraController
+          ref={actualCameraRef}
+          initialViewPreset={initialViewPreset}
+          mazeWidth={mazeWidth}
+          mazeHeight={mazeHeight}
+          followOptions={cameraFollowOptions}
+          cameraPath={cameraPath}
+        />
 
         {/* stats.jsによるパフォーマンスモニター */}
         <PerformanceMonitor enabled={showPerformanceStats} />
@@ -6,9 +6,11 @@ import { MouseState } from '../../types';
 import { MOUSE_SIZE, FLOOR_THICKNESS } from '../../config/constants';
 import { useData, useSharedTrajectoryAnimation } from '../../providers/DataProvider';
 import { getModelPath } from '../../assets/models';
+import { sampleTrajectory } from '../../utils/trajectory';
 
 // マウスのプロパティの型定義
 export interface MouseProps {
+  mouseId?: string;                 // 複数マウス表示時のマウスID（指定した場合はそのマウスの軌道に従って移動）
   mouseState?: MouseState;          // マウスの状態（位置と角度）- DataProviderから取得する場合はオプション
   fbxPath?: string;                 // FBXファイルのパス（オプション）
   scale?: [number, number, number]; // モデルのスケール（オプション）
@@ -24,10 +26,11 @@ export interface MouseProps {
  * FBXファイルからマウスのモデルを読み込むコンポーネント
  */
 const Mouse: React.FC<MouseProps> = ({
+  mouseId,
   mouseState: propMouseState,
   fbxPath = getModelPath('micromouse'),
   scale = [0.001, 0.001, 0.001],
-  modelColor,
+  modelColor: propModelColor,
   showArrowHelper = true,
   modelOffset = {
     position: [0, 0, 0],
@@ -38,9 +41,14 @@ const Mouse: React.FC<MouseProps> = ({
   const dataMouseState = useData((state) => state.mouseState);
   const isPlaying = useData((state) => state.isPlaying);
   const trajectoryProfile = useData((state) => state.trajectoryProfile);
+  const mouseEntry = useData((state) => (mouseId !== undefined ? state.mice.get(mouseId) : undefined));
+  const interpolation = useData((state) => state.interpolation);
   
   // 高性能アニメーション用のref管理（共有）
-  const { currentMouseStateRef } = useSharedTrajectoryAnimation();
+  const { currentTimeRef, currentMouseStateRef } = useSharedTrajectoryAnimation();
+
+  // モデルの色（指定がない場合は複数マウス表示時のマウスの色）
+  const modelColor = propModelColor ?? mouseEntry?.color;
 
   // 初期マウス状態（ストーリーやデフォルト用）
   const staticMouseState = propMouseState || dataMouseState;
@@ -84,14 +92,18 @@ const Mouse: React.FC<MouseProps> = ({
         if (child instanceof THREE.Mesh) {
           // カスタムカラーが指定されている場合は適用
           if (modelColor) {
+            // マテリアルは元のモデルと共有されているため、複製してから色を変更する
+            // （複数のマウスを異なる色で表示する場合に色が混ざらないようにする）
             if (Array.isArray(child.material)) {
-              child.material.forEach(mat => {
-                if (mat) {
-                  mat.color.set(modelColor);
-                  mat.needsUpdate = true;
-                }
+              child.material = child.material.map(mat => {
+                if (!mat) return mat;
+                const clonedMat = mat.clone();
+                clonedMat.color.set(modelColor);
+                clonedMat.needsUpdate = true;
+                return clonedMat;
               });
             } else if (child.material) {
+              child.material = child.material.clone();
               child.material.color.set(modelColor);
               child.material.needsUpdate = true;
             }
@@ -151,7 +163,17 @@ const Mouse: React.FC<MouseProps> = ({
     // 軌道プロファイルが存在し、かつrefに有効な状態があるかチェック
     const hasTrajectoryData = trajectoryProfile && trajectoryProfile.size > 0 && currentMouseStateRef.current;
     
-    if (hasTrajectoryData) {
+    if (mouseId !== undefined) {
+      // 複数マウス表示時：共通の再生時刻をそのマウスの時刻に変換して補間
+      if (!mouseEntry) return;
+      const sampled = sampleTrajectory(
+        mouseEntry.trajectoryProfile,
+        mouseEntry.sortedTimestamps,
+        currentTimeRef.current + mouseEntry.timeOffset,
+        interpolation
+      );
+      currentMouseState = sampled ?? staticMouseState;
+    } else if (hasTrajectoryData) {
       // 軌道データがある場合：refベースの状態を使用（再生中・一時停止中問わず）
       currentMouseState = currentMouseStateRef.current;
     } else {
@@ -0,0 +1,38 @@
+import React from 'react';
+import { useData } from '../../providers/DataProvider';
+import Mouse, { MouseProps } from './Mouse';
+import TrajectoryPath from './TrajectoryPath';
+
+// MultiMouseのProps定義
+export interface MultiMouseProps {
+  showTrajectory?: boolean;  // 各マウスの軌跡を表示するかどうか
+  mouseProps?: Omit<MouseProps, 'mouseId' | 'mouseState'>; // すべてのマウスに共通のProps
+  trajectoryProps?: Omit<React.ComponentProps<typeof TrajectoryPath>, 'mouseId'>; // すべての軌跡に共通のProps
+}
+
+/**
+ * ストアに登録された複数のマウスと、それぞれの軌跡を表示するコンポーネント
+ * すべてのマウスは共通の再生時刻（TrajectoryAnimationController）に従って移動する
+ */
+const MultiMouse: React.FC<MultiMouseProps> = ({
+  showTrajectory = true,
+  mouseProps,
+  trajectoryProps,
+}) => {
+  const mice = useData((state) => state.mice);
+
+  return (
+    <>
+      {Array.from(mice.values())
+        .filter((mouse) => mouse.visible !== false)
+        .map((mouse) => (
+          <group key={`mouse-${mouse.id}`}>
+            <Mouse {...mouseProps} mouseId={mouse.id} />
+            {showTrajectory && <TrajectoryPath {...trajectoryProps} mouseId={mouse.id} />}
+          </group>
+        ))}
+    </>
+  );
+};
+
+export default MultiMouse;
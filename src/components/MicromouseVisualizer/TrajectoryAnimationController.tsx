@@ -1,4 +1,4 @@
-import React, { useRef } from 'react';
+import React, { useEffect, useRef } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { useData, useSharedTrajectoryAnimation } from '../../providers/DataProvider';
 
@@ -9,11 +9,13 @@ import { useData, useSharedTrajectoryAnimation } from '../../providers/DataProvi
 const TrajectoryAnimationController: React.FC = () => {
   // Zustandから制御状態のみを取得
   const isPlaying = useData((state) => state.isPlaying);
+  const startTime = useData((state) => state.startTime);
   const duration = useData((state) => state.duration);
   const playbackSpeed = useData((state) => state.playbackSpeed);
   const isLoopEnabled = useData((state) => state.isLoopEnabled);
   const trajectoryProfile = useData((state) => state.trajectoryProfile);
   const sortedTimestamps = useData((state) => state.sortedTimestamps);
+  const interpolation = useData((state) => state.interpolation);
   
   // 制御用の関数を取得
   const pause = useData((state) => state.pause);
@@ -30,6 +32,15 @@ const TrajectoryAnimationController: React.FC = () => {
   // 前回のフレーム時間を記録
   const lastTimeRef = useRef<number>(0);
 
+  // 再生範囲や補間方法が変わった時にマウス状態を更新する
+  // 現在時刻が再生範囲外であれば再生開始時刻に移動する
+  useEffect(() => {
+    const currentTime = currentTimeRef.current;
+    const time = currentTime < startTime || currentTime > startTime + duration ? startTime : currentTime;
+    setAnimationTime(time);
+    updateMouseStateForTime(time, trajectoryProfile, sortedTimestamps, interpolation);
+  }, [startTime, duration, trajectoryProfile, sortedTimestamps, interpolation, currentTimeRef, setAnimationTime, updateMouseStateForTime]);
+
   // 毎フレーム実行される処理
   useFrame((_state, delta) => {
     // 再生中でなければ何もしない
@@ -48,15 +59,16 @@ const TrajectoryAnimationController: React.FC = () => {
     const nextTime = currentTimeRef.current + timeSinceLastFrame * playbackSpeed;
     
     // 時間が終端を超えたら
-    if (nextTime >= duration) {
+    const endTime = startTime + duration;
+    if (nextTime >= endTime) {
       if (isLoopEnabled) {
         // ループが有効な場合は最初から再開
-        setAnimationTime(0);
-        updateMouseStateForTime(0, trajectoryProfile, sortedTimestamps);
+        setAnimationTime(startTime);
+        updateMouseStateForTime(startTime, trajectoryProfile, sortedTimestamps, interpolation);
       } else {
         // ループが無効な場合は最後の時間に設定して一時停止
-        setAnimationTime(duration);
-        updateMouseStateForTime(duration, trajectoryProfile, sortedTimestamps);
+        setAnimationTime(endTime);
+        updateMouseStateForTime(endTime, trajectoryProfile, sortedTimestamps, interpolation);
         pause(); // Zustandの状態を更新
       }
       lastTimeRef.current = 0;
@@ -67,7 +79,7 @@ const TrajectoryAnimationController: React.FC = () => {
     setAnimationTime(nextTime);
     
     // マウスの状態を更新（refのみ、Zustandは更新しない）
-    updateMouseStateForTime(nextTime, trajectoryProfile, sortedTimestamps);
+    updateMouseStateForTime(nextTime, trajectoryProfile, sortedTimestamps, interpolation);
     
     // 今回のフレーム時間を記録
     lastTimeRef.current = cappedDelta;
@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Text } from '@react-three/drei';
+import * as THREE from 'three';
+import { useData, useSharedTrajectoryAnimation } from '../../providers/DataProvider';
+import { FLOOR_THICKNESS } from '../../config/constants';
+import type { TrajectoryEvent } from '../../types';
+import { getTrajectoryEventColor, getTrajectoryEventPosition } from '../../utils/trajectoryEvents';
+import { TrajectoryInterpolation } from '../../utils/trajectory';
+
+// TrajectoryEventMarkersのProps
+export interface TrajectoryEventMarkersProps {
+  events?: TrajectoryEvent[];       // 表示するイベント（省略時はDataProviderのtrajectoryEvents）
+  size?: number;                    // マーカーの大きさ（半径）[m]
+  height?: number;                  // 床からの高さ
+  colors?: Record<string, string>;  // 種類ごとのマーカーの色（既定の色より優先）
+  opacity?: number;                 // 現在時刻までに発生したイベントの透明度
+  futureOpacity?: number;           // 現在時刻より後のイベントの透明度
+  showLabels?: boolean;             // ラベル表示の有効/無効
+  fontSize?: number;                // ラベルのフォントサイズ
+  labelColor?: string;              // ラベルの色
+  interpolation?: TrajectoryInterpolation; // 位置を軌道から求める際の補間方法（省略時はDataProviderの設定に合わせる）
+}
+
+// 表示位置と色を求めたマーカー
+interface EventMarker {
+  event: TrajectoryEvent;
+  position: [number, number, number];
+  color: string;
+}
+
+/**
+ * 軌道イベント（壁の検出・スリップ・ゴール到達・非常停止など）を軌跡上にマーカーで表示するコンポーネント
+ * 位置が指定されていないイベントはその時刻の軌道上の位置に表示し、
+ * 現在時刻より後のイベントは薄く表示する
+ */
+const TrajectoryEventMarkers: React.FC<TrajectoryEventMarkersProps> = ({
+  events: propEvents,
+  size = 0.008,
+  height = 0.02,
+  colors,
+  opacity = 1,
+  futureOpacity = 0.35,
+  showLabels = true,
+  fontSize = 0.02,
+  labelColor = '#ffffff',
+  interpolation: propInterpolation,
+}) => {
+  // DataProviderからデータを取得
+  const storeEvents = useData((state) => state.trajectoryEvents);
+  const trajectoryProfile = useData((state) => state.trajectoryProfile);
+  const sortedTimestamps = useData((state) => state.sortedTimestamps);
+  const storeInterpolation = useData((state) => state.interpolation);
+
+  const events = propEvents ?? storeEvents;
+  const interpolation = propInterpolation ?? storeInterpolation;
+
+  // 高性能アニメーション用のref管理（共有）
+  const { currentTimeRef } = useSharedTrajectoryAnimation();
+
+  // マーカーとラベルのマテリアル（時刻に応じて透明度を更新する）
+  const materialsRef = useRef<(THREE.Material | null)[]>([]);
+  const labelsRef = useRef<(THREE.Mesh | null)[]>([]);
+  const lastTimeRef = useRef<number | null>(null);
+
+  // イベントの表示位置と色（イベント・軌道が変わった場合のみ計算）
+  const markers = useMemo<EventMarker[]>(() => {
+    const posZ = FLOOR_THICKNESS / 2 + height;
+    const result: EventMarker[] = [];
+    events.forEach((event) => {
+      const position = getTrajectoryEventPosition(event, trajectoryProfile, sortedTimestamps, interpolation);
+      if (!position) {
+        return;
+      }
+      result.push({
+        event,
+        position: [position.x, position.y, posZ],
+        color: getTrajectoryEventColor(event, colors),
+      });
+    });
+    return result;
+  }, [events, trajectoryProfile, sortedTimestamps, interpolation, height, colors]);
+
+  // マーカーや透明度が変わった場合は次のフレームで透明度を更新し直す
+  useEffect(() => {
+    lastTimeRef.current = null;
+  }, [markers, opacity, futureOpacity]);
+
+  // 現在時刻に応じて透明度を更新
+  useFrame(() => {
+    const currentTime = currentTimeRef.current;
+
+    // 時間が変わっていない場合は更新不要
+    if (lastTimeRef.current === currentTime) {
+      return;
+    }
+    lastTimeRef.current = currentTime;
+
+    markers.forEach((marker, index) => {
+      const markerOpacity = marker.event.time <= currentTime ? opacity : futureOpacity;
+      const material = materialsRef.current[index];
+      if (material) {
+        material.opacity = markerOpacity;
+      }
+      const label = labelsRef.current[index];
+      if (label) {
+        (label.material as THREE.Material).opacity = markerOpacity;
+      }
+    });
+  });
+
+  if (markers.length === 0) {
+    return null;
+  }
+
+  return (
+    <group>
+      {markers.map((marker, index) => (
+        <group key={index} position={marker.position}>
+          {/* イベントのマーカー（八面体） */}
+          <mesh>
+            <octahedronGeometry args={[size, 0]} />
+            <meshStandardMaterial
+              ref={(material) => { materialsRef.current[index] = material; }}
+              color={marker.color}
+              emissive={marker.color}
+              emissiveIntensity={0.4}
+              transparent
+              opacity={futureOpacity}
+            />
+          </mesh>
+
+          {/* ラベル（マーカーの少し上に表示） */}
+          {showLabels && marker.event.label && (
+            <Text
+              ref={(mesh: THREE.Mesh | null) => { labelsRef.current[index] = mesh; }}
+              position={[0, size + fontSize, 0]}
+              color={labelColor}
+              fontSize={fontSize}
+              anchorX="center"
+              anchorY="bottom"
+              material-transparent
+              material-opacity={futureOpacity}
+              outlineWidth={fontSize * 0.08}
+              outlineColor="#000000"
+            >
+              {marker.event.label}
+            </Text>
+          )}
+        </group>
+      ))}
+    </group>
+  );
+};
+
+export default TrajectoryEventMarkers;
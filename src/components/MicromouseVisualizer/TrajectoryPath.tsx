@@ -1,455 +1,962 @@
 import React, { useEffect, useRef, useMemo } from 'react';
-import { useFrame, useThree } from '@react-three/fiber';
+import { useFrame } from '@react-three/fiber';
 import * as THREE from 'three';
+import { Line2, LineGeometry, LineMaterial } from 'three-stdlib';
 import { useData, useSharedTrajectoryAnimation } from '../../providers/DataProvider';
 import { FLOOR_THICKNESS } from '../../config/constants';
+import type { TrajectoryPathMode, TrajectoryProfile } from '../../types';
+import {
+  getTrajectoryValues,
+  interpolateTrajectoryValue,
+  sampleTrajectory,
+  sampleTrajectoryPath,
+  TrajectoryColorBy,
+  TrajectoryInterpolation,
+} from '../../utils/trajectory';
+import { Colormap, computeValueRange, RGBColor, valueToColor } from '../../utils/colormap';
+import { computeSimplificationImportance, simplifyPolyline } from '../../utils/lineSimplification';
 
 // TrajectoryPathのProps
 interface TrajectoryPathProps {
+  mouseId?: string;             // 複数マウス表示時のマウスID（指定した場合はそのマウスの軌道を表示）
+  mode?: TrajectoryPathMode;    // 表示モード（past: 過去のみ, future: 過去と未来, full: 全体と過去, window: 現在の前後）
   pastColor?: string;           // 過去の軌跡の色
-  lineWidth?: number;           // 線の太さ
+  futureColor?: string;         // 未来の軌跡の色（future・windowモード）
+  fullColor?: string;           // 軌道全体の色（fullモード）
+  lineWidth?: number;           // 線の太さ[px]
+  dashed?: boolean;             // 破線表示の有効/無効
+  dashSize?: number;            // 破線の線の長さ[m]
+  gapSize?: number;             // 破線の間隔[m]
   height?: number;              // 床からの高さ
   segments?: number;            // 表示するセグメント数 (過去)
-  opacity?: number;             // 透明度
+  opacity?: number;             // 過去の軌跡の透明度
+  futureOpacity?: number;       // 未来の軌跡の透明度
+  fullOpacity?: number;         // 軌道全体の透明度
+  windowBefore?: number;        // windowモードで表示する現在より前の時間[s]
+  windowAfter?: number;         // windowモードで表示する現在より後の時間[s]
   showLine?: boolean;           // 線表示の有効/無効
   showPoints?: boolean;         // 点表示の有効/無効
   pointSize?: number;           // 点のサイズ
   pointColor?: string;          // 点の色
+  interpolation?: TrajectoryInterpolation; // 線の補間方法（省略時はDataProviderの設定に合わせる）
+  subdivisions?: number;        // 3次補間時のキーフレーム間の分割数
+  colorBy?: TrajectoryColorBy;  // 過去の線と点を色分けする値（速度・角速度・チャンネル、省略時はpastColorの単色）
+  colormap?: Colormap;          // 色分けに使用するカラーマップ
+  colorRange?: [number, number]; // 色を割り当てる値の範囲（省略時は軌道全体の最小・最大）
+  lodTolerance?: number;        // 線と点を間引く際の画面上の許容誤差[px]（0の場合は間引かない）
+}
+
+// 軌道がない場合に使用する空のプロファイル
+const EMPTY_PROFILE: TrajectoryProfile = new Map();
+
+// 1つのGPUバッファに格納する線分・点の数（表示範囲の先頭を含むバッファのみ書き換える）
+const CHUNK_SIZE = 8192;
+
+// キーフレーム間を分割する場合の頂点数の上限（キーフレーム自体は上限なく描画する）
+const MAX_SUBDIVIDED_VERTICES = 500000;
+
+// 間引きの許容誤差の最小単位[m]（許容誤差はこの値の2のべき乗倍に丸め、縮尺が2倍変わるごとに再構築する）
+const LOD_BASE_TOLERANCE = 1e-5;
+
+// 点表示で形状に影響しない点も残す間隔（許容誤差に対する倍率）
+const POINT_SPACING_FACTOR = 4;
+
+// 軌跡の頂点列（時刻の昇順）
+interface PathVertices {
+  times: Float64Array;
+  xs: Float64Array;
+  ys: Float64Array;
+  distances: Float64Array;      // 始点からの距離（破線表示用）
+  colors: Float32Array | null;  // 色分け時の頂点の色（RGB）
+}
+
+// 間引く前の軌跡（軌道や補間方法が変わった場合のみ計算する）
+interface PathSource extends Omit<PathVertices, 'colors'> {
+  importance: Float64Array;     // 間引きの重要度
+  bounds: THREE.Box3;           // 軌跡の範囲（縮尺の計算に使用）
+}
+
+// 表示範囲の端の頂点（補間したマウスの位置）
+interface EdgeVertex {
+  x: number;
+  y: number;
+  distance: number;
+  color: RGBColor | null;
+}
+
+// GPUバッファを分割した線
+// 各チャンクは線分[start, end)を担当し、storedStartはバッファの先頭に格納している線分
+interface LineChunk {
+  line: Line2;
+  start: number;
+  end: number;
+  storedStart: number;
+}
+
+interface ChunkedLine {
+  group: THREE.Group;
+  material: LineMaterial;
+  renderOrder: number;
+  chunks: LineChunk[];
+  edge: Line2;                  // 表示範囲の端（補間位置と範囲内の頂点の間）の線分
+}
+
+// GPUバッファを分割した点
+interface PointChunk {
+  mesh: THREE.InstancedMesh;
+  start: number;
+  end: number;
+  storedStart: number;
+}
+
+interface ChunkedPoints {
+  group: THREE.Group;
+  geometry: THREE.BufferGeometry;
+  material: THREE.MeshBasicMaterial;
+  chunks: PointChunk[];
 }
 
 /**
  * マウスの軌跡を表示するコンポーネント
- * 過去の軌跡を線と点で表示できます
+ * 過去の軌跡を線と点で表示し、モードに応じて未来の軌跡や軌道全体を別の色で重ねて表示できます
+ * 点は過去の軌跡の範囲のキーフレームに表示されます
+ * 長い軌跡はGPUバッファを分割して保持し、画面上の縮尺に合わせて形状を保ったまま間引いて描画します
  * useFrameを使用してThree.jsオブジェクトを直接操作し、パフォーマンスを向上
  */
 const TrajectoryPath: React.FC<TrajectoryPathProps> = ({
-  pastColor = '#00aaff',
+  mouseId,
+  mode = 'past',
+  pastColor: propPastColor,
+  futureColor = '#888888',
+  fullColor = '#666666',
   lineWidth = 2,
+  dashed = false,
+  dashSize = 0.02,
+  gapSize = 0.01,
   height = 0.005,
   segments = 100,
   opacity = 0.7,
+  futureOpacity = 0.4,
+  fullOpacity = 0.25,
+  windowBefore = 1,
+  windowAfter = 1,
   showLine = true,
   showPoints = false,
   pointSize = 0.001,
   pointColor,
+  interpolation: propInterpolation,
+  subdivisions = 8,
+  colorBy,
+  colormap = 'turbo',
+  colorRange,
+  lodTolerance = 1,
 }) => {
   // DataProviderからデータを取得
-  const trajectoryProfile = useData((state) => state.trajectoryProfile);
+  const mainTrajectoryProfile = useData((state) => state.trajectoryProfile);
+  const mouseEntry = useData((state) => (mouseId !== undefined ? state.mice.get(mouseId) : undefined));
   const isPlaying = useData((state) => state.isPlaying);
-  
+  const storeInterpolation = useData((state) => state.interpolation);
+
+  // アニメーションのマウスと同じ補間方法で線を描画する
+  const interpolation = propInterpolation ?? storeInterpolation;
+
+  // 複数マウス表示時はそのマウスの軌道・色・時刻オフセットを使用
+  const trajectoryProfile = mouseId !== undefined
+    ? mouseEntry?.trajectoryProfile ?? EMPTY_PROFILE
+    : mainTrajectoryProfile;
+  const timeOffset = mouseEntry?.timeOffset ?? 0;
+  const pastColor = propPastColor ?? mouseEntry?.color ?? '#00aaff';
+
   // 高性能アニメーション用のref管理（共有）
   const { currentTimeRef } = useSharedTrajectoryAnimation();
-  
+
   // Three.jsのオブジェクト参照
   const rootRef = useRef<THREE.Group>(null);
-  const pastLineRef = useRef<THREE.Line | null>(null);
-  const pointsInstancedMeshRef = useRef<THREE.InstancedMesh | null>(null);
-  
-  // キャッシュとタイムスタンプの参照
+  const pastLineRef = useRef<ChunkedLine | null>(null);
+  const futureLineRef = useRef<ChunkedLine | null>(null);
+  const fullLineRef = useRef<ChunkedLine | null>(null);
+  const pointsRef = useRef<ChunkedPoints | null>(null);
+
+  // キャッシュの参照
   const lastTimeRef = useRef<number>(-1);
-  const sortedTimesRef = useRef<number[]>([]);
-  const maxPointsRef = useRef<number>(1000); // インスタンス化するポイントの最大数
-  const bufferSizeRef = useRef<number>(0); // 現在のバッファサイズを追跡
-  const maxBufferSize = 10000; // 最大バッファサイズ（頂点数）
-  
+  const lineVerticesRef = useRef<PathVertices | null>(null);  // 間引いた線の頂点
+  const pointVerticesRef = useRef<PathVertices | null>(null); // 間引いた点（キーフレーム）
+  const toleranceRef = useRef<number>(-1);                    // 現在の間引きの許容誤差[m]
+  const needsRebuildRef = useRef<boolean>(true);              // バッファの再構築が必要か
+
+  // ソートされた時間キーの配列
+  const sortedTimes = useMemo(
+    () => Array.from(trajectoryProfile?.keys() ?? []).sort((a, b) => a - b),
+    [trajectoryProfile]
+  );
+
+  // キーフレーム間の分割数（分割後の頂点数が上限に収まるように制限）
+  const lineSubdivisions = Math.max(1, Math.min(
+    subdivisions,
+    Math.floor(MAX_SUBDIVIDED_VERTICES / Math.max(sortedTimes.length, 1))
+  ));
+
   // 点の色を決定（pointColorが未指定の場合はpastColorを使用）
   const actualPointColor = pointColor || pastColor;
-  
-  // マテリアルを作成
-  const pastMaterial = useMemo(() => new THREE.LineBasicMaterial({
-    color: pastColor,
-    linewidth: lineWidth,
-    transparent: true,
-    opacity: opacity,
-  }), [pastColor, lineWidth, opacity]);
-  
-  // 点用のマテリアルを作成
+
+  // 色分けに使用する値（オブジェクトの指定でも毎回再計算しないように、値の種類とチャンネル名に分けて比較する）
+  const colorByName = typeof colorBy === 'string' ? colorBy : undefined;
+  const colorByChannel = typeof colorBy === 'object' ? colorBy.channel : undefined;
+  const colorValues = useMemo(() => {
+    const valueSource: TrajectoryColorBy | undefined = colorByChannel !== undefined ? { channel: colorByChannel } : colorByName;
+    if (!valueSource || !trajectoryProfile || trajectoryProfile.size === 0) return null;
+    return getTrajectoryValues(trajectoryProfile, sortedTimes, valueSource);
+  }, [trajectoryProfile, sortedTimes, colorByName, colorByChannel]);
+
+  // 色を割り当てる値の範囲（指定がない場合は有限値の最小・最大）
+  const colorRangeMin = colorRange?.[0];
+  const colorRangeMax = colorRange?.[1];
+  const valueRange = useMemo((): [number, number] => {
+    if (colorRangeMin !== undefined && colorRangeMax !== undefined) return [colorRangeMin, colorRangeMax];
+    return computeValueRange(colorValues ?? []);
+  }, [colorValues, colorRangeMin, colorRangeMax]);
+
+  // 値がないキーフレームの色
+  const fallbackColor = useMemo(() => new THREE.Color(pastColor), [pastColor]);
+  const isColored = colorValues !== null;
+
+  // 間引く前の線（補間方法に合わせてキーフレーム間を分割した点列）
+  const lineSource = useMemo(() => {
+    if (!showLine || !trajectoryProfile || sortedTimes.length === 0) return null;
+    return buildPathSource(sampleTrajectoryPath(trajectoryProfile, sortedTimes, Infinity, interpolation, lineSubdivisions));
+  }, [trajectoryProfile, sortedTimes, interpolation, lineSubdivisions, showLine]);
+
+  // 間引く前の点（キーフレームの位置）
+  const pointSource = useMemo(() => {
+    if (!showPoints || !trajectoryProfile || sortedTimes.length === 0) return null;
+    return buildPathSource(sortedTimes.map((time) => ({ ...trajectoryProfile.get(time)!.position, time })));
+  }, [trajectoryProfile, sortedTimes, showPoints]);
+
+  // マテリアルを作成（画面上のピクセル幅で描画する太線、色分け時は頂点カラーを使用）
+  const pastMaterial = useMemo(() => createLineMaterial({
+    color: isColored ? '#ffffff' : pastColor,
+    vertexColors: isColored,
+    lineWidth,
+    opacity,
+    dashed,
+    dashSize,
+    gapSize,
+  }), [pastColor, lineWidth, opacity, isColored, dashed, dashSize, gapSize]);
+
+  // 未来の軌跡と軌道全体のマテリアル（単色）
+  const futureMaterial = useMemo(() => createLineMaterial({
+    color: futureColor,
+    lineWidth,
+    opacity: futureOpacity,
+    dashed,
+    dashSize,
+    gapSize,
+  }), [futureColor, lineWidth, futureOpacity, dashed, dashSize, gapSize]);
+
+  const fullMaterial = useMemo(() => createLineMaterial({
+    color: fullColor,
+    lineWidth,
+    opacity: fullOpacity,
+    dashed,
+    dashSize,
+    gapSize,
+  }), [fullColor, lineWidth, fullOpacity, dashed, dashSize, gapSize]);
+
+  // 点用のマテリアルを作成（色分け時はインスタンスカラーを使用）
   const pointMaterial = useMemo(() => new THREE.MeshBasicMaterial({
-    color: actualPointColor,
+    color: isColored ? '#ffffff' : actualPointColor,
     transparent: true,
     opacity: opacity,
     side: THREE.DoubleSide, // 両面表示
     depthTest: true,
     depthWrite: true,
-  }), [actualPointColor, opacity]);
-  
+  }), [actualPointColor, opacity, isColored]);
+
   // 点用のジオメトリを作成（小さな球体）
   const pointGeometry = useMemo(() => new THREE.SphereGeometry(pointSize, 8, 6), [pointSize]);
-  
+
   // コンポーネントのマウント時に必要なセットアップを行う
   useEffect(() => {
-    if (!rootRef.current) return;
-    
-    // ソートされた時間キーの配列を作成してキャッシュ
-    if (trajectoryProfile?.size > 0) {
-      sortedTimesRef.current = Array.from(trajectoryProfile.keys()).sort((a, b) => a - b);
-    }
-    
-    // 過去軌跡のラインを作成
+    const root = rootRef.current;
+    if (!root) return;
+
+    // 軌跡のラインを作成（軌道全体 → 未来 → 過去の順に重ねて描画する）
+    // バッファは軌跡の頂点が決まった時点（useFrame内）で確保する
     if (showLine) {
-      const pastGeometry = new THREE.BufferGeometry();
-      
-      // バッファを事前に割り当て
-      const initialSize = Math.min(
-        trajectoryProfile?.size || 100, 
-        maxBufferSize
-      );
-      const positions = new Float32Array(initialSize * 3);
-      const positionAttribute = new THREE.BufferAttribute(positions, 3);
-      positionAttribute.setUsage(THREE.DynamicDrawUsage);
-      pastGeometry.setAttribute('position', positionAttribute);
-      pastGeometry.setDrawRange(0, 0); // 初期状態では何も描画しない
-      
-      bufferSizeRef.current = initialSize;
-      
-      const pastLine = new THREE.Line(pastGeometry, pastMaterial);
-      pastLineRef.current = pastLine;
-      rootRef.current.add(pastLine);
+      if (mode === 'full') {
+        fullLineRef.current = createChunkedLine(fullMaterial, 0);
+        root.add(fullLineRef.current.group);
+      }
+
+      if (mode === 'future' || mode === 'window') {
+        futureLineRef.current = createChunkedLine(futureMaterial, 1);
+        root.add(futureLineRef.current.group);
+      }
+
+      pastLineRef.current = createChunkedLine(pastMaterial, 2);
+      root.add(pastLineRef.current.group);
     }
-    
-    // 点表示用のInstancedMeshを作成
+
+    // 点表示用のInstancedMeshをまとめるグループを作成
     if (showPoints) {
-      // 軌道データのサイズに基づいて適切な最大インスタンス数を計算
-      const estimatedMaxPoints = trajectoryProfile?.size || 1000;
-      const actualMaxPoints = Math.min(estimatedMaxPoints, maxPointsRef.current);
-      
-      const pointsInstancedMesh = new THREE.InstancedMesh(pointGeometry, pointMaterial, actualMaxPoints);
-      pointsInstancedMesh.count = 0; // 初期状態では何も表示しない
-      pointsInstancedMesh.visible = true;
-      pointsInstancedMesh.castShadow = false;
-      pointsInstancedMesh.receiveShadow = false;
-      pointsInstancedMesh.frustumCulled = false; // カリングを無効にして確実に表示
-      
-      // デバッグ情報を出力（開発環境のみ）
-      if (process.env.NODE_ENV === 'development') {
-        console.debug(`TrajectoryPath: Created InstancedMesh with ${actualMaxPoints} max instances for ${estimatedMaxPoints} trajectory points`);
-      }
-      
-      pointsInstancedMeshRef.current = pointsInstancedMesh;
-      rootRef.current.add(pointsInstancedMesh);
+      pointsRef.current = createChunkedPoints(pointGeometry, pointMaterial);
+      root.add(pointsRef.current.group);
     }
-    
+
+    needsRebuildRef.current = true;
+
     // クリーンアップ
     return () => {
-      if (rootRef.current) {
-        if (pastLineRef.current) {
-          rootRef.current.remove(pastLineRef.current);
-          pastLineRef.current.geometry.dispose();
-          pastLineRef.current = null;
-        }
-        if (pointsInstancedMeshRef.current) {
-          rootRef.current.remove(pointsInstancedMeshRef.current);
-          pointsInstancedMeshRef.current.geometry.dispose();
-          pointsInstancedMeshRef.current = null;
+      for (const lineRef of [pastLineRef, futureLineRef, fullLineRef]) {
+        if (lineRef.current) {
+          root.remove(lineRef.current.group);
+          disposeChunkedLine(lineRef.current);
+          lineRef.current = null;
         }
       }
-      bufferSizeRef.current = 0;
+      if (pointsRef.current) {
+        root.remove(pointsRef.current.group);
+        disposeChunkedPoints(pointsRef.current);
+        pointsRef.current.geometry.dispose();
+        pointsRef.current = null;
+      }
+      // 設定の変更で作り直されたマテリアルとアンマウント時のマテリアルを破棄する
+      // （作り直されていないマテリアルは次回の描画時に再度初期化される）
+      pastMaterial.dispose();
+      futureMaterial.dispose();
+      fullMaterial.dispose();
+      pointMaterial.dispose();
+      lastTimeRef.current = -1;
     };
-  }, [trajectoryProfile, pastMaterial, pointGeometry, pointMaterial, showLine, showPoints]);
-  
-  // 軌跡の色やスタイルが変更された場合に更新
+  }, [mode, pastMaterial, futureMaterial, fullMaterial, pointGeometry, pointMaterial, showLine, showPoints]);
+
+  // 軌道・補間方法・色分けが変更された場合はバッファを再構築
   useEffect(() => {
-    if (pastLineRef.current && pastLineRef.current.material) {
-      (pastLineRef.current.material as THREE.LineBasicMaterial).color.set(pastColor);
-      (pastLineRef.current.material as THREE.LineBasicMaterial).linewidth = lineWidth;
-      (pastLineRef.current.material as THREE.LineBasicMaterial).opacity = opacity;
-    }
-    
-    if (pointsInstancedMeshRef.current && pointsInstancedMeshRef.current.material) {
-      (pointsInstancedMeshRef.current.material as THREE.MeshBasicMaterial).color.set(actualPointColor);
-      (pointsInstancedMeshRef.current.material as THREE.MeshBasicMaterial).opacity = opacity;
-    }
-  }, [pastColor, lineWidth, opacity, actualPointColor]);
-  
-  // TrajectoryProfileが変更された場合にバッファをリセット
+    needsRebuildRef.current = true;
+  }, [lineSource, pointSource, colorValues, valueRange, colormap, fallbackColor, height]);
+
+  // 表示範囲が変更された場合は線を再計算
   useEffect(() => {
-    if (!rootRef.current || !trajectoryProfile) return;
-    
-    // 線のバッファを更新
-    if (showLine && pastLineRef.current) {
-      const geometry = pastLineRef.current.geometry;
-      const expectedSize = trajectoryProfile.size;
-      
-      // 新しい軌跡が現在のバッファサイズの50%未満の場合、バッファを縮小
-      // または新しい軌跡が現在のバッファより大きい場合、バッファを拡張
-      if (expectedSize < bufferSizeRef.current * 0.5 || expectedSize > bufferSizeRef.current) {
-        const newSize = Math.min(
-          Math.max(expectedSize * 2, 100), // 最小100頂点
-          maxBufferSize
-        );
-        
-        const positions = new Float32Array(newSize * 3);
-        const positionAttribute = new THREE.BufferAttribute(positions, 3);
-        positionAttribute.setUsage(THREE.DynamicDrawUsage);
-        geometry.setAttribute('position', positionAttribute);
-        geometry.setDrawRange(0, 0);
-        bufferSizeRef.current = newSize;
-      }
-      
-      // タイムスタンプのキャッシュをリセット
-      sortedTimesRef.current = Array.from(trajectoryProfile.keys()).sort((a, b) => a - b);
-      lastTimeRef.current = -1;
-    }
-    
-    // InstancedMeshの再作成チェック
-    if (showPoints && pointsInstancedMeshRef.current) {
-      const currentMaxInstances = pointsInstancedMeshRef.current.instanceMatrix.count;
-      const requiredInstances = trajectoryProfile.size;
-      
-      // 必要なインスタンス数が現在の最大値を大幅に超える場合、InstancedMeshを再作成
-      if (requiredInstances > currentMaxInstances) {
-        if (process.env.NODE_ENV === 'development') {
-          console.debug(`TrajectoryPath: Recreating InstancedMesh: ${currentMaxInstances} -> ${requiredInstances} instances`);
-        }
-        
-        // 古いInstancedMeshを削除
-        rootRef.current.remove(pointsInstancedMeshRef.current);
-        pointsInstancedMeshRef.current.geometry.dispose();
-        
-        // 新しいInstancedMeshを作成
-        const newMaxInstances = Math.min(requiredInstances, maxPointsRef.current);
-        const newPointsInstancedMesh = new THREE.InstancedMesh(pointGeometry, pointMaterial, newMaxInstances);
-        newPointsInstancedMesh.count = 0;
-        newPointsInstancedMesh.visible = true;
-        newPointsInstancedMesh.castShadow = false;
-        newPointsInstancedMesh.receiveShadow = false;
-        newPointsInstancedMesh.frustumCulled = false;
-        
-        pointsInstancedMeshRef.current = newPointsInstancedMesh;
-        rootRef.current.add(newPointsInstancedMesh);
-      }
-    }
-  }, [trajectoryProfile, showLine, showPoints, pointGeometry, pointMaterial]);
-  
+    lastTimeRef.current = -1;
+  }, [windowBefore, windowAfter]);
+
   // 毎フレーム軌跡を更新
-  useFrame(() => {
+  useFrame((state) => {
     // 必要なrefがない場合や、軌跡データがない場合は早期リターン
-    if (!rootRef.current || !trajectoryProfile || trajectoryProfile.size === 0) {
+    if (!rootRef.current || !trajectoryProfile || sortedTimes.length === 0) {
       return;
     }
-    
+
     // 線と点の両方が無効な場合は何もしない
     if (!showLine && !showPoints) {
       return;
     }
-    
-    const currentTime = currentTimeRef.current;
-    
+
+    const lineHeight = FLOOR_THICKNESS / 2 + height;
+
+    // 値に応じた色（値がない場合はpastColor）
+    const colorAt = (value: number): RGBColor =>
+      Number.isFinite(value)
+        ? valueToColor(colormap, value, valueRange)
+        : [fallbackColor.r, fallbackColor.g, fallbackColor.b];
+
+    // 画面上の許容誤差を軌跡の座標での許容誤差に変換（縮尺が変わった場合は間引き直す）
+    const bounds = lineSource?.bounds ?? pointSource?.bounds;
+    const tolerance = bounds && lodTolerance > 0
+      ? quantizeTolerance(lodTolerance * getWorldUnitsPerPixel(state.camera, state.size.height, bounds, rootRef.current))
+      : 0;
+    if (tolerance !== toleranceRef.current) {
+      toleranceRef.current = tolerance;
+      needsRebuildRef.current = true;
+    }
+
+    // 間引いた頂点でGPUバッファを再構築
+    if (needsRebuildRef.current) {
+      needsRebuildRef.current = false;
+      lastTimeRef.current = -1;
+
+      // 線は頂点の時刻の値で色分けする
+      lineVerticesRef.current = lineSource
+        ? selectPathVertices(
+          lineSource,
+          simplifyPolyline(lineSource.importance, tolerance),
+          colorValues ? (_index, time) => colorAt(interpolateTrajectoryValue(colorValues, sortedTimes, time)) : undefined
+        )
+        : null;
+      for (const line of [pastLineRef.current, futureLineRef.current, fullLineRef.current]) {
+        if (line && lineVerticesRef.current) {
+          rebuildChunkedLine(line, lineVerticesRef.current, lineHeight);
+        }
+      }
+
+      // 点はキーフレームの位置に表示されるため、キーフレームの値で色分けする
+      pointVerticesRef.current = pointSource
+        ? selectPathVertices(
+          pointSource,
+          simplifyPolyline(pointSource.importance, tolerance, pointSource.xs, pointSource.ys, tolerance * POINT_SPACING_FACTOR),
+          colorValues ? (index) => colorAt(colorValues[index]) : undefined
+        )
+        : null;
+      if (pointsRef.current && pointVerticesRef.current) {
+        rebuildChunkedPoints(pointsRef.current, pointVerticesRef.current, lineHeight);
+      }
+
+      // デバッグ情報を出力（開発環境のみ）
+      if (process.env.NODE_ENV === 'development') {
+        console.debug(
+          `TrajectoryPath: Rebuilt buffers with ${lineVerticesRef.current?.times.length ?? 0} line vertices and ` +
+          `${pointVerticesRef.current?.times.length ?? 0} points (tolerance ${tolerance} m)`
+        );
+      }
+    }
+
+    const currentTime = currentTimeRef.current + timeOffset;
+
     // 時間が変わっていない場合は更新不要
     if (lastTimeRef.current === currentTime) {
       return;
     }
-    
+
     lastTimeRef.current = currentTime;
-    
-    // ソートされた時間キーが未設定の場合は作成
-    if (sortedTimesRef.current.length === 0) {
-      sortedTimesRef.current = Array.from(trajectoryProfile.keys()).sort((a, b) => a - b);
-    }
-    
-    const sortedTimes = sortedTimesRef.current;
-    
-    // 軌跡ポイントの計算
-    const pastPoints = calculateTrajectoryPoints(
-      trajectoryProfile,
-      sortedTimes,
-      currentTime,
-      height,
-      isPlaying
-    );
-    
-    // 線の軌跡を更新
-    if (showLine && pastLineRef.current) {
-      const pastGeometry = pastLineRef.current.geometry;
-      const positionAttribute = pastGeometry.getAttribute('position') as THREE.BufferAttribute;
-      
-      if (pastPoints.length > 1) {
-        // バッファサイズをチェックし、必要に応じて再作成
-        if (pastPoints.length > bufferSizeRef.current) {
-          // 新しいサイズを計算（余裕を持たせる）
-          const newSize = Math.min(
-            Math.max(pastPoints.length * 2, bufferSizeRef.current * 2),
-            maxBufferSize
-          );
-          
-          // 新しいバッファを作成
-          const newPositions = new Float32Array(newSize * 3);
-          const newAttribute = new THREE.BufferAttribute(newPositions, 3);
-          newAttribute.setUsage(THREE.DynamicDrawUsage);
-          pastGeometry.setAttribute('position', newAttribute);
-          bufferSizeRef.current = newSize;
-        }
-        
-        // 既存のバッファにデータをコピー
-        const positions = positionAttribute.array as Float32Array;
-        const maxVertices = positions.length / 3;
-        
-        // バッファオーバーフローを防ぐチェック
-        if (pastPoints.length > maxVertices) {
-          if (process.env.NODE_ENV === 'development') {
-            console.warn(`TrajectoryPath: Attempted to render ${pastPoints.length} vertices, but buffer only supports ${maxVertices} vertices`);
-          }
-          return;
-        }
-        
-        let index = 0;
-        for (const point of pastPoints) {
-          // 境界チェックを追加
-          if (index + 2 >= positions.length) {
-            if (process.env.NODE_ENV === 'development') {
-              console.warn('TrajectoryPath: Buffer overflow prevented during position update');
-            }
-            break;
-          }
-          positions[index++] = point[0];
-          positions[index++] = point[1];
-          positions[index++] = point[2];
+
+    // 過去の軌跡の範囲（windowモードでは現在より一定時間前から）
+    // 停止状態で開始時刻にある場合は表示しない
+    const pastStartTime = mode === 'window' ? currentTime - windowBefore : -Infinity;
+    const isPastVisible = (isPlaying || currentTime > 0) && currentTime >= sortedTimes[0];
+
+    const lineVertices = lineVerticesRef.current;
+    if (lineVertices) {
+      // 表示範囲の端はアニメーションのマウスと同じ補間位置にする
+      const edgeVertexAt = (time: number, colored: boolean): EdgeVertex => ({
+        ...sampleTrajectory(trajectoryProfile, sortedTimes, time, interpolation)!.position,
+        distance: interpolateTrajectoryValue(lineVertices.distances, lineVertices.times, time),
+        color: colored && colorValues ? colorAt(interpolateTrajectoryValue(colorValues, sortedTimes, time)) : null,
+      });
+
+      if (pastLineRef.current) {
+        if (isPastVisible) {
+          updateChunkedLine(pastLineRef.current, lineVertices, lineHeight, pastStartTime, currentTime, (time) => edgeVertexAt(time, true));
+        } else {
+          hideChunkedLine(pastLineRef.current);
         }
-        
-        // 実際に描画する頂点数を設定（安全な範囲内で）
-        const safeVertexCount = Math.min(pastPoints.length, maxVertices);
-        pastGeometry.setDrawRange(0, safeVertexCount);
-        positionAttribute.needsUpdate = true;
-        pastGeometry.computeBoundingSphere();
-      } else {
-        // ポイントが1個以下の場合は描画範囲を0に設定
-        pastGeometry.setDrawRange(0, 0);
+      }
+
+      // 未来の線は現在のマウスの位置から描画する
+      if (futureLineRef.current) {
+        const futureEndTime = mode === 'window' ? currentTime + windowAfter : Infinity;
+        updateChunkedLine(futureLineRef.current, lineVertices, lineHeight, currentTime, futureEndTime, (time) => edgeVertexAt(time, false));
+      }
+
+      // 軌道全体の線は時刻によらず全範囲を描画する
+      if (fullLineRef.current) {
+        updateChunkedLine(fullLineRef.current, lineVertices, lineHeight, -Infinity, Infinity, (time) => edgeVertexAt(time, false));
       }
     }
-    
+
     // 点の軌跡を更新
-    if (showPoints && pointsInstancedMeshRef.current) {
-      updatePointsDisplay(pastPoints, pointsInstancedMeshRef.current);
+    if (pointsRef.current && pointVerticesRef.current) {
+      if (isPastVisible) {
+        updateChunkedPoints(pointsRef.current, pointVerticesRef.current, lineHeight, pastStartTime, currentTime);
+      } else {
+        hideChunkedPoints(pointsRef.current);
+      }
     }
   });
-  
+
   // レンダリング - 空のグループを返すだけで、実際の処理はuseFrameが担当
   return <group ref={rootRef} />;
 };
 
 /**
- * InstancedMeshを使用して点の表示を更新する関数
- * パフォーマンスを考慮して、InstancedMeshのmatrixを直接更新
+ * 点列から間引く前の軌跡を作成する関数
+ * 始点からの距離と間引きの重要度を事前に計算しておく
  */
-function updatePointsDisplay(points: [number, number, number][], instancedMesh: THREE.InstancedMesh) {
-  // InstancedMeshの最大インスタンス数を取得（初期化時に設定された値）
-  const maxInstances = instancedMesh.instanceMatrix.count;
-  
-  // ポイントが無い場合はInstancedMeshを非表示
-  if (points.length === 0) {
-    instancedMesh.count = 0;
-    return;
+function buildPathSource(samples: { x: number; y: number; time: number }[]): PathSource {
+  const count = samples.length;
+  const times = new Float64Array(count);
+  const xs = new Float64Array(count);
+  const ys = new Float64Array(count);
+  const distances = new Float64Array(count);
+  const bounds = new THREE.Box3();
+  const point = new THREE.Vector3();
+
+  for (let i = 0; i < count; i++) {
+    times[i] = samples[i].time;
+    xs[i] = samples[i].x;
+    ys[i] = samples[i].y;
+    distances[i] = i === 0 ? 0 : distances[i - 1] + Math.hypot(xs[i] - xs[i - 1], ys[i] - ys[i - 1]);
+    bounds.expandByPoint(point.set(xs[i], ys[i], 0));
   }
-  
-  // 実際に表示可能な点数を計算（最大インスタンス数を超えないように）
-  const pointCount = Math.min(points.length, maxInstances);
-  
-  // バッファオーバーフローを防ぐため、事前チェック
-  if (pointCount > maxInstances) {
-    if (process.env.NODE_ENV === 'development') {
-      console.warn(`TrajectoryPath: Attempted to render ${pointCount} points, but InstancedMesh only supports ${maxInstances} instances`);
+
+  return { times, xs, ys, distances, importance: computeSimplificationImportance(xs, ys), bounds };
+}
+
+/**
+ * 間引いた後に残す頂点を取り出す関数
+ * colorAtには元の点列でのインデックスと時刻が渡される
+ */
+function selectPathVertices(
+  source: PathSource,
+  indices: Uint32Array,
+  colorAt?: (index: number, time: number) => RGBColor
+): PathVertices {
+  const count = indices.length;
+  const vertices: PathVertices = {
+    times: new Float64Array(count),
+    xs: new Float64Array(count),
+    ys: new Float64Array(count),
+    distances: new Float64Array(count),
+    colors: colorAt ? new Float32Array(count * 3) : null,
+  };
+
+  for (let i = 0; i < count; i++) {
+    const index = indices[i];
+    vertices.times[i] = source.times[index];
+    vertices.xs[i] = source.xs[index];
+    vertices.ys[i] = source.ys[index];
+    vertices.distances[i] = source.distances[index];
+    if (colorAt && vertices.colors) {
+      vertices.colors.set(colorAt(index, source.times[index]), i * 3);
     }
-    return;
-  }
-  
-  // 各ポイントの位置を設定
-  for (let i = 0; i < pointCount; i++) {
-    const [x, y, z] = points[i];
-    
-    // Matrix4を明示的に作成して位置を設定
-    const matrix = new THREE.Matrix4();
-    matrix.makeTranslation(x, y, z);
-    
-    instancedMesh.setMatrixAt(i, matrix);
   }
-  
-  // 表示するインスタンス数を安全に設定
-  instancedMesh.count = Math.max(0, Math.min(pointCount, maxInstances));
-  
-  // バッファ更新を要求（描画前に同期される）
-  instancedMesh.instanceMatrix.needsUpdate = true;
+
+  return vertices;
 }
 
+// 縮尺の計算に使用する一時オブジェクト
+const _worldBounds = new THREE.Box3();
+const _cameraPosition = new THREE.Vector3();
+
 /**
- * 軌跡ポイントを計算する関数
- * useMemoの代わりに通常の関数として実装し、useFrame内で呼び出す
+ * 画面上の1ピクセルに相当する軌跡付近の長さ[m]を求める関数
+ * 透視投影ではカメラに最も近い軌跡の位置で計算し、手前の部分が粗くならないようにする
  */
-function calculateTrajectoryPoints(
-  trajectoryProfile: Map<number, any>,
-  sortedTimes: number[],
-  currentTime: number,
-  height: number,
-  isPlaying: boolean
-): [number, number, number][] {
-  // プロファイルが未定義または空の場合
-  if (!trajectoryProfile || trajectoryProfile.size === 0 || sortedTimes.length === 0) {
-    return [];
-  }
-  
-  // 停止状態の場合は軌跡を表示しない
-  if (!isPlaying && currentTime <= 0) {
-    return [];
+function getWorldUnitsPerPixel(
+  camera: THREE.Camera,
+  viewportHeight: number,
+  bounds: THREE.Box3,
+  root: THREE.Object3D
+): number {
+  if (viewportHeight <= 0) return 0;
+
+  if (camera instanceof THREE.OrthographicCamera) {
+    return (camera.top - camera.bottom) / camera.zoom / viewportHeight;
   }
-  
-  // 現在時刻が最初の時刻より前の場合は軌跡を表示しない
-  if (currentTime < sortedTimes[0]) {
-    return [];
+
+  if (camera instanceof THREE.PerspectiveCamera) {
+    _worldBounds.copy(bounds).applyMatrix4(root.matrixWorld);
+    camera.getWorldPosition(_cameraPosition);
+    const distance = Math.max(_worldBounds.distanceToPoint(_cameraPosition), camera.near);
+    return (2 * distance * Math.tan(THREE.MathUtils.degToRad(camera.fov) / 2)) / camera.zoom / viewportHeight;
   }
-  
-  // 過去の軌跡
-  const pastPointsArray: [number, number, number][] = [];
-  
-  // 二分探索で現在時刻のインデックスを検索
-  let currentIndex = binarySearchTimeIndex(sortedTimes, currentTime);
-  
-  // 過去の軌跡の計算（現在時刻まで全て表示）
-  // segmentsによる制限を撤廃し、開始から現在時刻まで全ての軌跡を表示
-  const pastStartIndex = 0; // 最初から
-  
-  for (let i = pastStartIndex; i <= currentIndex; i++) {
-    const time = sortedTimes[i];
-    const element = trajectoryProfile.get(time);
-    if (element) {
-      pastPointsArray.push([
-        element.position.x, 
-        element.position.y, 
-        FLOOR_THICKNESS / 2 + height
-      ]);
+
+  return 0;
+}
+
+/**
+ * 許容誤差を最小単位の2のべき乗倍に切り下げる関数
+ * 最小単位未満の場合は0（間引かない）
+ */
+function quantizeTolerance(tolerance: number): number {
+  if (!(tolerance >= LOD_BASE_TOLERANCE)) return 0;
+  return LOD_BASE_TOLERANCE * 2 ** Math.floor(Math.log2(tolerance / LOD_BASE_TOLERANCE));
+}
+
+/**
+ * 時刻がtime以上となる最初のインデックスを求める関数
+ */
+function lowerBound(times: Float64Array, time: number): number {
+  let left = 0;
+  let right = times.length;
+  while (left < right) {
+    const mid = (left + right) >>> 1;
+    if (times[mid] < time) {
+      left = mid + 1;
+    } else {
+      right = mid;
     }
   }
-  
-  return pastPointsArray;
+  return left;
 }
 
 /**
- * 二分探索で時間に対応するインデックスを検索する
- * O(log n)の計算量で効率的に探索
+ * 時刻がtimeより大きくなる最初のインデックスを求める関数
  */
-function binarySearchTimeIndex(timestamps: number[], time: number): number {
+function upperBound(times: Float64Array, time: number): number {
   let left = 0;
-  let right = timestamps.length - 1;
-  
-  // 端点のケース
-  if (time <= timestamps[0]) return 0;
-  if (time >= timestamps[right]) return right;
-  
-  // 二分探索
-  while (left <= right) {
-    const mid = Math.floor((left + right) / 2);
-    
-    if (timestamps[mid] <= time && (mid === timestamps.length - 1 || time < timestamps[mid + 1])) {
-      return mid;
-    }
-    
-    if (timestamps[mid] < time) {
+  let right = times.length;
+  while (left < right) {
+    const mid = (left + right) >>> 1;
+    if (times[mid] <= time) {
       left = mid + 1;
     } else {
-      right = mid - 1;
+      right = mid;
     }
   }
-  
-  return 0;
+  return left;
+}
+
+/**
+ * 太線のマテリアルを作成する関数
+ * 線の太さは画面上のピクセル数で、解像度はLine2が描画時にビューポートから設定する
+ */
+function createLineMaterial(options: {
+  color: string;
+  vertexColors?: boolean;
+  lineWidth: number;
+  opacity: number;
+  dashed: boolean;
+  dashSize: number;
+  gapSize: number;
+}): LineMaterial {
+  const material = new LineMaterial({
+    vertexColors: options.vertexColors ?? false,
+    linewidth: options.lineWidth,
+    transparent: true,
+    opacity: options.opacity,
+    dashed: options.dashed,
+    dashSize: options.dashSize,
+    gapSize: options.gapSize,
+    worldUnits: false,
+  });
+  material.color.set(options.color);
+  return material;
+}
+
+/**
+ * 線の位置・色・破線用の距離のバッファを確保する関数
+ * LineGeometry.setPositionsは呼び出しごとにバッファを作り直すため、
+ * 線分ごとの属性を直接確保して書き換える
+ * 色は色分け表示時のみ使用する
+ */
+function allocateLineBuffers(geometry: LineGeometry, size: number) {
+  // 線分ごとに始点・終点の3要素ずつを交互に格納する
+  const positionBuffer = new THREE.InstancedInterleavedBuffer(new Float32Array(size * 6), 6, 1);
+  positionBuffer.setUsage(THREE.DynamicDrawUsage);
+  geometry.setAttribute('instanceStart', new THREE.InterleavedBufferAttribute(positionBuffer, 3, 0));
+  geometry.setAttribute('instanceEnd', new THREE.InterleavedBufferAttribute(positionBuffer, 3, 3));
+
+  const colorBuffer = new THREE.InstancedInterleavedBuffer(new Float32Array(size * 6), 6, 1);
+  colorBuffer.setUsage(THREE.DynamicDrawUsage);
+  geometry.setAttribute('instanceColorStart', new THREE.InterleavedBufferAttribute(colorBuffer, 3, 0));
+  geometry.setAttribute('instanceColorEnd', new THREE.InterleavedBufferAttribute(colorBuffer, 3, 3));
+
+  // 破線表示用の線の始点からの距離
+  const distanceBuffer = new THREE.InstancedInterleavedBuffer(new Float32Array(size * 2), 2, 1);
+  distanceBuffer.setUsage(THREE.DynamicDrawUsage);
+  geometry.setAttribute('instanceDistanceStart', new THREE.InterleavedBufferAttribute(distanceBuffer, 1, 0));
+  geometry.setAttribute('instanceDistanceEnd', new THREE.InterleavedBufferAttribute(distanceBuffer, 1, 1));
+}
+
+/**
+ * バッファを確保した空のラインを作成する関数
+ * renderOrderが大きいほど手前に重ねて描画される
+ */
+function createLine(material: LineMaterial, size: number, renderOrder: number): Line2 {
+  const geometry = new LineGeometry();
+  allocateLineBuffers(geometry, size);
+  geometry.instanceCount = 0; // 初期状態では何も描画しない
+
+  const line = new Line2(geometry, material);
+  line.renderOrder = renderOrder;
+  // 境界の再計算を避けるため、カリングを無効にする
+  line.frustumCulled = false;
+  return line;
+}
+
+/**
+ * 頂点列の線分[first, last)をバッファの先頭から書き込む関数
+ */
+function writeLineSegments(geometry: LineGeometry, vertices: PathVertices, z: number, first: number, last: number) {
+  const positionBuffer = (geometry.getAttribute('instanceStart') as THREE.InterleavedBufferAttribute).data;
+  const distanceBuffer = (geometry.getAttribute('instanceDistanceStart') as THREE.InterleavedBufferAttribute).data;
+  const colorBuffer = (geometry.getAttribute('instanceColorStart') as THREE.InterleavedBufferAttribute).data;
+  const positions = positionBuffer.array as Float32Array;
+  const distances = distanceBuffer.array as Float32Array;
+  const colors = colorBuffer.array as Float32Array;
+  const count = last - first;
+
+  for (let i = 0; i < count; i++) {
+    const start = first + i;
+    const end = start + 1;
+    positions[i * 6] = vertices.xs[start];
+    positions[i * 6 + 1] = vertices.ys[start];
+    positions[i * 6 + 2] = z;
+    positions[i * 6 + 3] = vertices.xs[end];
+    positions[i * 6 + 4] = vertices.ys[end];
+    positions[i * 6 + 5] = z;
+
+    distances[i * 2] = vertices.distances[start];
+    distances[i * 2 + 1] = vertices.distances[end];
+
+    // 色分け時は頂点ごとの色を書き込む
+    if (vertices.colors) {
+      colors.set(vertices.colors.subarray(start * 3, start * 3 + 3), i * 6);
+      colors.set(vertices.colors.subarray(end * 3, end * 3 + 3), i * 6 + 3);
+    }
+  }
+
+  // 書き換えた範囲のみGPUに転送する
+  positionBuffer.addUpdateRange(0, count * 6);
+  positionBuffer.needsUpdate = true;
+  distanceBuffer.addUpdateRange(0, count * 2);
+  distanceBuffer.needsUpdate = true;
+  if (vertices.colors) {
+    colorBuffer.addUpdateRange(0, count * 6);
+    colorBuffer.needsUpdate = true;
+  }
+}
+
+/**
+ * 端の線分をバッファに書き込む関数
+ */
+function writeEdgeSegments(line: Line2, segments: [EdgeVertex, EdgeVertex][], z: number) {
+  const geometry = line.geometry;
+  const positionBuffer = (geometry.getAttribute('instanceStart') as THREE.InterleavedBufferAttribute).data;
+  const distanceBuffer = (geometry.getAttribute('instanceDistanceStart') as THREE.InterleavedBufferAttribute).data;
+  const colorBuffer = (geometry.getAttribute('instanceColorStart') as THREE.InterleavedBufferAttribute).data;
+  const positions = positionBuffer.array as Float32Array;
+  const distances = distanceBuffer.array as Float32Array;
+  const colors = colorBuffer.array as Float32Array;
+
+  segments.forEach(([start, end], i) => {
+    positions.set([start.x, start.y, z, end.x, end.y, z], i * 6);
+    distances.set([start.distance, end.distance], i * 2);
+    if (start.color && end.color) {
+      colors.set([...start.color, ...end.color], i * 6);
+    }
+  });
+
+  positionBuffer.needsUpdate = true;
+  distanceBuffer.needsUpdate = true;
+  colorBuffer.needsUpdate = true;
+  geometry.instanceCount = segments.length;
 }
 
+/**
+ * 分割した線を作成する関数（チャンクは頂点が決まった時点で作成する）
+ */
+function createChunkedLine(material: LineMaterial, renderOrder: number): ChunkedLine {
+  const group = new THREE.Group();
+  const edge = createLine(material, 2, renderOrder);
+  group.add(edge);
+  return { group, material, renderOrder, chunks: [], edge };
+}
+
+/**
+ * 分割した線のチャンクを破棄する関数
+ */
+function disposeLineChunks(line: ChunkedLine) {
+  for (const chunk of line.chunks) {
+    line.group.remove(chunk.line);
+    chunk.line.geometry.dispose();
+  }
+  line.chunks = [];
+}
+
+/**
+ * 分割した線を破棄する関数
+ */
+function disposeChunkedLine(line: ChunkedLine) {
+  disposeLineChunks(line);
+  line.group.remove(line.edge);
+  line.edge.geometry.dispose();
+}
+
+/**
+ * 頂点列に合わせてチャンクを作り直す関数
+ * 各チャンクにはCHUNK_SIZE本ずつ線分を書き込み、表示範囲はupdateChunkedLineで設定する
+ */
+function rebuildChunkedLine(line: ChunkedLine, vertices: PathVertices, z: number) {
+  disposeLineChunks(line);
+
+  const segmentCount = Math.max(vertices.times.length - 1, 0);
+  for (let start = 0; start < segmentCount; start += CHUNK_SIZE) {
+    const end = Math.min(start + CHUNK_SIZE, segmentCount);
+    const chunkLine = createLine(line.material, end - start, line.renderOrder);
+    writeLineSegments(chunkLine.geometry, vertices, z, start, end);
+    line.group.add(chunkLine);
+    line.chunks.push({ line: chunkLine, start, end, storedStart: start });
+  }
+  line.edge.geometry.instanceCount = 0;
+}
+
+/**
+ * 分割した線を非表示にする関数
+ */
+function hideChunkedLine(line: ChunkedLine) {
+  for (const chunk of line.chunks) {
+    chunk.line.geometry.instanceCount = 0;
+  }
+  line.edge.geometry.instanceCount = 0;
+}
+
+/**
+ * 分割した線の表示範囲を時刻[from, to]に設定する関数
+ * 範囲内の頂点の間の線分はチャンクの描画数で切り替え、範囲の先頭を含むチャンクのみ書き直す
+ * 範囲の両端（補間位置と範囲内の頂点の間）は端の線分として描画する
+ */
+function updateChunkedLine(
+  line: ChunkedLine,
+  vertices: PathVertices,
+  z: number,
+  from: number,
+  to: number,
+  edgeVertexAt: (time: number) => EdgeVertex
+) {
+  const times = vertices.times;
+  const startTime = Math.max(from, times[0]);
+  const endTime = Math.min(to, times[times.length - 1]);
+
+  // 範囲が軌跡と重ならない場合は表示しない
+  if (!(endTime > startTime)) {
+    hideChunkedLine(line);
+    return;
+  }
+
+  // 範囲内（両端を除く）の頂点[first, last]
+  const first = upperBound(times, startTime);
+  const last = lowerBound(times, endTime) - 1;
+
+  // 範囲内の頂点の間の線分[first, last)
+  for (const chunk of line.chunks) {
+    const start = Math.max(first, chunk.start);
+    const end = Math.min(last, chunk.end);
+    if (start >= end) {
+      chunk.line.geometry.instanceCount = 0;
+      continue;
+    }
+    if (chunk.storedStart !== start) {
+      writeLineSegments(chunk.line.geometry, vertices, z, start, chunk.end);
+      chunk.storedStart = start;
+    }
+    chunk.line.geometry.instanceCount = end - start;
+  }
+
+  // 範囲の両端の線分
+  const vertexAt = (index: number): EdgeVertex => ({
+    x: vertices.xs[index],
+    y: vertices.ys[index],
+    distance: vertices.distances[index],
+    color: vertices.colors ? [vertices.colors[index * 3], vertices.colors[index * 3 + 1], vertices.colors[index * 3 + 2]] : null,
+  });
+  const startVertex = edgeVertexAt(startTime);
+  const endVertex = edgeVertexAt(endTime);
+  writeEdgeSegments(
+    line.edge,
+    first <= last
+      ? [[startVertex, vertexAt(first)], [vertexAt(last), endVertex]]
+      : [[startVertex, endVertex]],
+    z
+  );
+}
+
+/**
+ * 分割した点を作成する関数（チャンクは点が決まった時点で作成する）
+ */
+function createChunkedPoints(geometry: THREE.BufferGeometry, material: THREE.MeshBasicMaterial): ChunkedPoints {
+  return { group: new THREE.Group(), geometry, material, chunks: [] };
+}
+
+/**
+ * 分割した点のチャンクを破棄する関数
+ */
+function disposeChunkedPoints(points: ChunkedPoints) {
+  for (const chunk of points.chunks) {
+    points.group.remove(chunk.mesh);
+    chunk.mesh.dispose();
+  }
+  points.chunks = [];
+}
+
+/**
+ * 点[first, last)のインスタンスの位置（と色分け時は色）をバッファの先頭から書き込む関数
+ * パフォーマンスを考慮して、InstancedMeshのmatrixを直接更新
+ */
+function writePointInstances(mesh: THREE.InstancedMesh, vertices: PathVertices, z: number, first: number, last: number) {
+  const matrices = mesh.instanceMatrix.array as Float32Array;
+  const count = last - first;
+
+  for (let i = 0; i < count; i++) {
+    // 平行移動のみの行列（列優先）
+    const offset = i * 16;
+    matrices.fill(0, offset, offset + 16);
+    matrices[offset] = 1;
+    matrices[offset + 5] = 1;
+    matrices[offset + 10] = 1;
+    matrices[offset + 12] = vertices.xs[first + i];
+    matrices[offset + 13] = vertices.ys[first + i];
+    matrices[offset + 14] = z;
+    matrices[offset + 15] = 1;
+  }
+  mesh.instanceMatrix.addUpdateRange(0, count * 16);
+  mesh.instanceMatrix.needsUpdate = true;
+
+  // 色分け時はインスタンスごとの色を設定
+  if (vertices.colors && mesh.instanceColor) {
+    (mesh.instanceColor.array as Float32Array).set(vertices.colors.subarray(first * 3, last * 3));
+    mesh.instanceColor.addUpdateRange(0, count * 3);
+    mesh.instanceColor.needsUpdate = true;
+  }
+}
+
+/**
+ * 点に合わせてチャンクを作り直す関数
+ * 各チャンクはCHUNK_SIZE個ずつのInstancedMeshで、表示範囲はupdateChunkedPointsで設定する
+ */
+function rebuildChunkedPoints(points: ChunkedPoints, vertices: PathVertices, z: number) {
+  disposeChunkedPoints(points);
+
+  const pointCount = vertices.times.length;
+  for (let start = 0; start < pointCount; start += CHUNK_SIZE) {
+    const end = Math.min(start + CHUNK_SIZE, pointCount);
+    const mesh = new THREE.InstancedMesh(points.geometry, points.material, end - start);
+    mesh.instanceMatrix.setUsage(THREE.DynamicDrawUsage);
+    if (vertices.colors) {
+      mesh.instanceColor = new THREE.InstancedBufferAttribute(new Float32Array((end - start) * 3), 3);
+      mesh.instanceColor.setUsage(THREE.DynamicDrawUsage);
+    }
+    mesh.count = 0; // 初期状態では何も表示しない
+    mesh.castShadow = false;
+    mesh.receiveShadow = false;
+    mesh.frustumCulled = false; // カリングを無効にして確実に表示
+
+    writePointInstances(mesh, vertices, z, start, end);
+    points.group.add(mesh);
+    points.chunks.push({ mesh, start, end, storedStart: start });
+  }
+}
+
+/**
+ * 分割した点を非表示にする関数
+ */
+function hideChunkedPoints(points: ChunkedPoints) {
+  for (const chunk of points.chunks) {
+    chunk.mesh.count = 0;
+  }
+}
+
+/**
+ * 分割した点の表示範囲を時刻[from, to]に設定する関数
+ * 範囲の先頭を含むチャンクのみ書き直す
+ */
+function updateChunkedPoints(points: ChunkedPoints, vertices: PathVertices, z: number, from: number, to: number) {
+  const first = lowerBound(vertices.times, from);
+  const last = upperBound(vertices.times, to);
+
+  for (const chunk of points.chunks) {
+    const start = Math.max(first, chunk.start);
+    const end = Math.min(last, chunk.end);
+    if (start >= end) {
+      chunk.mesh.count = 0;
+      continue;
+    }
+    if (chunk.storedStart !== start) {
+      writePointInstances(chunk.mesh, vertices, z, start, chunk.end);
+      chunk.storedStart = start;
+    }
+    chunk.mesh.count = end - start;
+  }
+}
 
-export default React.memo(TrajectoryPath);
\ No newline at end of file
+export default React.memo(TrajectoryPath);
@@ -94,13 +94,15 @@ export interface WallInstancesProps {
     position: [number, number, number];
     rotation?: [number, number, number];
   }[];
+  opacity?: number; // 透明度（1未満の場合は半透明で描画）
+  color?: string;   // 色（指定しない場合はモデルの色）
 }
 
 /**
  * 複数の壁をインスタンス化して効率的に描画するコンポーネント
  * @react-three/dreiのInstances/Instanceを使用
  */
-export const WallInstances: React.FC<WallInstancesProps> = ({ walls }) => {
+export const WallInstances: React.FC<WallInstancesProps> = ({ walls, opacity = 1, color }) => {
   // FBXモデルを読み込む
   const fbx = useFBX(getModelPath('wall'));
   const { scene } = useThree();
@@ -163,11 +165,23 @@ export const WallInstances: React.FC<WallInstancesProps> = ({ walls }) => {
       }
     });
     
+    // 透明度・色の指定を適用
+    extractedMaterials.forEach((material) => {
+      if (opacity < 1) {
+        material.transparent = true;
+        material.opacity = opacity;
+        material.depthWrite = false;
+      }
+      if (color && 'color' in material && material.color instanceof THREE.Color) {
+        material.color.set(color);
+      }
+    });
+    
     return { 
       geometries: extractedGeometries, 
       materials: extractedMaterials 
     };
-  }, [fbx]);
+  }, [fbx, opacity, color]);
   
   // モデルが読み込まれていない場合は早期リターン
   if (geometries.length === 0 || walls.length === 0) {
@@ -190,7 +204,7 @@ export const WallInstances: React.FC<WallInstancesProps> = ({ walls }) => {
           material={materials[index]}
           limit={maxWalls}
           range={walls.length}
-          castShadow
+          castShadow={opacity >= 1}
           receiveShadow
         >
           {walls.map((wall, i) => {
@@ -1,10 +1,14 @@
 import * as THREE from 'three';
+import type { CameraFollowMode, CameraFollowOptions } from '../types';
 
 // --- 定数 ---
 export const CELL_SIZE = 0.09; // 1マスの物理サイズ[m] (Three.js空間での単位)
 export const FLOOR_THICKNESS = 0.01; // 床の厚み[m]
 export const MOUSE_SIZE = CELL_SIZE * 0.5; // マウスの仮サイズ
 export const PILLAR_COLOR = '#aaaaaa'; // 柱の色
+export const WALL_THICKNESS = 0.012; // 壁の厚み[m] (クリック判定などに使用)
+export const WALL_HEIGHT = 0.05; // 壁・柱の高さ[m] (クリック判定などに使用)
+export const PILLAR_SIZE = 0.012; // 柱の一辺の長さ[m] (クリック判定などに使用)
 
 // --- カメラプリセット ---
 // 座標系: Zが上、Xが右、Yが奥 (右手系)
@@ -13,4 +17,17 @@ export const cameraPresets = {
   angle: { position: [5, -5, 5], target: [0, 0, 0] }, // 斜め上から (Y軸マイナス方向から見る)
   side: { position: [5, 0, 1], target: [0, 0, 0] }, // 横から (X軸プラス方向から)
   ortho: { position: [0, 0, 10], target: [0, 0, 0] }, // 直交カメラ用 (真上から)
+  // 追従カメラは毎フレームマウスの位置から計算するため、初期位置のみangleと同じ値を使用
+  chase: { position: [5, -5, 5], target: [0, 0, 0] }, // マウスの後方から追従
+  firstPerson: { position: [5, -5, 5], target: [0, 0, 0] }, // マウスの視点
+  tracking: { position: [5, -5, 5], target: [0, 0, 0] }, // 真上からマウスを追跡
+};
+
+// --- 追従カメラの既定値 ---
+// offsetはchase・firstPersonではマウス座標系の[前方, 左, 上]、trackingではワールド座標系の[x, y, z]
+export const cameraFollowDefaults: Record<CameraFollowMode, Required<CameraFollowOptions>> = {
+  chase: { offset: [-CELL_SIZE * 2, 0, CELL_SIZE * 1.3], lookAhead: CELL_SIZE, targetHeight: 0, smoothing: 0.15 },
+  firstPerson: { offset: [MOUSE_SIZE / 2, 0, 0.03], lookAhead: CELL_SIZE * 2, targetHeight: 0.02, smoothing: 0.05 },
+  // 真上から見下ろすとlookAtの向きが定まらないため、Y方向にわずかにずらす
+  tracking: { offset: [0, -0.001, CELL_SIZE * 6], lookAhead: 0, targetHeight: 0, smoothing: 0.2 },
 };
@@ -1,6 +1,6 @@
 import { useRef, MutableRefObject } from 'react';
 import { CameraControlAPI } from '../components/MicromouseVisualizer/CameraController';
-import { CameraViewPreset } from '../types';
+import { CameraBookmark, CameraKeyframe, CameraState, CameraTransitionOptions, CameraViewPreset } from '../types';
 
 /**
  * カメラ操作用のカスタムフック
@@ -15,38 +15,74 @@ import { CameraViewPreset } from '../types';
  * 
  * // 物理座標で指定した領域にズーム（メートル単位）
  * zoomToRegion(0, 0, 0.27, 0.27); // スタート領域
+ *
+ * // 1秒かけてなめらかに移動
+ * setCameraView('angle', { duration: 1, easing: 'easeInOut' });
+ *
+ * // 現在の視点をJSONで共有し、復元する
+ * const json = JSON.stringify(getCameraState());
+ * setCameraState(JSON.parse(json));
  * ```
  */
 export const useCamera = (): {
   cameraRef: MutableRefObject<CameraControlAPI | null>;
-  setCameraView: (preset: CameraViewPreset) => void;
-  resetCamera: (preset?: CameraViewPreset) => void;
-  toggleCameraProjection: () => void;
-  zoomToRegion: (x1: number, y1: number, x2: number, y2: number) => void;
+  setCameraView: (preset: CameraViewPreset, options?: CameraTransitionOptions) => void;
+  resetCamera: (preset?: CameraViewPreset, options?: CameraTransitionOptions) => void;
+  toggleCameraProjection: (options?: CameraTransitionOptions) => void;
+  zoomToRegion: (x1: number, y1: number, x2: number, y2: number, options?: CameraTransitionOptions) => void;
+  setCameraPath: (keyframes: CameraKeyframe[] | null) => void;
+  getCameraState: () => CameraState | null;
+  setCameraState: (state: CameraState, options?: CameraTransitionOptions) => void;
+  saveBookmark: (name: string) => CameraBookmark | null;
+  restoreBookmark: (name: string, options?: CameraTransitionOptions) => void;
 } => {
   const cameraRef = useRef<CameraControlAPI | null>(null);
 
-  const setCameraView = (preset: CameraViewPreset) => {
+  const setCameraView = (preset: CameraViewPreset, options?: CameraTransitionOptions) => {
     if (cameraRef.current) {
-      cameraRef.current.setCameraView(preset);
+      cameraRef.current.setCameraView(preset, options);
     }
   };
 
-  const resetCamera = (preset?: CameraViewPreset) => {
+  const resetCamera = (preset?: CameraViewPreset, options?: CameraTransitionOptions) => {
     if (cameraRef.current) {
-      cameraRef.current.resetCamera(preset);
+      cameraRef.current.resetCamera(preset, options);
     }
   };
 
-  const toggleCameraProjection = () => {
+  const toggleCameraProjection = (options?: CameraTransitionOptions) => {
     if (cameraRef.current) {
-      cameraRef.current.toggleCameraProjection();
+      cameraRef.current.toggleCameraProjection(options);
     }
   };
 
-  const zoomToRegion = (x1: number, y1: number, x2: number, y2: number) => {
+  const zoomToRegion = (x1: number, y1: number, x2: number, y2: number, options?: CameraTransitionOptions) => {
     if (cameraRef.current) {
-      cameraRef.current.zoomToRegion(x1, y1, x2, y2);
+      cameraRef.current.zoomToRegion(x1, y1, x2, y2, options);
+    }
+  };
+
+  const setCameraPath = (keyframes: CameraKeyframe[] | null) => {
+    if (cameraRef.current) {
+      cameraRef.current.setCameraPath(keyframes);
+    }
+  };
+
+  // CameraControllerの準備前はnull
+  const getCameraState = (): CameraState | null => cameraRef.current?.getCameraState() ?? null;
+
+  const setCameraState = (state: CameraState, options?: CameraTransitionOptions) => {
+    if (cameraRef.current) {
+      cameraRef.current.setCameraState(state, options);
+    }
+  };
+
+  // CameraControllerの準備前はnull
+  const saveBookmark = (name: string): CameraBookmark | null => cameraRef.current?.saveBookmark(name) ?? null;
+
+  const restoreBookmark = (name: string, options?: CameraTransitionOptions) => {
+    if (cameraRef.current) {
+      cameraRef.current.restoreBookmark(name, options);
     }
   };
 
@@ -56,5 +92,10 @@ export const useCamera = (): {
     resetCamera,
     toggleCameraProjection,
     zoomToRegion,
+    setCameraPath,
+    getCameraState,
+    setCameraState,
+    saveBookmark,
+    restoreBookmark,
   };
 };
\ No newline at end of file
@@ -1,5 +1,14 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useMemo } from 'react';
 import { useData, useSharedTrajectoryAnimation } from '../providers/DataProvider';
+import type { TrajectoryEvent } from '../types';
+import { findNextTrajectoryEvent, findPreviousTrajectoryEvent, getTrajectoryEventColor } from '../utils/trajectoryEvents';
+
+// シークバー上のイベントの目盛り
+export interface PlaybackEventTick {
+  event: TrajectoryEvent;
+  position: number; // シークバー上の位置（再生範囲の開始を0、終了を1とした割合）
+  color: string;    // マーカーの色
+}
 
 /**
  * 軌跡再生コントロールのためのheadless hook
@@ -15,11 +24,14 @@ export const usePlaybackControls = () => {
   
   // 現在の状態を取得
   const isPlayingCurrent = useData((state) => state.isPlaying);
+  const startTimeCurrent = useData((state) => state.startTime);
   const durationCurrent = useData((state) => state.duration);
   const playbackSpeedCurrent = useData((state) => state.playbackSpeed);
   const isLoopEnabledCurrent = useData((state) => state.isLoopEnabled);
   const sortedTimestampsCurrent = useData((state) => state.sortedTimestamps);
   const trajectoryProfile = useData((state) => state.trajectoryProfile);
+  const interpolation = useData((state) => state.interpolation);
+  const trajectoryEvents = useData((state) => state.trajectoryEvents);
   
   // 高性能アニメーション用のref管理（共有）
   const { currentTimeRef, updateMouseStateForTime, setCurrentTime: setAnimationTime } = useSharedTrajectoryAnimation();
@@ -27,6 +39,7 @@ export const usePlaybackControls = () => {
   // UIの表示用の状態
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
+  const [startTime, setStartTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [playbackSpeed, setPlaybackSpeedUi] = useState(1);
   const [isLoopEnabled, setIsLoopEnabledUi] = useState(false);
@@ -44,32 +57,65 @@ export const usePlaybackControls = () => {
     }
   }, [play, pause, isPlayingCurrent]);
 
-  // 再生停止
+  // 再生停止（再生開始時刻に戻す）
   const handleStop = useCallback(() => {
     stop();
     setIsPlaying(false);
-    setCurrentTime(0);
+    setCurrentTime(startTimeCurrent);
     
     // refベースの時間もリセット
-    setAnimationTime(0);
+    setAnimationTime(startTimeCurrent);
     
     // 軌道の最初の位置にマウス状態を更新
     if (trajectoryProfile && sortedTimestampsCurrent.length > 0) {
-      updateMouseStateForTime(0, trajectoryProfile, sortedTimestampsCurrent);
+      updateMouseStateForTime(startTimeCurrent, trajectoryProfile, sortedTimestampsCurrent, interpolation);
     }
-  }, [stop, setAnimationTime, updateMouseStateForTime, trajectoryProfile, sortedTimestampsCurrent]);
+  }, [stop, setAnimationTime, updateMouseStateForTime, trajectoryProfile, sortedTimestampsCurrent, interpolation, startTimeCurrent]);
 
   // シークバーの変更（デフォルトで一時停止）
+  // 時刻は再生範囲（startTime〜startTime + duration）に制限する
   const handleSeek = useCallback((value: number, pauseAfterSeek: boolean = true) => {
+    const clampedTime = Math.max(startTimeCurrent, Math.min(startTimeCurrent + durationCurrent, value));
+
     // refベースのアニメーションシステムを更新
-    setAnimationTime(value);
-    updateMouseStateForTime(value, trajectoryProfile, sortedTimestampsCurrent);
+    setAnimationTime(clampedTime);
+    updateMouseStateForTime(clampedTime, trajectoryProfile, sortedTimestampsCurrent, interpolation);
     
     // 一時停止が指定されている場合は停止
     if (pauseAfterSeek) {
       pause();
     }
-  }, [setAnimationTime, updateMouseStateForTime, trajectoryProfile, sortedTimestampsCurrent, pause]);
+  }, [setAnimationTime, updateMouseStateForTime, trajectoryProfile, sortedTimestampsCurrent, interpolation, pause, startTimeCurrent, durationCurrent]);
+
+  // 次のイベントの時刻へジャンプ（デフォルトで一時停止）
+  const jumpToNextEvent = useCallback((pauseAfterJump: boolean = true) => {
+    const event = findNextTrajectoryEvent(trajectoryEvents, currentTimeRef.current);
+    if (event) {
+      handleSeek(event.time, pauseAfterJump);
+    }
+  }, [trajectoryEvents, currentTimeRef, handleSeek]);
+
+  // 前のイベントの時刻へジャンプ（デフォルトで一時停止）
+  const jumpToPreviousEvent = useCallback((pauseAfterJump: boolean = true) => {
+    const event = findPreviousTrajectoryEvent(trajectoryEvents, currentTimeRef.current);
+    if (event) {
+      handleSeek(event.time, pauseAfterJump);
+    }
+  }, [trajectoryEvents, currentTimeRef, handleSeek]);
+
+  // シークバーに表示するイベントの目盛り（再生範囲外のイベントは除く）
+  const eventTicks = useMemo<PlaybackEventTick[]>(() => {
+    if (durationCurrent <= 0) {
+      return [];
+    }
+    return trajectoryEvents
+      .filter((event) => event.time >= startTimeCurrent && event.time <= startTimeCurrent + durationCurrent)
+      .map((event) => ({
+        event,
+        position: (event.time - startTimeCurrent) / durationCurrent,
+        color: getTrajectoryEventColor(event),
+      }));
+  }, [trajectoryEvents, startTimeCurrent, durationCurrent]);
 
   // 再生速度の変更
   const handleSpeedChange = useCallback((speed: number) => {
@@ -100,6 +146,7 @@ export const usePlaybackControls = () => {
   // 状態更新用のeffect（Zustandの状態とrefの状態を同期）
   useEffect(() => {
     setIsPlaying(isPlayingCurrent);
+    setStartTime(startTimeCurrent);
     setDuration(durationCurrent);
     setPlaybackSpeedUi(playbackSpeedCurrent);
     setIsLoopEnabledUi(isLoopEnabledCurrent);
@@ -112,7 +159,7 @@ export const usePlaybackControls = () => {
       setFirstTimestamp(null);
       setLastTimestamp(null);
     }
-  }, [isPlayingCurrent, durationCurrent, playbackSpeedCurrent, isLoopEnabledCurrent, sortedTimestampsCurrent]);
+  }, [isPlayingCurrent, startTimeCurrent, durationCurrent, playbackSpeedCurrent, isLoopEnabledCurrent, sortedTimestampsCurrent]);
 
   // UI表示用のcurrentTimeを定期的にrefから同期
   useEffect(() => {
@@ -127,11 +174,14 @@ export const usePlaybackControls = () => {
     // 状態
     isPlaying,
     currentTime,
+    startTime,
     duration,
     playbackSpeed,
     isLoopEnabled,
     firstTimestamp,
     lastTimestamp,
+    events: trajectoryEvents,
+    eventTicks,
     
     // アクション
     togglePlayPause,
@@ -139,6 +189,8 @@ export const usePlaybackControls = () => {
     handleSeek,
     handleSpeedChange,
     handleLoopToggle,
+    jumpToNextEvent,
+    jumpToPreviousEvent,
     
     // ユーティリティ
     formatTime,
@@ -4,17 +4,27 @@ export { DataProvider } from './providers/DataProvider';
 
 // Component exports
 export { default as Maze } from './components/MicromouseVisualizer/Maze';
+export { default as MazeInteraction } from './components/MicromouseVisualizer/MazeInteraction';
+export { default as MazeEditor } from './components/MicromouseVisualizer/MazeEditor';
 export { default as CameraController } from './components/MicromouseVisualizer/CameraController';
 export { default as Mouse } from './components/MicromouseVisualizer/Mouse';
+export { default as MultiMouse } from './components/MicromouseVisualizer/MultiMouse';
 export { default as CellMarker } from './components/MicromouseVisualizer/CellMarker';
 export { default as TextLabel } from './components/MicromouseVisualizer/TextLabel';
+export { default as CellValueOverlay } from './components/MicromouseVisualizer/CellValueOverlay';
 export { default as TrajectoryPath } from './components/MicromouseVisualizer/TrajectoryPath';
+export { default as ColorLegend } from './components/MicromouseVisualizer/ColorLegend';
+export { default as TrajectoryEventMarkers } from './components/MicromouseVisualizer/TrajectoryEventMarkers';
 export { default as TrajectoryAnimationController } from './components/MicromouseVisualizer/TrajectoryAnimationController';
+export { default as ExplorationReplayController } from './components/MicromouseVisualizer/ExplorationReplayController';
 // export { default as PlaybackControls } from './components/MicromouseVisualizer/PlaybackControls';
 
 // Hook exports
-export { useData, useSharedTrajectoryAnimation } from './providers/DataProvider';
+export { useData, useDataStoreApi, useSharedTrajectoryAnimation } from './providers/DataProvider';
+export { createDataStore } from './stores/dataStore';
+export type { DataStore, DataStoreApi } from './stores/dataStore';
 export { default as usePlaybackControls } from './hooks/usePlaybackControls';
+export type { PlaybackEventTick } from './hooks/usePlaybackControls';
 export { useCamera } from './hooks/useCamera';
 
 // Type exports
@@ -22,6 +32,23 @@ export * from './types';
 
 // Utility exports
 export * from './utils/mazeLoader';
+export * from './utils/mazeFormats';
+export * from './utils/mazeValidator';
+export * from './utils/mazeGeometry';
+export * from './utils/mazePicking';
+export * from './utils/mazeEditor';
+export * from './utils/mazeSolver';
+export * from './utils/pathPlanner';
+export * from './utils/colormap';
+export * from './utils/wallKnowledge';
+export * from './utils/exploration';
+export * from './utils/trajectory';
+export * from './utils/trajectoryImporters';
+export * from './utils/trajectoryEvents';
+export * from './utils/cameraFollow';
+export * from './utils/cameraAnimation';
+export * from './utils/cameraState';
+export * from './utils/lineSimplification';
 
 // Config exports
 export * from './config/constants';
@@ -1,27 +1,45 @@
-import React, { useEffect, useRef, createContext, useContext } from 'react';
-import { useDataStore } from '../stores/dataStore';
+import React, { useEffect, useRef, useState, createContext, useContext } from 'react';
+import { useStore } from 'zustand';
+import { createDataStore, useDataStore, DataStore, DataStoreApi } from '../stores/dataStore';
 import { useTrajectoryAnimation } from '../hooks/useTrajectoryAnimation';
-import type { MazeData, MouseState, TrajectoryProfile } from '../types';
+import type { TrajectoryInterpolation, TrajectoryTimeOptions } from '../utils/trajectory';
+import type { CameraBookmark, ExplorationEvent, MazeData, MouseState, TrajectoryElement, TrajectoryEvent, TrajectoryProfile } from '../types';
 
 // TrajectoryAnimationコンテキストの型定義
 interface TrajectoryAnimationContextType {
   currentTimeRef: React.RefObject<number>;
   currentMouseStateRef: React.RefObject<MouseState>;
-  updateMouseStateForTime: (time: number, trajectoryProfile: TrajectoryProfile, sortedTimestamps: number[]) => void;
+  currentElementRef: React.RefObject<TrajectoryElement | null>;  // 現在時刻で補間した運動量・チャンネルを含む値
+  updateMouseStateForTime: (
+    time: number,
+    trajectoryProfile: TrajectoryProfile,
+    sortedTimestamps: number[],
+    interpolation?: TrajectoryInterpolation
+  ) => void;
   setCurrentTime: (time: number) => void;
 }
 
 // TrajectoryAnimationコンテキストの作成
 const TrajectoryAnimationContext = createContext<TrajectoryAnimationContextType | null>(null);
 
+// データストアのコンテキスト（DataProviderごとのストアを配下のコンポーネントに渡す）
+const DataStoreContext = createContext<DataStoreApi | null>(null);
+
 export interface DataProviderProps {
   children: React.ReactNode;
   initialMazeData?: MazeData | null;
   initialMouseState?: MouseState;
   initialTrajectoryProfile?: TrajectoryProfile;
+  trajectoryTimeOptions?: TrajectoryTimeOptions;  // initialTrajectoryProfileの時刻の単位と基準
+  initialExplorationEvents?: ExplorationEvent[];
+  initialTrajectoryEvents?: TrajectoryEvent[];
+  initialCameraBookmarks?: CameraBookmark[];
   initialTime?: number;
-  initialSpeed?: number;
-  initialLoopEnabled?: boolean;
+  initialSpeed?: number;        // 再生速度の初期値（省略時は1、ストアを共有する場合は省略するとストアの値を変更しない）
+  initialLoopEnabled?: boolean; // ループ再生の初期値（省略時はfalse、ストアを共有する場合は省略するとストアの値を変更しない）
+  // 使用するデータストア（複数のDataProviderで同じストアを共有する場合に指定）
+  // 共有されるのはストアの状態（迷路・軌道・再生/一時停止・再生速度など）で、軌跡アニメーションの現在時刻はDataProviderごとに独立して進む
+  store?: DataStoreApi;
 }
 
 export const DataProvider: React.FC<DataProviderProps> = ({
@@ -29,19 +47,31 @@ export const DataProvider: React.FC<DataProviderProps> = ({
   initialMazeData = null,
   initialMouseState,
   initialTrajectoryProfile,
+  trajectoryTimeOptions,
+  initialExplorationEvents,
+  initialTrajectoryEvents,
+  initialCameraBookmarks,
   initialTime = 0,
-  initialSpeed = 1,
-  initialLoopEnabled = false,
+  initialSpeed,
+  initialLoopEnabled,
+  store: sharedStore,
 }) => {
-  const setMazeData = useDataStore((state) => state.setMazeData);
-  const setMouseState = useDataStore((state) => state.setMouseState);
-  const setTrajectoryProfile = useDataStore((state) => state.setTrajectoryProfile);
-  const setPlaybackSpeed = useDataStore((state) => state.setPlaybackSpeed);
-  const setLoopEnabled = useDataStore((state) => state.setLoopEnabled);
-  const clearAll = useDataStore((state) => state.clearAll);
+  // ストアが指定されていない場合はこのDataProvider専用のストアを作成する
+  const [ownStore] = useState(() => sharedStore ?? createDataStore());
+  const store = sharedStore ?? ownStore;
+
+  const setMazeData = useStore(store, (state) => state.setMazeData);
+  const setMouseState = useStore(store, (state) => state.setMouseState);
+  const setTrajectoryProfile = useStore(store, (state) => state.setTrajectoryProfile);
+  const setExplorationEvents = useStore(store, (state) => state.setExplorationEvents);
+  const setTrajectoryEvents = useStore(store, (state) => state.setTrajectoryEvents);
+  const setCameraBookmarks = useStore(store, (state) => state.setCameraBookmarks);
+  const setPlaybackSpeed = useStore(store, (state) => state.setPlaybackSpeed);
+  const setLoopEnabled = useStore(store, (state) => state.setLoopEnabled);
+  const clearAll = useStore(store, (state) => state.clearAll);
   const isInitialized = useRef(false);
 
-  // TrajectoryAnimationの共有refを作成
+  // TrajectoryAnimationの共有refを作成（配下のコンポーネントで共有し、ストアを共有する他のDataProviderとは共有しない）
   const trajectoryAnimation = useTrajectoryAnimation();
 
   // Initialize data on mount
@@ -58,33 +88,61 @@ export const DataProvider: React.FC<DataProviderProps> = ({
       }
       
       if (initialTrajectoryProfile) {
-        setTrajectoryProfile(initialTrajectoryProfile);
+        setTrajectoryProfile(initialTrajectoryProfile, trajectoryTimeOptions);
         // Initialize the trajectory animation refs with first trajectory point
-        const sortedTimestamps = Array.from(initialTrajectoryProfile.keys()).sort((a, b) => a - b);
+        // （時刻は単位・基準を変換した後のプロファイルを基準にする）
+        const { trajectoryProfile, sortedTimestamps } = store.getState();
         if (sortedTimestamps.length > 0) {
-          const firstElement = initialTrajectoryProfile.get(sortedTimestamps[0]);
+          const firstElement = trajectoryProfile.get(sortedTimestamps[0]);
           if (firstElement && trajectoryAnimation.currentMouseStateRef.current) {
-            trajectoryAnimation.currentMouseStateRef.current = { ...firstElement };
+            trajectoryAnimation.currentMouseStateRef.current = { position: { ...firstElement.position }, angle: firstElement.angle };
+            trajectoryAnimation.currentElementRef.current = firstElement;
             trajectoryAnimation.setCurrentTime(sortedTimestamps[0]);
           }
         }
       }
       
-      setPlaybackSpeed(initialSpeed);
-      setLoopEnabled(initialLoopEnabled);
+      if (initialExplorationEvents) {
+        setExplorationEvents(initialExplorationEvents);
+      }
+
+      if (initialTrajectoryEvents) {
+        setTrajectoryEvents(initialTrajectoryEvents);
+      }
+
+      if (initialCameraBookmarks) {
+        setCameraBookmarks(initialCameraBookmarks);
+      }
+      
+      // 共有ストアでは、指定されていない再生設定で他のDataProviderの設定を上書きしない
+      if (initialSpeed !== undefined || !sharedStore) {
+        setPlaybackSpeed(initialSpeed ?? 1);
+      }
+      if (initialLoopEnabled !== undefined || !sharedStore) {
+        setLoopEnabled(initialLoopEnabled ?? false);
+      }
     }
   }, [
     initialMazeData, 
     initialMouseState, 
     initialTrajectoryProfile,
+    trajectoryTimeOptions,
+    initialExplorationEvents,
+    initialTrajectoryEvents,
+    initialCameraBookmarks,
     initialTime,
     initialSpeed,
     initialLoopEnabled,
     setMazeData, 
     setMouseState,
     setTrajectoryProfile,
+    setExplorationEvents,
+    setTrajectoryEvents,
+    setCameraBookmarks,
     setPlaybackSpeed,
     setLoopEnabled,
+    store,
+    sharedStore,
     trajectoryAnimation
   ]);
 
@@ -97,9 +155,11 @@ export const DataProvider: React.FC<DataProviderProps> = ({
   }, [clearAll]);
 
   return (
-    <TrajectoryAnimationContext.Provider value={trajectoryAnimation}>
-      {children}
-    </TrajectoryAnimationContext.Provider>
+    <DataStoreContext.Provider value={store}>
+      <TrajectoryAnimationContext.Provider value={trajectoryAnimation}>
+        {children}
+      </TrajectoryAnimationContext.Provider>
+    </DataStoreContext.Provider>
   );
 };
 
@@ -112,5 +172,14 @@ export const useSharedTrajectoryAnimation = (): TrajectoryAnimationContextType =
   return context;
 };
 
-// Export the useData hook for convenience
-export const useData = useDataStore;
\ No newline at end of file
+// 最も近いDataProviderのデータストアを取得するフック
+// DataProviderの外で使用した場合はデフォルトのストアを返す
+export const useDataStoreApi = (): DataStoreApi => {
+  return useContext(DataStoreContext) ?? useDataStore;
+};
+
+// データストアから値を選択して購読するフック
+export const useData = <T,>(selector: (state: DataStore) => T): T => {
+  const store = useDataStoreApi();
+  return useStore(store, selector);
+};
\ No newline at end of file
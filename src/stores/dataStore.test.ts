@@ -0,0 +1,173 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyMaze } from '../utils/mazeEditor';
+import { createDataStore } from './dataStore';
+
+// 4x4の空の迷路を設定したストアを作成する
+const createStoreWithMaze = () => {
+  const store = createDataStore();
+  store.getState().setMazeData(createEmptyMaze(4));
+  return store;
+};
+
+describe('迷路の編集履歴', () => {
+  it('編集を元に戻し、やり直せる', () => {
+    const store = createStoreWithMaze();
+    const initial = store.getState().mazeData;
+
+    store.getState().toggleWall({ kind: 'vwall', x: 2, y: 1 });
+    const edited = store.getState().mazeData;
+    expect(edited?.walls.vwall[1][2]).toBe(true);
+
+    store.getState().undoMazeEdit();
+    expect(store.getState().mazeData).toBe(initial);
+    expect(store.getState().mazeUndoStack).toEqual([]);
+    expect(store.getState().mazeRedoStack).toEqual([edited]);
+
+    store.getState().redoMazeEdit();
+    expect(store.getState().mazeData).toBe(edited);
+    expect(store.getState().mazeUndoStack).toEqual([initial]);
+    expect(store.getState().mazeRedoStack).toEqual([]);
+  });
+
+  it('履歴がない場合の元に戻す・やり直しは何もしない', () => {
+    const store = createStoreWithMaze();
+    const initial = store.getState().mazeData;
+
+    store.getState().undoMazeEdit();
+    store.getState().redoMazeEdit();
+
+    expect(store.getState().mazeData).toBe(initial);
+  });
+
+  it('迷路が変わらない編集は履歴に積まない', () => {
+    const store = createStoreWithMaze();
+    const initial = store.getState().mazeData;
+
+    // スタートの東の壁は最初から存在する
+    store.getState().setWall(0, 0, 'east', true);
+
+    expect(store.getState().mazeData).toBe(initial);
+    expect(store.getState().mazeUndoStack).toEqual([]);
+  });
+
+  it('新しい編集でやり直しの履歴を破棄する', () => {
+    const store = createStoreWithMaze();
+    store.getState().toggleWall({ kind: 'vwall', x: 2, y: 1 });
+    store.getState().undoMazeEdit();
+    expect(store.getState().mazeRedoStack).toHaveLength(1);
+
+    store.getState().toggleWall({ kind: 'hwall', x: 1, y: 2 });
+
+    expect(store.getState().mazeRedoStack).toEqual([]);
+    expect(store.getState().mazeUndoStack).toHaveLength(1);
+  });
+
+  it('履歴は最大数（100件）を超えると古いものから破棄する', () => {
+    const store = createStoreWithMaze();
+    const history = [store.getState().mazeData];
+    for (let i = 0; i < 105; i++) {
+      store.getState().toggleWall({ kind: 'hwall', x: 1, y: 2 });
+      history.push(store.getState().mazeData);
+    }
+
+    const { mazeUndoStack } = store.getState();
+    expect(mazeUndoStack).toHaveLength(100);
+    expect(mazeUndoStack[0]).toBe(history[5]);
+    expect(mazeUndoStack[99]).toBe(history[104]);
+  });
+
+  it('新しい空の迷路を作成すると、それまでの迷路を履歴に積む', () => {
+    const store = createStoreWithMaze();
+    const previous = store.getState().mazeData;
+
+    store.getState().newEmptyMaze(8, 4);
+    expect(store.getState().mazeData?.width).toBe(8);
+    expect(store.getState().mazeUndoStack).toEqual([previous]);
+
+    store.getState().undoMazeEdit();
+    expect(store.getState().mazeData).toBe(previous);
+  });
+
+  it('迷路がない状態で空の迷路を作成した場合は履歴に積まない', () => {
+    const store = createDataStore();
+
+    store.getState().newEmptyMaze(4);
+
+    expect(store.getState().mazeData?.width).toBe(4);
+    expect(store.getState().mazeUndoStack).toEqual([]);
+  });
+
+  it('別の迷路を設定すると履歴を破棄する', () => {
+    const store = createStoreWithMaze();
+    store.getState().toggleWall({ kind: 'vwall', x: 2, y: 1 });
+
+    store.getState().setMazeData(createEmptyMaze(4));
+
+    expect(store.getState().mazeUndoStack).toEqual([]);
+    expect(store.getState().mazeRedoStack).toEqual([]);
+  });
+});
+
+describe('setWall', () => {
+  it('(x, y)の東の壁と(x + 1, y)の西の壁は同じ壁', () => {
+    const store = createStoreWithMaze();
+
+    store.getState().setWall(1, 2, 'east', true);
+    expect(store.getState().mazeData?.walls.vwall[2][2]).toBe(true);
+
+    store.getState().setWall(2, 2, 'west', false);
+    expect(store.getState().mazeData?.walls.vwall[2][2]).toBe(false);
+    expect(store.getState().mazeUndoStack).toHaveLength(2);
+  });
+
+  it('(x, y)の北の壁と(x, y + 1)の南の壁は同じ壁', () => {
+    const store = createStoreWithMaze();
+
+    store.getState().setWall(3, 0, 'north', true);
+    expect(store.getState().mazeData?.walls.hwall[1][3]).toBe(true);
+
+    // 同じ壁を反対側のセルから設定しても迷路は変わらない
+    store.getState().setWall(3, 1, 'south', true);
+    expect(store.getState().mazeUndoStack).toHaveLength(1);
+  });
+
+  it('迷路がない場合は例外を投げる', () => {
+    expect(() => createDataStore().getState().setWall(0, 0, 'north', true))
+      .toThrow('迷路データが設定されていないため、迷路を編集できません');
+  });
+});
+
+describe('壁の既知状態', () => {
+  it('既知状態がない場合は迷路のサイズに合わせて作成してから更新する', () => {
+    const store = createStoreWithMaze();
+
+    store.getState().setWallKnown(1, 1, 'east', true);
+    expect(store.getState().wallKnowledge?.vwall[1][2]).toBe('present');
+    // 外周は既知
+    expect(store.getState().wallKnowledge?.vwall[1][0]).toBe('present');
+
+    store.getState().setWallUnknown(2, 1, 'west');
+    expect(store.getState().wallKnowledge?.vwall[1][2]).toBe('unknown');
+  });
+
+  it('迷路データも既知状態もない場合は何もしない', () => {
+    const store = createDataStore();
+
+    store.getState().setWallKnown(0, 0, 'north', true);
+    store.getState().setWallUnknown(0, 0, 'north');
+
+    expect(store.getState().wallKnowledge).toBeNull();
+  });
+
+  it('範囲外の壁は無視する', () => {
+    const store = createStoreWithMaze();
+    store.getState().setWallKnown(0, 0, 'north', false);
+    const knowledge = store.getState().wallKnowledge;
+
+    store.getState().setWallKnown(4, 0, 'east', true);
+    store.getState().setWallUnknown(0, -1, 'south');
+    store.getState().setWallKnown(0, 4, 'north', true);
+
+    expect(store.getState().wallKnowledge).toBe(knowledge);
+  });
+});
@@ -1,5 +1,11 @@
-import { create } from 'zustand';
-import type { MazeData, MouseState, CellPosition, TrajectoryProfile } from '../types';
+import { create, createStore, StateCreator, StoreApi } from 'zustand';
+import type { MazeData, MouseState, CellPosition, TrajectoryProfile, WallDirection, WallKnowledge, WallKnowledgeState, ExplorationEvent, TrajectoryEvent, CameraBookmark, CameraState } from '../types';
+import { getMazeDimensions } from '../utils/mazeGeometry';
+import { createWallKnowledge, getWallIndex, getWallKnowledgeState, isWallKnowledgeCompatible, updateWallKnowledge, WallIndex } from '../utils/wallKnowledge';
+import { createEmptyMaze, setMazeStart, setMazeWall, toggleMazeGoal, toggleMazeWall } from '../utils/mazeEditor';
+import { sortExplorationEvents } from '../utils/exploration';
+import { sortTrajectoryEvents } from '../utils/trajectoryEvents';
+import { TrajectoryAlignment, TrajectoryInterpolation, TrajectoryTimeOptions, computeTrajectoryOffsets, normalizeTrajectoryTime } from '../utils/trajectory';
 
 export interface CellMarkerData {
   id: string;
@@ -15,12 +21,67 @@ export interface TextLabelData {
   visible?: boolean;
 }
 
+export interface MouseEntry {
+  id: string;
+  trajectoryProfile: TrajectoryProfile;
+  sortedTimestamps: number[];
+  color?: string;
+  label?: string;
+  visible?: boolean;
+  timeOffset: number; // 時刻合わせのオフセット（プロファイル上の時刻 = 共通の再生時刻 + timeOffset）
+}
+
+export interface MouseEntryInput {
+  id: string;
+  trajectoryProfile: TrajectoryProfile;
+  color?: string;
+  label?: string;
+  visible?: boolean;
+}
+
 export interface DataStore {
   // Maze data
   mazeData: MazeData | null;
   setMazeData: (data: MazeData | null) => void;
   updateMazeData: (updates: Partial<MazeData>) => void;
 
+  // Maze editing (undoable edits of walls, start and goal)
+  mazeUndoStack: MazeData[];
+  mazeRedoStack: MazeData[];
+  toggleWall: (wall: WallIndex) => void;
+  setWall: (x: number, y: number, direction: WallDirection, present: boolean) => void;
+  setStartCell: (cell: CellPosition) => void;
+  toggleGoalCell: (cell: CellPosition) => void;
+  newEmptyMaze: (width: number, height?: number) => void;
+  undoMazeEdit: () => void;
+  redoMazeEdit: () => void;
+  clearMazeHistory: () => void;
+
+  // Wall knowledge (walls known to the mouse during exploration)
+  wallKnowledge: WallKnowledge | null;
+  setWallKnowledge: (knowledge: WallKnowledge | null) => void;
+  setWallKnown: (x: number, y: number, direction: WallDirection, present: boolean) => void;
+  setWallUnknown: (x: number, y: number, direction: WallDirection) => void;
+  resetWallKnowledge: () => void;
+
+  // Exploration replay (time-stamped wall observations and visited cells)
+  explorationEvents: ExplorationEvent[];
+  setExplorationEvents: (events: ExplorationEvent[]) => void;
+  visitedCells: CellPosition[];
+  setVisitedCells: (cells: CellPosition[]) => void;
+
+  // Trajectory events (time-stamped markers such as wall detections, slips and emergency stops)
+  trajectoryEvents: TrajectoryEvent[];
+  setTrajectoryEvents: (events: TrajectoryEvent[]) => void;
+  addTrajectoryEvent: (event: TrajectoryEvent) => void;
+  clearTrajectoryEvents: () => void;
+
+  // Camera bookmarks (named viewpoints that can be shared as JSON)
+  cameraBookmarks: CameraBookmark[];
+  setCameraBookmarks: (bookmarks: CameraBookmark[]) => void;
+  saveCameraBookmark: (name: string, state: CameraState) => void;
+  removeCameraBookmark: (name: string) => void;
+
   // Mouse state (for static positioning, not animation)
   mouseState: MouseState;
   setMouseState: (state: MouseState) => void;
@@ -40,21 +101,33 @@ export interface DataStore {
   removeTextLabel: (id: string) => void;
   clearTextLabels: () => void;
 
+  // Multiple mice (each with its own trajectory, driven by the shared clock)
+  mice: Map<string, MouseEntry>;
+  mouseAlignment: TrajectoryAlignment;
+  addMouse: (mouse: MouseEntryInput) => void;
+  updateMouse: (id: string, updates: Partial<Omit<MouseEntryInput, 'id'>>) => void;
+  removeMouse: (id: string) => void;
+  clearMice: () => void;
+  setMouseAlignment: (alignment: TrajectoryAlignment) => void;
+
   // Trajectory control state (for UI and settings only)
   trajectoryProfile: TrajectoryProfile;
   isPlaying: boolean;
-  duration: number;
+  startTime: number;  // 再生開始時刻[s]（軌道の最初の時刻）
+  duration: number;   // 再生時間[s]（再生終了時刻はstartTime + duration）
   playbackSpeed: number;
   isLoopEnabled: boolean;
   sortedTimestamps: number[];
+  interpolation: TrajectoryInterpolation;  // 軌道の補間方法（マウスのアニメーションと軌跡の描画で共通）
 
   // Trajectory control methods
-  setTrajectoryProfile: (profile: TrajectoryProfile) => void;
+  setTrajectoryProfile: (profile: TrajectoryProfile, options?: TrajectoryTimeOptions) => void;
   play: () => void;
   pause: () => void;
   stop: () => void;
   setPlaybackSpeed: (speed: number) => void;
   setLoopEnabled: (enabled: boolean) => void;
+  setInterpolation: (interpolation: TrajectoryInterpolation) => void;
 
   // Clear all data
   clearAll: () => void;
@@ -65,15 +138,219 @@ const initialMouseState: MouseState = {
   angle: 0,
 };
 
-export const useDataStore = create<DataStore>((set, get) => ({
+// 迷路の編集履歴（元に戻す）の最大数
+const MAZE_HISTORY_LIMIT = 100;
+
+/**
+ * 迷路のサイズに合わせて、外周のみ既知の壁情報を作成する
+ */
+const createInitialWallKnowledge = (mazeData: MazeData): WallKnowledge => {
+  const { width, height } = getMazeDimensions(mazeData);
+  return createWallKnowledge(width, height);
+};
+
+/**
+ * 壁の既知状態を1か所更新する
+ * 迷路データも既知状態もない場合と範囲外の壁は無視する（探索ログの不正なイベントで例外にしない）
+ */
+const applyWallKnowledge = (
+  state: DataStore,
+  x: number,
+  y: number,
+  direction: WallDirection,
+  value: WallKnowledgeState
+): Partial<DataStore> => {
+  const knowledge = state.wallKnowledge ?? (state.mazeData ? createInitialWallKnowledge(state.mazeData) : null);
+  if (!knowledge || getWallKnowledgeState(knowledge, x, y, direction) === undefined) {
+    return {};
+  }
+  return { wallKnowledge: updateWallKnowledge(knowledge, x, y, direction, value) };
+};
+
+/**
+ * 再生範囲を計算する（メインの軌道と各マウスの軌道のうち最も早く始まる時刻から最も遅く終わる時刻まで）
+ */
+const computePlaybackRange = (
+  sortedTimestamps: number[],
+  mice: Map<string, MouseEntry>
+): Pick<DataStore, 'startTime' | 'duration'> => {
+  let start = Infinity;
+  let end = -Infinity;
+  if (sortedTimestamps.length > 0) {
+    start = sortedTimestamps[0];
+    end = sortedTimestamps[sortedTimestamps.length - 1];
+  }
+  mice.forEach((mouse) => {
+    if (mouse.sortedTimestamps.length > 0) {
+      start = Math.min(start, mouse.sortedTimestamps[0] - mouse.timeOffset);
+      end = Math.max(end, mouse.sortedTimestamps[mouse.sortedTimestamps.length - 1] - mouse.timeOffset);
+    }
+  });
+  if (start > end) {
+    return { startTime: 0, duration: 0 };
+  }
+  return { startTime: start, duration: end - start };
+};
+
+/**
+ * 時刻合わせの設定に従って各マウスの時刻オフセットと再生時間を更新する
+ */
+const alignMice = (
+  state: Pick<DataStore, 'mazeData' | 'mouseAlignment' | 'sortedTimestamps'>,
+  mice: Map<string, MouseEntry>
+): Pick<DataStore, 'mice' | 'mouseAlignment' | 'startTime' | 'duration'> => {
+  const entries = Array.from(mice.values());
+  const offsets = computeTrajectoryOffsets(entries, state.mouseAlignment, state.mazeData?.start);
+  const alignedMice = new Map<string, MouseEntry>();
+  entries.forEach((entry, i) => {
+    alignedMice.set(entry.id, { ...entry, timeOffset: offsets[i] });
+  });
+  return {
+    mice: alignedMice,
+    mouseAlignment: state.mouseAlignment,
+    ...computePlaybackRange(state.sortedTimestamps, alignedMice),
+  };
+};
+
+/**
+ * 迷路データを置き換え、迷路に依存する状態を更新する
+ */
+const replaceMazeData = (
+  state: DataStore,
+  data: MazeData | null
+): Pick<DataStore, 'mazeData' | 'wallKnowledge' | 'mice' | 'mouseAlignment' | 'startTime' | 'duration'> => ({
+  mazeData: data,
+  // 迷路のサイズが変わった場合は壁の既知状態を破棄する
+  wallKnowledge: data && state.wallKnowledge && isWallKnowledgeCompatible(state.wallKnowledge, data)
+    ? state.wallKnowledge
+    : null,
+  // スタートセル基準の時刻合わせはスタート位置に依存するため再計算する
+  ...alignMice({ ...state, mazeData: data }, state.mice),
+});
+
+/**
+ * 迷路の編集を適用し、編集前の迷路を履歴に積む（やり直しの履歴は破棄する）
+ * 迷路が変わらない編集は履歴に積まない
+ */
+const commitMazeEdit = (state: DataStore, edit: (mazeData: MazeData) => MazeData): Partial<DataStore> => {
+  if (!state.mazeData) {
+    throw new Error('迷路データが設定されていないため、迷路を編集できません');
+  }
+  const edited = edit(state.mazeData);
+  if (edited === state.mazeData) {
+    return {};
+  }
+  return {
+    ...replaceMazeData(state, edited),
+    mazeUndoStack: [...state.mazeUndoStack, state.mazeData].slice(-MAZE_HISTORY_LIMIT),
+    mazeRedoStack: [],
+  };
+};
+
+// ストアの状態とアクションの定義（ストアインスタンスごとに独立した状態を持つ）
+const dataStoreCreator: StateCreator<DataStore> = (set, get) => ({
   // Maze data
   mazeData: null,
-  setMazeData: (data) => set({ mazeData: data }),
+  // 別の迷路に置き換えるため編集履歴は破棄する
+  setMazeData: (data) =>
+    set((state) => ({
+      ...replaceMazeData(state, data),
+      mazeUndoStack: [],
+      mazeRedoStack: [],
+    })),
   updateMazeData: (updates) =>
     set((state) => ({
       mazeData: state.mazeData ? { ...state.mazeData, ...updates } : null,
     })),
 
+  // Maze editing
+  mazeUndoStack: [],
+  mazeRedoStack: [],
+  toggleWall: (wall) => set((state) => commitMazeEdit(state, (mazeData) => toggleMazeWall(mazeData, wall))),
+  // 隣接するセルと共有する壁のため、どちらのセルから指定しても同じ壁が変わる
+  setWall: (x, y, direction, present) =>
+    set((state) => commitMazeEdit(state, (mazeData) => setMazeWall(mazeData, getWallIndex(x, y, direction), present))),
+  setStartCell: (cell) => set((state) => commitMazeEdit(state, (mazeData) => setMazeStart(mazeData, cell))),
+  toggleGoalCell: (cell) => set((state) => commitMazeEdit(state, (mazeData) => toggleMazeGoal(mazeData, cell))),
+  // 現在の迷路がある場合は元に戻せるように履歴に積む
+  newEmptyMaze: (width, height) =>
+    set((state) => {
+      const mazeData = createEmptyMaze(width, height);
+      return {
+        ...replaceMazeData(state, mazeData),
+        mazeUndoStack: state.mazeData
+          ? [...state.mazeUndoStack, state.mazeData].slice(-MAZE_HISTORY_LIMIT)
+          : state.mazeUndoStack,
+        mazeRedoStack: [],
+      };
+    }),
+  undoMazeEdit: () =>
+    set((state) => {
+      const previous = state.mazeUndoStack[state.mazeUndoStack.length - 1];
+      if (!previous) {
+        return {};
+      }
+      return {
+        ...replaceMazeData(state, previous),
+        mazeUndoStack: state.mazeUndoStack.slice(0, -1),
+        mazeRedoStack: state.mazeData ? [...state.mazeRedoStack, state.mazeData] : state.mazeRedoStack,
+      };
+    }),
+  redoMazeEdit: () =>
+    set((state) => {
+      const next = state.mazeRedoStack[state.mazeRedoStack.length - 1];
+      if (!next) {
+        return {};
+      }
+      return {
+        ...replaceMazeData(state, next),
+        mazeUndoStack: state.mazeData ? [...state.mazeUndoStack, state.mazeData] : state.mazeUndoStack,
+        mazeRedoStack: state.mazeRedoStack.slice(0, -1),
+      };
+    }),
+  clearMazeHistory: () => set({ mazeUndoStack: [], mazeRedoStack: [] }),
+
+  // Wall knowledge
+  wallKnowledge: null,
+  setWallKnowledge: (knowledge) => set({ wallKnowledge: knowledge }),
+  setWallKnown: (x, y, direction, present) =>
+    set((state) => applyWallKnowledge(state, x, y, direction, present ? 'present' : 'absent')),
+  setWallUnknown: (x, y, direction) => set((state) => applyWallKnowledge(state, x, y, direction, 'unknown')),
+  resetWallKnowledge: () =>
+    set((state) => ({
+      wallKnowledge: state.mazeData ? createInitialWallKnowledge(state.mazeData) : null,
+    })),
+
+  // Exploration replay
+  explorationEvents: [],
+  setExplorationEvents: (events) => set({ explorationEvents: sortExplorationEvents(events) }),
+  visitedCells: [],
+  setVisitedCells: (cells) => set({ visitedCells: cells }),
+
+  // Trajectory events
+  trajectoryEvents: [],
+  setTrajectoryEvents: (events) => set({ trajectoryEvents: sortTrajectoryEvents(events) }),
+  addTrajectoryEvent: (event) =>
+    set((state) => ({ trajectoryEvents: sortTrajectoryEvents([...state.trajectoryEvents, event]) })),
+  clearTrajectoryEvents: () => set({ trajectoryEvents: [] }),
+
+  // Camera bookmarks
+  cameraBookmarks: [],
+  setCameraBookmarks: (bookmarks) => set({ cameraBookmarks: bookmarks }),
+  // 同じ名前のブックマークがある場合は上書きする（並び順は保つ）
+  saveCameraBookmark: (name, cameraState) =>
+    set((state) => {
+      const index = state.cameraBookmarks.findIndex((bookmark) => bookmark.name === name);
+      if (index < 0) {
+        return { cameraBookmarks: [...state.cameraBookmarks, { name, state: cameraState }] };
+      }
+      const cameraBookmarks = [...state.cameraBookmarks];
+      cameraBookmarks[index] = { name, state: cameraState };
+      return { cameraBookmarks };
+    }),
+  removeCameraBookmark: (name) =>
+    set((state) => ({ cameraBookmarks: state.cameraBookmarks.filter((bookmark) => bookmark.name !== name) })),
+
   // Mouse state
   mouseState: initialMouseState,
   setMouseState: (state) => set({ mouseState: state }),
@@ -85,10 +362,12 @@ export const useDataStore = create<DataStore>((set, get) => ({
   // Trajectory control state
   trajectoryProfile: new Map(),
   isPlaying: false,
+  startTime: 0,
   duration: 0,
   playbackSpeed: 1,
   isLoopEnabled: false,
   sortedTimestamps: [],
+  interpolation: 'linear',
 
   // Cell markers
   cellMarkers: new Map(),
@@ -140,23 +419,61 @@ export const useDataStore = create<DataStore>((set, get) => ({
     }),
   clearTextLabels: () => set({ textLabels: new Map() }),
 
+  // Multiple mice
+  mice: new Map(),
+  mouseAlignment: 'none',
+  addMouse: (mouse) =>
+    set((state) => {
+      const newMice = new Map(state.mice);
+      newMice.set(mouse.id, {
+        ...mouse,
+        sortedTimestamps: Array.from(mouse.trajectoryProfile.keys()).sort((a, b) => a - b),
+        timeOffset: 0,
+      });
+      return alignMice(state, newMice);
+    }),
+  updateMouse: (id, updates) =>
+    set((state) => {
+      const existing = state.mice.get(id);
+      if (!existing) return {};
+      const newMice = new Map(state.mice);
+      newMice.set(id, {
+        ...existing,
+        ...updates,
+        sortedTimestamps: updates.trajectoryProfile
+          ? Array.from(updates.trajectoryProfile.keys()).sort((a, b) => a - b)
+          : existing.sortedTimestamps,
+      });
+      return alignMice(state, newMice);
+    }),
+  removeMouse: (id) =>
+    set((state) => {
+      const newMice = new Map(state.mice);
+      newMice.delete(id);
+      return alignMice(state, newMice);
+    }),
+  clearMice: () => set((state) => alignMice(state, new Map())),
+  setMouseAlignment: (alignment) =>
+    set((state) => alignMice({ ...state, mouseAlignment: alignment }, state.mice)),
+
   // Trajectory control methods
-  setTrajectoryProfile: (profile) => {
+  setTrajectoryProfile: (rawProfile, options) => {
+    // 時刻を秒単位の再生時刻に変換する
+    const profile = normalizeTrajectoryTime(rawProfile, options);
     const sortedTimestamps = Array.from(profile.keys()).sort((a, b) => a - b);
-    const duration = sortedTimestamps.length > 0 ? sortedTimestamps[sortedTimestamps.length - 1] : 0;
     
-    set({
+    set((state) => ({
       trajectoryProfile: profile,
       sortedTimestamps,
-      duration,
+      ...computePlaybackRange(sortedTimestamps, state.mice),
       isPlaying: false,
-    });
+    }));
     
     // Initialize mouse state to first position
     if (sortedTimestamps.length > 0) {
       const firstElement = profile.get(sortedTimestamps[0]);
       if (firstElement) {
-        set({ mouseState: { ...firstElement } });
+        set({ mouseState: { position: { ...firstElement.position }, angle: firstElement.angle } });
       }
     }
   },
@@ -173,7 +490,7 @@ export const useDataStore = create<DataStore>((set, get) => ({
     if (state.sortedTimestamps.length > 0) {
       const firstElement = state.trajectoryProfile.get(state.sortedTimestamps[0]);
       if (firstElement) {
-        set({ mouseState: { ...firstElement } });
+        set({ mouseState: { position: { ...firstElement.position }, angle: firstElement.angle } });
       }
     }
   },
@@ -185,18 +502,44 @@ export const useDataStore = create<DataStore>((set, get) => ({
 
   setLoopEnabled: (enabled) => set({ isLoopEnabled: enabled }),
 
+  setInterpolation: (interpolation) => set({ interpolation }),
+
   // Clear all data
   clearAll: () =>
     set({
       mazeData: null,
+      mazeUndoStack: [],
+      mazeRedoStack: [],
+      wallKnowledge: null,
+      explorationEvents: [],
+      visitedCells: [],
+      trajectoryEvents: [],
+      cameraBookmarks: [],
       mouseState: initialMouseState,
       cellMarkers: new Map(),
       textLabels: new Map(),
+      mice: new Map(),
+      mouseAlignment: 'none',
       trajectoryProfile: new Map(),
       isPlaying: false,
+      startTime: 0,
       duration: 0,
       playbackSpeed: 1,
       isLoopEnabled: false,
       sortedTimestamps: [],
+      interpolation: 'linear',
     }),
-}));
\ No newline at end of file
+});
+
+// データストアのAPI（getState/setState/subscribe）
+export type DataStoreApi = StoreApi<DataStore>;
+
+/**
+ * 独立したデータストアを作成する
+ * DataProviderごとに作成され、複数のビジュアライザーを同じページに配置しても状態が混ざらない
+ * @returns 新しいデータストア
+ */
+export const createDataStore = (): DataStoreApi => createStore<DataStore>()(dataStoreCreator);
+
+// デフォルトのデータストア（DataProviderの外でuseDataを使用した場合のフォールバック）
+export const useDataStore = create<DataStore>()(dataStoreCreator);
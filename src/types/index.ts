@@ -4,10 +4,12 @@ export interface CellPosition {
 }
 
 export interface MazeData {
-    size: number; // 迷路のサイズ(常に幅と高さは同一の正方形とする)
+    size: number; // 迷路のサイズ(正方形の場合は幅・高さと同一。長方形の場合は幅と高さの大きい方)
+    width?: number; // 迷路の幅[マス] (省略時はsize)
+    height?: number; // 迷路の高さ[マス] (省略時はsize)
     walls: {
-      vwall: boolean[][];  // 垂直向きの壁の存在
-      hwall: boolean[][];   // 水平向きの壁の存在
+      vwall: boolean[][];  // 垂直向きの壁の存在 [height][width + 1]
+      hwall: boolean[][];   // 水平向きの壁の存在 [height + 1][width]
     };
     start: { x: number; y: number }; // マス目単位でのスタート座標
     goal: { x: number; y: number }[]; // マス目単位でのゴール座標
@@ -21,12 +23,103 @@ export interface MouseState {
     // moveProgress?: number;
 }
 
+// 軌道に記録する名前付きの数値チャンネル（壁センサー値、モーターのデューティ比、バッテリー電圧など）
+export type TrajectoryChannels = Record<string, number>;
+
 export interface TrajectoryElement {
     position: { x: number; y: number }; // 物理座標[m]単位
     angle : number; // 物理角度[rad] X軸方向が0度、Y軸方向が90度
+    velocity?: { x: number; y: number }; // 速度[m/s]（オプション、エルミート補間で使用）
+    angularVelocity?: number; // 角速度[rad/s]（オプション、エルミート補間で使用）
+    speed?: number; // 進行方向の速度[m/s]（オプション）
+    acceleration?: { x: number; y: number }; // 加速度[m/s^2]（オプション）
+    angularAcceleration?: number; // 角加速度[rad/s^2]（オプション）
+    state?: string; // アルゴリズムの状態（オプション、補間せず直前のキーフレームの値を使用）
+    channels?: TrajectoryChannels; // 名前付きの数値チャンネル（オプション）
 }
 
 export type TrajectoryProfile = Map<number, TrajectoryElement> // 時刻をキー、値をその時刻での位置・角度としたプロファイル
 
+// 軌跡の表示モード
+// past: 開始から現在まで, future: 過去に加えて現在から終了まで, full: 軌道全体の上に過去を重ねる, window: 現在の前後の一定時間
+export type TrajectoryPathMode = 'past' | 'future' | 'full' | 'window';
+
+// マウスに追従するカメラのモード
+// chase: マウスの後方から追いかける, firstPerson: マウスに搭載したカメラの視点, tracking: 真上からマウスを中心に捉え続ける
+export type CameraFollowMode = 'chase' | 'firstPerson' | 'tracking';
+
 // カメラプリセットのキーの型
-export type CameraViewPreset = 'top' | 'angle' | 'side' | 'ortho';
+export type CameraViewPreset = 'top' | 'angle' | 'side' | 'ortho' | CameraFollowMode;
+
+// 追従カメラの設定
+export interface CameraFollowOptions {
+    offset?: [number, number, number]; // カメラ位置のオフセット[m] (chase・firstPersonはマウス座標系の[前方, 左, 上]、trackingはワールド座標系の[x, y, z])
+    lookAhead?: number;                // 注視点をマウスの進行方向へずらす距離[m]
+    targetHeight?: number;             // 注視点の床からの高さ[m]
+    smoothing?: number;                // 追従の平滑化の時定数[s] (0の場合は遅れなく追従)
+}
+
+// カメラの投影方法
+export type CameraProjection = 'perspective' | 'orthographic';
+
+// カメラの状態 (JSONとして保存・共有できる値のみを持つ)
+export interface CameraState {
+    position: [number, number, number]; // カメラの位置[m]
+    target: [number, number, number];   // 注視点[m]
+    up?: [number, number, number];      // カメラの上方向 (省略時はZ軸正方向)
+    zoom: number;                       // ズーム倍率 (1で等倍)
+    projection: CameraProjection;
+    fov?: number;                       // 透視投影の垂直画角[deg] (省略時は現在の画角)
+}
+
+// 名前付きのカメラの視点
+export interface CameraBookmark {
+    name: string;
+    state: CameraState;
+}
+
+// カメラの移動に使用するイージング (名前または0〜1の進捗を0〜1に写す関数)
+export type CameraEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut' | ((t: number) => number);
+
+// カメラの移動のアニメーション設定
+export interface CameraTransitionOptions {
+    duration?: number;     // 移動にかける時間[s] (省略時・0の場合は即座に移動)
+    easing?: CameraEasing; // イージング (省略時はeaseInOut)
+}
+
+// カメラパスのキーフレーム (時刻[s]は軌道プロファイルと同じ時間軸)
+export interface CameraKeyframe {
+    time: number;
+    position: [number, number, number];
+    target: [number, number, number];
+    zoom?: number;         // ズーム倍率 (省略時は1)
+    easing?: CameraEasing; // 次のキーフレームまでのイージング (省略時はlinear)
+}
+
+// セルから見た壁の方角
+export type WallDirection = 'north' | 'east' | 'south' | 'west';
+
+// 壁の既知状態 (unknown: 未確認, present: 壁あり確認済み, absent: 壁なし確認済み)
+export type WallKnowledgeState = 'unknown' | 'present' | 'absent';
+
+export interface WallKnowledge {
+    vwall: WallKnowledgeState[][]; // 垂直向きの壁の既知状態 [height][width + 1] (MazeData.walls.vwallと同じ形状)
+    hwall: WallKnowledgeState[][]; // 水平向きの壁の既知状態 [height + 1][width] (MazeData.walls.hwallと同じ形状)
+}
+
+// 探索イベント (時刻[s]は軌道プロファイルと同じ時間軸)
+export type ExplorationEvent =
+    | { time: number; type: 'wall'; cell: CellPosition; direction: WallDirection; present: boolean } // 壁の観測
+    | { time: number; type: 'visit'; cell: CellPosition }; // セルへの訪問
+
+// 軌道イベントの種類 (wallDetected: 壁の検出, slip: スリップ, goal: ゴール到達, emergencyStop: 非常停止, 任意の文字列も指定可能)
+export type TrajectoryEventType = 'wallDetected' | 'slip' | 'goal' | 'emergencyStop' | (string & {});
+
+// 軌道イベント (時刻[s]は軌道プロファイルと同じ時間軸)
+export interface TrajectoryEvent {
+    time: number;
+    type: TrajectoryEventType;
+    label?: string;                        // 表示するラベル（省略時は表示しない）
+    position?: { x: number; y: number };   // イベントの位置[m]（省略時はその時刻の軌道上の位置）
+    color?: string;                        // マーカーの色（省略時は種類ごとの色）
+}
@@ -0,0 +1,161 @@
+/**
+ * カメラアニメーションユーティリティ
+ * カメラの状態の補間、イージング、キーフレームで指定したカメラパスのサンプリングを行う
+ */
+import { CameraEasing, CameraKeyframe, CameraState } from '../types';
+
+const DEG2RAD = Math.PI / 180;
+
+/**
+ * イージングを適用する
+ * @param easing イージングの名前または関数
+ * @param t 進捗（0〜1）
+ * @returns イージングを適用した進捗（0〜1）
+ */
+export const applyCameraEasing = (easing: CameraEasing, t: number): number => {
+  const clamped = Math.max(0, Math.min(1, t));
+  if (typeof easing === 'function') {
+    return easing(clamped);
+  }
+  switch (easing) {
+    case 'easeIn':
+      return clamped * clamped * clamped;
+    case 'easeOut':
+      return 1 - Math.pow(1 - clamped, 3);
+    case 'easeInOut':
+      return clamped < 0.5 ? 4 * clamped * clamped * clamped : 1 - Math.pow(-2 * clamped + 2, 3) / 2;
+    case 'linear':
+    default:
+      return clamped;
+  }
+};
+
+const lerp = (a: number, b: number, t: number): number => a + (b - a) * t;
+
+const lerpVector = (
+  a: [number, number, number],
+  b: [number, number, number],
+  t: number
+): [number, number, number] => [lerp(a[0], b[0], t), lerp(a[1], b[1], t), lerp(a[2], b[2], t)];
+
+// ズーム倍率は対数で補間する（拡大・縮小の速さが一定に見えるようにする）
+const lerpZoom = (a: number, b: number, t: number): number =>
+  a > 0 && b > 0 ? Math.exp(lerp(Math.log(a), Math.log(b), t)) : lerp(a, b, t);
+
+/**
+ * 2つのカメラの状態を補間する（投影方法は終了側の値、上方向・画角は両方にある場合のみ補間）
+ * @param from 開始時の状態
+ * @param to 終了時の状態
+ * @param t 進捗（0〜1）
+ * @returns 補間した状態
+ */
+export const interpolateCameraState = (from: CameraState, to: CameraState, t: number): CameraState => ({
+  position: lerpVector(from.position, to.position, t),
+  target: lerpVector(from.target, to.target, t),
+  up: from.up && to.up ? lerpVector(from.up, to.up, t) : to.up,
+  zoom: lerpZoom(from.zoom, to.zoom, t),
+  projection: to.projection,
+  fov: from.fov !== undefined && to.fov !== undefined ? lerp(from.fov, to.fov, t) : to.fov,
+});
+
+/**
+ * 直交投影の状態と同じ大きさに見える透視投影の状態を求める
+ * 注視点と視線の向きはそのままに、注視点での表示範囲の高さが一致する距離へカメラを移動する
+ * （透視投影と直交投影を切り替えながらアニメーションする際に使用）
+ * @param state 直交投影の状態
+ * @param frustumHeight ズーム倍率1での直交投影の表示範囲の高さ[m]
+ * @param fov 透視投影の垂直画角[deg]
+ * @returns 透視投影の状態（ズーム倍率は1、画角はfov）
+ */
+export const toPerspectiveEquivalentState = (
+  state: CameraState,
+  frustumHeight: number,
+  fov: number
+): CameraState => {
+  const [tx, ty, tz] = state.target;
+  let dx = state.position[0] - tx;
+  let dy = state.position[1] - ty;
+  let dz = state.position[2] - tz;
+  const length = Math.hypot(dx, dy, dz);
+  if (length === 0) {
+    // 位置と注視点が一致する場合は真上から見る
+    dx = 0;
+    dy = 0;
+    dz = 1;
+  } else {
+    dx /= length;
+    dy /= length;
+    dz /= length;
+  }
+
+  const visibleHeight = frustumHeight / (state.zoom > 0 ? state.zoom : 1);
+  const distance = visibleHeight / (2 * Math.tan(DEG2RAD * fov / 2));
+  return {
+    position: [tx + dx * distance, ty + dy * distance, tz + dz * distance],
+    target: [tx, ty, tz],
+    up: state.up,
+    zoom: 1,
+    projection: 'perspective',
+    fov,
+  };
+};
+
+/**
+ * カメラパスのキーフレームを時刻順に並べ替える
+ * @param keyframes キーフレーム
+ * @returns 時刻順に並べ替えた新しい配列
+ */
+export const sortCameraKeyframes = (keyframes: CameraKeyframe[]): CameraKeyframe[] =>
+  [...keyframes].sort((a, b) => a.time - b.time);
+
+/**
+ * 指定時刻のカメラパスの位置・注視点・ズーム倍率を求める
+ * 最初のキーフレームより前は最初、最後のキーフレームより後は最後のキーフレームの値を返す
+ * @param keyframes 時刻順に並んだキーフレーム
+ * @param time 時刻[s]
+ * @returns 位置・注視点・ズーム倍率（キーフレームがない場合はnull）
+ */
+export const sampleCameraPath = (
+  keyframes: CameraKeyframe[],
+  time: number
+): Omit<CameraState, 'projection'> | null => {
+  if (keyframes.length === 0) {
+    return null;
+  }
+
+  const toState = (keyframe: CameraKeyframe): Omit<CameraState, 'projection'> => ({
+    position: [...keyframe.position],
+    target: [...keyframe.target],
+    zoom: keyframe.zoom ?? 1,
+  });
+
+  if (time <= keyframes[0].time) {
+    return toState(keyframes[0]);
+  }
+  const last = keyframes[keyframes.length - 1];
+  if (time >= last.time) {
+    return toState(last);
+  }
+
+  // timeを挟むキーフレームを二分探索で求める
+  let left = 0;
+  let right = keyframes.length - 1;
+  while (right - left > 1) {
+    const mid = (left + right) >> 1;
+    if (keyframes[mid].time <= time) {
+      left = mid;
+    } else {
+      right = mid;
+    }
+  }
+
+  const from = keyframes[left];
+  const to = keyframes[right];
+  const span = to.time - from.time;
+  const t = applyCameraEasing(from.easing ?? 'linear', span > 0 ? (time - from.time) / span : 1);
+  return {
+    position: lerpVector(from.position, to.position, t),
+    target: lerpVector(from.target, to.target, t),
+    zoom: lerpZoom(from.zoom ?? 1, to.zoom ?? 1, t),
+  };
+};
@@ -0,0 +1,67 @@
+/**
+ * 追従カメラユーティリティ
+ * マウスの位置・姿勢から追従カメラ（chase・firstPerson・tracking）の位置と注視点を計算する
+ */
+import { CameraFollowMode, CameraFollowOptions, MouseState } from '../types';
+import { cameraFollowDefaults } from '../config/constants';
+
+// 追従カメラの位置と注視点[m]
+export interface CameraFollowPose {
+  position: [number, number, number];
+  target: [number, number, number];
+}
+
+/**
+ * 追従カメラの設定に既定値を補う
+ * @param mode 追従モード
+ * @param options 追従カメラの設定（省略した項目は既定値）
+ * @returns すべての項目を含む設定
+ */
+export const resolveCameraFollowOptions = (
+  mode: CameraFollowMode,
+  options?: CameraFollowOptions
+): Required<CameraFollowOptions> => {
+  const defaults = cameraFollowDefaults[mode];
+  return {
+    offset: options?.offset ?? defaults.offset,
+    lookAhead: options?.lookAhead ?? defaults.lookAhead,
+    targetHeight: options?.targetHeight ?? defaults.targetHeight,
+    smoothing: options?.smoothing ?? defaults.smoothing,
+  };
+};
+
+/**
+ * マウスの状態から追従カメラの位置と注視点を計算する
+ * @param mode 追従モード
+ * @param mouseState マウスの状態
+ * @param options 追従カメラの設定（省略した項目は既定値）
+ * @returns カメラの位置と注視点
+ */
+export const computeCameraFollowPose = (
+  mode: CameraFollowMode,
+  mouseState: MouseState,
+  options?: CameraFollowOptions
+): CameraFollowPose => {
+  const { offset, lookAhead, targetHeight } = resolveCameraFollowOptions(mode, options);
+  const { x, y } = mouseState.position;
+  const cos = Math.cos(mouseState.angle);
+  const sin = Math.sin(mouseState.angle);
+
+  // 注視点はマウスから進行方向へlookAheadだけ先の点
+  const target: [number, number, number] = [x + cos * lookAhead, y + sin * lookAhead, targetHeight];
+
+  if (mode === 'tracking') {
+    // 真上からの追跡は向きを固定し、注視点の上にワールド座標系のオフセットで配置する
+    return {
+      position: [target[0] + offset[0], target[1] + offset[1], offset[2]],
+      target,
+    };
+  }
+
+  // chase・firstPersonはマウス座標系（前方・左・上）のオフセットをワールド座標系に回転する
+  const [forward, left, up] = offset;
+  return {
+    position: [x + cos * forward - sin * left, y + sin * forward + cos * left, up],
+    target,
+  };
+};
@@ -0,0 +1,92 @@
+/**
+ * カメラの状態の保存・復元ユーティリティ
+ * カメラの状態をJSON文字列に変換し、共有された値を検証して読み込む
+ */
+import { CameraBookmark, CameraState } from '../types';
+
+// 3要素の有限な数値の配列かどうか
+const isVector3 = (value: unknown): value is [number, number, number] =>
+  Array.isArray(value) && value.length === 3 && value.every((v) => typeof v === 'number' && Number.isFinite(v));
+
+/**
+ * カメラの状態を検証して読み込む
+ * @param value カメラの状態のオブジェクトまたはJSON文字列
+ * @returns 余分なプロパティを除いたカメラの状態
+ * @throws 値がカメラの状態として不正な場合
+ */
+export const parseCameraState = (value: unknown): CameraState => {
+  let data = value;
+  if (typeof value === 'string') {
+    try {
+      data = JSON.parse(value);
+    } catch {
+      throw new Error('カメラの状態のJSONを解析できません');
+    }
+  }
+  if (typeof data !== 'object' || data === null) {
+    throw new Error('カメラの状態はオブジェクトである必要があります');
+  }
+
+  const { position, target, up, zoom, projection, fov } = data as Record<string, unknown>;
+  if (!isVector3(position)) {
+    throw new Error('カメラの状態のpositionは3つの数値の配列である必要があります');
+  }
+  if (!isVector3(target)) {
+    throw new Error('カメラの状態のtargetは3つの数値の配列である必要があります');
+  }
+  if (up !== undefined && !isVector3(up)) {
+    throw new Error('カメラの状態のupは3つの数値の配列である必要があります');
+  }
+  if (typeof zoom !== 'number' || !Number.isFinite(zoom) || zoom <= 0) {
+    throw new Error('カメラの状態のzoomは正の数値である必要があります');
+  }
+  if (projection !== 'perspective' && projection !== 'orthographic') {
+    throw new Error("カメラの状態のprojectionは'perspective'または'orthographic'である必要があります");
+  }
+  if (fov !== undefined && (typeof fov !== 'number' || !(fov > 0 && fov < 180))) {
+    throw new Error('カメラの状態のfovは0より大きく180未満の数値である必要があります');
+  }
+
+  const state: CameraState = { position: [...position], target: [...target], zoom, projection };
+  if (isVector3(up)) {
+    state.up = [...up];
+  }
+  if (typeof fov === 'number') {
+    state.fov = fov;
+  }
+  return state;
+};
+
+/**
+ * カメラの状態をJSON文字列に変換する
+ * @param state カメラの状態
+ * @returns JSON文字列
+ */
+export const serializeCameraState = (state: CameraState): string => JSON.stringify(parseCameraState(state));
+
+/**
+ * カメラのブックマークの一覧を検証して読み込む
+ * @param value ブックマークの配列またはそのJSON文字列
+ * @returns ブックマークの一覧
+ * @throws 値がブックマークの一覧として不正な場合
+ */
+export const parseCameraBookmarks = (value: unknown): CameraBookmark[] => {
+  let data = value;
+  if (typeof value === 'string') {
+    try {
+      data = JSON.parse(value);
+    } catch {
+      throw new Error('カメラのブックマークのJSONを解析できません');
+    }
+  }
+  if (!Array.isArray(data)) {
+    throw new Error('カメラのブックマークは配列である必要があります');
+  }
+
+  return data.map((item, index) => {
+    if (typeof item !== 'object' || item === null || typeof item.name !== 'string') {
+      throw new Error(`カメラのブックマーク[${index}]には文字列のnameが必要です`);
+    }
+    return { name: item.name, state: parseCameraState(item.state) };
+  });
+};
@@ -0,0 +1,163 @@
+/**
+ * カラーマップユーティリティ
+ * 数値を色に変換する（ヒートマップ表示や軌跡の色分けなどで使用）
+ */
+
+/** RGB色（各成分0〜1） */
+export type RGBColor = [number, number, number];
+
+/** 組み込みカラーマップの名前 */
+export type ColormapName = 'viridis' | 'turbo' | 'inferno' | 'coolwarm' | 'grayscale';
+
+/**
+ * カラーマップ
+ * 組み込みカラーマップの名前、等間隔に並べた色の配列、または0〜1の値を色に変換する関数
+ */
+export type Colormap = ColormapName | RGBColor[] | string[] | ((t: number) => RGBColor);
+
+// 組み込みカラーマップの色（等間隔の補間点）
+const COLORMAP_STOPS: Record<ColormapName, RGBColor[]> = {
+  viridis: [
+    [0.267, 0.005, 0.329],
+    [0.283, 0.141, 0.458],
+    [0.254, 0.265, 0.530],
+    [0.207, 0.372, 0.553],
+    [0.164, 0.471, 0.558],
+    [0.128, 0.567, 0.551],
+    [0.135, 0.659, 0.518],
+    [0.267, 0.749, 0.441],
+    [0.478, 0.821, 0.318],
+    [0.741, 0.873, 0.150],
+    [0.993, 0.906, 0.144],
+  ],
+  turbo: [
+    [0.190, 0.072, 0.232],
+    [0.275, 0.385, 0.868],
+    [0.156, 0.678, 0.955],
+    [0.101, 0.896, 0.710],
+    [0.433, 0.995, 0.364],
+    [0.780, 0.937, 0.207],
+    [0.985, 0.730, 0.222],
+    [0.966, 0.433, 0.100],
+    [0.796, 0.166, 0.014],
+    [0.480, 0.016, 0.011],
+  ],
+  inferno: [
+    [0.001, 0.000, 0.014],
+    [0.133, 0.047, 0.299],
+    [0.341, 0.062, 0.429],
+    [0.550, 0.161, 0.506],
+    [0.735, 0.216, 0.330],
+    [0.898, 0.361, 0.188],
+    [0.976, 0.557, 0.035],
+    [0.976, 0.790, 0.197],
+    [0.988, 1.000, 0.644],
+  ],
+  coolwarm: [
+    [0.230, 0.299, 0.754],
+    [0.552, 0.690, 0.996],
+    [0.866, 0.866, 0.866],
+    [0.958, 0.603, 0.482],
+    [0.706, 0.016, 0.150],
+  ],
+  grayscale: [
+    [0, 0, 0],
+    [1, 1, 1],
+  ],
+};
+
+/**
+ * 16進数カラーコード（#rgb または #rrggbb）をRGB色に変換する
+ * @param hex カラーコード
+ * @returns RGB色
+ */
+export const hexToRGB = (hex: string): RGBColor => {
+  const value = hex.replace('#', '');
+  const full = value.length === 3 ? value.split('').map((c) => c + c).join('') : value;
+  if (!/^[0-9a-fA-F]{6}$/.test(full)) {
+    throw new Error(`カラーコードの形式が不正です: ${hex}`);
+  }
+  const num = parseInt(full, 16);
+  return [((num >> 16) & 0xff) / 255, ((num >> 8) & 0xff) / 255, (num & 0xff) / 255];
+};
+
+/**
+ * 色の配列を等間隔の補間点として0〜1の値の色を計算する
+ */
+const sampleStops = (stops: RGBColor[], t: number): RGBColor => {
+  if (stops.length === 1) return [...stops[0]] as RGBColor;
+  const scaled = t * (stops.length - 1);
+  const index = Math.min(Math.floor(scaled), stops.length - 2);
+  const local = scaled - index;
+  const a = stops[index];
+  const b = stops[index + 1];
+  return [
+    a[0] + (b[0] - a[0]) * local,
+    a[1] + (b[1] - a[1]) * local,
+    a[2] + (b[2] - a[2]) * local,
+  ];
+};
+
+/**
+ * カラーマップから0〜1の値に対応する色を取得する
+ * 範囲外の値は0〜1に丸める
+ * @param colormap カラーマップ
+ * @param t 0〜1の値
+ * @returns RGB色
+ */
+export const sampleColormap = (colormap: Colormap, t: number): RGBColor => {
+  const clamped = Number.isFinite(t) ? Math.min(1, Math.max(0, t)) : 0;
+  if (typeof colormap === 'function') {
+    return colormap(clamped);
+  }
+  if (typeof colormap === 'string') {
+    const stops = COLORMAP_STOPS[colormap];
+    if (!stops) {
+      throw new Error(`未知のカラーマップです: ${colormap}`);
+    }
+    return sampleStops(stops, clamped);
+  }
+  if (colormap.length === 0) {
+    throw new Error('カラーマップの色が指定されていません');
+  }
+  const stops = colormap.map((color) => (typeof color === 'string' ? hexToRGB(color) : color));
+  return sampleStops(stops, clamped);
+};
+
+/**
+ * 値を範囲[min, max]で正規化してカラーマップの色を取得する
+ * @param colormap カラーマップ
+ * @param value 値
+ * @param range 値の範囲[min, max]
+ * @returns RGB色
+ */
+export const valueToColor = (colormap: Colormap, value: number, range: [number, number]): RGBColor => {
+  const [min, max] = range;
+  const t = max > min ? (value - min) / (max - min) : 0;
+  return sampleColormap(colormap, t);
+};
+
+/**
+ * RGB色をCSSのカラー文字列に変換する
+ * @param color RGB色
+ * @returns rgb()形式のカラー文字列
+ */
+export const rgbToCss = (color: RGBColor): string =>
+  `rgb(${Math.round(color[0] * 255)}, ${Math.round(color[1] * 255)}, ${Math.round(color[2] * 255)})`;
+
+/**
+ * 値の配列から有限値の最小・最大を求める（NaNや無限大は無視する）
+ * @param values 値の配列
+ * @returns 値の範囲[min, max]（有限値がない場合は[0, 1]）
+ */
+export const computeValueRange = (values: ArrayLike<number>): [number, number] => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    const value = values[i];
+    if (!Number.isFinite(value)) continue;
+    min = Math.min(min, value);
+    max = Math.max(max, value);
+  }
+  return min <= max ? [min, max] : [0, 1];
+};
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { ExplorationEvent } from '../types';
+import { applyExplorationEvents, createExplorationState, filterValidExplorationEvents } from './exploration';
+import { createEmptyMaze } from './mazeEditor';
+
+describe('filterValidExplorationEvents', () => {
+  const mazeData = createEmptyMaze(4);
+
+  it('すべて適用できる場合は元の配列を返す', () => {
+    const events: ExplorationEvent[] = [
+      { time: 0, type: 'visit', cell: { x: 0, y: 0 } },
+      { time: 0.1, type: 'wall', cell: { x: 3, y: 3 }, direction: 'north', present: true },
+    ];
+
+    expect(filterValidExplorationEvents(events, mazeData)).toBe(events);
+  });
+
+  it('範囲外のセルと不正な方角のイベントを除外し、残りは適用できる', () => {
+    const events = [
+      { time: 0, type: 'visit', cell: { x: 0, y: 0 } },
+      { time: 0.1, type: 'wall', cell: { x: 4, y: 0 }, direction: 'east', present: true },
+      { time: 0.2, type: 'visit', cell: { x: 0, y: -1 } },
+      { time: 0.3, type: 'wall', cell: { x: 1, y: 0 }, direction: 'up', present: true },
+      { time: 0.4, type: 'wall', cell: { x: 0, y: 0 }, direction: 'north', present: false },
+    ] as ExplorationEvent[];
+
+    const valid = filterValidExplorationEvents(events, mazeData);
+
+    expect(valid.map((event) => event.time)).toEqual([0, 0.4]);
+    const state = applyExplorationEvents(createExplorationState(mazeData), valid);
+    expect(state.visitedCells).toEqual([{ x: 0, y: 0 }]);
+    expect(state.wallKnowledge.hwall[1][0]).toBe('absent');
+  });
+});
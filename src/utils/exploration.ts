@@ -0,0 +1,126 @@
+/**
+ * 探索リプレイユーティリティ
+ * 時刻付きの探索イベント（壁の観測・セルへの訪問）から、任意の時刻にマウスが把握していた状態を再構築する
+ */
+import { CellPosition, ExplorationEvent, MazeData, WallDirection, WallKnowledge } from '../types';
+import { getMazeDimensions } from './mazeGeometry';
+import { createWallKnowledge, updateWallKnowledge } from './wallKnowledge';
+
+/** ある時刻での探索状態 */
+export interface ExplorationState {
+  wallKnowledge: WallKnowledge; // 壁の既知状態
+  visitedCells: CellPosition[]; // 訪問済みのセル（訪問順、重複なし）
+}
+
+/**
+ * 探索イベントを時刻順に並べ替える（同時刻のイベントは元の順序を保つ）
+ * @param events 探索イベント
+ * @returns 時刻順に並べ替えた新しい配列
+ */
+export const sortExplorationEvents = (events: ExplorationEvent[]): ExplorationEvent[] =>
+  events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.time - b.event.time || a.index - b.index)
+    .map(({ event }) => event);
+
+const WALL_DIRECTIONS: readonly WallDirection[] = ['north', 'east', 'south', 'west'];
+
+/**
+ * 迷路に適用できる探索イベントのみを取り出す
+ * セルが迷路の範囲外のイベントと、方角が不正な壁の観測イベントを除外する（順序は保つ）
+ * @param events 探索イベント
+ * @param mazeData MazeDataオブジェクト
+ * @returns 適用できるイベントの配列（すべて適用できる場合は元の配列）
+ */
+export const filterValidExplorationEvents = (events: ExplorationEvent[], mazeData: MazeData): ExplorationEvent[] => {
+  const { width, height } = getMazeDimensions(mazeData);
+  const isValid = (event: ExplorationEvent): boolean =>
+    Number.isInteger(event.cell.x) && Number.isInteger(event.cell.y) &&
+    event.cell.x >= 0 && event.cell.x < width && event.cell.y >= 0 && event.cell.y < height &&
+    (event.type !== 'wall' || WALL_DIRECTIONS.includes(event.direction));
+  return events.every(isValid) ? events : events.filter(isValid);
+};
+
+/**
+ * 指定時刻までに発生したイベントの数を二分探索で求める
+ * @param events 時刻順に並んだ探索イベント
+ * @param time 時刻[s]
+ * @returns time以下の時刻を持つイベントの数
+ */
+export const countExplorationEventsUntil = (events: ExplorationEvent[], time: number): number => {
+  let left = 0;
+  let right = events.length;
+  while (left < right) {
+    const mid = (left + right) >> 1;
+    if (events[mid].time <= time) {
+      left = mid + 1;
+    } else {
+      right = mid;
+    }
+  }
+  return left;
+};
+
+/**
+ * 探索開始時の状態（外周の壁のみ既知、訪問済みセルなし）を作成する
+ * @param mazeData MazeDataオブジェクト
+ * @returns 初期状態
+ */
+export const createExplorationState = (mazeData: MazeData): ExplorationState => {
+  const { width, height } = getMazeDimensions(mazeData);
+  return { wallKnowledge: createWallKnowledge(width, height), visitedCells: [] };
+};
+
+/**
+ * 探索イベントを状態に適用する（元の状態は変更しない）
+ * @param state 適用前の状態
+ * @param events 時刻順に並んだ探索イベント
+ * @param from 適用を開始するイベントのインデックス
+ * @param to 適用を終了するイベントのインデックス（このインデックスのイベントは含まない）
+ * @returns 適用後の状態
+ */
+export const applyExplorationEvents = (
+  state: ExplorationState,
+  events: ExplorationEvent[],
+  from: number = 0,
+  to: number = events.length
+): ExplorationState => {
+  let wallKnowledge = state.wallKnowledge;
+  const visitedCells = [...state.visitedCells];
+  const visitedKeys = new Set(visitedCells.map((cell) => `${cell.x},${cell.y}`));
+
+  for (let i = from; i < Math.min(to, events.length); i++) {
+    const event = events[i];
+    if (event.type === 'wall') {
+      wallKnowledge = updateWallKnowledge(
+        wallKnowledge,
+        event.cell.x,
+        event.cell.y,
+        event.direction,
+        event.present ? 'present' : 'absent'
+      );
+    } else {
+      const key = `${event.cell.x},${event.cell.y}`;
+      if (!visitedKeys.has(key)) {
+        visitedKeys.add(key);
+        visitedCells.push({ x: event.cell.x, y: event.cell.y });
+      }
+    }
+  }
+
+  return { wallKnowledge, visitedCells };
+};
+
+/**
+ * 指定時刻での探索状態を計算する
+ * @param mazeData MazeDataオブジェクト
+ * @param events 時刻順に並んだ探索イベント
+ * @param time 時刻[s]
+ * @returns 指定時刻での状態
+ */
+export const getExplorationStateAt = (
+  mazeData: MazeData,
+  events: ExplorationEvent[],
+  time: number
+): ExplorationState =>
+  applyExplorationEvents(createExplorationState(mazeData), events, 0, countExplorationEventsUntil(events, time));
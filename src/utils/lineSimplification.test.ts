@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { computeSimplificationImportance, simplifyPolyline } from './lineSimplification';
+
+// 点列を間引き、残した点のインデックスを配列で返す
+const simplify = (xs: number[], ys: number[], tolerance: number, minSpacing?: number): number[] =>
+  Array.from(simplifyPolyline(computeSimplificationImportance(xs, ys), tolerance, xs, ys, minSpacing));
+
+describe('computeSimplificationImportance', () => {
+  it('始点と終点の重要度はInfinity', () => {
+    const importance = computeSimplificationImportance([0, 1, 2], [0, 5, 0]);
+
+    expect(importance[0]).toBe(Infinity);
+    expect(importance[2]).toBe(Infinity);
+    expect(importance[1]).toBeCloseTo(5, 12);
+  });
+
+  it('空の点列と1点の点列も扱える', () => {
+    expect(Array.from(computeSimplificationImportance([], []))).toEqual([]);
+    expect(Array.from(computeSimplificationImportance([1], [1]))).toEqual([Infinity]);
+  });
+
+  it('分割後の点の重要度は分割元の点の重要度を上限とする', () => {
+    // (1, 3)で分割した後、区間(1, 3)-(4, 0)では(3, 3)が√2、区間(1, 3)-(3, 3)では(2, 1)が2離れている
+    const importance = computeSimplificationImportance([0, 1, 2, 3, 4], [0, 3, 1, 3, 0]);
+
+    expect(importance[1]).toBeCloseTo(3, 12);
+    expect(importance[3]).toBeCloseTo(Math.SQRT2, 12);
+    // (2, 1)は(3, 3)が残らない許容誤差では残らない
+    expect(importance[2]).toBeCloseTo(Math.SQRT2, 12);
+  });
+});
+
+describe('simplifyPolyline', () => {
+  it('許容誤差によらず始点と終点は残す', () => {
+    expect(simplify([0, 1, 2, 3], [0, 1, -1, 0], 1e9)).toEqual([0, 3]);
+  });
+
+  it('一直線上の点は間引く', () => {
+    expect(simplify([0, 1, 2, 3, 4], [0, 0.5, 1, 1.5, 2], 1e-6)).toEqual([0, 4]);
+  });
+
+  it('許容誤差より大きく曲がる角の点は残す', () => {
+    // L字の角(2, 0)は始点と終点を結ぶ線分から√2離れている
+    const xs = [0, 1, 2, 2, 2];
+    const ys = [0, 0, 0, 1, 2];
+
+    expect(simplify(xs, ys, 0.1)).toEqual([0, 2, 4]);
+    expect(simplify(xs, ys, 1.5)).toEqual([0, 4]);
+  });
+
+  it('許容誤差が0以下の場合はすべての点を残す', () => {
+    expect(simplify([0, 1, 2], [0, 0, 0], 0)).toEqual([0, 1, 2]);
+  });
+
+  it('minSpacingを指定すると直前に残した点からminSpacing以上離れた点を残す', () => {
+    const xs = Array.from({ length: 11 }, (_, i) => i);
+    const ys = xs.map(() => 0);
+
+    const kept = simplify(xs, ys, 0.1, 2.5);
+
+    expect(kept).toEqual([0, 3, 6, 9, 10]);
+    // 終点以外は間隔がminSpacing以上
+    for (let i = 1; i < kept.length - 1; i++) {
+      expect(xs[kept[i]] - xs[kept[i - 1]]).toBeGreaterThanOrEqual(2.5);
+    }
+  });
+
+  it('座標を渡さない場合はminSpacingを使用しない', () => {
+    const importance = computeSimplificationImportance([0, 1, 2, 3], [0, 0, 0, 0]);
+
+    expect(Array.from(simplifyPolyline(importance, 0.1, undefined, undefined, 0.5))).toEqual([0, 3]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * 折れ線の間引きユーティリティ
+ * 長い軌跡を表示の縮尺に合わせて形状を保ったまま間引く（Ramer–Douglas–Peucker法）
+ */
+
+/**
+ * 点から線分までの距離を求める
+ */
+const distanceToSegment = (
+  px: number,
+  py: number,
+  ax: number,
+  ay: number,
+  bx: number,
+  by: number
+): number => {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSq = dx * dx + dy * dy;
+  // 線分の長さが0の場合（始点と終点が一致する場合）は点までの距離
+  const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq));
+  return Math.hypot(px - (ax + dx * t), py - (ay + dy * t));
+};
+
+/**
+ * Ramer–Douglas–Peucker法で各点の重要度を求める
+ * 重要度は許容誤差がその値未満のときに点が残ることを表し、
+ * simplifyPolylineで任意の許容誤差の間引き結果を再計算なしに取り出せる
+ * 始点と終点の重要度はInfinity
+ * @param xs 各点のX座標
+ * @param ys 各点のY座標
+ * @returns 各点の重要度（間引いた場合の誤差[座標の単位]）
+ */
+export const computeSimplificationImportance = (xs: ArrayLike<number>, ys: ArrayLike<number>): Float64Array => {
+  const count = xs.length;
+  const importance = new Float64Array(count);
+  if (count === 0) {
+    return importance;
+  }
+  importance[0] = Infinity;
+  importance[count - 1] = Infinity;
+
+  // 再帰の代わりにスタックで区間を分割する（長い軌跡でスタックが溢れないようにする）
+  // 区間の始点・終点のインデックスと、親の区間の重要度を積む
+  const stack: number[] = [0, count - 1, Infinity];
+  while (stack.length > 0) {
+    const parentImportance = stack.pop()!;
+    const last = stack.pop()!;
+    const first = stack.pop()!;
+    if (last - first < 2) {
+      continue;
+    }
+
+    // 区間の始点と終点を結ぶ線分から最も離れた点を探す
+    let maxDistance = -1;
+    let maxIndex = first + 1;
+    for (let i = first + 1; i < last; i++) {
+      const distance = distanceToSegment(xs[i], ys[i], xs[first], ys[first], xs[last], ys[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        maxIndex = i;
+      }
+    }
+
+    // 親の区間が分割されない許容誤差では子の点も残らないため、親の重要度を上限とする
+    const value = Math.min(maxDistance, parentImportance);
+    importance[maxIndex] = value;
+    stack.push(first, maxIndex, value, maxIndex, last, value);
+  }
+
+  return importance;
+};
+
+/**
+ * 重要度から許容誤差に応じて残す点のインデックスを取り出す
+ * minSpacingを指定した場合は、形状に影響しない点も直前に残した点からminSpacing以上離れていれば残す
+ * （点表示で直線部分の点がすべて消えないようにする）
+ * @param importance computeSimplificationImportanceで求めた重要度
+ * @param tolerance 許容誤差[座標の単位]（0以下の場合はすべての点を残す）
+ * @param xs 各点のX座標（minSpacingを指定する場合に使用）
+ * @param ys 各点のY座標（minSpacingを指定する場合に使用）
+ * @param minSpacing 残す点の最小間隔[座標の単位]
+ * @returns 残す点のインデックス（昇順）
+ */
+export const simplifyPolyline = (
+  importance: ArrayLike<number>,
+  tolerance: number,
+  xs?: ArrayLike<number>,
+  ys?: ArrayLike<number>,
+  minSpacing: number = Infinity
+): Uint32Array => {
+  const count = importance.length;
+  if (tolerance <= 0) {
+    return Uint32Array.from({ length: count }, (_, i) => i);
+  }
+
+  const indices = new Uint32Array(count);
+  let keptCount = 0;
+  const useSpacing = xs !== undefined && ys !== undefined && Number.isFinite(minSpacing);
+  for (let i = 0; i < count; i++) {
+    let keep = importance[i] > tolerance;
+    if (!keep && useSpacing && keptCount > 0) {
+      const last = indices[keptCount - 1];
+      keep = Math.hypot(xs[i] - xs[last], ys[i] - ys[last]) >= minSpacing;
+    }
+    if (keep) {
+      indices[keptCount++] = i;
+    }
+  }
+  return indices.slice(0, keptCount);
+};
@@ -0,0 +1,141 @@
+/**
+ * 迷路の編集ユーティリティ
+ * 壁の切り替え・スタート/ゴールの設定・空の迷路の作成を行う（いずれも元の迷路データを変更せず新しいデータを返す）
+ *
+ * 壁は区画の境界ごとに1つの要素（vwall/hwall）で表すため、隣り合う区画から見た壁の有無は常に一致する
+ * （セル(x, y)の東の壁とセル(x + 1, y)の西の壁は同じvwall[y][x + 1]）
+ */
+import { CellPosition, MazeData } from '../types';
+import { getMazeDimensions, MazeDimensions } from './mazeGeometry';
+import { getDefaultGoalCells } from './mazeLoader';
+import { WallIndex } from './wallKnowledge';
+
+const isCellInside = (cell: CellPosition, { width, height }: MazeDimensions): boolean =>
+  cell.x >= 0 && cell.x < width && cell.y >= 0 && cell.y < height;
+
+/**
+ * 外周とスタートセルの壁のみを持つ空の迷路を作成する
+ * スタートは左下のセル(0, 0)で競技規則に合わせて東側にも壁を置き、ゴールは中央付近の4セルとする
+ * @param width 迷路の幅[マス]
+ * @param height 迷路の高さ[マス]（省略時はwidth）
+ * @returns 迷路データ
+ * @throws 幅・高さが正の整数でない場合
+ */
+export const createEmptyMaze = (width: number, height: number = width): MazeData => {
+  if (!Number.isInteger(width) || width <= 0 || !Number.isInteger(height) || height <= 0) {
+    throw new Error(`迷路のサイズは正の整数である必要があります: ${width}x${height}`);
+  }
+
+  const vwall: boolean[][] = Array(height).fill(null).map(() =>
+    Array(width + 1).fill(false).map((_, x) => x === 0 || x === width)
+  );
+  const hwall: boolean[][] = Array(height + 1).fill(null).map((_, y) =>
+    Array(width).fill(y === 0 || y === height)
+  );
+
+  // スタートセルは北以外の3方向を壁で囲む
+  if (width > 1 && height > 1) {
+    vwall[0][1] = true;
+  }
+
+  const dimensions = { width, height };
+  const start = { x: 0, y: 0 };
+  const goal = getDefaultGoalCells(width, height).filter(
+    (cell) => isCellInside(cell, dimensions) && !(cell.x === start.x && cell.y === start.y)
+  );
+
+  return { size: Math.max(width, height), width, height, walls: { vwall, hwall }, start, goal };
+};
+
+/**
+ * 壁が迷路の外周の壁かどうかを判定する
+ * @param wall 壁配列上の位置
+ * @param dimensions 迷路の幅と高さ[マス]
+ * @returns 外周の壁の場合はtrue
+ */
+export const isBorderWall = (wall: WallIndex, { width, height }: MazeDimensions): boolean =>
+  wall.kind === 'vwall' ? wall.x === 0 || wall.x === width : wall.y === 0 || wall.y === height;
+
+/**
+ * 壁の有無を設定する
+ * @param mazeData 迷路データ
+ * @param wall 壁配列上の位置
+ * @param present 壁の有無
+ * @returns 新しい迷路データ（変更がない場合は元の迷路データ）
+ * @throws 壁の位置が迷路の範囲外の場合
+ */
+export const setMazeWall = (mazeData: MazeData, wall: WallIndex, present: boolean): MazeData => {
+  const { width, height } = getMazeDimensions(mazeData);
+  const columns = wall.kind === 'vwall' ? width + 1 : width;
+  const rows = wall.kind === 'vwall' ? height : height + 1;
+  if (wall.x < 0 || wall.x >= columns || wall.y < 0 || wall.y >= rows) {
+    throw new Error(`壁の位置が迷路の範囲外です: ${wall.kind}[${wall.y}][${wall.x}]`);
+  }
+
+  const walls = mazeData.walls[wall.kind];
+  if (Boolean(walls[wall.y]?.[wall.x]) === present) {
+    return mazeData;
+  }
+
+  // 変更する行のみ複製する（欠けている行は壁なしで補う）
+  const row = walls[wall.y] ? [...walls[wall.y]] : Array(columns).fill(false);
+  row[wall.x] = present;
+  const updated = [...walls];
+  updated[wall.y] = row;
+  return { ...mazeData, walls: { ...mazeData.walls, [wall.kind]: updated } };
+};
+
+/**
+ * 壁の有無を切り替える
+ * @param mazeData 迷路データ
+ * @param wall 壁配列上の位置
+ * @returns 新しい迷路データ
+ * @throws 壁の位置が迷路の範囲外の場合
+ */
+export const toggleMazeWall = (mazeData: MazeData, wall: WallIndex): MazeData =>
+  setMazeWall(mazeData, wall, !mazeData.walls[wall.kind][wall.y]?.[wall.x]);
+
+/**
+ * スタートセルを設定する（ゴールに含まれるセルの場合はゴールから外す）
+ * @param mazeData 迷路データ
+ * @param cell スタートセル
+ * @returns 新しい迷路データ（変更がない場合は元の迷路データ）
+ * @throws セルが迷路の範囲外の場合
+ */
+export const setMazeStart = (mazeData: MazeData, cell: CellPosition): MazeData => {
+  if (!isCellInside(cell, getMazeDimensions(mazeData))) {
+    throw new Error(`スタートセルが迷路の範囲外です: (${cell.x}, ${cell.y})`);
+  }
+  if (mazeData.start.x === cell.x && mazeData.start.y === cell.y) {
+    return mazeData;
+  }
+  return {
+    ...mazeData,
+    start: { x: cell.x, y: cell.y },
+    goal: mazeData.goal.filter((goal) => goal.x !== cell.x || goal.y !== cell.y),
+  };
+};
+
+/**
+ * セルをゴールに追加する（既にゴールの場合はゴールから外す）
+ * スタートセルはゴールにできないため、スタートセルを指定した場合は変更しない
+ * @param mazeData 迷路データ
+ * @param cell 対象のセル
+ * @returns 新しい迷路データ（変更がない場合は元の迷路データ）
+ * @throws セルが迷路の範囲外の場合
+ */
+export const toggleMazeGoal = (mazeData: MazeData, cell: CellPosition): MazeData => {
+  if (!isCellInside(cell, getMazeDimensions(mazeData))) {
+    throw new Error(`ゴールセルが迷路の範囲外です: (${cell.x}, ${cell.y})`);
+  }
+  if (mazeData.start.x === cell.x && mazeData.start.y === cell.y) {
+    return mazeData;
+  }
+  const isGoal = mazeData.goal.some((goal) => goal.x === cell.x && goal.y === cell.y);
+  return {
+    ...mazeData,
+    goal: isGoal
+      ? mazeData.goal.filter((goal) => goal.x !== cell.x || goal.y !== cell.y)
+      : [...mazeData.goal, { x: cell.x, y: cell.y }],
+  };
+};
@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { MazeData } from '../types';
+import { createEmptyMaze, setMazeStart, toggleMazeWall } from './mazeEditor';
+import {
+  BuiltinMazeFormatId,
+  detectMazeFormat,
+  getMazeFormat,
+  getMazeFormats,
+  parseMaze,
+  parseMazeBytes,
+  parseMazeJson,
+  parseMazetoolFile,
+  registerMazeFormat,
+  serializeMaze,
+  serializeMazeBytes,
+  serializeMazeJson,
+  serializeMazetoolFile,
+} from './mazeFormats';
+
+// 内壁とスタート・ゴールを持つ4x4の迷路
+const createSampleMaze = (): MazeData =>
+  toggleMazeWall(toggleMazeWall(createEmptyMaze(4), { kind: 'vwall', x: 2, y: 1 }), { kind: 'hwall', x: 1, y: 3 });
+
+// 柱を'o'で表した2x2の迷路（スタート(0,0)から北のゴール(0,1)へ進める）
+const MAZETOOL_TEXT = [
+  'o---o---o',
+  '| G     |',
+  'o   o---o',
+  '| S |   |',
+  'o---o---o',
+].join('\n');
+
+const BUILTIN_FORMATS: BuiltinMazeFormatId[] = ['mazefile', 'mazetool', 'json', 'binary'];
+
+describe('組み込みフォーマット', () => {
+  it('登録順に取得できる', () => {
+    expect(getMazeFormats().slice(0, 4).map((format) => format.id)).toEqual(BUILTIN_FORMATS);
+  });
+
+  it.each(BUILTIN_FORMATS)('%sで書き出した迷路を内容から判別して読み戻せる', (formatId) => {
+    const mazeData = createSampleMaze();
+
+    const serialized = serializeMaze(mazeData, formatId);
+
+    expect(detectMazeFormat(serialized)?.id).toBe(formatId);
+    const parsed = parseMaze(serialized);
+    expect(parsed.walls).toEqual(mazeData.walls);
+    expect(parsed.width).toBe(4);
+    expect(parsed.height).toBe(4);
+  });
+
+  it.each<BuiltinMazeFormatId>(['mazefile', 'mazetool', 'json'])('%sはスタートとゴールも読み戻せる', (formatId) => {
+    const mazeData = setMazeStart(createSampleMaze(), { x: 3, y: 0 });
+
+    const parsed = parseMaze(serializeMaze(mazeData, formatId), { format: formatId });
+
+    expect(parsed.start).toEqual(mazeData.start);
+    expect(parsed.goal).toEqual(expect.arrayContaining(mazeData.goal));
+    expect(parsed.goal).toHaveLength(mazeData.goal.length);
+  });
+});
+
+describe('mazetoolフォーマット', () => {
+  it('柱を\'o\'で表した迷路を読み込む', () => {
+    const parsed = parseMazetoolFile(MAZETOOL_TEXT);
+
+    expect(parsed.width).toBe(2);
+    expect(parsed.start).toEqual({ x: 0, y: 0 });
+    expect(parsed.goal).toEqual([{ x: 0, y: 1 }]);
+    expect(parsed.walls.vwall).toEqual([[true, true, true], [true, false, true]]);
+    expect(parsed.walls.hwall).toEqual([[true, true], [false, true], [true, true]]);
+  });
+
+  it('CRLFの改行を読み込み、柱を\'o\'に置き換えて書き出す', () => {
+    expect(serializeMazetoolFile(parseMazetoolFile(MAZETOOL_TEXT.replace(/\n/g, '\r\n')))).toBe(`${MAZETOOL_TEXT}\n`);
+  });
+});
+
+describe('detectMazeFormat', () => {
+  it('バイト列のテキストも内容から判別する', () => {
+    expect(detectMazeFormat(new TextEncoder().encode(MAZETOOL_TEXT))?.id).toBe('mazetool');
+    expect(detectMazeFormat(new TextEncoder().encode(serializeMazeJson(createSampleMaze())).buffer as ArrayBuffer)?.id).toBe('json');
+  });
+
+  it('ファイル名の拡張子を優先し、同じ拡張子のフォーマットは内容で絞り込む', () => {
+    const mazefileText = serializeMaze(createSampleMaze(), 'mazefile');
+
+    expect(detectMazeFormat(mazefileText, 'maze.txt')?.id).toBe('mazefile');
+    expect(detectMazeFormat(MAZETOOL_TEXT, 'maze.txt')?.id).toBe('mazetool');
+    expect(detectMazeFormat(MAZETOOL_TEXT, 'MAZE.MAZE')?.id).toBe('mazetool');
+  });
+
+  it('拡張子に対応するフォーマットが1つの場合は内容が一致しなくても選ぶ', () => {
+    // 8x4の迷路のバイト列は正方形でないため内容からは判別できない
+    const bytes = serializeMazeBytes(createEmptyMaze(8, 4));
+
+    expect(detectMazeFormat(bytes)).toBeUndefined();
+    expect(detectMazeFormat(bytes, 'maze.bin')?.id).toBe('binary');
+  });
+
+  it('拡張子に対応するフォーマットがない場合は内容から判別する', () => {
+    expect(detectMazeFormat(MAZETOOL_TEXT, 'maze.dat')?.id).toBe('mazetool');
+  });
+
+  it('判別できない入力はundefinedを返し、parseMazeはエラーにする', () => {
+    expect(detectMazeFormat('hello')).toBeUndefined();
+    expect(() => parseMaze('hello')).toThrow('迷路フォーマットを判別できませんでした');
+    expect(() => parseMaze('hello', { format: 'unknown' })).toThrow('未登録の迷路フォーマットです: unknown');
+    expect(() => serializeMaze(createSampleMaze(), 'unknown')).toThrow('未登録の迷路フォーマットです: unknown');
+  });
+});
+
+describe('registerMazeFormat', () => {
+  // 「SIZE 幅」の1行で空の迷路を表すテスト用のフォーマット
+  registerMazeFormat({
+    id: 'test-size',
+    name: 'Test size',
+    extensions: ['size'],
+    binary: false,
+    detect: (input) => typeof input === 'string' && input.startsWith('SIZE '),
+    parse: (input) => createEmptyMaze(Number(String(input).slice(5))),
+    serialize: (mazeData) => `SIZE ${mazeData.width}`,
+  });
+
+  it('登録したフォーマットで判別・読み込み・書き出しができる', () => {
+    expect(getMazeFormat('test-size')?.name).toBe('Test size');
+    expect(detectMazeFormat('SIZE 8')?.id).toBe('test-size');
+    expect(parseMaze('SIZE 8').width).toBe(8);
+    expect(serializeMaze(createEmptyMaze(6), 'test-size')).toBe('SIZE 6');
+  });
+
+  it('同じidのフォーマットを登録すると置き換える', () => {
+    const count = getMazeFormats().length;
+    const format = getMazeFormat('test-size')!;
+
+    registerMazeFormat({ ...format, name: 'Test size v2' });
+
+    expect(getMazeFormats()).toHaveLength(count);
+    expect(getMazeFormat('test-size')?.name).toBe('Test size v2');
+  });
+});
+
+describe('binaryフォーマット', () => {
+  it('正方形の迷路を読み戻せる', () => {
+    const mazeData = toggleMazeWall(createEmptyMaze(16), { kind: 'vwall', x: 5, y: 3 });
+
+    const parsed = parseMaze(serializeMaze(mazeData, 'binary'));
+
+    expect(parsed.walls).toEqual(mazeData.walls);
+  });
+
+  it.each([[8, 4], [5, 9]])('%ix%iの長方形の迷路は書き出さずにエラーにする', (width, height) => {
+    const mazeData = createEmptyMaze(width, height);
+
+    expect(() => serializeMaze(mazeData, 'binary')).toThrow(`正方形の迷路のみ書き出せます: ${width}x${height}`);
+  });
+
+  it('長方形の迷路はwidthを指定すればバイト列で読み戻せる', () => {
+    const mazeData = createEmptyMaze(8, 4);
+
+    const parsed = parseMazeBytes(serializeMazeBytes(mazeData), { width: 8 });
+
+    expect(parsed.width).toBe(8);
+    expect(parsed.height).toBe(4);
+    expect(parsed.walls).toEqual(mazeData.walls);
+  });
+});
+
+describe('parseMazeJson', () => {
+  it('serializeMazeJsonで書き出した迷路を読み戻せる', () => {
+    const mazeData = createEmptyMaze(8, 4);
+
+    expect(parseMazeJson(serializeMazeJson(mazeData))).toEqual(mazeData);
+  });
+
+  it.each([
+    ['配列', '[]', 'formatが不正です'],
+    ['未対応のバージョン', '{"format":"mm_viz-maze","version":99}', '未対応の迷路JSONバージョンです: 99'],
+    ['サイズが文字列', '{"format":"mm_viz-maze","version":1,"size":"16"}', 'サイズが不正です'],
+    ['壁情報なし', '{"format":"mm_viz-maze","version":1,"size":1}', '壁情報の形状'],
+  ])('不正な内容（%s）はエラーにする', (_, text, message) => {
+    expect(() => parseMazeJson(text)).toThrow(message);
+  });
+});
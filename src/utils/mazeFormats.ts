@@ -0,0 +1,500 @@
+/**
+ * 各種迷路交換フォーマットとMazeData型を相互変換するユーティリティ
+ * フォーマットはレジストリに登録され、入力内容から自動判別できる
+ */
+import { MazeData } from '../types';
+import { parseMazeFile, serializeMazeFile, getDefaultGoalCells, MazeParseOptions } from './mazeLoader';
+import type { MazeDiagnostic } from './mazeValidator';
+import { getMazeDimensions } from './mazeGeometry';
+
+/** 迷路フォーマットへの入力として受け付けるデータ */
+export type MazeFormatInput = string | Uint8Array | ArrayBuffer;
+
+/**
+ * 迷路フォーマットの定義
+ * registerMazeFormatで独自のフォーマットを追加できる
+ */
+export interface MazeFormat {
+  id: string;                                   // フォーマットの識別子
+  name: string;                                 // 表示用の名前
+  extensions: string[];                         // 対応する拡張子（ドットなし）
+  binary: boolean;                              // バイナリフォーマットかどうか
+  detect: (input: MazeFormatInput) => boolean;  // 入力がこのフォーマットかどうかを判定
+  parse: (input: MazeFormatInput) => MazeData;  // 入力をMazeDataに変換
+  serialize: (mazeData: MazeData) => string | Uint8Array; // MazeDataをこのフォーマットに変換
+}
+
+/** 組み込みフォーマットの識別子 */
+export type BuiltinMazeFormatId = 'mazefile' | 'mazetool' | 'json' | 'binary';
+
+/** 迷路フォーマットの判別・変換オプション */
+export interface MazeFormatOptions {
+  format?: string;   // フォーマットの識別子（省略時は自動判別）
+  fileName?: string; // ファイル名（拡張子を判別のヒントに使用）
+}
+
+// --- 入力データの変換ヘルパー ---
+
+const toBytes = (input: MazeFormatInput): Uint8Array => {
+  if (typeof input === 'string') return new TextEncoder().encode(input);
+  if (input instanceof Uint8Array) return input;
+  return new Uint8Array(input);
+};
+
+const toText = (input: MazeFormatInput): string => {
+  if (typeof input === 'string') return input;
+  return new TextDecoder().decode(toBytes(input));
+};
+
+// バイト列が表示可能なASCIIテキストのみで構成されているか判定
+const isPrintableText = (input: MazeFormatInput): boolean => {
+  if (typeof input === 'string') return true;
+  const bytes = toBytes(input);
+  if (bytes.length === 0) return false;
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    const isWhitespace = byte === 0x09 || byte === 0x0a || byte === 0x0d;
+    if (!isWhitespace && (byte < 0x20 || byte > 0x7e)) {
+      return false;
+    }
+  }
+  return true;
+};
+
+// 改行コードを統一し、最初の空でない行を返す
+const firstNonEmptyLine = (text: string): string => {
+  const line = text.replace(/\r\n?/g, '\n').split('\n').find((l) => l.trim().length > 0);
+  return line ? line.trim() : '';
+};
+
+// --- 1セル1バイトのビットマスク形式 ---
+
+/** 壁ビットの割り当て（1セル1バイト形式） */
+export const WALL_BITS = {
+  north: 0x01,
+  east: 0x02,
+  south: 0x04,
+  west: 0x08,
+} as const;
+
+/** ビットマスク形式のオプション */
+export interface MazeBytesOptions {
+  // バイト列の並び順
+  // column-major: index = x * height + y（.maz形式などで一般的）
+  // row-major: index = y * width + x
+  order?: 'column-major' | 'row-major';
+  width?: number;                     // 迷路の幅（省略時はバイト列の長さから正方形とみなす）
+  start?: { x: number; y: number };   // スタート座標（バイト列には含まれないため指定可能）
+  goal?: { x: number; y: number }[];  // ゴール座標（省略時は中央付近の4セル）
+}
+
+const cellByteIndex = (
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  order: MazeBytesOptions['order']
+): number => (order === 'row-major' ? y * width + x : x * height + y);
+
+// バイト列の長さと幅の指定から迷路の幅と高さを求める（求められない場合はnull）
+const bytesDimensions = (length: number, width?: number): { width: number; height: number } | null => {
+  if (width !== undefined) {
+    const height = length / width;
+    return Number.isInteger(width) && width > 0 && Number.isInteger(height) && height > 0
+      ? { width, height }
+      : null;
+  }
+  const size = Math.round(Math.sqrt(length));
+  return size > 0 && size * size === length ? { width: size, height: size } : null;
+};
+
+/**
+ * 1セル1バイト（N/E/S/Wの壁ビット）のバイト列からMazeDataを生成する
+ * 隣接セル間で壁情報が食い違う場合は、どちらかに壁があれば壁ありとする
+ * @param bytes セルごとの壁ビットを並べたバイト列（長さはwidth*height）
+ * @param options 並び順や幅、スタート・ゴールの指定
+ * @returns MazeDataオブジェクト
+ */
+export const parseMazeBytes = (bytes: Uint8Array | ArrayBuffer, options: MazeBytesOptions = {}): MazeData => {
+  const data = toBytes(bytes);
+  const dimensions = bytesDimensions(data.length, options.width);
+  if (!dimensions) {
+    throw new Error(options.width !== undefined
+      ? `迷路のバイト列の長さが幅${options.width}で割り切れません: ${data.length}バイト`
+      : `迷路のバイト列の長さが正方形ではありません: ${data.length}バイト`);
+  }
+  const { width, height } = dimensions;
+
+  const vwall: boolean[][] = Array(height).fill(null).map(() => Array(width + 1).fill(false));
+  const hwall: boolean[][] = Array(height + 1).fill(null).map(() => Array(width).fill(false));
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = data[cellByteIndex(x, y, width, height, options.order)];
+      if (cell & WALL_BITS.north) hwall[y + 1][x] = true;
+      if (cell & WALL_BITS.south) hwall[y][x] = true;
+      if (cell & WALL_BITS.east) vwall[y][x + 1] = true;
+      if (cell & WALL_BITS.west) vwall[y][x] = true;
+    }
+  }
+
+  return {
+    size: Math.max(width, height),
+    width,
+    height,
+    walls: { vwall, hwall },
+    start: options.start ?? { x: 0, y: 0 },
+    goal: options.goal ?? getDefaultGoalCells(width, height),
+  };
+};
+
+/**
+ * MazeDataを1セル1バイト（N/E/S/Wの壁ビット）のバイト列に変換する
+ * スタート・ゴールはこの形式では保存されない
+ * @param mazeData MazeDataオブジェクト
+ * @param options 並び順の指定
+ * @returns セルごとの壁ビットを並べたバイト列
+ */
+export const serializeMazeBytes = (mazeData: MazeData, options: Pick<MazeBytesOptions, 'order'> = {}): Uint8Array => {
+  const { walls } = mazeData;
+  const { width, height } = getMazeDimensions(mazeData);
+  const bytes = new Uint8Array(width * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let cell = 0;
+      if (walls.hwall[y + 1]?.[x]) cell |= WALL_BITS.north;
+      if (walls.hwall[y]?.[x]) cell |= WALL_BITS.south;
+      if (walls.vwall[y]?.[x + 1]) cell |= WALL_BITS.east;
+      if (walls.vwall[y]?.[x]) cell |= WALL_BITS.west;
+      bytes[cellByteIndex(x, y, width, height, options.order)] = cell;
+    }
+  }
+
+  return bytes;
+};
+
+/**
+ * 1セル1バイト形式のバイト列の壁情報を検証する
+ * 隣接セル間で共有する壁の有無が食い違っている箇所を検出する
+ * @param bytes セルごとの壁ビットを並べたバイト列
+ * @param options 並び順と幅の指定
+ * @returns 診断情報の配列
+ */
+export const validateMazeBytes = (
+  bytes: Uint8Array,
+  options: Pick<MazeBytesOptions, 'order' | 'width'> = {}
+): MazeDiagnostic[] => {
+  const diagnostics: MazeDiagnostic[] = [];
+  const dimensions = bytesDimensions(bytes.length, options.width);
+  if (!dimensions) {
+    diagnostics.push({
+      code: 'non-square',
+      severity: 'error',
+      message: `迷路のバイト列の長さから幅と高さを決定できません: ${bytes.length}バイト`,
+    });
+    return diagnostics;
+  }
+  const { width, height } = dimensions;
+
+  const cellAt = (x: number, y: number) => bytes[cellByteIndex(x, y, width, height, options.order)];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = cellAt(x, y);
+      if (x + 1 < width && Boolean(cell & WALL_BITS.east) !== Boolean(cellAt(x + 1, y) & WALL_BITS.west)) {
+        diagnostics.push({
+          code: 'inconsistent-wall',
+          severity: 'error',
+          message: `セル(${x}, ${y})の東壁とセル(${x + 1}, ${y})の西壁が食い違っています`,
+          cell: { x, y },
+        });
+      }
+      if (y + 1 < height && Boolean(cell & WALL_BITS.north) !== Boolean(cellAt(x, y + 1) & WALL_BITS.south)) {
+        diagnostics.push({
+          code: 'inconsistent-wall',
+          severity: 'error',
+          message: `セル(${x}, ${y})の北壁とセル(${x}, ${y + 1})の南壁が食い違っています`,
+          cell: { x, y },
+        });
+      }
+    }
+  }
+
+  return diagnostics;
+};
+
+// --- JSON形式 ---
+
+/** JSON形式の識別子 */
+export const MAZE_JSON_FORMAT = 'mm_viz-maze';
+/** JSON形式のバージョン */
+export const MAZE_JSON_VERSION = 1;
+
+/** JSON形式で保存される迷路データ */
+export interface MazeJson extends MazeData {
+  format: typeof MAZE_JSON_FORMAT;
+  version: number;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isPositiveInteger = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+const isCell = (value: unknown): value is { x: number; y: number } =>
+  isRecord(value) && Number.isInteger(value.x) && Number.isInteger(value.y);
+
+const isWallGrid = (value: unknown, rows: number, cols: number): value is boolean[][] =>
+  Array.isArray(value) && value.length === rows &&
+  value.every((row) => Array.isArray(row) && row.length === cols && row.every((w) => typeof w === 'boolean'));
+
+/**
+ * JSON形式のテキストからMazeDataを生成する
+ * @param jsonText JSON形式の迷路データ
+ * @returns MazeDataオブジェクト
+ */
+export const parseMazeJson = (jsonText: string): MazeData => {
+  let json: unknown;
+  try {
+    json = JSON.parse(jsonText);
+  } catch (error) {
+    throw new Error(`迷路JSONの解析に失敗しました: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!isRecord(json) || json.format !== MAZE_JSON_FORMAT) {
+    throw new Error(`迷路JSONのformatが不正です: ${isRecord(json) ? json.format : undefined}`);
+  }
+  if (typeof json.version !== 'number' || json.version > MAZE_JSON_VERSION) {
+    throw new Error(`未対応の迷路JSONバージョンです: ${json.version}`);
+  }
+
+  const size = json.size;
+  const width = json.width ?? size;
+  const height = json.height ?? size;
+  if (!isPositiveInteger(size) || !isPositiveInteger(width) || !isPositiveInteger(height)) {
+    throw new Error(`迷路JSONのサイズが不正です: size=${size}, width=${width}, height=${height}`);
+  }
+  const vwall = isRecord(json.walls) ? json.walls.vwall : undefined;
+  const hwall = isRecord(json.walls) ? json.walls.hwall : undefined;
+  if (!isWallGrid(vwall, height, width + 1) || !isWallGrid(hwall, height + 1, width)) {
+    throw new Error('迷路JSONの壁情報の形状が幅・高さと一致しません');
+  }
+  const { start, goal } = json;
+  if (!isCell(start) || !Array.isArray(goal) || !goal.every(isCell)) {
+    throw new Error('迷路JSONのスタートまたはゴールが不正です');
+  }
+
+  return {
+    size,
+    ...(json.width !== undefined ? { width } : {}),
+    ...(json.height !== undefined ? { height } : {}),
+    walls: {
+      vwall: vwall.map((row) => [...row]),
+      hwall: hwall.map((row) => [...row]),
+    },
+    start: { x: start.x, y: start.y },
+    goal: goal.map((cell) => ({ x: cell.x, y: cell.y })),
+  };
+};
+
+/**
+ * MazeDataをJSON形式のテキストに変換する
+ * @param mazeData MazeDataオブジェクト
+ * @returns JSON形式の迷路データ
+ */
+export const serializeMazeJson = (mazeData: MazeData): string => {
+  const json: MazeJson = {
+    format: MAZE_JSON_FORMAT,
+    version: MAZE_JSON_VERSION,
+    size: mazeData.size,
+    ...(mazeData.width !== undefined ? { width: mazeData.width } : {}),
+    ...(mazeData.height !== undefined ? { height: mazeData.height } : {}),
+    walls: mazeData.walls,
+    start: mazeData.start,
+    goal: mazeData.goal,
+  };
+  return JSON.stringify(json);
+};
+
+// --- o---o 形式（mazetool等のコミュニティアーカイブで使われる方言） ---
+
+/**
+ * 柱を'o'で表すASCII迷路テキストからMazeDataを生成する
+ * 柱の文字以外はmazefile形式と同じなので、柱を'+'に置き換えて解析する
+ * @param mazeText 迷路テキスト
+ * @param options 解析オプション
+ * @returns MazeDataオブジェクト
+ */
+export const parseMazetoolFile = (mazeText: string, options: MazeParseOptions = {}): MazeData => {
+  const normalized = mazeText
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/o(?=---|   |$)/g, '+'))
+    .join('\n');
+  return parseMazeFile(normalized, options);
+};
+
+/**
+ * MazeDataを柱を'o'で表すASCII迷路テキストに変換する
+ * @param mazeData MazeDataオブジェクト
+ * @returns 迷路テキスト
+ */
+export const serializeMazetoolFile = (mazeData: MazeData): string =>
+  serializeMazeFile(mazeData).replace(/\+/g, 'o');
+
+// --- フォーマットレジストリ ---
+
+const mazeFormats = new Map<string, MazeFormat>();
+
+/**
+ * 迷路フォーマットをレジストリに登録する
+ * 同じidのフォーマットが既に登録されている場合は置き換える
+ * @param format 迷路フォーマットの定義
+ */
+export const registerMazeFormat = (format: MazeFormat): void => {
+  mazeFormats.set(format.id, format);
+};
+
+/**
+ * 登録済みの迷路フォーマットを取得する
+ * @param id フォーマットの識別子
+ */
+export const getMazeFormat = (id: string): MazeFormat | undefined => mazeFormats.get(id);
+
+/**
+ * 登録済みの迷路フォーマットをすべて取得する（登録順）
+ */
+export const getMazeFormats = (): MazeFormat[] => Array.from(mazeFormats.values());
+
+/**
+ * 入力データの迷路フォーマットを判別する
+ * ファイル名が指定された場合は拡張子を優先し、次に内容から判別する
+ * @param input 迷路データ
+ * @param fileName ファイル名（オプション）
+ * @returns 判別したフォーマット（判別できない場合はundefined）
+ */
+export const detectMazeFormat = (input: MazeFormatInput, fileName?: string): MazeFormat | undefined => {
+  const formats = getMazeFormats();
+
+  if (fileName) {
+    const extension = fileName.split('.').pop()?.toLowerCase();
+    const candidates = formats.filter((format) => extension && format.extensions.includes(extension));
+    // 同じ拡張子を持つフォーマットが複数ある場合は内容で絞り込む
+    const matched = candidates.find((format) => format.detect(input)) ?? (candidates.length === 1 ? candidates[0] : undefined);
+    if (matched) return matched;
+  }
+
+  return formats.find((format) => format.detect(input));
+};
+
+/**
+ * 任意の迷路フォーマットの入力からMazeDataを生成する
+ * @param input 迷路データ
+ * @param options フォーマットの指定（省略時は自動判別）
+ * @returns MazeDataオブジェクト
+ */
+export const parseMaze = (input: MazeFormatInput, options: MazeFormatOptions = {}): MazeData => {
+  const format = options.format
+    ? getMazeFormat(options.format)
+    : detectMazeFormat(input, options.fileName);
+
+  if (!format) {
+    throw new Error(options.format
+      ? `未登録の迷路フォーマットです: ${options.format}`
+      : '迷路フォーマットを判別できませんでした');
+  }
+
+  return format.parse(input);
+};
+
+/**
+ * MazeDataを指定した迷路フォーマットに変換する
+ * @param mazeData MazeDataオブジェクト
+ * @param formatId フォーマットの識別子
+ * @returns フォーマットに応じたテキストまたはバイト列
+ */
+export const serializeMaze = (mazeData: MazeData, formatId: string): string | Uint8Array => {
+  const format = getMazeFormat(formatId);
+  if (!format) {
+    throw new Error(`未登録の迷路フォーマットです: ${formatId}`);
+  }
+  return format.serialize(mazeData);
+};
+
+/**
+ * URLから任意のフォーマットの迷路データを読み込み、MazeDataオブジェクトに変換する
+ * @param url 迷路データのURL
+ * @param options フォーマットの指定（省略時はURLの拡張子と内容から自動判別）
+ * @returns MazeDataオブジェクト
+ */
+export const fetchAndParseMaze = async (url: string, options: MazeFormatOptions = {}): Promise<MazeData> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`迷路データの取得に失敗しました: ${response.status}`);
+  }
+  const buffer = await response.arrayBuffer();
+  return parseMaze(buffer, { fileName: url.split(/[?#]/)[0], ...options });
+};
+
+// --- 組み込みフォーマットの登録 ---
+
+registerMazeFormat({
+  id: 'mazefile',
+  name: 'mazefile (+---+)',
+  extensions: ['txt'],
+  binary: false,
+  detect: (input) => isPrintableText(input) && /^\+(---|   |\+|$)/.test(firstNonEmptyLine(toText(input))),
+  parse: (input) => parseMazeFile(toText(input).replace(/\r\n?/g, '\n')),
+  serialize: serializeMazeFile,
+});
+
+registerMazeFormat({
+  id: 'mazetool',
+  name: 'mazetool (o---o)',
+  extensions: ['txt', 'maze'],
+  binary: false,
+  detect: (input) => isPrintableText(input) && /^o(---|   |o|$)/.test(firstNonEmptyLine(toText(input))),
+  parse: (input) => parseMazetoolFile(toText(input)),
+  serialize: serializeMazetoolFile,
+});
+
+registerMazeFormat({
+  id: 'json',
+  name: 'JSON',
+  extensions: ['json'],
+  binary: false,
+  detect: (input) => {
+    if (!isPrintableText(input)) return false;
+    const text = toText(input).trim();
+    return text.startsWith('{') && text.includes(`"${MAZE_JSON_FORMAT}"`);
+  },
+  parse: (input) => parseMazeJson(toText(input)),
+  serialize: serializeMazeJson,
+});
+
+registerMazeFormat({
+  id: 'binary',
+  name: 'Wall bitmask bytes',
+  extensions: ['maz', 'bin'],
+  binary: true,
+  detect: (input) => {
+    if (typeof input === 'string' || isPrintableText(input)) return false;
+    const length = toBytes(input).length;
+    const size = Math.round(Math.sqrt(length));
+    return size > 0 && size * size === length;
+  },
+  parse: (input) => parseMazeBytes(toBytes(input)),
+  serialize: (mazeData) => {
+    // バイト列には幅と高さが含まれず、読み込み時は正方形とみなすため、長方形の迷路は書き出せない
+    const { width, height } = getMazeDimensions(mazeData);
+    if (width !== height) {
+      throw new Error(
+        `1セル1バイト形式は正方形の迷路のみ書き出せます: ${width}x${height}` +
+        '（長方形の迷路はserializeMazeBytesで書き出し、parseMazeBytesのwidthオプションで読み込んでください）'
+      );
+    }
+    return serializeMazeBytes(mazeData);
+  },
+});
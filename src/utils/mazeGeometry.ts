@@ -0,0 +1,21 @@
+/**
+ * 迷路の寸法や座標に関するユーティリティ
+ */
+import { MazeData } from '../types';
+
+/** 迷路の幅と高さ[マス] */
+export interface MazeDimensions {
+  width: number;
+  height: number;
+}
+
+/**
+ * 迷路の幅と高さを取得する
+ * width/heightが省略されている場合は正方形の迷路としてsizeを使用する
+ * @param mazeData MazeDataオブジェクト
+ * @returns 迷路の幅と高さ[マス]
+ */
+export const getMazeDimensions = (mazeData: Pick<MazeData, 'size' | 'width' | 'height'>): MazeDimensions => ({
+  width: mazeData.width ?? mazeData.size,
+  height: mazeData.height ?? mazeData.size,
+});
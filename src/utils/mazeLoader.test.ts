@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { MazeData } from '../types';
+import { parseMazeFile, serializeMazeFile } from './mazeLoader';
+
+/**
+ * 外周の壁と乱数で配置した内壁を持つ迷路を作成する（同じseedからは同じ迷路）
+ */
+const createRandomMaze = (width: number, height: number, seed: number): MazeData => {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+
+  const vwall = Array(height).fill(null).map(() =>
+    Array(width + 1).fill(false).map((_, x) => x === 0 || x === width || random() < 0.35)
+  );
+  const hwall = Array(height + 1).fill(null).map((_, y) =>
+    Array(width).fill(false).map(() => y === 0 || y === height || random() < 0.35)
+  );
+
+  return {
+    size: Math.max(width, height),
+    width,
+    height,
+    walls: { vwall, hwall },
+    start: { x: 0, y: 0 },
+    goal: [
+      { x: Math.floor(width / 2), y: Math.floor(height / 2) },
+      { x: Math.floor(width / 2) - 1, y: Math.floor(height / 2) },
+    ],
+  };
+};
+
+// ゴールは読み戻すとファイル上の順に並ぶため、座標順に揃えて比較する
+const sortCells = (cells: { x: number; y: number }[]) =>
+  [...cells].sort((a, b) => a.y - b.y || a.x - b.x);
+
+describe('serializeMazeFile', () => {
+  it.each([
+    ['16x16', 16, 16],
+    ['32x32', 32, 32],
+    ['長方形 8x4', 8, 4],
+    ['長方形 5x9', 5, 9],
+  ])('%sの迷路をparseMazeFileで読み戻せる', (_, width, height) => {
+    const mazeData = createRandomMaze(width, height, width * 100 + height);
+
+    const parsed = parseMazeFile(serializeMazeFile(mazeData));
+
+    expect(parsed.size).toBe(mazeData.size);
+    expect(parsed.width).toBe(width);
+    expect(parsed.height).toBe(height);
+    expect(parsed.walls).toEqual(mazeData.walls);
+    expect(parsed.start).toEqual(mazeData.start);
+    expect(sortCells(parsed.goal)).toEqual(sortCells(mazeData.goal));
+  });
+
+  it('読み戻した迷路を再び書き出すと同じテキストになる', () => {
+    const text = serializeMazeFile(createRandomMaze(16, 16, 1));
+
+    expect(serializeMazeFile(parseMazeFile(text))).toBe(text);
+  });
+});
@@ -1,7 +1,50 @@
 /**
  * マイクロマウス迷路ファイル(mazefile)をMazeData型に変換するユーティリティ
  */
-import { MazeData } from '../types';
+import { CellPosition, MazeData } from '../types';
+import { MazeDiagnostic, validateMaze, validateMazeText, hasMazeErrors } from './mazeValidator';
+import { getMazeDimensions } from './mazeGeometry';
+
+/** 迷路ファイル解析のオプション */
+export interface MazeParseOptions {
+  // trueの場合、スタート・ゴールの補完などを行わず、エラーがあれば例外を投げる
+  strict?: boolean;
+}
+
+/** 診断情報付きの迷路ファイル解析結果 */
+export interface MazeParseResult {
+  mazeData: MazeData | null; // strictモードでエラーがある場合はnull
+  diagnostics: MazeDiagnostic[];
+}
+
+/**
+ * strictモードでの迷路ファイル解析に失敗した場合の例外
+ * 検出したすべての診断情報を保持する
+ */
+export class MazeParseError extends Error {
+  readonly diagnostics: MazeDiagnostic[];
+
+  constructor(diagnostics: MazeDiagnostic[]) {
+    const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error');
+    const summary = errors
+      .map((diagnostic) => (diagnostic.line !== undefined
+        ? `${diagnostic.line}:${diagnostic.column ?? 1} ${diagnostic.message}`
+        : diagnostic.message))
+      .join('\n');
+    super(`迷路ファイルの解析に失敗しました（エラー${errors.length}件）\n${summary}`);
+    this.name = 'MazeParseError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+// テキスト構造にこれらのエラーがある場合、壁情報を正しく読み取れないため内容の検証は行わない
+const STRUCTURAL_DIAGNOSTIC_CODES = new Set<MazeDiagnostic['code']>([
+  'invalid-line-count',
+  'ragged-line',
+  'non-square',
+  'invalid-character',
+  'inconsistent-wall',
+]);
 
 /**
  * マイクロマウス迷路ファイル(mazefile)をフェッチして取得する
@@ -22,53 +65,85 @@ export const fetchMazeFile = async (url: string): Promise<string> => {
 };
 
 /**
- * マイクロマウス迷路ファイル(mazefile)のテキストからMazeDataオブジェクトを生成する
- * @param mazeText 迷路ファイルの内容
- * @returns MazeDataオブジェクト
+ * ゴール情報を持たない迷路に対して使用するデフォルトのゴールエリアを返す
+ * @param width 迷路の幅（正方形の場合はサイズ）
+ * @param height 迷路の高さ（省略時は幅と同じ）
+ * @returns 中央付近の4セル
+ */
+export const getDefaultGoalCells = (width: number, height: number = width): { x: number; y: number }[] => {
+  // 16x16の場合、中央付近の4セルをゴールに
+  const goalCenterX = Math.floor(width / 2) - (width === 32 ? 0 : 1);
+  const goalCenterY = Math.floor(height / 2) - (height === 32 ? 0 : 1);
+  return [
+    { x: goalCenterX, y: goalCenterY },
+    { x: goalCenterX + 1, y: goalCenterY },
+    { x: goalCenterX, y: goalCenterY + 1 },
+    { x: goalCenterX + 1, y: goalCenterY + 1 },
+  ];
+};
+
+/**
+ * 迷路ファイルのテキストから壁・スタート・ゴールを読み取る
+ * スタート・ゴールが見つからない場合はnull・空配列のまま返す
  */
-export const parseMazeFile = (mazeText: string): MazeData => {
+const readMazeText = (mazeText: string): {
+  size: number;
+  width: number;
+  height: number;
+  walls: MazeData['walls'];
+  start: CellPosition | null;
+  goal: CellPosition[];
+} => {
   // 改行で行に分割
-  const lines = mazeText.trim().split('\n');
+  const lines = mazeText.trim().split('\n').map((line) => line.replace(/\r$/, ''));
   
-  // 迷路のサイズを推定
-  // 奇数行（柱と水平壁の行）の数からサイズを計算
+  // 迷路の高さを推定
+  // 偶数行（柱と水平壁の行）の数から高さを計算
   // 例: 16x16の迷路は17の柱行を持つ
-  const size = (lines.filter((_, index) => index % 2 === 0).length - 1);
+  const height = (lines.filter((_, index) => index % 2 === 0).length - 1);
+
+  // 迷路の幅を推定
+  // 1行目（柱と水平壁の行）は1マスあたり4文字 + 右端の柱1文字
+  // 推定できない場合は正方形とみなす
+  const estimatedWidth = Math.floor((lines[0].trimEnd().length - 1) / 4);
+  const width = estimatedWidth > 0 ? estimatedWidth : height;
   
   // 壁情報の配列を初期化
-  const vwall: boolean[][] = Array(size).fill(null).map(() => Array(size + 1).fill(false));
-  const hwall: boolean[][] = Array(size + 1).fill(null).map(() => Array(size).fill(false));
+  const vwall: boolean[][] = Array(height).fill(null).map(() => Array(width + 1).fill(false));
+  const hwall: boolean[][] = Array(height + 1).fill(null).map(() => Array(width).fill(false));
   
   // ゴールとスタートの座標を格納する配列
   const goalCells: { x: number; y: number }[] = [];
   let startCell: { x: number; y: number } | null = null;
+
+  // 水平壁の行を解析する（wallYはグリッドラインのY座標）
+  const readHorizontalRow = (hRow: string, wallY: number) => {
+    for (let x = 0; x < width; x++) {
+      // 水平壁を検出
+      const wallStartPos = x * 4 + 1; // 各セル間の水平壁の開始位置
+      if (wallStartPos + 2 < hRow.length && hRow.substring(wallStartPos, wallStartPos + 3) === '---') {
+        hwall[wallY][x] = true;
+      }
+    }
+  };
   
   // 迷路ファイルを解析
-  for (let fileY = 0; fileY < size; fileY++) {
+  for (let fileY = 0; fileY < height; fileY++) {
     // Y座標を反転させる（ファイルは上から下に読み込むが、座標系は下から上）
-    const y = size - 1 - fileY;
+    const y = height - 1 - fileY;
     
     // 水平壁の行（偶数行 - 上から0行目、2行目などの柱と水平壁を含む行）
+    // 水平壁はセルの上側にあるため、グリッドラインのY座標はy + 1
     const hRowIndex = fileY * 2;
     if (hRowIndex < lines.length) {
-      const hRow = lines[hRowIndex];
-      for (let x = 0; x < size; x++) {
-        // 水平壁を検出
-        const wallStartPos = x * 4 + 1; // 各セル間の水平壁の開始位置
-        if (wallStartPos + 2 < hRow.length && hRow.substring(wallStartPos, wallStartPos + 3) === '---') {
-          // fileYに対応するyではなく、fileY+1に対応する水平壁を設定
-          // これは水平壁がセルの上側にあるため
-          const wallY = fileY === 0 ? 0 : size - fileY;
-          hwall[wallY][x] = true;
-        }
-      }
+      readHorizontalRow(lines[hRowIndex], y + 1);
     }
     
     // 垂直壁の行（奇数行 - 上から1行目、3行目などの垂直壁とセル内容を含む行）
     const vRowIndex = fileY * 2 + 1;
     if (vRowIndex < lines.length) {
       const vRow = lines[vRowIndex];
-      for (let x = 0; x < size + 1; x++) {
+      for (let x = 0; x < width + 1; x++) {
         // 垂直壁を検出
         const wallPos = x * 4;
         if (wallPos < vRow.length && vRow[wallPos] === '|') {
@@ -77,7 +152,7 @@ export const parseMazeFile = (mazeText: string): MazeData => {
       }
       
       // セル内容（ゴールとスタート）を検出
-      for (let x = 0; x < size; x++) {
+      for (let x = 0; x < width; x++) {
         const cellContentPos = x * 4 + 2; // セル内容の中央位置
         if (cellContentPos < vRow.length) {
           if (vRow[cellContentPos] === 'G') {
@@ -91,60 +166,177 @@ export const parseMazeFile = (mazeText: string): MazeData => {
   }
   
   // 最下行の水平壁を設定（最後の行）
-  if (lines.length > 0) {
-    const lastHRowIndex = size * 2;
-    if (lastHRowIndex < lines.length) {
-      const lastHRow = lines[lastHRowIndex];
-      for (let x = 0; x < size; x++) {
-        const wallStartPos = x * 4 + 1;
-        if (wallStartPos + 2 < lastHRow.length && lastHRow.substring(wallStartPos, wallStartPos + 3) === '---') {
-          hwall[size][x] = true;
-        }
-      }
-    }
+  const lastHRowIndex = height * 2;
+  if (lastHRowIndex < lines.length) {
+    readHorizontalRow(lines[lastHRowIndex], 0);
   }
   
   // 外壁を設定（すべての迷路は閉じられた領域なので外周には壁がある）
-  for (let y = 0; y < size; y++) {
+  for (let y = 0; y < height; y++) {
     vwall[y][0] = true; // 左端
-    vwall[y][size] = true; // 右端
-  }
-  for (let x = 0; x < size; x++) {
-    hwall[0][x] = true; // 上端
-    hwall[size][x] = true; // 下端
+    vwall[y][width] = true; // 右端
   }
-  
-  // スタートが見つからない場合、デフォルトで左下(0,0)に設定
-  if (!startCell) {
-    startCell = { x: 0, y: 0 };
-  }
-  
-  // ゴールが見つからない場合、迷路サイズに応じてデフォルトのゴールエリアを設定
-  if (goalCells.length === 0) {
-    // 16x16の場合、中央付近の4セルをゴールに
-    const goalCenter = Math.floor(size / 2) - (size === 32 ? 0 : 1);
-    goalCells.push(
-      { x: goalCenter, y: goalCenter },
-      { x: goalCenter + 1, y: goalCenter },
-      { x: goalCenter, y: goalCenter + 1 },
-      { x: goalCenter + 1, y: goalCenter + 1 }
-    );
+  for (let x = 0; x < width; x++) {
+    hwall[0][x] = true; // 下端
+    hwall[height][x] = true; // 上端
   }
   
   return {
-    size,
+    size: Math.max(width, height),
+    width,
+    height,
     walls: { vwall, hwall },
     start: startCell,
     goal: goalCells
   };
 };
 
+/**
+ * マイクロマウス迷路ファイル(mazefile)のテキストを解析し、診断情報とともに返す
+ * strictモードでない場合は、スタート・ゴールが見つからなくてもデフォルト値で補完し、
+ * その旨を警告として診断情報に含める
+ * @param mazeText 迷路ファイルの内容
+ * @param options 解析オプション
+ * @returns MazeDataオブジェクトと診断情報
+ */
+export const parseMazeFileWithDiagnostics = (
+  mazeText: string,
+  options: MazeParseOptions = {}
+): MazeParseResult => {
+  const { strict = false } = options;
+  const diagnostics = validateMazeText(mazeText).map((diagnostic) => {
+    // strictモードでない場合、スタート・ゴールの欠落は補完して警告扱いにする
+    if (!strict && (diagnostic.code === 'missing-start' || diagnostic.code === 'missing-goal')) {
+      return {
+        ...diagnostic,
+        severity: 'warning' as const,
+        message: `${diagnostic.message}（デフォルト値を使用します）`,
+      };
+    }
+    return diagnostic;
+  });
+
+  const { size, width, height, walls, start, goal } = readMazeText(mazeText);
+  const mazeData: MazeData = {
+    size,
+    width,
+    height,
+    walls,
+    start: start ?? { x: 0, y: 0 },
+    goal: goal.length > 0 ? goal : getDefaultGoalCells(width, height),
+  };
+
+  // テキスト構造に問題がなければ、迷路の内容を検証する
+  const hasStructuralErrors = diagnostics.some(
+    (diagnostic) => diagnostic.severity === 'error' && STRUCTURAL_DIAGNOSTIC_CODES.has(diagnostic.code)
+  );
+  if (!hasStructuralErrors && size > 0) {
+    // validateMazeの行番号は迷路の1行目を基準とするため、先頭の空行分ずらす
+    const leadingLineCount = (mazeText.match(/^\s*/)?.[0].match(/\n/g) ?? []).length;
+    diagnostics.push(...validateMaze(mazeData).map((diagnostic) => (
+      diagnostic.line !== undefined
+        ? { ...diagnostic, line: diagnostic.line + leadingLineCount }
+        : diagnostic
+    )));
+  }
+
+  return {
+    mazeData: strict && hasMazeErrors(diagnostics) ? null : mazeData,
+    diagnostics,
+  };
+};
+
+/**
+ * マイクロマウス迷路ファイル(mazefile)のテキストからMazeDataオブジェクトを生成する
+ * strictモードでは検証エラーがある場合にMazeParseErrorを投げる
+ * @param mazeText 迷路ファイルの内容
+ * @param options 解析オプション
+ * @returns MazeDataオブジェクト
+ */
+export const parseMazeFile = (mazeText: string, options: MazeParseOptions = {}): MazeData => {
+  if (options.strict) {
+    const { mazeData, diagnostics } = parseMazeFileWithDiagnostics(mazeText, options);
+    if (!mazeData) {
+      throw new MazeParseError(diagnostics);
+    }
+    return mazeData;
+  }
+
+  const { size, width, height, walls, start, goal } = readMazeText(mazeText);
+  return {
+    size,
+    width,
+    height,
+    walls,
+    // スタートが見つからない場合、デフォルトで左下(0,0)に設定
+    start: start ?? { x: 0, y: 0 },
+    // ゴールが見つからない場合、迷路サイズに応じてデフォルトのゴールエリアを設定
+    goal: goal.length > 0 ? goal : getDefaultGoalCells(width, height),
+  };
+};
+
+/**
+ * MazeDataオブジェクトをマイクロマウス迷路ファイル(mazefile)のテキストに変換する
+ * parseMazeFileと対になる関数で、出力はparseMazeFileでそのまま読み戻せる
+ * 
+ * 注意: ゴールはファイルの上から下、左から右の順で読み戻されるため、
+ * goal配列の順序はその順に並び替えられる
+ * @param mazeData MazeDataオブジェクト
+ * @returns 迷路ファイルの内容を表すテキスト
+ */
+export const serializeMazeFile = (mazeData: MazeData): string => {
+  const { walls, start, goal } = mazeData;
+  const { width, height } = getMazeDimensions(mazeData);
+  const lines: string[] = [];
+
+  // セル内容の判定用にゴール座標をキー化
+  const goalKeys = new Set(goal.map((cell) => `${cell.x},${cell.y}`));
+  const cellContent = (x: number, y: number): string => {
+    if (start.x === x && start.y === y) return 'S';
+    if (goalKeys.has(`${x},${y}`)) return 'G';
+    return ' ';
+  };
+
+  // 柱と水平壁の行を生成（hwall[wallY]はY座標wallYのグリッドライン上の壁）
+  const buildHorizontalRow = (wallY: number): string => {
+    let row = '';
+    for (let x = 0; x < width; x++) {
+      row += '+' + (walls.hwall[wallY]?.[x] ? '---' : '   ');
+    }
+    return row + '+';
+  };
+
+  // ファイルは上から下に書き出すため、Y座標を反転させる
+  for (let fileY = 0; fileY < height; fileY++) {
+    const y = height - 1 - fileY;
+
+    // セルの上側の水平壁
+    lines.push(buildHorizontalRow(y + 1));
+
+    // 垂直壁とセル内容
+    let vRow = '';
+    for (let x = 0; x < width + 1; x++) {
+      vRow += walls.vwall[y]?.[x] ? '|' : ' ';
+      if (x < width) {
+        vRow += ` ${cellContent(x, y)} `;
+      }
+    }
+    lines.push(vRow);
+  }
+
+  // 最下行の水平壁
+  lines.push(buildHorizontalRow(0));
+
+  return lines.join('\n') + '\n';
+};
+
 /**
  * URLからマイクロマウス迷路ファイル(mazefile)を読み込み、MazeDataオブジェクトに変換する
  * @param url 迷路ファイルのURL
+ * @param options 解析オプション
  * @returns MazeDataオブジェクト
  */
-export const loadMazeFromUrl = async (url: string): Promise<MazeData> => {
+export const loadMazeFromUrl = async (url: string, options: MazeParseOptions = {}): Promise<MazeData> => {
   const mazeText = await fetchMazeFile(url);
-  return parseMazeFile(mazeText);
+  return parseMazeFile(mazeText, options);
 };
\ No newline at end of file
@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import { CELL_SIZE, WALL_HEIGHT, WALL_THICKNESS } from '../config/constants';
+import { createEmptyMaze, setMazeWall } from './mazeEditor';
+import { getCellAtPosition, MazePickResult, PickRay, pickMaze, resolveMazeFloorPoint } from './mazePicking';
+
+// 3x3の空の迷路（外周とスタートの東の壁vwall[0][1]のみ）
+const mazeData = createEmptyMaze(3);
+
+// 真上から見下ろすレイ（直交投影のカメラのレイ）
+const verticalRay = (x: number, y: number): PickRay => ({
+  origin: { x, y, z: 1 },
+  direction: { x: 0, y: 0, z: -1 },
+});
+
+// 浮動小数点の誤差を丸める
+const round = (value: number): number => Math.round(value * 1e9) / 1e9;
+
+// 交差した点を比較しやすいように誤差を丸めたピッキング結果を返す
+const roundPoint = (pick: MazePickResult | null) => pick && { ...pick, point: pick.point.map(round) };
+
+describe('getCellAtPosition', () => {
+  it('座標を含む区画を返し、迷路の外ではnullを返す', () => {
+    expect(getCellAtPosition(CELL_SIZE * 1.5, CELL_SIZE * 2.5, { width: 3, height: 3 })).toEqual({ x: 1, y: 2 });
+    expect(getCellAtPosition(-0.001, CELL_SIZE, { width: 3, height: 3 })).toBeNull();
+    expect(getCellAtPosition(CELL_SIZE * 3, CELL_SIZE, { width: 3, height: 3 })).toBeNull();
+  });
+});
+
+describe('resolveMazeFloorPoint', () => {
+  it('格子点のまわりは柱', () => {
+    expect(resolveMazeFloorPoint(CELL_SIZE + 0.005, CELL_SIZE * 2 - 0.005, mazeData)).toEqual({
+      type: 'pillar',
+      pillar: { x: 1, y: 2 },
+      point: [CELL_SIZE + 0.005, CELL_SIZE * 2 - 0.005, 0],
+    });
+  });
+
+  it('境界線のまわりは壁（壁がない位置も含む）', () => {
+    // スタートの東の壁
+    expect(resolveMazeFloorPoint(CELL_SIZE, CELL_SIZE * 0.5, mazeData)).toMatchObject({
+      type: 'wall',
+      wall: { kind: 'vwall', x: 1, y: 0 },
+      exists: true,
+    });
+    // 壁のない水平向きの境界線
+    expect(resolveMazeFloorPoint(CELL_SIZE * 2.5, CELL_SIZE + 0.005, mazeData)).toMatchObject({
+      type: 'wall',
+      wall: { kind: 'hwall', x: 2, y: 1 },
+      exists: false,
+    });
+  });
+
+  it('壁の判定幅を広げると区画の内側も壁になる', () => {
+    const x = CELL_SIZE * 2 - 0.01;
+
+    expect(resolveMazeFloorPoint(x, CELL_SIZE * 1.5, mazeData)?.type).toBe('cell');
+    expect(resolveMazeFloorPoint(x, CELL_SIZE * 1.5, mazeData, 0.03)).toMatchObject({
+      type: 'wall',
+      wall: { kind: 'vwall', x: 2, y: 1 },
+    });
+  });
+
+  it('区画の内側は区画、迷路の外はnull', () => {
+    expect(resolveMazeFloorPoint(CELL_SIZE * 1.5, CELL_SIZE * 2.5, mazeData)).toEqual({
+      type: 'cell',
+      cell: { x: 1, y: 2 },
+      point: [CELL_SIZE * 1.5, CELL_SIZE * 2.5, 0],
+    });
+    expect(resolveMazeFloorPoint(-0.03, CELL_SIZE * 1.5, mazeData)).toBeNull();
+    expect(resolveMazeFloorPoint(CELL_SIZE * 1.5, CELL_SIZE * 3 + 0.03, mazeData)).toBeNull();
+  });
+});
+
+describe('pickMaze', () => {
+  it('真上からのレイで柱の上面を指す', () => {
+    expect(roundPoint(pickMaze(verticalRay(CELL_SIZE, CELL_SIZE), mazeData))).toEqual({
+      type: 'pillar',
+      pillar: { x: 1, y: 1 },
+      point: [CELL_SIZE, CELL_SIZE, WALL_HEIGHT],
+    });
+  });
+
+  it('真上からのレイで存在する壁の上面を指す', () => {
+    expect(roundPoint(pickMaze(verticalRay(CELL_SIZE, CELL_SIZE * 0.5), mazeData))).toEqual({
+      type: 'wall',
+      wall: { kind: 'vwall', x: 1, y: 0 },
+      exists: true,
+      point: [CELL_SIZE, CELL_SIZE * 0.5, WALL_HEIGHT],
+    });
+  });
+
+  it('真上からのレイで壁のない位置を指すと床の点から壁を判定する', () => {
+    expect(pickMaze(verticalRay(CELL_SIZE, CELL_SIZE * 1.5), mazeData)).toEqual({
+      type: 'wall',
+      wall: { kind: 'vwall', x: 1, y: 1 },
+      exists: false,
+      point: [CELL_SIZE, CELL_SIZE * 1.5, 0],
+    });
+  });
+
+  it('真上からのレイで区画の床を指す', () => {
+    expect(pickMaze(verticalRay(CELL_SIZE * 1.5, CELL_SIZE * 1.5), mazeData)).toEqual({
+      type: 'cell',
+      cell: { x: 1, y: 1 },
+      point: [CELL_SIZE * 1.5, CELL_SIZE * 1.5, 0],
+    });
+  });
+
+  it('迷路の外を指すレイと床に向かわないレイはnull', () => {
+    expect(pickMaze(verticalRay(-0.05, CELL_SIZE * 1.5), mazeData)).toBeNull();
+    expect(pickMaze({ origin: { x: 0.1, y: 0.1, z: 1 }, direction: { x: 0, y: 0, z: 1 } }, mazeData)).toBeNull();
+  });
+
+  it('斜めのレイは床より手前で交差する壁の側面を指す', () => {
+    // 区画(1, 1)の上から西へ斜めに下り、区画(0, 1)の床に届くレイ
+    const ray: PickRay = {
+      origin: { x: CELL_SIZE * 1.5, y: CELL_SIZE * 1.5, z: 0.03 },
+      direction: { x: -1, y: 0, z: -0.4 },
+    };
+    const walled = setMazeWall(mazeData, { kind: 'vwall', x: 1, y: 1 }, true);
+
+    expect(pickMaze(ray, mazeData)).toMatchObject({ type: 'cell', cell: { x: 0, y: 1 } });
+
+    // 壁の東側の側面（x = CELL_SIZE + 壁の厚み / 2）で交差する
+    const t = CELL_SIZE * 1.5 - (CELL_SIZE + WALL_THICKNESS / 2);
+    expect(roundPoint(pickMaze(ray, walled))).toEqual({
+      type: 'wall',
+      wall: { kind: 'vwall', x: 1, y: 1 },
+      exists: true,
+      point: [CELL_SIZE + WALL_THICKNESS / 2, CELL_SIZE * 1.5, 0.03 - 0.4 * t].map(round),
+    });
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * 迷路のピッキング（クリック・ホバー位置の判定）ユーティリティ
+ * ポインタのレイと迷路の壁・柱・床との交差を解析的に計算し、指している区画・壁・柱を求める
+ * （THREE.Rayをそのまま渡せるが、three.jsには依存しない）
+ */
+import { CellPosition, MazeData } from '../types';
+import { CELL_SIZE, PILLAR_SIZE, WALL_HEIGHT, WALL_THICKNESS } from '../config/constants';
+import { getMazeDimensions, MazeDimensions } from './mazeGeometry';
+import { WallIndex } from './wallKnowledge';
+
+/** 3次元ベクトル（THREE.Vector3と互換） */
+export interface PickVector {
+  x: number;
+  y: number;
+  z: number;
+}
+
+/** ピッキングに使用するレイ（THREE.Rayと互換） */
+export interface PickRay {
+  origin: PickVector;
+  direction: PickVector;
+}
+
+/** 区画を指している場合のピッキング結果 */
+export interface MazeCellPick {
+  type: 'cell';
+  cell: CellPosition;                 // 区画の座標[マス]
+  point: [number, number, number];    // 交差した点[m]
+}
+
+/** 壁（または壁を置ける位置）を指している場合のピッキング結果 */
+export interface MazeWallPick {
+  type: 'wall';
+  wall: WallIndex;                    // 壁配列上の位置（vwall: 垂直向きの壁, hwall: 水平向きの壁）
+  exists: boolean;                    // 壁が存在するかどうか
+  point: [number, number, number];    // 交差した点[m]
+}
+
+/** 柱を指している場合のピッキング結果 */
+export interface MazePillarPick {
+  type: 'pillar';
+  pillar: { x: number; y: number };   // 柱の座標（格子点の番号, 0〜width/0〜height）
+  point: [number, number, number];    // 交差した点[m]
+}
+
+export type MazePickResult = MazeCellPick | MazeWallPick | MazePillarPick;
+
+/**
+ * 指定位置を含む区画を求める
+ * @param x X座標[m]
+ * @param y Y座標[m]
+ * @param dimensions 迷路の幅と高さ[マス]
+ * @returns 区画の座標（迷路の外の場合はnull）
+ */
+export const getCellAtPosition = (x: number, y: number, dimensions: MazeDimensions): CellPosition | null => {
+  const cellX = Math.floor(x / CELL_SIZE);
+  const cellY = Math.floor(y / CELL_SIZE);
+  if (cellX < 0 || cellX >= dimensions.width || cellY < 0 || cellY >= dimensions.height) {
+    return null;
+  }
+  return { x: cellX, y: cellY };
+};
+
+/**
+ * 床の上の点が区画・壁・柱のどれを指しているかを判定する
+ * 格子点から柱の大きさの範囲は柱、区画の境界線から壁の判定幅の範囲は壁（壁がない位置も含む）、それ以外は区画とする
+ * @param x X座標[m]
+ * @param y Y座標[m]
+ * @param mazeData 迷路データ
+ * @param wallPickWidth 壁と判定する境界線まわりの幅[m]
+ * @returns ピッキング結果（迷路の外の場合はnull）
+ */
+export const resolveMazeFloorPoint = (
+  x: number,
+  y: number,
+  mazeData: MazeData,
+  wallPickWidth: number = WALL_THICKNESS
+): MazePickResult | null => {
+  const { width, height } = getMazeDimensions(mazeData);
+  const point: [number, number, number] = [x, y, 0];
+
+  // 最も近い格子線とその距離
+  const lineX = Math.round(x / CELL_SIZE);
+  const lineY = Math.round(y / CELL_SIZE);
+  const distanceX = Math.abs(x - lineX * CELL_SIZE);
+  const distanceY = Math.abs(y - lineY * CELL_SIZE);
+  const onLineX = lineX >= 0 && lineX <= width;
+  const onLineY = lineY >= 0 && lineY <= height;
+
+  // 柱
+  if (onLineX && onLineY && distanceX <= PILLAR_SIZE / 2 && distanceY <= PILLAR_SIZE / 2) {
+    return { type: 'pillar', pillar: { x: lineX, y: lineY }, point };
+  }
+
+  const cellX = Math.floor(x / CELL_SIZE);
+  const cellY = Math.floor(y / CELL_SIZE);
+  const inRangeX = cellX >= 0 && cellX < width;
+  const inRangeY = cellY >= 0 && cellY < height;
+
+  // 垂直向きの壁 (vwall[y][x] はマス(x,y)の左の壁)
+  if (onLineX && inRangeY && distanceX <= wallPickWidth / 2) {
+    return {
+      type: 'wall',
+      wall: { kind: 'vwall', x: lineX, y: cellY },
+      exists: Boolean(mazeData.walls.vwall[cellY]?.[lineX]),
+      point,
+    };
+  }
+
+  // 水平向きの壁 (hwall[y][x] はマス(x,y)の下の壁)
+  if (onLineY && inRangeX && distanceY <= wallPickWidth / 2) {
+    return {
+      type: 'wall',
+      wall: { kind: 'hwall', x: cellX, y: lineY },
+      exists: Boolean(mazeData.walls.hwall[lineY]?.[cellX]),
+      point,
+    };
+  }
+
+  if (inRangeX && inRangeY) {
+    return { type: 'cell', cell: { x: cellX, y: cellY }, point };
+  }
+  return null;
+};
+
+/**
+ * レイと軸に平行な直方体との交差を計算する（スラブ法）
+ * @returns 交差するレイのパラメータ（交差しない場合はnull）
+ */
+const intersectBox = (
+  ray: PickRay,
+  min: [number, number, number],
+  max: [number, number, number]
+): number | null => {
+  const origin = [ray.origin.x, ray.origin.y, ray.origin.z];
+  const direction = [ray.direction.x, ray.direction.y, ray.direction.z];
+  let tMin = 0;
+  let tMax = Infinity;
+  for (let axis = 0; axis < 3; axis++) {
+    if (direction[axis] === 0) {
+      if (origin[axis] < min[axis] || origin[axis] > max[axis]) {
+        return null;
+      }
+      continue;
+    }
+    const t1 = (min[axis] - origin[axis]) / direction[axis];
+    const t2 = (max[axis] - origin[axis]) / direction[axis];
+    tMin = Math.max(tMin, Math.min(t1, t2));
+    tMax = Math.min(tMax, Math.max(t1, t2));
+    if (tMin > tMax) {
+      return null;
+    }
+  }
+  return tMin;
+};
+
+const pointOnRay = (ray: PickRay, t: number): [number, number, number] => [
+  ray.origin.x + ray.direction.x * t,
+  ray.origin.y + ray.direction.y * t,
+  ray.origin.z + ray.direction.z * t,
+];
+
+/**
+ * レイが指している迷路の区画・壁・柱を求める
+ * 存在する壁と柱は高さを持つ直方体として交差を計算し、それより手前で床（z=0）と交差する場合は床の点から判定する
+ * 透視投影・直交投影のどちらのカメラのレイにも使用できる
+ * @param ray ポインタのレイ（ワールド座標）
+ * @param mazeData 迷路データ
+ * @param wallPickWidth 床の上で壁と判定する境界線まわりの幅[m]
+ * @returns ピッキング結果（迷路を指していない場合はnull）
+ */
+export const pickMaze = (
+  ray: PickRay,
+  mazeData: MazeData,
+  wallPickWidth: number = WALL_THICKNESS
+): MazePickResult | null => {
+  const { width, height } = getMazeDimensions(mazeData);
+  const { vwall, hwall } = mazeData.walls;
+  const halfPillar = PILLAR_SIZE / 2;
+  const halfWall = WALL_THICKNESS / 2;
+
+  let nearest: MazePickResult | null = null;
+  let nearestT = Infinity;
+
+  // 柱（すべての格子点に配置される）
+  for (let y = 0; y <= height; y++) {
+    for (let x = 0; x <= width; x++) {
+      const t = intersectBox(
+        ray,
+        [x * CELL_SIZE - halfPillar, y * CELL_SIZE - halfPillar, 0],
+        [x * CELL_SIZE + halfPillar, y * CELL_SIZE + halfPillar, WALL_HEIGHT]
+      );
+      if (t !== null && t < nearestT) {
+        nearestT = t;
+        nearest = { type: 'pillar', pillar: { x, y }, point: pointOnRay(ray, t) };
+      }
+    }
+  }
+
+  // 垂直向きの壁（柱の間に配置される）
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x <= width; x++) {
+      if (!vwall[y]?.[x]) continue;
+      const t = intersectBox(
+        ray,
+        [x * CELL_SIZE - halfWall, y * CELL_SIZE + halfPillar, 0],
+        [x * CELL_SIZE + halfWall, (y + 1) * CELL_SIZE - halfPillar, WALL_HEIGHT]
+      );
+      if (t !== null && t < nearestT) {
+        nearestT = t;
+        nearest = { type: 'wall', wall: { kind: 'vwall', x, y }, exists: true, point: pointOnRay(ray, t) };
+      }
+    }
+  }
+
+  // 水平向きの壁
+  for (let y = 0; y <= height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!hwall[y]?.[x]) continue;
+      const t = intersectBox(
+        ray,
+        [x * CELL_SIZE + halfPillar, y * CELL_SIZE - halfWall, 0],
+        [(x + 1) * CELL_SIZE - halfPillar, y * CELL_SIZE + halfWall, WALL_HEIGHT]
+      );
+      if (t !== null && t < nearestT) {
+        nearestT = t;
+        nearest = { type: 'wall', wall: { kind: 'hwall', x, y }, exists: true, point: pointOnRay(ray, t) };
+      }
+    }
+  }
+
+  // 床（z=0の平面）
+  if (ray.direction.z !== 0) {
+    const t = -ray.origin.z / ray.direction.z;
+    if (t >= 0 && t < nearestT) {
+      const [x, y] = pointOnRay(ray, t);
+      return resolveMazeFloorPoint(x, y, mazeData, wallPickWidth);
+    }
+  }
+  return nearest;
+};
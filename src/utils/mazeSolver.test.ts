@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import { CellPosition, MazeData } from '../types';
+import { parseMazeFile } from './mazeLoader';
+import {
+  computeDistanceMap,
+  computeDistanceMapBounds,
+  findShortestPath,
+  hasWall,
+  KnownWalls,
+  UNREACHABLE_DISTANCE,
+} from './mazeSolver';
+
+// 4x4の迷路（スタート(0,0)からゴール(0,3)まで、左下の壁を迂回して9歩）
+const MAZE_4X4 = `
++---+---+---+---+
+| G |           |
++   +---+---+   +
+|   |       |   |
++   +   +   +   +
+|       |   |   |
++---+---+   +   +
+| S             |
++---+---+---+---+
+`;
+
+/**
+ * 16x16の蛇行迷路を作成する
+ * 各行は東西に通り抜けられ、行の間は偶数行では東端、奇数行では西端のみが開いている
+ * スタート(0,0)から中央のゴールまでは、7行を往復（7 x 15歩）して行を7回上り（7歩）、
+ * 8行目を東端から(8,7)まで進む（7歩）ため119歩
+ */
+const createSerpentineMaze = (): MazeData => {
+  const size = 16;
+  const vwall = Array(size).fill(null).map(() =>
+    Array(size + 1).fill(false).map((_, x) => x === 0 || x === size)
+  );
+  const hwall = Array(size + 1).fill(null).map((_, y) =>
+    Array(size).fill(false).map((_, x) => {
+      if (y === 0 || y === size) return true;
+      // hwall[y]は行y-1と行yの間の壁
+      const gapX = (y - 1) % 2 === 0 ? size - 1 : 0;
+      return x !== gapX;
+    })
+  );
+  return {
+    size,
+    walls: { vwall, hwall },
+    start: { x: 0, y: 0 },
+    goal: [{ x: 7, y: 7 }, { x: 8, y: 7 }, { x: 7, y: 8 }, { x: 8, y: 8 }],
+  };
+};
+
+// 経路の各ステップが隣接セルへの移動で、壁を通過していないことを確認する
+const expectValidPath = (mazeData: MazeData, path: CellPosition[]) => {
+  for (let i = 1; i < path.length; i++) {
+    const dx = path[i].x - path[i - 1].x;
+    const dy = path[i].y - path[i - 1].y;
+    expect(Math.abs(dx) + Math.abs(dy)).toBe(1);
+    const direction = dx === 1 ? 'east' : dx === -1 ? 'west' : dy === 1 ? 'north' : 'south';
+    expect(hasWall(mazeData, path[i - 1], direction)).toBe(false);
+  }
+};
+
+describe('computeDistanceMap', () => {
+  it('ゴールからの歩数を計算する', () => {
+    const mazeData = parseMazeFile(MAZE_4X4);
+    const distances = computeDistanceMap(mazeData);
+
+    expect(distances[3][0]).toBe(0);
+    expect(distances[0][0]).toBe(9);
+    expect(distances[2][2]).toBe(5);
+    // 右上は東端を南へ下りてから(2,0)で北へ折り返す
+    expect(distances[3][3]).toBe(11);
+  });
+
+  it('到達できないセルはUNREACHABLE_DISTANCEになる', () => {
+    const mazeData = parseMazeFile(MAZE_4X4);
+    // ゴールの南側を塞ぐとどこからも到達できない
+    mazeData.walls.hwall[3][0] = true;
+
+    const distances = computeDistanceMap(mazeData);
+
+    expect(distances[0][0]).toBe(UNREACHABLE_DISTANCE);
+  });
+});
+
+describe('findShortestPath', () => {
+  it('4x4の迷路の最短経路を求める', () => {
+    const mazeData = parseMazeFile(MAZE_4X4);
+    const path = findShortestPath(mazeData);
+
+    expect(path).toHaveLength(10);
+    expect(path[0]).toEqual({ x: 0, y: 0 });
+    expect(path[path.length - 1]).toEqual({ x: 0, y: 3 });
+    expectValidPath(mazeData, path);
+  });
+
+  it('16x16の蛇行迷路の最短経路を求める', () => {
+    const mazeData = createSerpentineMaze();
+    const path = findShortestPath(mazeData);
+
+    expect(path).toHaveLength(120);
+    expect(path[path.length - 1]).toEqual({ x: 8, y: 7 });
+    expectValidPath(mazeData, path);
+  });
+
+  it('到達できない場合は空配列を返す', () => {
+    const mazeData = parseMazeFile(MAZE_4X4);
+    mazeData.walls.hwall[3][0] = true;
+
+    expect(findShortestPath(mazeData)).toEqual([]);
+  });
+});
+
+describe('computeDistanceMapBounds', () => {
+  // 2か所の壁（(0,0)の北と(0,3)の東、どちらも実際には存在する）だけが未確認の既知状態
+  const createPartialKnownWalls = (mazeData: MazeData): KnownWalls => {
+    const knownWalls: KnownWalls = {
+      vwall: mazeData.walls.vwall.map((row) => row.map(() => true)),
+      hwall: mazeData.walls.hwall.map((row) => row.map(() => true)),
+    };
+    knownWalls.hwall[1][0] = false;
+    knownWalls.vwall[3][1] = false;
+    return knownWalls;
+  };
+
+  it('未確認の壁を楽観的には壁なし、悲観的には壁ありとして扱う', () => {
+    const mazeData = parseMazeFile(MAZE_4X4);
+    const { optimistic, pessimistic } = computeDistanceMapBounds(mazeData, createPartialKnownWalls(mazeData));
+
+    // 楽観的には(0,0)から真北へ3歩、悲観的には実際の壁と同じく9歩
+    expect(optimistic[0][0]).toBe(3);
+    expect(pessimistic[0][0]).toBe(9);
+    // 未確認の壁に関係しないセルでは一致する
+    expect(optimistic[2][2]).toBe(5);
+    expect(pessimistic[2][2]).toBe(5);
+
+    optimistic.forEach((row, y) => row.forEach((distance, x) => {
+      expect(distance).toBeLessThanOrEqual(pessimistic[y][x]);
+    }));
+  });
+
+  it('すべての壁が未確認の場合、楽観的にはマンハッタン距離、悲観的には到達不能になる', () => {
+    const mazeData = parseMazeFile(MAZE_4X4);
+    const knownWalls: KnownWalls = {
+      vwall: mazeData.walls.vwall.map((row) => row.map(() => false)),
+      hwall: mazeData.walls.hwall.map((row) => row.map(() => false)),
+    };
+
+    const { optimistic, pessimistic } = computeDistanceMapBounds(mazeData, knownWalls);
+
+    expect(optimistic[0][0]).toBe(3);
+    expect(optimistic[0][3]).toBe(6);
+    expect(pessimistic[0][0]).toBe(UNREACHABLE_DISTANCE);
+    expect(pessimistic[3][0]).toBe(0);
+  });
+});
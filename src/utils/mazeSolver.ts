@@ -0,0 +1,226 @@
+/**
+ * 迷路の探索・最短経路計算ユーティリティ
+ * MazeData.wallsに対する足立法などと同じ歩数ベースの等高線（フラッドフィル）を計算する
+ */
+import { CellPosition, MazeData, WallDirection } from '../types';
+import { getMazeDimensions } from './mazeGeometry';
+
+/** 到達できないセルの歩数 */
+export const UNREACHABLE_DISTANCE = Infinity;
+
+/** セルから見た方角 */
+export type CellDirection = WallDirection;
+
+/** 各方角への移動量 */
+export const DIRECTION_OFFSETS: Record<CellDirection, CellPosition> = {
+  north: { x: 0, y: 1 },
+  east: { x: 1, y: 0 },
+  south: { x: 0, y: -1 },
+  west: { x: -1, y: 0 },
+};
+
+/**
+ * 既知の壁情報
+ * true の壁は実際に確認済み（有無が確定している）、false の壁は未知として扱う
+ * 形状はMazeData.wallsと同じ
+ */
+export interface KnownWalls {
+  vwall: boolean[][];
+  hwall: boolean[][];
+}
+
+/**
+ * 未知の壁の扱い
+ * - optimistic: 未知の壁は存在しないものとする（探索走行で使う楽観的な歩数）
+ * - pessimistic: 未知の壁は存在するものとする（確定した経路のみを使う歩数）
+ */
+export type UnknownWallPolicy = 'optimistic' | 'pessimistic';
+
+/** 歩数マップ計算のオプション */
+export interface DistanceMapOptions {
+  knownWalls?: KnownWalls;           // 既知の壁（省略時はすべて既知）
+  unknownWallPolicy?: UnknownWallPolicy; // 未知の壁の扱い（デフォルト: optimistic）
+}
+
+/**
+ * 歩数マップ
+ * distances[y][x] がセル(x, y)からゴールまでの歩数（到達できない場合はInfinity）
+ */
+export type DistanceMap = number[][];
+
+/**
+ * セル(x, y)から指定方角への壁があるかを判定する
+ * 迷路の外へ向かう方角は常に壁ありとする
+ * @param mazeData MazeDataオブジェクト
+ * @param cell セル座標
+ * @param direction 方角
+ * @param options 未知の壁の扱い
+ * @returns 壁がある（通過できない）場合true
+ */
+export const hasWall = (
+  mazeData: MazeData,
+  cell: CellPosition,
+  direction: CellDirection,
+  options: DistanceMapOptions = {}
+): boolean => {
+  const { width, height } = getMazeDimensions(mazeData);
+  const { x, y } = cell;
+  const { vwall, hwall } = mazeData.walls;
+
+  let present: boolean | undefined;
+  let known: boolean | undefined;
+  switch (direction) {
+    case 'north':
+      present = hwall[y + 1]?.[x];
+      known = options.knownWalls?.hwall[y + 1]?.[x];
+      break;
+    case 'south':
+      present = hwall[y]?.[x];
+      known = options.knownWalls?.hwall[y]?.[x];
+      break;
+    case 'east':
+      present = vwall[y]?.[x + 1];
+      known = options.knownWalls?.vwall[y]?.[x + 1];
+      break;
+    case 'west':
+      present = vwall[y]?.[x];
+      known = options.knownWalls?.vwall[y]?.[x];
+      break;
+  }
+
+  // 迷路の外へは移動できない
+  const offset = DIRECTION_OFFSETS[direction];
+  const nx = x + offset.x;
+  const ny = y + offset.y;
+  if (nx < 0 || ny < 0 || nx >= width || ny >= height) {
+    return true;
+  }
+
+  // 既知の壁情報が与えられていない場合はすべて既知とみなす
+  if (!options.knownWalls || known) {
+    return Boolean(present);
+  }
+  return options.unknownWallPolicy === 'pessimistic';
+};
+
+/**
+ * ゴールセルの集合から各セルへの歩数マップを計算する（幅優先のフラッドフィル）
+ * @param mazeData MazeDataオブジェクト
+ * @param goals 歩数0とするセルの集合（省略時はmazeData.goal）
+ * @param options 未知の壁の扱い
+ * @returns 歩数マップ distances[y][x]
+ */
+export const computeDistanceMap = (
+  mazeData: MazeData,
+  goals: CellPosition[] = mazeData.goal,
+  options: DistanceMapOptions = {}
+): DistanceMap => {
+  const { width, height } = getMazeDimensions(mazeData);
+  const distances: DistanceMap = Array(height).fill(null).map(() => Array(width).fill(UNREACHABLE_DISTANCE));
+  const queue: CellPosition[] = [];
+
+  for (const goal of goals) {
+    if (goal.x < 0 || goal.y < 0 || goal.x >= width || goal.y >= height) continue;
+    if (distances[goal.y][goal.x] === 0) continue;
+    distances[goal.y][goal.x] = 0;
+    queue.push({ x: goal.x, y: goal.y });
+  }
+
+  // 配列の先頭から順に取り出す（shiftによる再配置を避ける）
+  for (let head = 0; head < queue.length; head++) {
+    const cell = queue[head];
+    const nextDistance = distances[cell.y][cell.x] + 1;
+
+    for (const direction of Object.keys(DIRECTION_OFFSETS) as CellDirection[]) {
+      if (hasWall(mazeData, cell, direction, options)) continue;
+      const offset = DIRECTION_OFFSETS[direction];
+      const nx = cell.x + offset.x;
+      const ny = cell.y + offset.y;
+      if (distances[ny][nx] <= nextDistance) continue;
+      distances[ny][nx] = nextDistance;
+      queue.push({ x: nx, y: ny });
+    }
+  }
+
+  return distances;
+};
+
+/**
+ * 未知の壁を考慮した楽観的・悲観的な歩数マップを同時に計算する
+ * 両者が一致するセルは、既知の壁だけで最短経路が確定している
+ * @param mazeData MazeDataオブジェクト
+ * @param knownWalls 既知の壁
+ * @param goals 歩数0とするセルの集合（省略時はmazeData.goal）
+ * @returns 楽観的・悲観的な歩数マップ
+ */
+export const computeDistanceMapBounds = (
+  mazeData: MazeData,
+  knownWalls: KnownWalls,
+  goals: CellPosition[] = mazeData.goal
+): { optimistic: DistanceMap; pessimistic: DistanceMap } => ({
+  optimistic: computeDistanceMap(mazeData, goals, { knownWalls, unknownWallPolicy: 'optimistic' }),
+  pessimistic: computeDistanceMap(mazeData, goals, { knownWalls, unknownWallPolicy: 'pessimistic' }),
+});
+
+/**
+ * 歩数マップを下っていき、セルからゴールまでの経路を求める
+ * 歩数が同じ候補が複数ある場合は直進を優先する
+ * @param mazeData MazeDataオブジェクト
+ * @param distances 歩数マップ
+ * @param from 開始セル
+ * @param options 歩数マップの計算に使用したオプション
+ * @returns 開始セルからゴールまでのセル列（到達できない場合は空配列）
+ */
+export const followDistanceMap = (
+  mazeData: MazeData,
+  distances: DistanceMap,
+  from: CellPosition,
+  options: DistanceMapOptions = {}
+): CellPosition[] => {
+  const startDistance = distances[from.y]?.[from.x];
+  if (startDistance === undefined || startDistance === UNREACHABLE_DISTANCE) {
+    return [];
+  }
+
+  const path: CellPosition[] = [{ x: from.x, y: from.y }];
+  let current = path[0];
+  let previousDirection: CellDirection | null = null;
+
+  while (distances[current.y][current.x] > 0) {
+    const currentDistance = distances[current.y][current.x];
+    // 直前と同じ方角を先に調べることで直進を優先する
+    const directions = (Object.keys(DIRECTION_OFFSETS) as CellDirection[])
+      .sort((a, b) => Number(b === previousDirection) - Number(a === previousDirection));
+
+    const nextDirection = directions.find((direction) => {
+      if (hasWall(mazeData, current, direction, options)) return false;
+      const offset = DIRECTION_OFFSETS[direction];
+      return distances[current.y + offset.y][current.x + offset.x] === currentDistance - 1;
+    });
+    if (!nextDirection) {
+      // 歩数マップと壁情報が一致していない
+      return [];
+    }
+
+    const offset = DIRECTION_OFFSETS[nextDirection];
+    current = { x: current.x + offset.x, y: current.y + offset.y };
+    path.push(current);
+    previousDirection = nextDirection;
+  }
+
+  return path;
+};
+
+/**
+ * スタートからゴールまでの歩数最短経路を求める
+ * @param mazeData MazeDataオブジェクト
+ * @param options 未知の壁の扱い
+ * @returns スタートからゴールまでのセル列（到達できない場合は空配列）
+ */
+export const findShortestPath = (
+  mazeData: MazeData,
+  options: DistanceMapOptions = {}
+): CellPosition[] => {
+  const distances = computeDistanceMap(mazeData, mazeData.goal, options);
+  return followDistanceMap(mazeData, distances, mazeData.start, options);
+};
@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import { MazeData } from '../types';
+import { createEmptyMaze, setMazeWall } from './mazeEditor';
+import { parseMazeFile } from './mazeLoader';
+import { hasMazeErrors, MazeDiagnostic, validateMaze, validateMazeText } from './mazeValidator';
+
+// 2x2の正しい迷路（スタート(0,0)から北のゴール(0,1)へ進める）
+const VALID_MAZE_LINES = [
+  '+---+---+',
+  '| G     |',
+  '+   +---+',
+  '| S |   |',
+  '+---+---+',
+];
+
+// 指定した行を置き換えた迷路テキストを作成する（行番号は1始まり）
+const withLine = (lineNumber: number, line: string, lines: string[] = VALID_MAZE_LINES): string =>
+  lines.map((original, index) => (index === lineNumber - 1 ? line : original)).join('\n');
+
+// 診断情報のうち比較に使う項目のみを取り出す
+const summarize = (diagnostics: MazeDiagnostic[]) =>
+  diagnostics.map(({ code, severity, line, column }) => ({ code, severity, line, column }));
+
+describe('validateMazeText', () => {
+  it('正しい迷路では診断情報を返さない', () => {
+    expect(validateMazeText(VALID_MAZE_LINES.join('\n'))).toEqual([]);
+  });
+
+  it('行数が不正な場合はinvalid-line-count', () => {
+    expect(summarize(validateMazeText(VALID_MAZE_LINES.slice(0, 4).join('\n')))).toEqual([
+      { code: 'invalid-line-count', severity: 'error', line: 4, column: 1 },
+    ]);
+  });
+
+  it('1行目の長さが4×幅+1でない場合はragged-line', () => {
+    expect(summarize(validateMazeText(withLine(1, '+---+---')))).toEqual([
+      { code: 'ragged-line', severity: 'error', line: 1, column: 9 },
+    ]);
+  });
+
+  it('行の長さが揃っていない場合はragged-line（欠けた位置の列番号を返す）', () => {
+    const diagnostics = validateMazeText(withLine(4, '| S |'));
+
+    expect(summarize(diagnostics)).toContainEqual({ code: 'ragged-line', severity: 'error', line: 4, column: 6 });
+  });
+
+  it('幅と高さが異なる場合はnon-squareの警告', () => {
+    const text = [
+      '+---+---+---+',
+      '| G         |',
+      '+   +---+---+',
+      '| S |       |',
+      '+---+---+---+',
+    ].join('\n');
+
+    expect(summarize(validateMazeText(text))).toEqual([
+      { code: 'non-square', severity: 'warning', line: 1, column: 1 },
+    ]);
+  });
+
+  it('不完全な水平壁のセグメントはinconsistent-wall', () => {
+    expect(summarize(validateMazeText(withLine(3, '+   +-- +')))).toEqual([
+      { code: 'inconsistent-wall', severity: 'error', line: 3, column: 6 },
+    ]);
+  });
+
+  it('柱・垂直壁・セルの位置の想定外の文字はinvalid-character', () => {
+    expect(summarize(validateMazeText(withLine(3, '+   *---+')))).toEqual([
+      { code: 'invalid-character', severity: 'error', line: 3, column: 5 },
+    ]);
+    expect(summarize(validateMazeText(withLine(4, '| S !   |')))).toEqual([
+      { code: 'invalid-character', severity: 'error', line: 4, column: 5 },
+    ]);
+    expect(summarize(validateMazeText(withLine(4, '| S | x |')))).toEqual([
+      { code: 'invalid-character', severity: 'warning', line: 4, column: 7 },
+    ]);
+  });
+
+  it('外周の壁がない場合はopen-border', () => {
+    expect(summarize(validateMazeText(withLine(5, '+---+   +')))).toEqual([
+      { code: 'open-border', severity: 'error', line: 5, column: 6 },
+    ]);
+    expect(summarize(validateMazeText(withLine(2, '  G     |')))).toEqual([
+      { code: 'open-border', severity: 'error', line: 2, column: 1 },
+    ]);
+  });
+
+  it('スタートがない場合はmissing-start（前の空行を含めた行番号を返す）', () => {
+    const text = `\n\n${withLine(4, '|   |   |')}`;
+
+    expect(summarize(validateMazeText(text))).toEqual([
+      { code: 'missing-start', severity: 'error', line: 3, column: 1 },
+    ]);
+  });
+
+  it('スタートが複数ある場合は2つ目以降の位置をmultiple-startとして返す', () => {
+    expect(summarize(validateMazeText(withLine(4, '| S | S |')))).toEqual([
+      { code: 'multiple-start', severity: 'error', line: 4, column: 7 },
+    ]);
+  });
+
+  it('ゴールがない場合はmissing-goal', () => {
+    expect(summarize(validateMazeText(withLine(2, '|       |')))).toEqual([
+      { code: 'missing-goal', severity: 'error', line: 1, column: 1 },
+    ]);
+  });
+});
+
+describe('validateMaze', () => {
+  // ゴールを右上のセルのみとした3x3の空の迷路（スタートの東の壁以外に内壁はない）
+  const createOpenMaze = (): MazeData => ({ ...createEmptyMaze(3), goal: [{ x: 2, y: 2 }] });
+
+  it('正しい迷路では診断情報を返さない', () => {
+    const mazeData = parseMazeFile(VALID_MAZE_LINES.join('\n'));
+
+    expect(validateMaze(mazeData)).toEqual([]);
+    expect(hasMazeErrors(validateMaze(mazeData))).toBe(false);
+  });
+
+  it('ゴールに到達できない場合はunreachable-goal（ゴールのセルの位置を返す）', () => {
+    const mazeData = setMazeWall(parseMazeFile(VALID_MAZE_LINES.join('\n')), { kind: 'hwall', x: 0, y: 1 }, true);
+
+    const diagnostics = validateMaze(mazeData);
+
+    expect(summarize(diagnostics)).toContainEqual({ code: 'unreachable-goal', severity: 'error', line: 2, column: 3 });
+    expect(diagnostics.find((diagnostic) => diagnostic.code === 'unreachable-goal')?.cell).toEqual({ x: 0, y: 1 });
+    expect(hasMazeErrors(diagnostics)).toBe(true);
+  });
+
+  it('壁が接続されていない内側の柱はpillar-without-wallの警告', () => {
+    expect(summarize(validateMaze(createOpenMaze()))).toEqual([
+      { code: 'pillar-without-wall', severity: 'warning', line: 5, column: 9 },
+      { code: 'pillar-without-wall', severity: 'warning', line: 3, column: 5 },
+      { code: 'pillar-without-wall', severity: 'warning', line: 3, column: 9 },
+    ]);
+  });
+
+  it('ゴール区画の中央の柱は壁がなくてもpillar-without-wallにしない', () => {
+    const mazeData: MazeData = {
+      ...createOpenMaze(),
+      goal: [{ x: 1, y: 1 }, { x: 2, y: 1 }, { x: 1, y: 2 }, { x: 2, y: 2 }],
+    };
+
+    expect(summarize(validateMaze(mazeData)).map((diagnostic) => diagnostic.line)).toEqual([5, 3]);
+  });
+
+  it('スタートセルの壁が3方向でない場合はstart-not-enclosedの警告', () => {
+    const mazeData = setMazeWall(createOpenMaze(), { kind: 'vwall', x: 1, y: 0 }, false);
+
+    expect(summarize(validateMaze(mazeData))).toContainEqual({
+      code: 'start-not-enclosed',
+      severity: 'warning',
+      line: 6,
+      column: 3,
+    });
+  });
+
+  it('外周の壁がない場合はopen-border（mazefile形式での位置を返す）', () => {
+    const mazeData = setMazeWall(createOpenMaze(), { kind: 'hwall', x: 1, y: 3 }, false);
+
+    expect(summarize(validateMaze(mazeData))).toContainEqual({ code: 'open-border', severity: 'error', line: 1, column: 6 });
+  });
+
+  it('スタート・ゴールの範囲外とゴールなしを検出する', () => {
+    const outside = validateMaze({ ...createOpenMaze(), start: { x: 3, y: 0 }, goal: [{ x: 0, y: -1 }] });
+    const noGoal = validateMaze({ ...createOpenMaze(), goal: [] });
+
+    expect(outside.filter((diagnostic) => diagnostic.code === 'out-of-bounds').map((diagnostic) => diagnostic.cell))
+      .toEqual([{ x: 3, y: 0 }, { x: 0, y: -1 }]);
+    expect(noGoal.map((diagnostic) => diagnostic.code)).toContain('missing-goal');
+  });
+
+  it('壁配列の形状がサイズと一致しない場合はinvalid-shapeのみを返す', () => {
+    const mazeData = createOpenMaze();
+
+    expect(validateMaze({ ...mazeData, size: 4, width: 4 }).map((diagnostic) => diagnostic.code)).toEqual(['invalid-shape']);
+  });
+});
@@ -0,0 +1,419 @@
+/**
+ * 迷路データおよび迷路ファイルの検証ユーティリティ
+ * 問題点を行・列位置付きの診断情報として返す
+ */
+import { CellPosition, MazeData } from '../types';
+import { getMazeDimensions, MazeDimensions } from './mazeGeometry';
+
+/** 診断情報の種類 */
+export type MazeDiagnosticCode =
+  | 'invalid-line-count'   // 行数が迷路ファイルとして成立しない
+  | 'ragged-line'          // 行の長さが揃っていない
+  | 'non-square'           // 幅と高さが一致しない（競技用の迷路は正方形）
+  | 'invalid-character'    // 想定外の文字
+  | 'inconsistent-wall'    // 壁の記述が食い違っている（テキストは壁セグメント内、1セル1バイトのバイト列は隣接セル間）
+  | 'invalid-shape'        // 壁配列の形状がサイズと一致しない
+  | 'open-border'          // 外周に壁がない
+  | 'missing-start'        // スタートがない
+  | 'multiple-start'       // スタートが複数ある
+  | 'missing-goal'         // ゴールがない
+  | 'out-of-bounds'        // スタート・ゴールが迷路外にある
+  | 'unreachable-goal'     // スタートからゴールに到達できない
+  | 'pillar-without-wall'  // 壁が1枚も接続されていない柱がある（競技規則）
+  | 'start-not-enclosed';  // スタートセルの3方向が壁で囲まれていない（競技規則）
+
+/** 診断情報の重要度 */
+export type MazeDiagnosticSeverity = 'error' | 'warning';
+
+/** 迷路の検証で検出した問題点 */
+export interface MazeDiagnostic {
+  code: MazeDiagnosticCode;
+  severity: MazeDiagnosticSeverity;
+  message: string;
+  line?: number;        // 迷路ファイル上の行番号（1始まり）
+  column?: number;      // 迷路ファイル上の列番号（1始まり）
+  cell?: CellPosition;  // 関連するセル座標
+}
+
+// --- 迷路ファイル上の位置への変換（mazefile形式のレイアウトに基づく） ---
+
+// セル(x, y)の内容が書かれる位置
+const cellTextPosition = (height: number, x: number, y: number) => ({
+  line: 2 * (height - 1 - y) + 2,
+  column: 4 * x + 3,
+});
+
+// 水平壁hwall[y][x]の開始位置
+const hwallTextPosition = (height: number, x: number, y: number) => ({
+  line: 2 * (height - y) + 1,
+  column: 4 * x + 2,
+});
+
+// 垂直壁vwall[y][x]の位置
+const vwallTextPosition = (height: number, x: number, y: number) => ({
+  line: 2 * (height - 1 - y) + 2,
+  column: 4 * x + 1,
+});
+
+// 柱(x, y)の位置
+const pillarTextPosition = (height: number, x: number, y: number) => ({
+  line: 2 * (height - y) + 1,
+  column: 4 * x + 1,
+});
+
+const isInside = ({ width, height }: MazeDimensions, cell: CellPosition): boolean =>
+  Number.isInteger(cell.x) && Number.isInteger(cell.y) &&
+  cell.x >= 0 && cell.x < width && cell.y >= 0 && cell.y < height;
+
+/**
+ * 迷路ファイル(mazefile)のテキストの構造を検証する
+ * 行の長さ・行数・文字・壁セグメント・外周・スタートとゴールの記述をチェックする
+ * 隣り合うセルの間の壁はテキスト上の1つのセグメント（MazeDataでは1つの要素）で表されるため、
+ * 隣接セル間で壁の有無が食い違うことはない（セルごとに壁を持つバイト列はvalidateMazeBytesで検証する）
+ * @param mazeText 迷路ファイルの内容
+ * @returns 診断情報の配列（行番号は入力テキスト上の位置）
+ */
+export const validateMazeText = (mazeText: string): MazeDiagnostic[] => {
+  const diagnostics: MazeDiagnostic[] = [];
+  const allLines = mazeText.replace(/\r\n?/g, '\n').split('\n');
+
+  // 前後の空行は無視する（行番号は元のテキスト上の位置を維持）
+  let first = 0;
+  let last = allLines.length - 1;
+  while (first <= last && allLines[first].trim() === '') first++;
+  while (last >= first && allLines[last].trim() === '') last--;
+  const lines = allLines.slice(first, last + 1);
+  const lineNumber = (index: number) => first + index + 1;
+
+  if (lines.length < 3 || lines.length % 2 === 0) {
+    diagnostics.push({
+      code: 'invalid-line-count',
+      severity: 'error',
+      message: `迷路ファイルの行数が不正です: ${lines.length}行（2×高さ+1行である必要があります）`,
+      line: lineNumber(Math.max(0, lines.length - 1)),
+      column: 1,
+    });
+    return diagnostics;
+  }
+
+  // 1行目の長さから幅を、行数から高さを決定する
+  const expectedLength = lines[0].length;
+  const width = (expectedLength - 1) / 4;
+  const height = (lines.length - 1) / 2;
+  if (!Number.isInteger(width) || width < 1) {
+    diagnostics.push({
+      code: 'ragged-line',
+      severity: 'error',
+      message: `1行目の長さが不正です: ${expectedLength}文字（4×幅+1文字である必要があります）`,
+      line: lineNumber(0),
+      column: expectedLength + 1,
+    });
+    return diagnostics;
+  }
+
+  if (width !== height) {
+    diagnostics.push({
+      code: 'non-square',
+      severity: 'warning',
+      message: `迷路が正方形ではありません: 幅${width}マス、高さ${height}マス`,
+      line: lineNumber(0),
+      column: 1,
+    });
+  }
+
+  const startPositions: { line: number; column: number }[] = [];
+  let hasGoal = false;
+
+  lines.forEach((line, index) => {
+    const isPillarRow = index % 2 === 0;
+    const isBorderRow = index === 0 || index === lines.length - 1;
+
+    if (line.length !== expectedLength) {
+      diagnostics.push({
+        code: 'ragged-line',
+        severity: 'error',
+        message: `行の長さが揃っていません: ${line.length}文字（${expectedLength}文字である必要があります）`,
+        line: lineNumber(index),
+        column: Math.min(line.length, expectedLength) + 1,
+      });
+    }
+
+    for (let x = 0; x <= width; x++) {
+      const column = x * 4;
+      const char = line[column] ?? ' ';
+
+      if (isPillarRow) {
+        // 柱の文字
+        if (char !== '+' && char !== 'o') {
+          diagnostics.push({
+            code: 'invalid-character',
+            severity: 'error',
+            message: `柱の位置に想定外の文字があります: '${char}'`,
+            line: lineNumber(index),
+            column: column + 1,
+          });
+        }
+        if (x === width) continue;
+
+        // 水平壁のセグメント
+        const segment = line.substring(column + 1, column + 4).padEnd(3, ' ');
+        if (segment !== '---' && segment !== '   ') {
+          diagnostics.push({
+            code: 'inconsistent-wall',
+            severity: 'error',
+            message: `水平壁の記述が不完全です: '${segment}'`,
+            line: lineNumber(index),
+            column: column + 2,
+          });
+        } else if (isBorderRow && segment !== '---') {
+          diagnostics.push({
+            code: 'open-border',
+            severity: 'error',
+            message: '外周の水平壁がありません',
+            line: lineNumber(index),
+            column: column + 2,
+          });
+        }
+        continue;
+      }
+
+      // 垂直壁の文字
+      if (char !== '|' && char !== ' ') {
+        diagnostics.push({
+          code: 'invalid-character',
+          severity: 'error',
+          message: `垂直壁の位置に想定外の文字があります: '${char}'`,
+          line: lineNumber(index),
+          column: column + 1,
+        });
+      } else if ((x === 0 || x === width) && char !== '|') {
+        diagnostics.push({
+          code: 'open-border',
+          severity: 'error',
+          message: '外周の垂直壁がありません',
+          line: lineNumber(index),
+          column: column + 1,
+        });
+      }
+      if (x === width) continue;
+
+      // セルの内容
+      const content = line[column + 2] ?? ' ';
+      if (content === 'S') {
+        startPositions.push({ line: lineNumber(index), column: column + 3 });
+      } else if (content === 'G') {
+        hasGoal = true;
+      } else if (content !== ' ') {
+        diagnostics.push({
+          code: 'invalid-character',
+          severity: 'warning',
+          message: `セル内に想定外の文字があります: '${content}'`,
+          line: lineNumber(index),
+          column: column + 3,
+        });
+      }
+    }
+  });
+
+  if (startPositions.length === 0) {
+    diagnostics.push({
+      code: 'missing-start',
+      severity: 'error',
+      message: "スタートセル('S')がありません",
+      line: lineNumber(0),
+      column: 1,
+    });
+  }
+  startPositions.slice(1).forEach((position) => {
+    diagnostics.push({
+      code: 'multiple-start',
+      severity: 'error',
+      message: "スタートセル('S')が複数あります",
+      ...position,
+    });
+  });
+
+  if (!hasGoal) {
+    diagnostics.push({
+      code: 'missing-goal',
+      severity: 'error',
+      message: "ゴールセル('G')がありません",
+      line: lineNumber(0),
+      column: 1,
+    });
+  }
+
+  return diagnostics;
+};
+
+/**
+ * MazeDataオブジェクトの内容を検証する
+ * 行・列番号はmazefile形式で書き出した場合の位置を示す
+ * @param mazeData MazeDataオブジェクト
+ * @returns 診断情報の配列
+ */
+export const validateMaze = (mazeData: MazeData): MazeDiagnostic[] => {
+  const diagnostics: MazeDiagnostic[] = [];
+  const { walls, start, goal } = mazeData;
+  const dimensions = getMazeDimensions(mazeData);
+  const { width, height } = dimensions;
+
+  // 壁配列の形状
+  const isValidShape =
+    Number.isInteger(width) && width > 0 && Number.isInteger(height) && height > 0 &&
+    walls.vwall.length === height && walls.vwall.every((row) => row.length === width + 1) &&
+    walls.hwall.length === height + 1 && walls.hwall.every((row) => row.length === width);
+  if (!isValidShape) {
+    diagnostics.push({
+      code: 'invalid-shape',
+      severity: 'error',
+      message: `壁配列の形状がサイズ${width}x${height}と一致しません`,
+    });
+    return diagnostics;
+  }
+
+  // 外周の壁
+  for (let y = 0; y < height; y++) {
+    for (const x of [0, width]) {
+      if (!walls.vwall[y][x]) {
+        diagnostics.push({
+          code: 'open-border',
+          severity: 'error',
+          message: `外周の垂直壁がありません: vwall[${y}][${x}]`,
+          ...vwallTextPosition(height, x, y),
+        });
+      }
+    }
+  }
+  for (let x = 0; x < width; x++) {
+    for (const y of [0, height]) {
+      if (!walls.hwall[y][x]) {
+        diagnostics.push({
+          code: 'open-border',
+          severity: 'error',
+          message: `外周の水平壁がありません: hwall[${y}][${x}]`,
+          ...hwallTextPosition(height, x, y),
+        });
+      }
+    }
+  }
+
+  // スタートとゴールの範囲
+  const startInside = isInside(dimensions, start);
+  if (!startInside) {
+    diagnostics.push({
+      code: 'out-of-bounds',
+      severity: 'error',
+      message: `スタートが迷路の範囲外です: (${start.x}, ${start.y})`,
+      cell: { ...start },
+    });
+  }
+  if (goal.length === 0) {
+    diagnostics.push({
+      code: 'missing-goal',
+      severity: 'error',
+      message: 'ゴールが指定されていません',
+    });
+  }
+  const goalsInside = goal.filter((cell) => {
+    if (isInside(dimensions, cell)) return true;
+    diagnostics.push({
+      code: 'out-of-bounds',
+      severity: 'error',
+      message: `ゴールが迷路の範囲外です: (${cell.x}, ${cell.y})`,
+      cell: { ...cell },
+    });
+    return false;
+  });
+
+  // スタートセルは3方向が壁で囲まれている必要がある（競技規則）
+  if (startInside) {
+    const wallCount = [
+      walls.hwall[start.y + 1][start.x],
+      walls.hwall[start.y][start.x],
+      walls.vwall[start.y][start.x + 1],
+      walls.vwall[start.y][start.x],
+    ].filter(Boolean).length;
+    if (wallCount !== 3) {
+      diagnostics.push({
+        code: 'start-not-enclosed',
+        severity: 'warning',
+        message: `スタートセルの壁が3方向ではありません: ${wallCount}方向`,
+        cell: { ...start },
+        ...cellTextPosition(height, start.x, start.y),
+      });
+    }
+  }
+
+  // 内側の柱には少なくとも1枚の壁が接続されている必要がある（競技規則）
+  // ただし四方をゴールセルに囲まれた柱（ゴール区画の中央）は除く
+  const goalKeys = new Set(goalsInside.map((cell) => `${cell.x},${cell.y}`));
+  for (let y = 1; y < height; y++) {
+    for (let x = 1; x < width; x++) {
+      const hasWall =
+        walls.hwall[y][x - 1] || walls.hwall[y][x] ||
+        walls.vwall[y - 1][x] || walls.vwall[y][x];
+      if (hasWall) continue;
+
+      const insideGoal =
+        goalKeys.has(`${x - 1},${y - 1}`) && goalKeys.has(`${x},${y - 1}`) &&
+        goalKeys.has(`${x - 1},${y}`) && goalKeys.has(`${x},${y}`);
+      if (insideGoal) continue;
+
+      diagnostics.push({
+        code: 'pillar-without-wall',
+        severity: 'warning',
+        message: `壁が接続されていない柱があります: (${x}, ${y})`,
+        ...pillarTextPosition(height, x, y),
+      });
+    }
+  }
+
+  // スタートからゴールへの到達可能性
+  if (startInside && goalsInside.length > 0) {
+    const reachable = collectReachableCells(mazeData);
+    if (!goalsInside.some((cell) => reachable[cell.y][cell.x])) {
+      diagnostics.push({
+        code: 'unreachable-goal',
+        severity: 'error',
+        message: 'スタートからゴールに到達できません',
+        cell: { ...goalsInside[0] },
+        ...cellTextPosition(height, goalsInside[0].x, goalsInside[0].y),
+      });
+    }
+  }
+
+  return diagnostics;
+};
+
+/**
+ * 診断情報にエラーが含まれているか判定する
+ */
+export const hasMazeErrors = (diagnostics: MazeDiagnostic[]): boolean =>
+  diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+
+// スタートから到達可能なセルを幅優先探索で求める
+function collectReachableCells(mazeData: MazeData): boolean[][] {
+  const { walls, start } = mazeData;
+  const { width, height } = getMazeDimensions(mazeData);
+  const reachable: boolean[][] = Array(height).fill(null).map(() => Array(width).fill(false));
+  const queue: CellPosition[] = [start];
+  reachable[start.y][start.x] = true;
+
+  while (queue.length > 0) {
+    const { x, y } = queue.shift()!;
+    const neighbors: [number, number, boolean][] = [
+      [x, y + 1, !walls.hwall[y + 1][x]],
+      [x, y - 1, !walls.hwall[y][x]],
+      [x + 1, y, !walls.vwall[y][x + 1]],
+      [x - 1, y, !walls.vwall[y][x]],
+    ];
+    for (const [nx, ny, open] of neighbors) {
+      if (!open || nx < 0 || ny < 0 || nx >= width || ny >= height || reachable[ny][nx]) continue;
+      reachable[ny][nx] = true;
+      queue.push({ x: nx, y: ny });
+    }
+  }
+
+  return reachable;
+}
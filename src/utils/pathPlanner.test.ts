@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { MazeData } from '../types';
+import { CELL_SIZE } from '../config/constants';
+import { createEmptyMaze } from './mazeEditor';
+import { getTurnDistance, planFastestPath, PlannedPath, primitivesToTrajectoryProfile } from './pathPlanner';
+
+// 経路の最後の姿勢が含まれるマス
+const getFinalCell = (plan: PlannedPath) => {
+  const { position } = plan.primitives[plan.primitives.length - 1].to;
+  return { x: Math.floor(position.x / CELL_SIZE), y: Math.floor(position.y / CELL_SIZE) };
+};
+
+/**
+ * 幅1マスの通路が折り返す蛇行迷路を作成する（行の間は偶数行では東端、奇数行では西端のみが開いている）
+ */
+const createSerpentineMaze = (width: number, height: number): MazeData => {
+  const mazeData = createEmptyMaze(width, height);
+  mazeData.walls.vwall[0][1] = false;
+  for (let y = 1; y < height; y++) {
+    const gapX = (y - 1) % 2 === 0 ? width - 1 : 0;
+    for (let x = 0; x < width; x++) {
+      mazeData.walls.hwall[y][x] = x !== gapX;
+    }
+  }
+  // ゴールは最後の行の行き止まり（偶数行は東端、奇数行は西端）
+  mazeData.goal = [{ x: (height - 1) % 2 === 0 ? width - 1 : 0, y: height - 1 }];
+  return mazeData;
+};
+
+describe('planFastestPath', () => {
+  it.each([16, 32])('%ixの迷路でゴール区画の内側で停止する', (size) => {
+    const mazeData = createEmptyMaze(size);
+    const plan = planFastestPath(mazeData);
+
+    expect(plan).not.toBeNull();
+    expect(mazeData.goal).toContainEqual(getFinalCell(plan!));
+  });
+
+  it('直進でゴールに進入した場合はゴール区画の中心で停止する', () => {
+    const mazeData = createEmptyMaze(4, 1);
+    mazeData.walls.vwall[0][1] = false;
+    mazeData.goal = [{ x: 3, y: 0 }];
+
+    const plan = planFastestPath(mazeData, { startHeading: 'east' })!;
+    const last = plan.primitives[plan.primitives.length - 1];
+
+    expect(plan.primitives).toHaveLength(1);
+    expect(last.to.position.x).toBeCloseTo(3.5 * CELL_SIZE);
+    expect(last.to.position.y).toBeCloseTo(0.5 * CELL_SIZE);
+    expect(last.type === 'straight' && last.cells).toBe(3);
+  });
+
+  it('折り返しには隣り合う2マスで折り返す180度ターンを使用する', () => {
+    const mazeData = createSerpentineMaze(4, 2);
+    const plan = planFastestPath(mazeData, { startHeading: 'east' })!;
+
+    const uTurn = plan.primitives.find((primitive) => primitive.type === 'turn' && primitive.turn === 'turn180');
+    expect(uTurn).toBeDefined();
+    // 開始位置と終了位置は隣り合う2マスの同じ側の区画境界
+    const dx = uTurn!.to.position.x - uTurn!.from.position.x;
+    const dy = uTurn!.to.position.y - uTurn!.from.position.y;
+    expect(Math.hypot(dx, dy)).toBeCloseTo(CELL_SIZE);
+    // 軌跡長は半径半マスの半円とほぼ等しい
+    expect(getTurnDistance('turn180')).toBeCloseTo(Math.PI * CELL_SIZE / 2, 2);
+    expect(mazeData.goal).toContainEqual(getFinalCell(plan));
+  });
+
+  it('180度ターンの軌跡は折り返す2マスの内側に収まる', () => {
+    const mazeData = createSerpentineMaze(4, 2);
+    const plan = planFastestPath(mazeData, { startHeading: 'east' })!;
+    const profile = primitivesToTrajectoryProfile(plan);
+
+    // 通路の外周（迷路の範囲）から出ない
+    profile.forEach(({ position }) => {
+      expect(position.x).toBeGreaterThanOrEqual(0);
+      expect(position.x).toBeLessThanOrEqual(4 * CELL_SIZE);
+      expect(position.y).toBeGreaterThanOrEqual(0);
+      expect(position.y).toBeLessThanOrEqual(2 * CELL_SIZE);
+    });
+  });
+});
@@ -0,0 +1,678 @@
+/**
+ * 最短時間経路計画ユーティリティ
+ * 斜め走行とターン種別ごとのコストモデルを考慮して、スタートからゴールまでの最短時間経路を求める
+ *
+ * 内部では半マス単位の格子座標を用いる
+ * - マス(x, y)の中心: (2x + 1, 2y + 1)
+ * - 壁（区画境界）の中点: (偶数, 奇数)が垂直方向の境界、(奇数, 偶数)が水平方向の境界
+ * 経路のノードは区画境界の中点とし、ノード間を直進・斜め直進・ターンの動作要素で結ぶ
+ */
+import { CellPosition, MazeData, TrajectoryElement, TrajectoryProfile } from '../types';
+import { CELL_SIZE } from '../config/constants';
+import { getMazeDimensions } from './mazeGeometry';
+
+/** ターンの種類 */
+export type TurnType =
+  | 'turn90'     // 区画内の小回り90度ターン
+  | 'large90'    // 大回り90度ターン
+  | 'turn180'    // 180度ターン（隣り合う2マスで折り返す）
+  | 'turn45in'   // 直進から斜めへの45度ターン
+  | 'turn45out'  // 斜めから直進への45度ターン
+  | 'turn135in'  // 直進から斜めへの135度ターン
+  | 'turn135out' // 斜めから直進への135度ターン
+  | 'v90';       // 斜めから斜めへの90度ターン
+
+/** 経路計画のコストモデル */
+export interface PathCostModel {
+  straightSpeed: number;  // 直進の最高速度[m/s]
+  diagonalSpeed: number;  // 斜め直進の最高速度[m/s]
+  acceleration: number;   // 直進・斜め直進の加減速度[m/s^2]
+  turnSpeed: number;      // ターン中の速度[m/s]（ターンの前後はこの速度まで減速する）
+  turnTimes?: Partial<Record<TurnType, number>>; // ターンごとの所要時間[s]（省略時は軌跡長とturnSpeedから計算）
+}
+
+/** デフォルトのコストモデル */
+export const DEFAULT_PATH_COST_MODEL: PathCostModel = {
+  straightSpeed: 2.0,
+  diagonalSpeed: 1.5,
+  acceleration: 5.0,
+  turnSpeed: 0.7,
+};
+
+/** 直進・斜め直進の動作要素 */
+export interface StraightPrimitive {
+  type: 'straight';
+  diagonal: boolean;      // 斜め直進の場合true
+  cells: number;          // 直進: 走行マス数（スタート直後などは0.5刻み）、斜め: 通過する区画境界の数
+  distance: number;       // 走行距離[m]
+  startSpeed: number;     // 開始速度[m/s]
+  endSpeed: number;       // 終了速度[m/s]
+  maxSpeed: number;       // 最高速度[m/s]
+  acceleration: number;   // 加減速度[m/s^2]
+  duration: number;       // 所要時間[s]
+  from: TrajectoryElement; // 開始姿勢
+  to: TrajectoryElement;   // 終了姿勢
+}
+
+/** ターンの動作要素 */
+export interface TurnPrimitive {
+  type: 'turn';
+  turn: TurnType;
+  direction: 'left' | 'right';
+  speed: number;          // ターン中の速度[m/s]
+  distance: number;       // 軌跡長[m]
+  duration: number;       // 所要時間[s]
+  from: TrajectoryElement; // 開始姿勢
+  to: TrajectoryElement;   // 終了姿勢
+}
+
+export type MotionPrimitive = StraightPrimitive | TurnPrimitive;
+
+/** 経路計画の結果 */
+export interface PlannedPath {
+  primitives: MotionPrimitive[]; // 動作要素の列
+  totalTime: number;             // 推定走行時間[s]
+  start: TrajectoryElement;      // 開始姿勢（スタートマスの中心）
+}
+
+/** 経路計画のオプション */
+export interface PathPlannerOptions {
+  costModel?: Partial<PathCostModel>;
+  startHeading?: 'north' | 'east' | 'south' | 'west'; // スタート時の向き（省略時は最初に壁のない方角 北→東→南→西）
+}
+
+type Vec = [number, number];
+
+/** ターン形状の定義（基準姿勢: 位置(1, 0)に北向き、または位置(2, 1)に北東向き） */
+interface TurnDefinition {
+  turn: TurnType;
+  start: Vec;        // 開始位置（半マス単位）
+  startHeading: Vec; // 開始方向
+  end: Vec;          // 終了位置（半マス単位）
+  endHeading: Vec;   // 終了方向
+  required: Vec[];   // 通過する（壁があってはならない）区画境界
+  tangentScale: number; // 軌跡をエルミート曲線で近似する際の接線の長さ（弦長に対する比）
+}
+
+/** ノード上で適用できるように変換済みのターン */
+interface TurnCandidate {
+  turn: TurnType;
+  direction: 'left' | 'right';
+  startHeading: number; // 方向インデックス
+  startXEven: boolean;  // 開始位置のx座標が偶数か（垂直方向の区画境界か）
+  offset: Vec;          // 終了位置までの相対座標
+  endHeading: number;
+  required: Vec[];      // 開始位置からの相対座標
+}
+
+// 方向インデックス 0:東 1:北東 2:北 3:北西 4:西 5:南西 6:南 7:南東
+const HEADINGS: Vec[] = [[1, 0], [1, 1], [0, 1], [-1, 1], [-1, 0], [-1, -1], [0, -1], [1, -1]];
+const HALF_CELL = CELL_SIZE / 2;
+
+const headingIndex = (v: Vec): number =>
+  HEADINGS.findIndex(([hx, hy]) => hx === Math.sign(v[0]) && hy === Math.sign(v[1]));
+
+const isDiagonalHeading = (heading: number): boolean => heading % 2 === 1;
+
+const headingAngle = (heading: number): number => (Math.PI / 4) * heading;
+
+// 基準姿勢での右ターン定義（左ターン・他の方向は対称変換で生成する）
+const BASE_TURNS: TurnDefinition[] = [
+  { turn: 'turn90', start: [1, 0], startHeading: [0, 1], end: [2, 1], endHeading: [1, 0], required: [[2, 1]], tangentScale: 1.2 },
+  { turn: 'large90', start: [1, 0], startHeading: [0, 1], end: [4, 3], endHeading: [1, 0], required: [[1, 2], [2, 3], [4, 3]], tangentScale: 1.2 },
+  // 180度ターンは隣り合う2マスで折り返す（軌跡は区画境界[2, 0]を中心とする半径半マスの半円に近く、90度ターン2回より短い）
+  { turn: 'turn180', start: [1, 0], startHeading: [0, 1], end: [3, 0], endHeading: [0, -1], required: [[2, 1], [3, 0]], tangentScale: 1.9 },
+  { turn: 'turn45in', start: [1, 0], startHeading: [0, 1], end: [2, 3], endHeading: [1, 1], required: [[1, 2], [2, 3]], tangentScale: 1.0 },
+  { turn: 'turn135in', start: [1, 0], startHeading: [0, 1], end: [3, 2], endHeading: [1, -1], required: [[1, 2], [2, 3], [3, 2]], tangentScale: 1.5 },
+  { turn: 'v90', start: [2, 1], startHeading: [1, 1], end: [4, 1], endHeading: [1, -1], required: [[4, 1]], tangentScale: 1.2 },
+];
+
+/**
+ * ターンを逆向きに走行した定義を作成する（斜めへの進入ターンから脱出ターンを作る）
+ */
+const reverseTurn = (definition: TurnDefinition, turn: TurnType): TurnDefinition => {
+  const required = [...definition.required, definition.start]
+    .filter(([x, y]) => x !== definition.end[0] || y !== definition.end[1]);
+  return {
+    turn,
+    start: definition.end,
+    startHeading: [-definition.endHeading[0], -definition.endHeading[1]],
+    end: definition.start,
+    endHeading: [-definition.startHeading[0], -definition.startHeading[1]],
+    required,
+    tangentScale: definition.tangentScale,
+  };
+};
+
+const TURN_DEFINITIONS: TurnDefinition[] = [
+  ...BASE_TURNS,
+  reverseTurn(BASE_TURNS[3], 'turn45out'),
+  reverseTurn(BASE_TURNS[4], 'turn135out'),
+];
+
+// 正方形の対称変換（回転4種 × 反転の有無）
+const SYMMETRIES: ((v: Vec) => Vec)[] = [0, 1, 2, 3].flatMap((rotation) => {
+  const rotate = (v: Vec): Vec => {
+    let [x, y] = v;
+    for (let i = 0; i < rotation; i++) [x, y] = [-y, x];
+    return [x, y];
+  };
+  return [rotate, (v: Vec) => rotate([v[1], v[0]])];
+});
+
+/**
+ * 180度ターンの回転方向を判定する（終了位置が進行方向の左側にあれば左ターン）
+ */
+const isLeftUTurn = (start: Vec, end: Vec, heading: number): boolean => {
+  const [hx, hy] = HEADINGS[heading];
+  return hx * (end[1] - start[1]) - hy * (end[0] - start[0]) > 0;
+};
+
+const TURN_CANDIDATES: TurnCandidate[] = (() => {
+  const candidates: TurnCandidate[] = [];
+  const seen = new Set<string>();
+  for (const definition of TURN_DEFINITIONS) {
+    for (const transform of SYMMETRIES) {
+      const start = transform(definition.start);
+      const end = transform(definition.end);
+      const startHeading = headingIndex(transform(definition.startHeading));
+      const endHeading = headingIndex(transform(definition.endHeading));
+      const offset: Vec = [end[0] - start[0], end[1] - start[1]];
+      const startXEven = start[0] % 2 === 0;
+      const key = `${definition.turn}:${startHeading}:${startXEven}:${offset.join(',')}:${endHeading}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const cross = HEADINGS[startHeading][0] * HEADINGS[endHeading][1] - HEADINGS[startHeading][1] * HEADINGS[endHeading][0];
+      candidates.push({
+        turn: definition.turn,
+        direction: cross > 0 || (cross === 0 && isLeftUTurn(start, end, startHeading)) ? 'left' : 'right',
+        startHeading,
+        startXEven,
+        offset,
+        endHeading,
+        required: definition.required.map((point) => {
+          const transformed = transform(point);
+          return [transformed[0] - start[0], transformed[1] - start[1]] as Vec;
+        }),
+      });
+    }
+  }
+  return candidates;
+})();
+
+/**
+ * エルミート曲線上の点と接線を計算する
+ */
+const hermite = (p0: Vec, m0: Vec, p1: Vec, m1: Vec, t: number): { point: Vec; tangent: Vec } => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const h00 = 2 * t3 - 3 * t2 + 1;
+  const h10 = t3 - 2 * t2 + t;
+  const h01 = -2 * t3 + 3 * t2;
+  const h11 = t3 - t2;
+  const d00 = 6 * t2 - 6 * t;
+  const d10 = 3 * t2 - 4 * t + 1;
+  const d01 = -6 * t2 + 6 * t;
+  const d11 = 3 * t2 - 2 * t;
+  return {
+    point: [
+      h00 * p0[0] + h10 * m0[0] + h01 * p1[0] + h11 * m1[0],
+      h00 * p0[1] + h10 * m0[1] + h01 * p1[1] + h11 * m1[1],
+    ],
+    tangent: [
+      d00 * p0[0] + d10 * m0[0] + d01 * p1[0] + d11 * m1[0],
+      d00 * p0[1] + d10 * m0[1] + d01 * p1[1] + d11 * m1[1],
+    ],
+  };
+};
+
+/**
+ * 2つの姿勢を結ぶターン軌跡の制御点（エルミート曲線の端点と接線）を計算する
+ */
+const turnCurve = (from: TrajectoryElement, to: TrajectoryElement, turn: TurnType) => {
+  const definition = TURN_DEFINITIONS.find((d) => d.turn === turn)!;
+  const chord = Math.hypot(to.position.x - from.position.x, to.position.y - from.position.y);
+  const length = chord * definition.tangentScale;
+  const p0: Vec = [from.position.x, from.position.y];
+  const p1: Vec = [to.position.x, to.position.y];
+  const m0: Vec = [Math.cos(from.angle) * length, Math.sin(from.angle) * length];
+  const m1: Vec = [Math.cos(to.angle) * length, Math.sin(to.angle) * length];
+  return { p0, m0, p1, m1 };
+};
+
+const TURN_LENGTH_SAMPLES = 64;
+
+/**
+ * ターン軌跡を弧長で等間隔に分割するための累積長テーブルを作成する
+ */
+const turnArcTable = (from: TrajectoryElement, to: TrajectoryElement, turn: TurnType): number[] => {
+  const { p0, m0, p1, m1 } = turnCurve(from, to, turn);
+  const table = [0];
+  let previous = p0;
+  for (let i = 1; i <= TURN_LENGTH_SAMPLES; i++) {
+    const { point } = hermite(p0, m0, p1, m1, i / TURN_LENGTH_SAMPLES);
+    table.push(table[i - 1] + Math.hypot(point[0] - previous[0], point[1] - previous[1]));
+    previous = point;
+  }
+  return table;
+};
+
+// ターンごとの軌跡長[m]（形状は対称変換で不変なので基準姿勢で計算する）
+const TURN_DISTANCES = new Map<TurnType, number>(TURN_DEFINITIONS.map((definition) => {
+  const toPose = (position: Vec, heading: Vec): TrajectoryElement => ({
+    position: { x: position[0] * HALF_CELL, y: position[1] * HALF_CELL },
+    angle: Math.atan2(heading[1], heading[0]),
+  });
+  const table = turnArcTable(
+    toPose(definition.start, definition.startHeading),
+    toPose(definition.end, definition.endHeading),
+    definition.turn
+  );
+  return [definition.turn, table[table.length - 1]];
+}));
+
+/**
+ * ターンの軌跡長を取得する
+ * @param turn ターンの種類
+ * @returns 軌跡長[m]
+ */
+export const getTurnDistance = (turn: TurnType): number => TURN_DISTANCES.get(turn)!;
+
+/**
+ * 台形加減速で直線を走行する時間を計算する
+ * 加速度制限内で開始・終了速度に到達できない短い区間は、到達できる速度で近似する
+ * @param distance 走行距離[m]
+ * @param startSpeed 開始速度[m/s]
+ * @param endSpeed 終了速度[m/s]
+ * @param maxSpeed 最高速度[m/s]
+ * @param acceleration 加減速度[m/s^2]
+ * @returns 所要時間[s]
+ */
+export const estimateStraightTime = (
+  distance: number,
+  startSpeed: number,
+  endSpeed: number,
+  maxSpeed: number,
+  acceleration: number
+): number => {
+  const profile = straightProfile(distance, startSpeed, endSpeed, maxSpeed, acceleration);
+  return profile.accelTime + profile.cruiseTime + profile.decelTime;
+};
+
+/**
+ * 台形加減速プロファイルを計算する
+ */
+const straightProfile = (
+  distance: number,
+  startSpeed: number,
+  endSpeed: number,
+  maxSpeed: number,
+  acceleration: number
+) => {
+  if (distance <= 0) {
+    return { peakSpeed: startSpeed, accelTime: 0, cruiseTime: 0, decelTime: 0, startSpeed, endSpeed };
+  }
+  // 到達できない速度は距離と加速度から決まる上限に丸める
+  const reachableEnd = Math.sqrt(startSpeed * startSpeed + 2 * acceleration * distance);
+  const adjustedEnd = Math.min(endSpeed, reachableEnd);
+  const reachableStart = Math.sqrt(adjustedEnd * adjustedEnd + 2 * acceleration * distance);
+  const adjustedStart = Math.min(startSpeed, reachableStart);
+
+  const peakSpeed = Math.max(
+    Math.min(maxSpeed, Math.sqrt((2 * acceleration * distance + adjustedStart ** 2 + adjustedEnd ** 2) / 2)),
+    adjustedStart,
+    adjustedEnd
+  );
+  const accelDistance = (peakSpeed ** 2 - adjustedStart ** 2) / (2 * acceleration);
+  const decelDistance = (peakSpeed ** 2 - adjustedEnd ** 2) / (2 * acceleration);
+  const cruiseDistance = Math.max(0, distance - accelDistance - decelDistance);
+  return {
+    peakSpeed,
+    accelTime: (peakSpeed - adjustedStart) / acceleration,
+    cruiseTime: peakSpeed > 0 ? cruiseDistance / peakSpeed : 0,
+    decelTime: (peakSpeed - adjustedEnd) / acceleration,
+    startSpeed: adjustedStart,
+    endSpeed: adjustedEnd,
+  };
+};
+
+/**
+ * 最小ヒープ（ダイクストラ法用）
+ */
+class MinHeap {
+  private items: { cost: number; state: number }[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(cost: number, state: number) {
+    const items = this.items;
+    items.push({ cost, state });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].cost <= items[i].cost) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop() {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop()!;
+    if (items.length > 0) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = i * 2 + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].cost < items[smallest].cost) smallest = left;
+        if (right < items.length && items[right].cost < items[smallest].cost) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+// 探索状態のフェーズ（直前の動作要素）
+const PHASE_TURNED = 0;   // ターン直後（直進・ターンのどちらも可能）
+const PHASE_STRAIGHT = 1; // 直進直後（次はターンのみ）
+
+/**
+ * スタートからゴールまでの最短時間経路を計算する
+ * ゴール区画に進入し、区画内（直進で進入した場合はマスの中心）で停止するまでを経路とする
+ * @param mazeData MazeDataオブジェクト
+ * @param options コストモデルとスタート時の向き
+ * @returns 計画した経路（ゴールに到達できない場合はnull）
+ */
+export const planFastestPath = (
+  mazeData: MazeData,
+  options: PathPlannerOptions = {}
+): PlannedPath | null => {
+  const costModel: PathCostModel = { ...DEFAULT_PATH_COST_MODEL, ...options.costModel };
+  const { width, height } = getMazeDimensions(mazeData);
+  const { vwall, hwall } = mazeData.walls;
+  const gridWidth = width * 2 + 1;
+  const gridHeight = height * 2 + 1;
+
+  const isGoalCell = (cx: number, cy: number) =>
+    mazeData.goal.some((goal) => goal.x === cx && goal.y === cy);
+
+  // 半マス座標の区画境界に壁がなく通過できるか
+  const isOpen = (px: number, py: number): boolean => {
+    if (px <= 0 || py <= 0 || px >= gridWidth - 1 || py >= gridHeight - 1) return false;
+    if (px % 2 === 0 && py % 2 === 1) return !vwall[(py - 1) / 2]?.[px / 2];
+    if (px % 2 === 1 && py % 2 === 0) return !hwall[py / 2]?.[(px - 1) / 2];
+    return false;
+  };
+
+  // ノードから進行方向に進入するマスがゴールか
+  const entersGoal = (px: number, py: number, heading: number): boolean => {
+    const [hx, hy] = HEADINGS[heading];
+    const [cx, cy] = px % 2 === 0 ? [px + hx, py] : [px, py + hy];
+    return isGoalCell((cx - 1) / 2, (cy - 1) / 2);
+  };
+
+  const toPose = (px: number, py: number, heading: number): TrajectoryElement => ({
+    position: { x: px * HALF_CELL, y: py * HALF_CELL },
+    angle: headingAngle(heading),
+  });
+
+  // 区画境界のノードから直進でゴール区画に進入した場合の停止位置
+  // （直進はマスの中心、斜めは区画境界から斜めに1/4マス進んだ点で、どちらもゴール区画の内側）
+  const goalStopPose = (px: number, py: number, heading: number): TrajectoryElement => {
+    const [hx, hy] = HEADINGS[heading];
+    const scale = isDiagonalHeading(heading) ? 0.5 : 1;
+    return toPose(px + hx * scale, py + hy * scale, heading);
+  };
+
+  // スタート姿勢
+  const startCenter: Vec = [mazeData.start.x * 2 + 1, mazeData.start.y * 2 + 1];
+  const headingNames = { east: 0, north: 2, west: 4, south: 6 } as const;
+  const startHeading = options.startHeading !== undefined
+    ? headingNames[options.startHeading]
+    : [2, 0, 6, 4].find((heading) => isOpen(startCenter[0] + HEADINGS[heading][0], startCenter[1] + HEADINGS[heading][1])) ?? 2;
+  const start = toPose(startCenter[0], startCenter[1], startHeading);
+
+  if (isGoalCell(mazeData.start.x, mazeData.start.y)) {
+    return { primitives: [], totalTime: 0, start };
+  }
+
+  // 状態番号: ((py * gridWidth + px) * 8 + heading) * 2 + phase、最後の番号をゴールとする
+  const stateCount = gridWidth * gridHeight * 16;
+  const goalState = stateCount;
+  const startState = stateCount + 1;
+  const encode = (px: number, py: number, heading: number, phase: number) =>
+    ((py * gridWidth + px) * 8 + heading) * 2 + phase;
+  const decode = (state: number) => {
+    const phase = state % 2;
+    const heading = Math.floor(state / 2) % 8;
+    const node = Math.floor(state / 16);
+    return { px: node % gridWidth, py: Math.floor(node / gridWidth), heading, phase };
+  };
+
+  const costs = new Float64Array(stateCount + 2).fill(Infinity);
+  const previous = new Map<number, { state: number; primitive: MotionPrimitive }>();
+  const heap = new MinHeap();
+  costs[startState] = 0;
+  heap.push(0, startState);
+
+  const relax = (from: number, to: number, primitive: MotionPrimitive) => {
+    const cost = costs[from] + primitive.duration;
+    if (cost >= costs[to]) return;
+    costs[to] = cost;
+    previous.set(to, { state: from, primitive });
+    heap.push(cost, to);
+  };
+
+  const straight = (
+    fromPose: TrajectoryElement,
+    toPose: TrajectoryElement,
+    diagonal: boolean,
+    cells: number,
+    startSpeed: number,
+    endSpeed: number
+  ): StraightPrimitive => {
+    const distance = Math.hypot(toPose.position.x - fromPose.position.x, toPose.position.y - fromPose.position.y);
+    const maxSpeed = diagonal ? costModel.diagonalSpeed : costModel.straightSpeed;
+    return {
+      type: 'straight',
+      diagonal,
+      cells,
+      distance,
+      startSpeed,
+      endSpeed,
+      maxSpeed,
+      acceleration: costModel.acceleration,
+      duration: estimateStraightTime(distance, startSpeed, endSpeed, maxSpeed, costModel.acceleration),
+      from: fromPose,
+      to: toPose,
+    };
+  };
+
+  // 直進・斜め直進を展開する（開始速度から各ノードまで）
+  const expandStraights = (from: number, px: number, py: number, heading: number, startSpeed: number, initialStep: number) => {
+    const diagonal = isDiagonalHeading(heading);
+    const [hx, hy] = HEADINGS[heading];
+    const step = diagonal ? 1 : 2;
+    const fromPose = toPose(px, py, heading);
+    let [x, y] = [px + hx * initialStep, py + hy * initialStep];
+    let count = diagonal ? 1 : initialStep / 2;
+    while (isOpen(x, y)) {
+      const endPose = toPose(x, y, heading);
+      relax(from, encode(x, y, heading, PHASE_STRAIGHT), straight(fromPose, endPose, diagonal, count, startSpeed, costModel.turnSpeed));
+      if (entersGoal(x, y, heading)) {
+        // ゴール区画の内側まで進んでから停止する
+        const stopCount = diagonal ? count : count + 0.5;
+        relax(from, goalState, straight(fromPose, goalStopPose(x, y, heading), diagonal, stopCount, startSpeed, 0));
+      }
+      x += hx * step;
+      y += hy * step;
+      count += 1;
+    }
+  };
+
+  while (heap.size > 0) {
+    const { cost, state } = heap.pop();
+    if (cost > costs[state]) continue;
+    if (state === goalState) break;
+
+    if (state === startState) {
+      // スタートマスの中心から半マス進んだ区画境界以降へ
+      expandStraights(state, startCenter[0], startCenter[1], startHeading, 0, 1);
+      continue;
+    }
+
+    const { px, py, heading, phase } = decode(state);
+    const pose = toPose(px, py, heading);
+
+    if (phase === PHASE_TURNED) {
+      expandStraights(state, px, py, heading, costModel.turnSpeed, isDiagonalHeading(heading) ? 1 : 2);
+      // ターン直後にゴールへ進入している場合はその場で減速して停止する
+      // （減速距離がゴール区画内の停止位置を越える場合は停止位置で止まる）
+      if (entersGoal(px, py, heading)) {
+        const goalStop = goalStopPose(px, py, heading);
+        const stopDistance = Math.min(
+          costModel.turnSpeed ** 2 / (2 * costModel.acceleration),
+          Math.hypot(goalStop.position.x - pose.position.x, goalStop.position.y - pose.position.y)
+        );
+        const stopPose: TrajectoryElement = {
+          position: {
+            x: pose.position.x + Math.cos(pose.angle) * stopDistance,
+            y: pose.position.y + Math.sin(pose.angle) * stopDistance,
+          },
+          angle: pose.angle,
+        };
+        relax(state, goalState, straight(pose, stopPose, isDiagonalHeading(heading), 0, costModel.turnSpeed, 0));
+      }
+    }
+
+    const xEven = px % 2 === 0;
+    for (const candidate of TURN_CANDIDATES) {
+      if (candidate.startHeading !== heading || candidate.startXEven !== xEven) continue;
+      if (!candidate.required.every(([dx, dy]) => isOpen(px + dx, py + dy))) continue;
+      const ex = px + candidate.offset[0];
+      const ey = py + candidate.offset[1];
+      const distance = getTurnDistance(candidate.turn);
+      relax(state, encode(ex, ey, candidate.endHeading, PHASE_TURNED), {
+        type: 'turn',
+        turn: candidate.turn,
+        direction: candidate.direction,
+        speed: costModel.turnSpeed,
+        distance,
+        duration: costModel.turnTimes?.[candidate.turn] ?? distance / costModel.turnSpeed,
+        from: pose,
+        to: toPose(ex, ey, candidate.endHeading),
+      });
+    }
+  }
+
+  if (costs[goalState] === Infinity) {
+    return null;
+  }
+
+  const primitives: MotionPrimitive[] = [];
+  for (let state = goalState; state !== startState;) {
+    const entry = previous.get(state)!;
+    primitives.push(entry.primitive);
+    state = entry.state;
+  }
+  primitives.reverse();
+
+  return { primitives, totalTime: costs[goalState], start };
+};
+
+/**
+ * 経路の通過マスを列挙する（各動作要素の終了位置が含まれるマス）
+ * @param plan 計画した経路
+ * @returns 通過するマスの座標列
+ */
+export const getPlannedPathCells = (plan: PlannedPath): CellPosition[] => {
+  const toCell = (pose: TrajectoryElement): CellPosition => ({
+    x: Math.floor(pose.position.x / CELL_SIZE + Math.cos(pose.angle) * 0.25),
+    y: Math.floor(pose.position.y / CELL_SIZE + Math.sin(pose.angle) * 0.25),
+  });
+  return [toCell(plan.start), ...plan.primitives.map((primitive) => toCell(primitive.to))];
+};
+
+/** 軌道プロファイル変換のオプション */
+export interface PrimitivesToTrajectoryOptions {
+  sampleInterval?: number; // サンプリング間隔[s]（デフォルト: 0.01）
+  startTime?: number;      // 開始時刻[s]（デフォルト: 0）
+}
+
+/**
+ * 計画した経路の動作要素列をTrajectoryProfileに変換する
+ * 直進は台形加減速、ターンは一定速度で軌跡上を移動するものとしてサンプリングする
+ * @param plan 計画した経路
+ * @param options サンプリング間隔と開始時刻
+ * @returns TrajectoryAnimationControllerで再生できる軌道プロファイル
+ */
+export const primitivesToTrajectoryProfile = (
+  plan: PlannedPath,
+  options: PrimitivesToTrajectoryOptions = {}
+): TrajectoryProfile => {
+  const { sampleInterval = 0.01, startTime = 0 } = options;
+  const profile: TrajectoryProfile = new Map();
+  let time = startTime;
+  profile.set(time, { position: { ...plan.start.position }, angle: plan.start.angle });
+
+  for (const primitive of plan.primitives) {
+    const samples = Math.max(1, Math.ceil(primitive.duration / sampleInterval));
+
+    if (primitive.type === 'straight') {
+      const { distance } = primitive;
+      const { startSpeed, peakSpeed, accelTime, cruiseTime } = straightProfile(
+        distance, primitive.startSpeed, primitive.endSpeed, primitive.maxSpeed, primitive.acceleration
+      );
+      const acceleration = primitive.acceleration;
+      const accelDistance = (startSpeed + peakSpeed) / 2 * accelTime;
+      // 時刻tまでの走行距離（加速→等速→減速）
+      const distanceAt = (t: number) => {
+        if (t <= accelTime) return startSpeed * t + 0.5 * acceleration * t * t;
+        if (t <= accelTime + cruiseTime) return accelDistance + peakSpeed * (t - accelTime);
+        const decelT = t - accelTime - cruiseTime;
+        return accelDistance + peakSpeed * cruiseTime + peakSpeed * decelT - 0.5 * acceleration * decelT * decelT;
+      };
+      const dx = primitive.to.position.x - primitive.from.position.x;
+      const dy = primitive.to.position.y - primitive.from.position.y;
+      for (let i = 1; i <= samples; i++) {
+        const t = primitive.duration * (i / samples);
+        const ratio = distance > 0 ? Math.min(1, distanceAt(t) / distance) : 1;
+        profile.set(time + t, {
+          position: { x: primitive.from.position.x + dx * ratio, y: primitive.from.position.y + dy * ratio },
+          angle: primitive.from.angle,
+        });
+      }
+    } else {
+      const { p0, m0, p1, m1 } = turnCurve(primitive.from, primitive.to, primitive.turn);
+      const table = turnArcTable(primitive.from, primitive.to, primitive.turn);
+      const total = table[table.length - 1];
+      for (let i = 1; i <= samples; i++) {
+        // 弧長が等間隔になる曲線パラメータを累積長テーブルから求める
+        const target = total * (i / samples);
+        let index = 1;
+        while (index < TURN_LENGTH_SAMPLES && table[index] < target) index++;
+        const segment = table[index] - table[index - 1];
+        const local = segment > 0 ? (target - table[index - 1]) / segment : 0;
+        const u = (index - 1 + local) / TURN_LENGTH_SAMPLES;
+        const { point, tangent } = hermite(p0, m0, p1, m1, u);
+        profile.set(time + primitive.duration * (i / samples), {
+          position: { x: point[0], y: point[1] },
+          angle: i === samples ? primitive.to.angle : Math.atan2(tangent[1], tangent[0]),
+        });
+      }
+    }
+
+    time += primitive.duration;
+  }
+
+  return profile;
+};
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { TrajectoryElement, TrajectoryProfile } from '../types';
+import { CELL_SIZE } from '../config/constants';
+import {
+  computeTrajectoryOffsets,
+  interpolateAngle,
+  normalizeTrajectoryTime,
+  sampleTrajectory,
+  TrajectoryInterpolation,
+} from './trajectory';
+
+// [時刻, x, 角度]の組から軌道プロファイルを作成する（yは0）
+const createProfile = (keyframes: [number, number, number, Partial<TrajectoryElement>?][]): TrajectoryProfile =>
+  new Map(keyframes.map(([time, x, angle, extra]) => [time, { position: { x, y: 0 }, angle, ...extra }]));
+
+const sortedTimes = (profile: TrajectoryProfile): number[] => Array.from(profile.keys()).sort((a, b) => a - b);
+
+const sample = (profile: TrajectoryProfile, time: number, interpolation: TrajectoryInterpolation) =>
+  sampleTrajectory(profile, sortedTimes(profile), time, interpolation)!;
+
+describe('sampleTrajectory', () => {
+  // x = 0, 1, 3, 6 と加速する軌道
+  const profile = createProfile([[0, 0, 0], [1, 1, 0], [2, 3, 1], [3, 6, 1]]);
+
+  it.each<TrajectoryInterpolation>(['linear', 'catmullRom', 'hermite', 'step'])('%sはキーフレームの時刻でキーフレームの値になる', (interpolation) => {
+    for (const [time, x, angle] of [[0, 0, 0], [1, 1, 0], [2, 3, 1], [3, 6, 1]]) {
+      const state = sample(profile, time, interpolation);
+      expect(state.position.x).toBeCloseTo(x, 12);
+      expect(state.angle).toBeCloseTo(angle, 12);
+    }
+  });
+
+  it('範囲外の時刻は最初または最後のキーフレームになる', () => {
+    expect(sample(profile, -1, 'catmullRom').position.x).toBe(0);
+    expect(sample(profile, 10, 'catmullRom').position.x).toBe(6);
+    expect(sampleTrajectory(new Map(), [], 0)).toBeNull();
+  });
+
+  it('linearはキーフレーム間を直線で補間する', () => {
+    const state = sample(profile, 1.5, 'linear');
+
+    expect(state.position.x).toBeCloseTo(2, 12);
+    expect(state.angle).toBeCloseTo(0.5, 12);
+  });
+
+  it('stepは次のキーフレームまで直前の状態を保持する', () => {
+    expect(sample(profile, 1.5, 'step')).toEqual({ position: { x: 1, y: 0 }, angle: 0 });
+    expect(sample(profile, 1.999, 'step').position.x).toBe(1);
+  });
+
+  it('catmullRomは前後のキーフレームの差分を接線として補間する', () => {
+    // 接線は(3 - 0) / 2 = 1.5と(6 - 1) / 2 = 2.5、角度の接線はどちらも(1 - 0) / 2 = 0.5
+    const state = sample(profile, 1.5, 'catmullRom');
+
+    expect(state.position.x).toBeCloseTo(0.5 * 1 + 0.125 * 1.5 + 0.5 * 3 - 0.125 * 2.5, 12);
+    expect(state.angle).toBeCloseTo(0.5, 12);
+  });
+
+  it('hermiteは速度・角速度がない場合はcatmullRomと同じ値になる', () => {
+    expect(sample(profile, 1.25, 'hermite')).toEqual(sample(profile, 1.25, 'catmullRom'));
+  });
+
+  it('hermiteは記録された速度・角速度を接線として補間する', () => {
+    const withVelocity = createProfile([
+      [0, 0, 0],
+      [1, 1, 0, { velocity: { x: 2, y: 0 }, angularVelocity: 2 }],
+      [2, 3, 1, { velocity: { x: 0, y: 0 }, angularVelocity: 0 }],
+      [3, 6, 1],
+    ]);
+
+    const state = sample(withVelocity, 1.5, 'hermite');
+
+    expect(state.position.x).toBeCloseTo(0.5 * 1 + 0.125 * 2 + 0.5 * 3, 12);
+    expect(state.angle).toBeCloseTo(0.125 * 2 + 0.5, 12);
+    // catmullRomは記録された速度を使用しない
+    expect(sample(withVelocity, 1.5, 'catmullRom').position.x).toBeCloseTo(1.875, 12);
+  });
+
+  it.each<TrajectoryInterpolation>(['linear', 'catmullRom', 'hermite'])('%sは角度を±πをまたぐ最短経路で補間する', (interpolation) => {
+    // 3rad → -3radは正の向きに2π - 6rad回転する
+    const wrapping = createProfile([[0, 0, 3], [1, 0, -3]]);
+    const delta = 2 * Math.PI - 6;
+
+    expect(sample(wrapping, 0.25, interpolation).angle).toBeCloseTo(3 + delta * 0.25, 12);
+    expect(sample(wrapping, 0.75, interpolation).angle).toBeCloseTo(3 + delta * 0.75 - 2 * Math.PI, 12);
+  });
+});
+
+describe('interpolateAngle', () => {
+  it('角度差が半周未満の向きに補間し、結果を-πからπの範囲に収める', () => {
+    expect(interpolateAngle(0, Math.PI / 2, 0.5)).toBeCloseTo(Math.PI / 4, 12);
+    expect(interpolateAngle(-3, 3, 0.25)).toBeCloseTo(-3 - (2 * Math.PI - 6) * 0.25, 12);
+  });
+});
+
+describe('normalizeTrajectoryTime', () => {
+  const profile = createProfile([[1000000, 0, 0], [1500000, 1, 0]]);
+
+  it('単位が秒で基準がabsoluteの場合は元のプロファイルを返す', () => {
+    expect(normalizeTrajectoryTime(profile)).toBe(profile);
+  });
+
+  it.each([
+    ['us', 'absolute', [1, 1.5]],
+    ['us', 'firstSample', [0, 0.5]],
+    ['ms', 'absolute', [1000, 1500]],
+    ['ms', 'firstSample', [0, 500]],
+    ['s', 'firstSample', [0, 500000]],
+  ] as const)('%sの時刻を%s基準の秒に変換する', (timeUnit, timeOrigin, expected) => {
+    const normalized = normalizeTrajectoryTime(profile, { timeUnit, timeOrigin });
+    const times = sortedTimes(normalized);
+
+    expect(times).toHaveLength(expected.length);
+    times.forEach((time, i) => expect(time).toBeCloseTo(expected[i], 9));
+    // キーフレームの値はそのまま
+    expect(normalized.get(times[1])?.position.x).toBe(1);
+  });
+
+  it('未対応の単位は例外を投げる', () => {
+    // @ts-expect-error 未対応の単位
+    expect(() => normalizeTrajectoryTime(profile, { timeUnit: 'ns' })).toThrow('未対応の時刻の単位です: ns');
+  });
+});
+
+describe('computeTrajectoryOffsets', () => {
+  const inStart = CELL_SIZE / 2;
+  const outside = CELL_SIZE * 1.5;
+  // 0秒から記録し2秒にスタートセルを出る軌道と、5秒から記録し6秒に出る軌道
+  const trajectories = [
+    createProfile([[0, inStart, 0], [1, inStart, 0], [2, outside, 0]]),
+    createProfile([[5, inStart, 0], [6, outside, 0], [7, outside, 0]]),
+  ].map((trajectoryProfile) => ({ trajectoryProfile, sortedTimestamps: sortedTimes(trajectoryProfile) }));
+
+  it('noneはオフセットなし、startは最初のキーフレームの時刻をオフセットとする', () => {
+    expect(computeTrajectoryOffsets(trajectories, 'none')).toEqual([0, 0]);
+    expect(computeTrajectoryOffsets(trajectories, 'start')).toEqual([0, 5]);
+  });
+
+  it('leaveStartCellはスタートセルを出た時刻を同じ再生時刻に揃える', () => {
+    const offsets = computeTrajectoryOffsets(trajectories, 'leaveStartCell', { x: 0, y: 0 });
+
+    // 再生時刻2秒で両方の軌道がスタートセルを出る
+    expect(offsets).toEqual([0, 4]);
+  });
+});
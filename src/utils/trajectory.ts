@@ -0,0 +1,534 @@
+/**
+ * 軌道プロファイルの補間・時刻合わせユーティリティ
+ * Reactに依存しない純粋関数として実装し、フックやコンポーネントから共通で使用する
+ */
+import { CellPosition, MouseState, TrajectoryChannels, TrajectoryElement, TrajectoryProfile } from '../types';
+import { CELL_SIZE } from '../config/constants';
+import { TIME_UNIT_SCALE, TimeUnit } from './trajectoryImporters';
+
+/**
+ * 二分探索で時間に対応するインデックスを検索する
+ * 通常のforループよりも高速（O(log n)のアルゴリズム）
+ * @param timestamps 昇順に並んだ時刻の配列
+ * @param time 時刻
+ * @returns timestamps[i] <= time < timestamps[i + 1] となるインデックスi（範囲外の場合は端のインデックス）
+ */
+export const binarySearchTimeIndex = (timestamps: ArrayLike<number>, time: number): number => {
+  // timestamps配列内でtimeが入るべき位置を二分探索
+  let left = 0;
+  let right = timestamps.length - 1;
+
+  // 端点のケース
+  if (time <= timestamps[0]) return 0;
+  if (time >= timestamps[right]) return right;
+
+  // 二分探索
+  while (left <= right) {
+    const mid = Math.floor((left + right) / 2);
+
+    if (timestamps[mid] <= time && time < timestamps[mid + 1]) {
+      return mid; // timeはtimestamps[mid]とtimestamps[mid+1]の間にある
+    }
+
+    if (timestamps[mid] < time) {
+      left = mid + 1;
+    } else {
+      right = mid - 1;
+    }
+  }
+
+  // 見つからない場合（通常はここに到達しない）
+  return 0;
+};
+
+/**
+ * 角度を線形補間する関数
+ * 角度は-πからπの範囲にあるため、最短経路で補間する
+ * @param a1 開始角度[rad]
+ * @param a2 終了角度[rad]
+ * @param t 補間係数(0-1)
+ * @returns 補間した角度[rad]
+ */
+export const interpolateAngle = (a1: number, a2: number, t: number): number => {
+  // 角度の差を-πからπの範囲に正規化
+  const diff = ((a2 - a1 + Math.PI * 3) % (Math.PI * 2)) - Math.PI;
+
+  // 補間した角度を-πからπの範囲に正規化
+  return ((a1 + diff * t + Math.PI * 3) % (Math.PI * 2)) - Math.PI;
+};
+
+/**
+ * 軌道の補間方法
+ * - linear: キーフレーム間を直線で補間する
+ * - catmullRom: 前後のキーフレームから求めた接線で3次補間する（Catmull-Romスプライン）
+ * - hermite: キーフレームの速度・角速度を接線として3次補間する（速度がない場合はcatmullRomと同じ接線を使用）
+ * - step: 次のキーフレームまで直前の状態を保持する
+ */
+export type TrajectoryInterpolation = 'linear' | 'catmullRom' | 'hermite' | 'step';
+
+// 角度の差を-πからπの範囲に正規化する
+const normalizeAngleDiff = (diff: number): number =>
+  ((diff + Math.PI * 3) % (Math.PI * 2)) - Math.PI;
+
+// 3次エルミート補間（m0, m1は区間の長さを掛けた接線）
+const hermite = (p0: number, p1: number, m0: number, m1: number, t: number): number => {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  return (2 * t3 - 3 * t2 + 1) * p0 + (t3 - 2 * t2 + t) * m0 + (-2 * t3 + 3 * t2) * p1 + (t3 - t2) * m1;
+};
+
+/**
+ * キーフレームでの速度・角速度を前後のキーフレームとの差分から推定する
+ * 端のキーフレームでは片側の差分を使用する
+ */
+const estimateDerivative = (
+  trajectoryProfile: TrajectoryProfile,
+  sortedTimestamps: number[],
+  index: number
+): { x: number; y: number; angle: number } => {
+  const prevIndex = Math.max(0, index - 1);
+  const nextIndex = Math.min(sortedTimestamps.length - 1, index + 1);
+  const dt = sortedTimestamps[nextIndex] - sortedTimestamps[prevIndex];
+  if (dt <= 0) {
+    return { x: 0, y: 0, angle: 0 };
+  }
+  const prev = trajectoryProfile.get(sortedTimestamps[prevIndex])!;
+  const next = trajectoryProfile.get(sortedTimestamps[nextIndex])!;
+  return {
+    x: (next.position.x - prev.position.x) / dt,
+    y: (next.position.y - prev.position.y) / dt,
+    // 前後のキーフレームの角度差は半周未満とみなす
+    angle: normalizeAngleDiff(next.angle - prev.angle) / dt,
+  };
+};
+
+/**
+ * 指定時刻のマウス状態を軌道プロファイルから補間して求める
+ * 範囲外の時刻は最初または最後の状態とする
+ * @param trajectoryProfile 軌道プロファイル
+ * @param sortedTimestamps 昇順に並んだプロファイルの時刻
+ * @param time 時刻[s]
+ * @param interpolation 補間方法（デフォルト: 'linear'）
+ * @returns マウス状態（プロファイルが空の場合はnull）
+ */
+export const sampleTrajectory = (
+  trajectoryProfile: TrajectoryProfile,
+  sortedTimestamps: number[],
+  time: number,
+  interpolation: TrajectoryInterpolation = 'linear'
+): MouseState | null => {
+  if (sortedTimestamps.length === 0) {
+    return null;
+  }
+
+  // 時間が最小値以下の場合は最初の状態
+  if (time <= sortedTimestamps[0]) {
+    const firstElement = trajectoryProfile.get(sortedTimestamps[0])!;
+    return { position: { ...firstElement.position }, angle: firstElement.angle };
+  }
+
+  // 時間が最大値以上の場合は最後の状態
+  if (time >= sortedTimestamps[sortedTimestamps.length - 1]) {
+    const lastElement = trajectoryProfile.get(sortedTimestamps[sortedTimestamps.length - 1])!;
+    return { position: { ...lastElement.position }, angle: lastElement.angle };
+  }
+
+  // 二分探索で現在の時刻を挟む前後のキーフレームを効率的に見つける
+  const beforeIndex = binarySearchTimeIndex(sortedTimestamps, time);
+  const beforeTime = sortedTimestamps[beforeIndex];
+  const afterTime = sortedTimestamps[beforeIndex + 1];
+
+  const beforeElement = trajectoryProfile.get(beforeTime)!;
+  const afterElement = trajectoryProfile.get(afterTime)!;
+
+  // 次のキーフレームまで直前の状態を保持する
+  if (interpolation === 'step') {
+    return { position: { ...beforeElement.position }, angle: beforeElement.angle };
+  }
+
+  // 前後のキーフレーム間での位置の割合を計算
+  const t = (time - beforeTime) / (afterTime - beforeTime);
+
+  if (interpolation === 'linear') {
+    // 線形補間で現在の位置と角度を計算
+    return {
+      position: {
+        x: beforeElement.position.x + (afterElement.position.x - beforeElement.position.x) * t,
+        y: beforeElement.position.y + (afterElement.position.y - beforeElement.position.y) * t,
+      },
+      angle: interpolateAngle(beforeElement.angle, afterElement.angle, t),
+    };
+  }
+
+  // 3次補間の接線を求める（hermiteでは記録された速度を優先する）
+  const beforeEstimate = estimateDerivative(trajectoryProfile, sortedTimestamps, beforeIndex);
+  const afterEstimate = estimateDerivative(trajectoryProfile, sortedTimestamps, beforeIndex + 1);
+  const useRecorded = interpolation === 'hermite';
+  const beforeVelocity = (useRecorded && beforeElement.velocity) || beforeEstimate;
+  const afterVelocity = (useRecorded && afterElement.velocity) || afterEstimate;
+  const beforeAngularVelocity = (useRecorded ? beforeElement.angularVelocity : undefined) ?? beforeEstimate.angle;
+  const afterAngularVelocity = (useRecorded ? afterElement.angularVelocity : undefined) ?? afterEstimate.angle;
+
+  // 角度は区間の始点からの差分で補間し、-πからπの範囲に戻す
+  const dt = afterTime - beforeTime;
+  const angleDelta = normalizeAngleDiff(afterElement.angle - beforeElement.angle);
+  const angle = beforeElement.angle + hermite(0, angleDelta, beforeAngularVelocity * dt, afterAngularVelocity * dt, t);
+
+  return {
+    position: {
+      x: hermite(beforeElement.position.x, afterElement.position.x, beforeVelocity.x * dt, afterVelocity.x * dt, t),
+      y: hermite(beforeElement.position.y, afterElement.position.y, beforeVelocity.y * dt, afterVelocity.y * dt, t),
+    },
+    angle: normalizeAngleDiff(angle),
+  };
+};
+
+// 片方のキーフレームにしか値がない場合はその値を保持し、両方にある場合は線形補間する
+const lerpOptional = (a: number | undefined, b: number | undefined, t: number): number | undefined => {
+  if (a === undefined) return b;
+  if (b === undefined) return a;
+  return a + (b - a) * t;
+};
+
+const lerpOptionalVector = (
+  a: { x: number; y: number } | undefined,
+  b: { x: number; y: number } | undefined,
+  t: number
+): { x: number; y: number } | undefined => {
+  if (!a) return b && { ...b };
+  if (!b) return { ...a };
+  return { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t };
+};
+
+const lerpChannels = (
+  a: TrajectoryChannels | undefined,
+  b: TrajectoryChannels | undefined,
+  t: number
+): TrajectoryChannels | undefined => {
+  if (!a) return b && { ...b };
+  if (!b) return { ...a };
+  const channels: TrajectoryChannels = { ...b };
+  for (const name of Object.keys(a)) {
+    channels[name] = lerpOptional(a[name], b[name], t)!;
+  }
+  return channels;
+};
+
+// キーフレームの値を複製する（補間結果が元のプロファイルと値を共有しないようにする）
+const cloneTrajectoryElement = (element: TrajectoryElement): TrajectoryElement => ({
+  ...element,
+  position: { ...element.position },
+  velocity: element.velocity && { ...element.velocity },
+  acceleration: element.acceleration && { ...element.acceleration },
+  channels: element.channels && { ...element.channels },
+});
+
+/**
+ * 指定時刻の軌道の値を、位置・角度だけでなく速度などの運動量やチャンネルも含めて補間して求める
+ * 位置・角度は指定した補間方法、その他の値は線形補間（stepの場合は直前の値）とし、
+ * アルゴリズムの状態は常に直前のキーフレームの値とする
+ * @param trajectoryProfile 軌道プロファイル
+ * @param sortedTimestamps 昇順に並んだプロファイルの時刻
+ * @param time 時刻[s]
+ * @param interpolation 位置・角度の補間方法（デフォルト: 'linear'）
+ * @returns 補間した値（プロファイルが空の場合はnull）
+ */
+export const sampleTrajectoryElement = (
+  trajectoryProfile: TrajectoryProfile,
+  sortedTimestamps: number[],
+  time: number,
+  interpolation: TrajectoryInterpolation = 'linear'
+): TrajectoryElement | null => {
+  const pose = sampleTrajectory(trajectoryProfile, sortedTimestamps, time, interpolation);
+  if (!pose) {
+    return null;
+  }
+
+  const lastIndex = sortedTimestamps.length - 1;
+  if (time <= sortedTimestamps[0] || time >= sortedTimestamps[lastIndex]) {
+    const edgeElement = trajectoryProfile.get(sortedTimestamps[time <= sortedTimestamps[0] ? 0 : lastIndex])!;
+    return { ...cloneTrajectoryElement(edgeElement), ...pose };
+  }
+
+  const beforeIndex = binarySearchTimeIndex(sortedTimestamps, time);
+  const beforeTime = sortedTimestamps[beforeIndex];
+  const afterTime = sortedTimestamps[beforeIndex + 1];
+  const before = trajectoryProfile.get(beforeTime)!;
+  const after = trajectoryProfile.get(afterTime)!;
+  const t = interpolation === 'step' ? 0 : (time - beforeTime) / (afterTime - beforeTime);
+
+  const element: TrajectoryElement = {
+    position: pose.position,
+    angle: pose.angle,
+  };
+  const velocity = lerpOptionalVector(before.velocity, after.velocity, t);
+  if (velocity) element.velocity = velocity;
+  const angularVelocity = lerpOptional(before.angularVelocity, after.angularVelocity, t);
+  if (angularVelocity !== undefined) element.angularVelocity = angularVelocity;
+  const speed = lerpOptional(before.speed, after.speed, t);
+  if (speed !== undefined) element.speed = speed;
+  const acceleration = lerpOptionalVector(before.acceleration, after.acceleration, t);
+  if (acceleration) element.acceleration = acceleration;
+  const angularAcceleration = lerpOptional(before.angularAcceleration, after.angularAcceleration, t);
+  if (angularAcceleration !== undefined) element.angularAcceleration = angularAcceleration;
+  if (before.state !== undefined) element.state = before.state;
+  const channels = lerpChannels(before.channels, after.channels, t);
+  if (channels) element.channels = channels;
+  return element;
+};
+
+/**
+ * 軌道プロファイルに含まれるチャンネル名の一覧を求める
+ * @param trajectoryProfile 軌道プロファイル
+ * @returns チャンネル名の配列（出現順）
+ */
+export const getTrajectoryChannelNames = (trajectoryProfile: TrajectoryProfile): string[] => {
+  const names = new Set<string>();
+  trajectoryProfile.forEach((element) => {
+    if (element.channels) {
+      for (const name of Object.keys(element.channels)) {
+        names.add(name);
+      }
+    }
+  });
+  return Array.from(names);
+};
+
+/**
+ * 軌道の色分けに使用する値
+ * - speed: 速度[m/s]（speedまたはvelocityが記録されていない場合は位置の差分から求める）
+ * - angularVelocity: 角速度[rad/s]（記録されていない場合は角度の差分から求める）
+ * - { channel }: 名前付きのチャンネルの値
+ */
+export type TrajectoryColorBy = 'speed' | 'angularVelocity' | { channel: string };
+
+/**
+ * 軌道の各キーフレームでの色分け用の値を求める
+ * @param trajectoryProfile 軌道プロファイル
+ * @param sortedTimestamps 昇順に並んだプロファイルの時刻
+ * @param colorBy 色分けに使用する値
+ * @returns キーフレームごとの値（チャンネルがないキーフレームはNaN）
+ */
+export const getTrajectoryValues = (
+  trajectoryProfile: TrajectoryProfile,
+  sortedTimestamps: number[],
+  colorBy: TrajectoryColorBy
+): Float64Array => {
+  const values = new Float64Array(sortedTimestamps.length);
+  sortedTimestamps.forEach((time, index) => {
+    const element = trajectoryProfile.get(time)!;
+    if (typeof colorBy === 'object') {
+      values[index] = element.channels?.[colorBy.channel] ?? NaN;
+    } else if (colorBy === 'speed') {
+      if (element.speed !== undefined) {
+        values[index] = Math.abs(element.speed);
+      } else if (element.velocity) {
+        values[index] = Math.hypot(element.velocity.x, element.velocity.y);
+      } else {
+        const derivative = estimateDerivative(trajectoryProfile, sortedTimestamps, index);
+        values[index] = Math.hypot(derivative.x, derivative.y);
+      }
+    } else {
+      values[index] = element.angularVelocity
+        ?? estimateDerivative(trajectoryProfile, sortedTimestamps, index).angle;
+    }
+  });
+  return values;
+};
+
+/**
+ * キーフレームごとの値から指定時刻の値を線形補間で求める
+ * @param values キーフレームごとの値
+ * @param sortedTimestamps 昇順に並んだプロファイルの時刻
+ * @param time 時刻[s]
+ * @returns 補間した値（値がない場合はNaN）
+ */
+export const interpolateTrajectoryValue = (
+  values: ArrayLike<number>,
+  sortedTimestamps: ArrayLike<number>,
+  time: number
+): number => {
+  if (sortedTimestamps.length === 0) return NaN;
+  const index = binarySearchTimeIndex(sortedTimestamps, time);
+  if (index >= sortedTimestamps.length - 1 || time <= sortedTimestamps[index]) {
+    return values[index];
+  }
+  const t = (time - sortedTimestamps[index]) / (sortedTimestamps[index + 1] - sortedTimestamps[index]);
+  const before = values[index];
+  const after = values[index + 1];
+  // 片方の値がない場合は近い方のキーフレームの値を使用する
+  if (!Number.isFinite(before) || !Number.isFinite(after)) {
+    return t < 0.5 ? before : after;
+  }
+  return before + (after - before) * t;
+};
+
+/**
+ * 軌道を描画するための点列を求める
+ * 補間方法に合わせてキーフレーム間を分割し、アニメーションのマウスの位置と一致する曲線にする
+ * @param trajectoryProfile 軌道プロファイル
+ * @param sortedTimestamps 昇順に並んだプロファイルの時刻
+ * @param endTime 終了時刻[s]（この時刻の補間位置で点列を終える）
+ * @param interpolation 補間方法
+ * @param subdivisions 3次補間のキーフレーム間の分割数
+ * @param startTime 開始時刻[s]（この時刻の補間位置から点列を始める、デフォルト: 最初のキーフレーム）
+ * @returns 位置と時刻の配列（範囲が軌道と重ならない場合は空）
+ */
+export const sampleTrajectoryPath = (
+  trajectoryProfile: TrajectoryProfile,
+  sortedTimestamps: number[],
+  endTime: number,
+  interpolation: TrajectoryInterpolation,
+  subdivisions: number,
+  startTime: number = -Infinity
+): { x: number; y: number; time: number }[] => {
+  if (sortedTimestamps.length === 0) {
+    return [];
+  }
+  const from = Math.max(startTime, sortedTimestamps[0]);
+  const to = Math.min(endTime, sortedTimestamps[sortedTimestamps.length - 1]);
+  if (endTime < sortedTimestamps[0] || to < from) {
+    return [];
+  }
+
+  // 点列の時刻（範囲の両端、範囲内のキーフレーム、3次補間の場合はキーフレーム間の分割点）
+  const times: number[] = [from];
+  const steps = interpolation === 'linear' || interpolation === 'step' ? 1 : Math.max(1, Math.floor(subdivisions));
+  const startIndex = binarySearchTimeIndex(sortedTimestamps, from);
+  const endIndex = binarySearchTimeIndex(sortedTimestamps, to);
+  for (let i = startIndex; i <= endIndex; i++) {
+    const time = sortedTimestamps[i];
+    if (time > from && time < to) {
+      times.push(time);
+    }
+    if (steps > 1 && i < sortedTimestamps.length - 1) {
+      const nextTime = sortedTimestamps[i + 1];
+      for (let step = 1; step < steps; step++) {
+        const sampleTime = time + ((nextTime - time) * step) / steps;
+        if (sampleTime > from && sampleTime < to) {
+          times.push(sampleTime);
+        }
+      }
+    }
+  }
+  if (to > from) {
+    times.push(to);
+  }
+
+  return times.map((time) => ({
+    ...sampleTrajectory(trajectoryProfile, sortedTimestamps, time, interpolation)!.position,
+    time,
+  }));
+};
+
+/**
+ * 軌道プロファイルの時刻の基準
+ * - absolute: プロファイルの時刻をそのまま再生時刻とする
+ * - firstSample: 最初のキーフレームの時刻を0とする
+ */
+export type TrajectoryTimeOrigin = 'absolute' | 'firstSample';
+
+/** 軌道プロファイルの時刻の解釈方法 */
+export interface TrajectoryTimeOptions {
+  timeUnit?: TimeUnit;                 // プロファイルの時刻の単位（デフォルト: 's'）
+  timeOrigin?: TrajectoryTimeOrigin;   // 時刻の基準（デフォルト: 'absolute'）
+}
+
+/**
+ * 軌道プロファイルの時刻を秒単位の再生時刻に変換する
+ * マイコンの起動からのマイクロ秒などで記録されたログをそのまま再生できるようにする
+ * @param trajectoryProfile 軌道プロファイル
+ * @param options 時刻の単位と基準
+ * @returns 時刻を秒に変換した軌道プロファイル（変換が不要な場合は元のプロファイル）
+ */
+export const normalizeTrajectoryTime = (
+  trajectoryProfile: TrajectoryProfile,
+  options: TrajectoryTimeOptions = {}
+): TrajectoryProfile => {
+  const { timeUnit = 's', timeOrigin = 'absolute' } = options;
+  const scale = TIME_UNIT_SCALE[timeUnit];
+  if (scale === undefined) {
+    throw new Error(`未対応の時刻の単位です: ${timeUnit}`);
+  }
+
+  let origin = 0;
+  if (timeOrigin === 'firstSample' && trajectoryProfile.size > 0) {
+    // 長いログでもスタックを溢れさせないようにループで最小値を求める
+    origin = Infinity;
+    trajectoryProfile.forEach((_element, time) => {
+      origin = Math.min(origin, time);
+    });
+  }
+  if (scale === 1 && origin === 0) {
+    return trajectoryProfile;
+  }
+
+  const normalized: TrajectoryProfile = new Map();
+  trajectoryProfile.forEach((element, time) => {
+    normalized.set((time - origin) * scale, element);
+  });
+  return normalized;
+};
+
+/**
+ * マウスが初めてスタートセルから出た時刻を求める
+ * @param trajectoryProfile 軌道プロファイル
+ * @param sortedTimestamps 昇順に並んだプロファイルの時刻
+ * @param startCell スタートセル
+ * @returns スタートセルの外に出た最初のキーフレームの時刻（出ない場合はnull）
+ */
+export const findStartCellDepartureTime = (
+  trajectoryProfile: TrajectoryProfile,
+  sortedTimestamps: number[],
+  startCell: CellPosition
+): number | null => {
+  for (const time of sortedTimestamps) {
+    const { position } = trajectoryProfile.get(time)!;
+    const cellX = Math.floor(position.x / CELL_SIZE);
+    const cellY = Math.floor(position.y / CELL_SIZE);
+    if (cellX !== startCell.x || cellY !== startCell.y) {
+      return time;
+    }
+  }
+  return null;
+};
+
+/**
+ * 複数の軌道の時刻合わせの方法
+ * - none: プロファイルの時刻をそのまま使用する
+ * - start: 各プロファイルの最初の時刻を揃える
+ * - leaveStartCell: 各マウスがスタートセルから出た時刻を揃える
+ */
+export type TrajectoryAlignment = 'none' | 'start' | 'leaveStartCell';
+
+/**
+ * 複数の軌道を揃えるための時刻オフセットを計算する
+ * プロファイル上の時刻 = 共通の再生時刻 + オフセット となる
+ * @param trajectories 昇順の時刻を持つ軌道の配列
+ * @param alignment 時刻合わせの方法
+ * @param startCell スタートセル（leaveStartCellの場合に使用）
+ * @returns 各軌道の時刻オフセット[s]
+ */
+export const computeTrajectoryOffsets = (
+  trajectories: { trajectoryProfile: TrajectoryProfile; sortedTimestamps: number[] }[],
+  alignment: TrajectoryAlignment,
+  startCell?: CellPosition
+): number[] => {
+  if (alignment === 'none') {
+    return trajectories.map(() => 0);
+  }
+
+  if (alignment === 'start' || !startCell) {
+    return trajectories.map(({ sortedTimestamps }) => sortedTimestamps[0] ?? 0);
+  }
+
+  // スタートセルを出た時刻を、すべての軌道で同じ再生時刻に揃える
+  // 再生時刻0ではすべての軌道が最初のキーフレーム以前になるように基準時刻を決める
+  const departures = trajectories.map(({ trajectoryProfile, sortedTimestamps }) =>
+    findStartCellDepartureTime(trajectoryProfile, sortedTimestamps, startCell) ?? sortedTimestamps[0] ?? 0
+  );
+  const alignedTime = Math.max(0, ...trajectories.map(({ sortedTimestamps }, i) =>
+    departures[i] - (sortedTimestamps[0] ?? 0)
+  ));
+  return departures.map((departure) => departure - alignedTime);
+};
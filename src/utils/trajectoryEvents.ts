@@ -0,0 +1,101 @@
+/**
+ * 軌道イベントユーティリティ
+ * 時刻付きのイベント（壁の検出・スリップ・ゴール到達・非常停止など）の並べ替え、前後のイベントの検索、表示位置の計算を行う
+ */
+import { TrajectoryEvent, TrajectoryProfile } from '../types';
+import { sampleTrajectory, TrajectoryInterpolation } from './trajectory';
+
+/** 種類ごとのマーカーの色（TrajectoryEvent.colorが指定されていない場合に使用） */
+export const TRAJECTORY_EVENT_COLORS: Record<string, string> = {
+  wallDetected: '#4caf50',
+  slip: '#ff9800',
+  goal: '#ffeb3b',
+  emergencyStop: '#f44336',
+};
+
+/** 種類に色が定義されていない場合のマーカーの色 */
+export const DEFAULT_TRAJECTORY_EVENT_COLOR = '#e040fb';
+
+// 前後のイベントを検索する際に現在時刻と同じとみなす時間差[s]
+// （イベントの時刻にジャンプした直後に同じイベントが再度選ばれないようにする）
+const EVENT_TIME_EPSILON = 1e-6;
+
+/**
+ * 軌道イベントを時刻順に並べ替える（同時刻のイベントは元の順序を保つ）
+ * @param events 軌道イベント
+ * @returns 時刻順に並べ替えた新しい配列
+ */
+export const sortTrajectoryEvents = (events: TrajectoryEvent[]): TrajectoryEvent[] =>
+  events
+    .map((event, index) => ({ event, index }))
+    .sort((a, b) => a.event.time - b.event.time || a.index - b.index)
+    .map(({ event }) => event);
+
+/**
+ * 指定時刻より後の最初のイベントを求める
+ * @param events 時刻順に並んだ軌道イベント
+ * @param time 時刻[s]
+ * @returns 次のイベント（ない場合はnull）
+ */
+export const findNextTrajectoryEvent = (events: TrajectoryEvent[], time: number): TrajectoryEvent | null => {
+  let left = 0;
+  let right = events.length;
+  while (left < right) {
+    const mid = (left + right) >> 1;
+    if (events[mid].time <= time + EVENT_TIME_EPSILON) {
+      left = mid + 1;
+    } else {
+      right = mid;
+    }
+  }
+  return events[left] ?? null;
+};
+
+/**
+ * 指定時刻より前の最後のイベントを求める
+ * @param events 時刻順に並んだ軌道イベント
+ * @param time 時刻[s]
+ * @returns 前のイベント（ない場合はnull）
+ */
+export const findPreviousTrajectoryEvent = (events: TrajectoryEvent[], time: number): TrajectoryEvent | null => {
+  let left = 0;
+  let right = events.length;
+  while (left < right) {
+    const mid = (left + right) >> 1;
+    if (events[mid].time < time - EVENT_TIME_EPSILON) {
+      left = mid + 1;
+    } else {
+      right = mid;
+    }
+  }
+  return left > 0 ? events[left - 1] : null;
+};
+
+/**
+ * イベントの表示位置を求める（位置が指定されていない場合はその時刻の軌道上の位置）
+ * @param event 軌道イベント
+ * @param trajectoryProfile 軌道プロファイル
+ * @param sortedTimestamps 昇順に並んだプロファイルの時刻
+ * @param interpolation 補間方法
+ * @returns 位置[m]（位置が指定されておらず軌道もない場合はnull）
+ */
+export const getTrajectoryEventPosition = (
+  event: TrajectoryEvent,
+  trajectoryProfile: TrajectoryProfile,
+  sortedTimestamps: number[],
+  interpolation: TrajectoryInterpolation = 'linear'
+): { x: number; y: number } | null => {
+  if (event.position) {
+    return event.position;
+  }
+  return sampleTrajectory(trajectoryProfile, sortedTimestamps, event.time, interpolation)?.position ?? null;
+};
+
+/**
+ * イベントのマーカーの色を求める
+ * @param event 軌道イベント
+ * @param colors 種類ごとの色（TRAJECTORY_EVENT_COLORSより優先）
+ * @returns 色
+ */
+export const getTrajectoryEventColor = (event: TrajectoryEvent, colors?: Record<string, string>): string =>
+  event.color ?? colors?.[event.type] ?? TRAJECTORY_EVENT_COLORS[event.type] ?? DEFAULT_TRAJECTORY_EVENT_COLOR;
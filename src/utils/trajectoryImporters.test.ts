@@ -0,0 +1,231 @@
+import { describe, expect, it } from 'vitest';
+import { TrajectoryProfile } from '../types';
+import {
+  BinaryTrajectorySchema,
+  parseTrajectoryBinary,
+  parseTrajectoryCsv,
+  parseTrajectoryJsonLines,
+} from './trajectoryImporters';
+
+// 時刻順に[時刻, x, y, 角度]の組を取り出す（単位換算の誤差を考慮して比較するため）
+const toRows = (profile: TrajectoryProfile): number[][] =>
+  Array.from(profile.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([time, element]) => [time, element.position.x, element.position.y, element.angle]);
+
+const expectRowsCloseTo = (profile: TrajectoryProfile, expected: number[][]) => {
+  const rows = toRows(profile);
+  expect(rows).toHaveLength(expected.length);
+  rows.forEach((row, i) => row.forEach((value, j) => expect(value).toBeCloseTo(expected[i][j], 9)));
+};
+
+describe('parseTrajectoryCsv', () => {
+  it('ヘッダーの列名で値を読み込む（列の順序は問わない）', () => {
+    const csv = 'x,time,angle,y\n0.1,0,0,0.2\n0.3,0.5,1.5,0.4\n';
+
+    const { profile, errors } = parseTrajectoryCsv(csv);
+
+    expect(errors).toEqual([]);
+    expectRowsCloseTo(profile, [[0, 0.1, 0.2, 0], [0.5, 0.3, 0.4, 1.5]]);
+  });
+
+  it('列名・列番号での対応付けとチャンネルを読み込む', () => {
+    const csv = 't;px;py;yaw;v\n0;1;2;3;0.5\n1;4;5;6;\n';
+
+    const { profile, errors } = parseTrajectoryCsv(csv, {
+      delimiter: ';',
+      columns: { time: 't', x: 1, y: 'py', angle: 3 },
+      channels: { speed: 'v' },
+    });
+
+    expect(errors).toEqual([]);
+    expect(profile.get(0)?.channels).toEqual({ speed: 0.5 });
+    // 空欄のセルはチャンネルを省略する
+    expect(profile.get(1)?.channels).toBeUndefined();
+    expectRowsCloseTo(profile, [[0, 1, 2, 3], [1, 4, 5, 6]]);
+  });
+
+  it('ヘッダーのないCSVを列番号で読み込む', () => {
+    const { profile, errors } = parseTrajectoryCsv('0,1,2,3\n', {
+      hasHeader: false,
+      columns: { time: 0, x: 1, y: 2, angle: 3 },
+    });
+
+    expect(errors).toEqual([]);
+    expectRowsCloseTo(profile, [[0, 1, 2, 3]]);
+  });
+
+  it.each([
+    ['mm → m', { length: 'mm' as const }, [1, 250, -500, 0.5], [1, 0.25, -0.5, 0.5]],
+    ['deg → rad', { angle: 'deg' as const }, [1, 0.1, 0.2, 90], [1, 0.1, 0.2, Math.PI / 2]],
+    ['ms → s', { time: 'ms' as const }, [1500, 0.1, 0.2, 0], [1.5, 0.1, 0.2, 0]],
+    ['us → s', { time: 'us' as const }, [2500000, 0.1, 0.2, 0], [2.5, 0.1, 0.2, 0]],
+  ])('単位を換算する（%s）', (_, units, values, expected) => {
+    const { profile, errors } = parseTrajectoryCsv(`time,x,y,angle\n${values.join(',')}\n`, { units });
+
+    expect(errors).toEqual([]);
+    expectRowsCloseTo(profile, [expected]);
+  });
+
+  it('不正な行を読み飛ばし、行番号付きのエラーとして返す', () => {
+    const csv = [
+      'time,x,y,angle',  // 1
+      '0,0,0,0',         // 2
+      '# comment',       // 3
+      '0.1,abc,0,0',     // 4
+      '0.2,0,0',         // 5
+      '"0.3,0,0,0',      // 6
+      '',                // 7
+      '0,1,1,1',         // 8
+      '0.4,1,1,1',       // 9
+    ].join('\n');
+
+    const { profile, errors } = parseTrajectoryCsv(csv);
+
+    expectRowsCloseTo(profile, [[0, 0, 0, 0], [0.4, 1, 1, 1]]);
+    expect(errors).toEqual([
+      { line: 4, raw: '0.1,abc,0,0', field: 'x', message: 'xの値が有限の数値ではありません' },
+      { line: 5, raw: '0.2,0,0', field: 'angle', message: '列数が不足しています: 3列' },
+      { line: 6, raw: '"0.3,0,0,0', message: 'ダブルクォートが閉じられていません' },
+      { line: 8, raw: '0,1,1,1', field: 'time', message: '時刻が重複しています: 0' },
+    ]);
+  });
+
+  it('チャンネルの値が数値でない行はエラーにする', () => {
+    const { profile, errors } = parseTrajectoryCsv('time,x,y,angle,v\n0,0,0,0,fast\n', { channels: { speed: 'v' } });
+
+    expect(profile.size).toBe(0);
+    expect(errors).toEqual([
+      { line: 2, raw: '0,0,0,0,fast', channel: 'speed', message: 'チャンネルspeedの値が有限の数値ではありません' },
+    ]);
+  });
+
+  it('ヘッダーにない列を指定した場合は例外を投げる', () => {
+    expect(() => parseTrajectoryCsv('t,x,y,angle\n0,0,0,0\n')).toThrow('CSVのヘッダーに列がありません: time');
+  });
+});
+
+describe('parseTrajectoryJsonLines', () => {
+  it('ドット区切りのキーで入れ子の値とチャンネルを読み込む', () => {
+    const text = [
+      '{"t": 0, "pose": {"x": 0.1, "y": 0.2, "theta": 0}, "v": 0.3}',
+      '{"t": "0.5", "pose": {"x": 0.4, "y": 0.5, "theta": 1}}',
+    ].join('\n');
+
+    const { profile, errors } = parseTrajectoryJsonLines(text, {
+      fields: { time: 't', x: 'pose.x', y: 'pose.y', angle: 'pose.theta' },
+      channels: { speed: 'v' },
+    });
+
+    expect(errors).toEqual([]);
+    expect(profile.get(0)?.channels).toEqual({ speed: 0.3 });
+    expect(profile.get(0.5)?.channels).toBeUndefined();
+    expectRowsCloseTo(profile, [[0, 0.1, 0.2, 0], [0.5, 0.4, 0.5, 1]]);
+  });
+
+  it('長さ・角度・時刻の単位を換算する', () => {
+    const { profile, errors } = parseTrajectoryJsonLines('{"time": 20, "x": 90, "y": 45, "angle": 180}', {
+      units: { length: 'mm', angle: 'deg', time: 'ms' },
+    });
+
+    expect(errors).toEqual([]);
+    expectRowsCloseTo(profile, [[0.02, 0.09, 0.045, Math.PI]]);
+  });
+
+  it('不正な行を読み飛ばし、行番号付きのエラーとして返す', () => {
+    const text = [
+      '{"time": 0, "x": 0, "y": 0, "angle": 0}',   // 1
+      '{"time": 1, "x": 0, "y": 0',                // 2
+      '[1, 2, 3]',                                  // 3
+      '',                                           // 4
+      '{"time": 2, "x": 0, "angle": 0}',           // 5
+      '{"time": 3, "x": null, "y": 0, "angle": 0}', // 6
+    ].join('\n');
+
+    const { profile, errors } = parseTrajectoryJsonLines(text);
+
+    expectRowsCloseTo(profile, [[0, 0, 0, 0]]);
+    expect(errors).toHaveLength(4);
+    expect(errors[0]).toMatchObject({ line: 2, raw: '{"time": 1, "x": 0, "y": 0' });
+    expect(errors[0].message).toMatch(/^JSONの解析に失敗しました: /);
+    expect(errors.slice(1)).toEqual([
+      { line: 3, raw: '[1, 2, 3]', message: 'JSONオブジェクトではありません' },
+      { line: 5, raw: '{"time": 2, "x": 0, "angle": 0}', field: 'y', message: 'キーがありません: y' },
+      { line: 6, raw: '{"time": 3, "x": null, "y": 0, "angle": 0}', field: 'x', message: 'xの値が有限の数値ではありません' },
+    ]);
+  });
+});
+
+describe('parseTrajectoryBinary', () => {
+  // 2バイトのヘッダーの後に、時刻[us](uint32)、x・y[mm](int16)、角度[0.001rad](int16)、速度(float32)の14バイトのレコードが続く
+  const schema: BinaryTrajectorySchema = {
+    fields: {
+      time: { type: 'uint32' },
+      x: { type: 'int16' },
+      y: { type: 'int16' },
+      angle: { type: 'int16', scale: 0.001 },
+    },
+    channels: { speed: { type: 'float32', offset: 10 } },
+    recordSize: 14,
+    headerSize: 2,
+  };
+
+  const writeRecords = (records: number[][], extraBytes = 0): Uint8Array => {
+    const bytes = new Uint8Array(new ArrayBuffer(2 + records.length * 14 + extraBytes));
+    const view = new DataView(bytes.buffer);
+    view.setUint16(0, 0xffff, true); // 読み飛ばすヘッダー
+    records.forEach(([time, x, y, angle, speed], i) => {
+      const offset = 2 + i * 14;
+      view.setUint32(offset, time, true);
+      view.setInt16(offset + 4, x, true);
+      view.setInt16(offset + 6, y, true);
+      view.setInt16(offset + 8, angle, true);
+      view.setFloat32(offset + 10, speed, true);
+    });
+    return bytes;
+  };
+
+  it('リトルエンディアンのレコードをスキーマに従って読み込む', () => {
+    const bytes = writeRecords([[0, 45, -90, 1571, 0.5], [1000, 135, 45, -1571, 1.25]]);
+
+    const { profile, errors } = parseTrajectoryBinary(bytes, schema, { units: { length: 'mm', time: 'us' } });
+
+    expect(errors).toEqual([]);
+    expectRowsCloseTo(profile, [[0, 0.045, -0.09, 1.571], [0.001, 0.135, 0.045, -1.571]]);
+    expect(profile.get(0)?.channels).toEqual({ speed: 0.5 });
+  });
+
+  it('ArrayBufferやオフセットを持つUint8Arrayからも読み込む', () => {
+    const bytes = writeRecords([[7, 1, 2, 3, 0]]);
+    const padded = new Uint8Array(bytes.length + 3);
+    padded.set(bytes, 3);
+
+    expectRowsCloseTo(parseTrajectoryBinary(bytes.buffer as ArrayBuffer, schema).profile, [[7, 1, 2, 0.003]]);
+    expectRowsCloseTo(parseTrajectoryBinary(padded.subarray(3), schema).profile, [[7, 1, 2, 0.003]]);
+  });
+
+  it('不正なレコードと末尾の不完全なレコードをレコード番号とバイト位置付きで返す', () => {
+    const bytes = writeRecords([[0, 0, 0, 0, 0], [0, 1, 1, 1, 0], [2, 0, 0, 0, NaN]], 5);
+
+    const { profile, errors } = parseTrajectoryBinary(bytes, schema);
+
+    expect(profile.size).toBe(1);
+    expect(errors).toEqual([
+      { record: 1, byteOffset: 16, field: 'time', message: '時刻が重複しています: 0' },
+      { record: 2, byteOffset: 30, channel: 'speed', message: 'チャンネルspeedの値が有限の数値ではありません' },
+      { record: 3, byteOffset: 44, message: '末尾のレコードが不完全です: 5/14バイト' },
+    ]);
+  });
+
+  it('ヘッダーより短いデータはエラーにする', () => {
+    const { profile, errors } = parseTrajectoryBinary(new Uint8Array(1), schema);
+
+    expect(profile.size).toBe(0);
+    expect(errors).toEqual([{ byteOffset: 0, message: 'ヘッダー(2バイト)よりデータが短いです: 1バイト' }]);
+  });
+
+  it('レコード長がフィールドの終端より短いスキーマは例外を投げる', () => {
+    expect(() => parseTrajectoryBinary(new Uint8Array(0), { ...schema, recordSize: 12 }))
+      .toThrow('レコード長がフィールドの終端(14バイト)より短いです: 12');
+  });
+});
@@ -0,0 +1,478 @@
+/**
+ * ロボットのログから軌道プロファイルを読み込むインポーター
+ * CSV、JSON Lines、固定長のリトルエンディアンバイナリ形式に対応し、
+ * 不正な行は読み飛ばして行番号付きのエラー情報として返す
+ */
+import { TrajectoryChannels, TrajectoryElement, TrajectoryProfile } from '../types';
+
+/** 長さの単位 */
+export type LengthUnit = 'm' | 'mm';
+
+/** 角度の単位 */
+export type AngleUnit = 'rad' | 'deg';
+
+/** 時刻の単位（usはマイクロ秒） */
+export type TimeUnit = 's' | 'ms' | 'us';
+
+/** ログの値の単位（省略時はm, rad, s） */
+export interface TrajectoryUnits {
+  length?: LengthUnit;
+  angle?: AngleUnit;
+  time?: TimeUnit;
+}
+
+/** 軌道プロファイルを構成する値の名前 */
+export type TrajectoryField = 'time' | 'x' | 'y' | 'angle';
+
+/** 読み込み時に検出した不正なデータ */
+export interface TrajectoryImportError {
+  message: string;
+  line?: number;          // テキスト上の行番号（1始まり）
+  record?: number;        // バイナリのレコード番号（0始まり）
+  byteOffset?: number;    // バイナリ上のバイト位置
+  field?: TrajectoryField;
+  channel?: string;       // 問題のあったチャンネル名
+  raw?: string;           // 問題のあった行の内容
+}
+
+/** 読み込み結果 */
+export interface TrajectoryImportResult {
+  profile: TrajectoryProfile;
+  errors: TrajectoryImportError[];   // 読み飛ばした行のエラー（空なら全行を読み込めた）
+}
+
+const TRAJECTORY_FIELDS: TrajectoryField[] = ['time', 'x', 'y', 'angle'];
+
+const LENGTH_UNIT_SCALE: Record<LengthUnit, number> = { m: 1, mm: 0.001 };
+const ANGLE_UNIT_SCALE: Record<AngleUnit, number> = { rad: 1, deg: Math.PI / 180 };
+/** 時刻の単位から秒への換算係数 */
+export const TIME_UNIT_SCALE: Record<TimeUnit, number> = { s: 1, ms: 0.001, us: 0.000001 };
+
+// 単位の指定からSI単位系への換算係数を求める
+const resolveUnitScales = (units: TrajectoryUnits = {}): Record<TrajectoryField, number> => {
+  const length = LENGTH_UNIT_SCALE[units.length ?? 'm'];
+  const angle = ANGLE_UNIT_SCALE[units.angle ?? 'rad'];
+  const time = TIME_UNIT_SCALE[units.time ?? 's'];
+  if (length === undefined || angle === undefined || time === undefined) {
+    throw new Error(`未対応の単位が指定されています: ${JSON.stringify(units)}`);
+  }
+  return { time, x: length, y: length, angle };
+};
+
+// 読み込み途中のプロファイルを管理し、行ごとの値を検証して追加する
+const createProfileBuilder = (scales: Record<TrajectoryField, number>) => {
+  const profile: TrajectoryProfile = new Map();
+  const errors: TrajectoryImportError[] = [];
+
+  /**
+   * 1行分の値を検証してプロファイルに追加する
+   * @param values 単位換算前の値
+   * @param location エラー時に付与する位置情報
+   * @param channels チャンネルの値（単位換算はしない）
+   */
+  const add = (
+    values: Record<TrajectoryField, number>,
+    location: Omit<TrajectoryImportError, 'message'>,
+    channels?: TrajectoryChannels
+  ) => {
+    for (const field of TRAJECTORY_FIELDS) {
+      if (!Number.isFinite(values[field])) {
+        errors.push({ ...location, field, message: `${field}の値が有限の数値ではありません` });
+        return;
+      }
+    }
+    if (channels) {
+      for (const [channel, value] of Object.entries(channels)) {
+        if (!Number.isFinite(value)) {
+          errors.push({ ...location, channel, message: `チャンネル${channel}の値が有限の数値ではありません` });
+          return;
+        }
+      }
+    }
+    const time = values.time * scales.time;
+    if (profile.has(time)) {
+      errors.push({ ...location, field: 'time', message: `時刻が重複しています: ${values.time}` });
+      return;
+    }
+    const element: TrajectoryElement = {
+      position: { x: values.x * scales.x, y: values.y * scales.y },
+      angle: values.angle * scales.angle,
+    };
+    if (channels && Object.keys(channels).length > 0) {
+      element.channels = channels;
+    }
+    profile.set(time, element);
+  };
+
+  const fail = (error: TrajectoryImportError) => {
+    errors.push(error);
+  };
+
+  return { add, fail, result: (): TrajectoryImportResult => ({ profile, errors }) };
+};
+
+// 改行コードを統一して行に分割する
+const splitLines = (text: string): string[] => text.replace(/\r\n?/g, '\n').split('\n');
+
+// 空行とコメント行（#で始まる行）は読み飛ばす
+const isSkippableLine = (line: string): boolean => {
+  const trimmed = line.trim();
+  return trimmed.length === 0 || trimmed.startsWith('#');
+};
+
+// 文字列を数値に変換する（空文字列や数値以外はNaN）
+const parseNumber = (text: string | undefined): number =>
+  text === undefined || text.trim().length === 0 ? NaN : Number(text.trim());
+
+// --- CSV ---
+
+/** CSVの列の指定（ヘッダーの列名、または0始まりの列番号） */
+export type CsvColumn = string | number;
+
+/** CSVの読み込みオプション */
+export interface CsvTrajectoryOptions {
+  columns?: Partial<Record<TrajectoryField, CsvColumn>>;  // 値と列の対応（省略時は列名time, x, y, angle）
+  channels?: Record<string, CsvColumn>;                  // チャンネル名と列の対応（空欄のセルはそのチャンネルを省略）
+  units?: TrajectoryUnits;                               // 値の単位
+  delimiter?: string;                                    // 区切り文字（デフォルト: ','）
+  hasHeader?: boolean;                                   // 1行目がヘッダーかどうか（デフォルト: true）
+}
+
+// 1行を区切り文字で分割する（ダブルクォートで囲まれたフィールドに対応）
+const splitCsvLine = (line: string, delimiter: string): string[] | null => {
+  const fields: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (inQuotes) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (line.startsWith(delimiter, i)) {
+      fields.push(current);
+      current = '';
+      i += delimiter.length - 1;
+    } else {
+      current += char;
+    }
+  }
+  // クォートが閉じられていない行は不正
+  if (inQuotes) return null;
+  fields.push(current);
+  return fields;
+};
+
+/**
+ * CSV形式のログから軌道プロファイルを生成する
+ * ヘッダーの列名、または列番号で時刻・位置・角度の列を指定できる
+ * @param csvText CSVの内容
+ * @param options 列の対応や単位、区切り文字の指定
+ * @returns 軌道プロファイルと不正な行のエラー
+ */
+export const parseTrajectoryCsv = (csvText: string, options: CsvTrajectoryOptions = {}): TrajectoryImportResult => {
+  const { delimiter = ',', hasHeader = true } = options;
+  const columns: Record<TrajectoryField, CsvColumn> = {
+    time: 'time',
+    x: 'x',
+    y: 'y',
+    angle: 'angle',
+    ...options.columns,
+  };
+  const builder = createProfileBuilder(resolveUnitScales(options.units));
+  const lines = splitLines(csvText);
+
+  let lineIndex = 0;
+  const columnIndices = {} as Record<TrajectoryField, number>;
+  const channelIndices: [string, number][] = [];
+
+  // ヘッダー行から列名を列番号に変換する
+  let header: string[] | null = null;
+  if (hasHeader) {
+    while (lineIndex < lines.length && isSkippableLine(lines[lineIndex])) lineIndex++;
+    if (lineIndex >= lines.length) {
+      throw new Error('CSVにヘッダー行がありません');
+    }
+    header = splitCsvLine(lines[lineIndex], delimiter);
+    if (!header) {
+      throw new Error(`CSVのヘッダー行が不正です（${lineIndex + 1}行目）`);
+    }
+    header = header.map((name) => name.trim());
+    lineIndex++;
+  }
+  const resolveColumn = (name: string, column: CsvColumn): number => {
+    if (typeof column === 'number') {
+      if (!Number.isInteger(column) || column < 0) {
+        throw new Error(`CSVの列番号が不正です: ${name}=${column}`);
+      }
+      return column;
+    }
+    if (!header) {
+      throw new Error(`ヘッダーのないCSVでは列番号で指定してください: ${name}=${column}`);
+    }
+    const index = header.indexOf(column);
+    if (index < 0) {
+      throw new Error(`CSVのヘッダーに列がありません: ${column}`);
+    }
+    return index;
+  };
+  for (const field of TRAJECTORY_FIELDS) {
+    columnIndices[field] = resolveColumn(field, columns[field]);
+  }
+  for (const [channel, column] of Object.entries(options.channels ?? {})) {
+    channelIndices.push([channel, resolveColumn(channel, column)]);
+  }
+
+  for (; lineIndex < lines.length; lineIndex++) {
+    const line = lines[lineIndex];
+    if (isSkippableLine(line)) continue;
+    const location = { line: lineIndex + 1, raw: line };
+
+    const cells = splitCsvLine(line, delimiter);
+    if (!cells) {
+      builder.fail({ ...location, message: 'ダブルクォートが閉じられていません' });
+      continue;
+    }
+    const missing = TRAJECTORY_FIELDS.find((field) => columnIndices[field] >= cells.length);
+    if (missing) {
+      builder.fail({ ...location, field: missing, message: `列数が不足しています: ${cells.length}列` });
+      continue;
+    }
+    const channels: TrajectoryChannels = {};
+    for (const [channel, index] of channelIndices) {
+      const cell = cells[index];
+      if (cell !== undefined && cell.trim().length > 0) {
+        channels[channel] = parseNumber(cell);
+      }
+    }
+    builder.add({
+      time: parseNumber(cells[columnIndices.time]),
+      x: parseNumber(cells[columnIndices.x]),
+      y: parseNumber(cells[columnIndices.y]),
+      angle: parseNumber(cells[columnIndices.angle]),
+    }, location, channels);
+  }
+
+  return builder.result();
+};
+
+// --- JSON Lines ---
+
+/** JSON Linesの読み込みオプション */
+export interface JsonLinesTrajectoryOptions {
+  fields?: Partial<Record<TrajectoryField, string>>;  // 値とキーの対応（'position.x'のようにドット区切りで入れ子のキーを指定可能）
+  channels?: Record<string, string>;                 // チャンネル名とキーの対応（キーがない行はそのチャンネルを省略）
+  units?: TrajectoryUnits;                           // 値の単位
+}
+
+// ドット区切りのキーで入れ子のオブジェクトから値を取り出す
+const getByPath = (value: unknown, path: string): unknown =>
+  path.split('.').reduce<unknown>(
+    (current, key) => (current !== null && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+    value
+  );
+
+// JSONの値を数値に変換する（数値の文字列も許容する）
+const toNumber = (value: unknown): number =>
+  typeof value === 'number' ? value : typeof value === 'string' ? parseNumber(value) : NaN;
+
+/**
+ * JSON Lines形式（1行に1つのJSONオブジェクト）のログから軌道プロファイルを生成する
+ * @param text JSON Linesの内容
+ * @param options キーの対応や単位の指定
+ * @returns 軌道プロファイルと不正な行のエラー
+ */
+export const parseTrajectoryJsonLines = (text: string, options: JsonLinesTrajectoryOptions = {}): TrajectoryImportResult => {
+  const fields: Record<TrajectoryField, string> = {
+    time: 'time',
+    x: 'x',
+    y: 'y',
+    angle: 'angle',
+    ...options.fields,
+  };
+  const builder = createProfileBuilder(resolveUnitScales(options.units));
+  const lines = splitLines(text);
+
+  lines.forEach((line, index) => {
+    if (isSkippableLine(line)) return;
+    const location = { line: index + 1, raw: line };
+
+    let json: unknown;
+    try {
+      json = JSON.parse(line);
+    } catch (error) {
+      builder.fail({ ...location, message: `JSONの解析に失敗しました: ${error instanceof Error ? error.message : String(error)}` });
+      return;
+    }
+    if (json === null || typeof json !== 'object' || Array.isArray(json)) {
+      builder.fail({ ...location, message: 'JSONオブジェクトではありません' });
+      return;
+    }
+
+    const values = {} as Record<TrajectoryField, number>;
+    for (const field of TRAJECTORY_FIELDS) {
+      const value = getByPath(json, fields[field]);
+      if (value === undefined) {
+        builder.fail({ ...location, field, message: `キーがありません: ${fields[field]}` });
+        return;
+      }
+      values[field] = toNumber(value);
+    }
+    const channels: TrajectoryChannels = {};
+    for (const [channel, key] of Object.entries(options.channels ?? {})) {
+      const value = getByPath(json, key);
+      if (value !== undefined) {
+        channels[channel] = toNumber(value);
+      }
+    }
+    builder.add(values, location, channels);
+  });
+
+  return builder.result();
+};
+
+// --- バイナリ ---
+
+/** バイナリのフィールドの型 */
+export type BinaryFieldType = 'int8' | 'uint8' | 'int16' | 'uint16' | 'int32' | 'uint32' | 'float32' | 'float64';
+
+const BINARY_FIELD_SIZE: Record<BinaryFieldType, number> = {
+  int8: 1,
+  uint8: 1,
+  int16: 2,
+  uint16: 2,
+  int32: 4,
+  uint32: 4,
+  float32: 4,
+  float64: 8,
+};
+
+/** バイナリのレコード内のフィールドの定義 */
+export interface BinaryTrajectoryField {
+  type: BinaryFieldType;
+  offset?: number;   // レコード先頭からのバイト位置（省略時は前のフィールドの直後）
+  scale?: number;    // 値に掛ける係数（固定小数点の値を変換する場合に使用、デフォルト: 1）
+}
+
+/** 固定長レコードのバイナリ形式の定義（値はリトルエンディアン） */
+export interface BinaryTrajectorySchema {
+  fields: Record<TrajectoryField, BinaryTrajectoryField>;  // 各値のフィールド定義
+  channels?: Record<string, BinaryTrajectoryField>;        // チャンネルのフィールド定義（省略時の位置はfieldsの後に続く）
+  recordSize?: number;   // 1レコードのバイト数（省略時はフィールドの終端）
+  headerSize?: number;   // 先頭のヘッダーのバイト数（読み飛ばす、デフォルト: 0）
+}
+
+/** バイナリの読み込みオプション */
+export interface BinaryTrajectoryOptions {
+  units?: TrajectoryUnits;  // 値の単位（フィールドのscaleを掛けた後の値に適用）
+}
+
+// フィールドの定義からレコード内のバイト位置を確定させ、レコード長を検証する
+const resolveBinaryLayout = (schema: BinaryTrajectorySchema) => {
+  let nextOffset = 0;
+  let end = 0;
+  const resolveField = (name: string, definition: BinaryTrajectoryField | undefined): Required<BinaryTrajectoryField> => {
+    if (!definition) {
+      throw new Error(`バイナリのスキーマにフィールドがありません: ${name}`);
+    }
+    const size = BINARY_FIELD_SIZE[definition.type];
+    if (size === undefined) {
+      throw new Error(`未対応のフィールドの型です: ${name}=${definition.type}`);
+    }
+    const offset = definition.offset ?? nextOffset;
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new Error(`フィールドの位置が不正です: ${name}=${offset}`);
+    }
+    nextOffset = offset + size;
+    end = Math.max(end, nextOffset);
+    return { type: definition.type, offset, scale: definition.scale ?? 1 };
+  };
+  const layout = {} as Record<TrajectoryField, Required<BinaryTrajectoryField>>;
+  for (const field of TRAJECTORY_FIELDS) {
+    layout[field] = resolveField(field, schema.fields[field]);
+  }
+  const channelLayout = Object.entries(schema.channels ?? {}).map(
+    ([channel, definition]) => [channel, resolveField(channel, definition)] as const
+  );
+
+  const recordSize = schema.recordSize ?? end;
+  if (!Number.isInteger(recordSize) || recordSize < end) {
+    throw new Error(`レコード長がフィールドの終端(${end}バイト)より短いです: ${recordSize}`);
+  }
+  const headerSize = schema.headerSize ?? 0;
+  if (!Number.isInteger(headerSize) || headerSize < 0) {
+    throw new Error(`ヘッダー長が不正です: ${headerSize}`);
+  }
+  return { layout, channelLayout, recordSize, headerSize };
+};
+
+// DataViewから指定した型の値をリトルエンディアンで読み取る
+const readBinaryValue = (view: DataView, offset: number, type: BinaryFieldType): number => {
+  switch (type) {
+    case 'int8': return view.getInt8(offset);
+    case 'uint8': return view.getUint8(offset);
+    case 'int16': return view.getInt16(offset, true);
+    case 'uint16': return view.getUint16(offset, true);
+    case 'int32': return view.getInt32(offset, true);
+    case 'uint32': return view.getUint32(offset, true);
+    case 'float32': return view.getFloat32(offset, true);
+    case 'float64': return view.getFloat64(offset, true);
+  }
+};
+
+/**
+ * 固定長レコードのバイナリログから軌道プロファイルを生成する
+ * 末尾の不完全なレコードはエラーとして報告する
+ * @param data バイナリデータ
+ * @param schema レコードの形式
+ * @param options 単位の指定
+ * @returns 軌道プロファイルと不正なレコードのエラー
+ */
+export const parseTrajectoryBinary = (
+  data: Uint8Array | ArrayBuffer,
+  schema: BinaryTrajectorySchema,
+  options: BinaryTrajectoryOptions = {}
+): TrajectoryImportResult => {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const { layout, channelLayout, recordSize, headerSize } = resolveBinaryLayout(schema);
+  const builder = createProfileBuilder(resolveUnitScales(options.units));
+
+  if (bytes.byteLength < headerSize) {
+    builder.fail({ byteOffset: 0, message: `ヘッダー(${headerSize}バイト)よりデータが短いです: ${bytes.byteLength}バイト` });
+    return builder.result();
+  }
+
+  const recordCount = Math.floor((bytes.byteLength - headerSize) / recordSize);
+  for (let record = 0; record < recordCount; record++) {
+    const byteOffset = headerSize + record * recordSize;
+    const values = {} as Record<TrajectoryField, number>;
+    for (const field of TRAJECTORY_FIELDS) {
+      const { type, offset, scale } = layout[field];
+      values[field] = readBinaryValue(view, byteOffset + offset, type) * scale;
+    }
+    const channels: TrajectoryChannels = {};
+    for (const [channel, { type, offset, scale }] of channelLayout) {
+      channels[channel] = readBinaryValue(view, byteOffset + offset, type) * scale;
+    }
+    builder.add(values, { record, byteOffset }, channels);
+  }
+
+  const remainder = (bytes.byteLength - headerSize) % recordSize;
+  if (remainder > 0) {
+    builder.fail({
+      record: recordCount,
+      byteOffset: headerSize + recordCount * recordSize,
+      message: `末尾のレコードが不完全です: ${remainder}/${recordSize}バイト`,
+    });
+  }
+
+  return builder.result();
+};
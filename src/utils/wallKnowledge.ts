@@ -0,0 +1,141 @@
+/**
+ * 壁の既知状態（探索中にマウスが把握している壁情報）を扱うユーティリティ
+ */
+import { MazeData, WallDirection, WallKnowledge, WallKnowledgeState } from '../types';
+import { getMazeDimensions } from './mazeGeometry';
+import { KnownWalls } from './mazeSolver';
+
+/** 壁配列上の位置 */
+export interface WallIndex {
+  kind: 'vwall' | 'hwall';
+  x: number;
+  y: number;
+}
+
+/**
+ * セル(x, y)の指定方角の壁が、壁配列（vwall/hwall）のどの要素に当たるかを計算する
+ * @param x セルのX座標
+ * @param y セルのY座標
+ * @param direction 方角
+ * @returns 壁配列上の位置
+ */
+export const getWallIndex = (x: number, y: number, direction: WallDirection): WallIndex => {
+  switch (direction) {
+    case 'north':
+      return { kind: 'hwall', x, y: y + 1 };
+    case 'south':
+      return { kind: 'hwall', x, y };
+    case 'east':
+      return { kind: 'vwall', x: x + 1, y };
+    case 'west':
+      return { kind: 'vwall', x, y };
+    default:
+      throw new Error(`不正な方角です: ${direction}`);
+  }
+};
+
+/**
+ * 壁の既知状態を作成する
+ * @param width 迷路の幅[マス]
+ * @param height 迷路の高さ[マス]（省略時はwidth）
+ * @param knownBorder 外周の壁を既知（壁あり）とするかどうか
+ * @returns すべての壁が未確認の既知状態
+ */
+export const createWallKnowledge = (width: number, height: number = width, knownBorder = true): WallKnowledge => {
+  const vwall: WallKnowledgeState[][] = Array(height).fill(null).map(() =>
+    Array(width + 1).fill(null).map((_, x) => (knownBorder && (x === 0 || x === width) ? 'present' : 'unknown'))
+  );
+  const hwall: WallKnowledgeState[][] = Array(height + 1).fill(null).map((_, y) =>
+    Array(width).fill(knownBorder && (y === 0 || y === height) ? 'present' : 'unknown')
+  );
+  return { vwall, hwall };
+};
+
+/**
+ * MazeDataのすべての壁を既知とした既知状態を作成する
+ * @param mazeData MazeDataオブジェクト
+ * @returns 既知状態
+ */
+export const createWallKnowledgeFromMaze = (mazeData: MazeData): WallKnowledge => ({
+  vwall: mazeData.walls.vwall.map((row) => row.map((wall) => (wall ? 'present' : 'absent'))),
+  hwall: mazeData.walls.hwall.map((row) => row.map((wall) => (wall ? 'present' : 'absent'))),
+});
+
+/**
+ * 壁の既知状態を取得する
+ * @param knowledge 既知状態
+ * @param x セルのX座標
+ * @param y セルのY座標
+ * @param direction 方角
+ * @returns 既知状態（範囲外の場合はundefined）
+ */
+export const getWallKnowledgeState = (
+  knowledge: WallKnowledge,
+  x: number,
+  y: number,
+  direction: WallDirection
+): WallKnowledgeState | undefined => {
+  const index = getWallIndex(x, y, direction);
+  return knowledge[index.kind][index.y]?.[index.x];
+};
+
+/**
+ * 壁の既知状態を更新した新しい既知状態を返す（元のオブジェクトは変更しない）
+ * @param knowledge 既知状態
+ * @param x セルのX座標
+ * @param y セルのY座標
+ * @param direction 方角
+ * @param state 新しい状態
+ * @returns 更新後の既知状態
+ */
+export const updateWallKnowledge = (
+  knowledge: WallKnowledge,
+  x: number,
+  y: number,
+  direction: WallDirection,
+  state: WallKnowledgeState
+): WallKnowledge => {
+  const index = getWallIndex(x, y, direction);
+  const rows = knowledge[index.kind];
+  if (rows[index.y]?.[index.x] === undefined) {
+    throw new Error(`壁の位置が迷路の範囲外です: (${x}, ${y}) ${direction}`);
+  }
+  if (rows[index.y][index.x] === state) {
+    return knowledge;
+  }
+  const newRows = [...rows];
+  newRows[index.y] = [...rows[index.y]];
+  newRows[index.y][index.x] = state;
+  return { ...knowledge, [index.kind]: newRows };
+};
+
+/**
+ * 既知状態を経路計算用の壁情報に変換する
+ * 既知の壁はその状態を、未確認の壁はfalse（壁なし）を壁情報とし、既知かどうかをknownWallsに格納する
+ * @param knowledge 既知状態
+ * @returns 壁情報と既知マスク（computeDistanceMapのknownWallsオプションに渡せる）
+ */
+export const wallKnowledgeToWalls = (knowledge: WallKnowledge): { walls: MazeData['walls']; knownWalls: KnownWalls } => ({
+  walls: {
+    vwall: knowledge.vwall.map((row) => row.map((state) => state === 'present')),
+    hwall: knowledge.hwall.map((row) => row.map((state) => state === 'present')),
+  },
+  knownWalls: {
+    vwall: knowledge.vwall.map((row) => row.map((state) => state !== 'unknown')),
+    hwall: knowledge.hwall.map((row) => row.map((state) => state !== 'unknown')),
+  },
+});
+
+/**
+ * 既知状態の形状が迷路のサイズと一致するかを判定する
+ * @param knowledge 既知状態
+ * @param mazeData MazeDataオブジェクト
+ * @returns 一致する場合true
+ */
+export const isWallKnowledgeCompatible = (knowledge: WallKnowledge, mazeData: MazeData): boolean => {
+  const { width, height } = getMazeDimensions(mazeData);
+  return knowledge.vwall.length === height
+    && knowledge.vwall.every((row) => row.length === width + 1)
+    && knowledge.hwall.length === height + 1
+    && knowledge.hwall.every((row) => row.length === width);
+};
@@ -4,11 +4,14 @@ import MicromouseVisualizer from '../src/components/MicromouseVisualizer/Micromo
 import Mouse from '../src/components/MicromouseVisualizer/Mouse'; // Mouse をインポート
 import CellMarker from '../src/components/MicromouseVisualizer/CellMarker'; // CellMarker をインポート
 import TextLabel from '../src/components/MicromouseVisualizer/TextLabel'; // TextLabel をインポート
-import { DataProvider } from '../src/providers/DataProvider'; // DataProviderを追加
+import CellValueOverlay from '../src/components/MicromouseVisualizer/CellValueOverlay';
+import { DataProvider, useData } from '../src/providers/DataProvider'; // DataProviderを追加
 import { MazeData, MouseState, CameraViewPreset } from '../src/types';
 import { CELL_SIZE } from '../src/config/constants';
-import { loadMazeFromUrl, parseMazeFile } from '../src/utils/mazeLoader'; // 追加: マイクロマウス迷路読み込みユーティリティ
+import { loadMazeFromUrl, parseMazeFile, serializeMazeFile } from '../src/utils/mazeLoader'; // 追加: マイクロマウス迷路読み込みユーティリティ
 import { useCamera } from '../src/hooks/useCamera';
+import { computeDistanceMap } from '../src/utils/mazeSolver';
+import { parseCameraState, serializeCameraState } from '../src/utils/cameraState';
 
 // --- Helper Function ---
 // セル座標を物理座標に変換するヘルパー関数
@@ -281,6 +284,29 @@ export const NoMouse: Story = {
     ),
 };
 
+// 複数のビジュアライザーを並べて表示（DataProviderごとに独立した状態を持つ）
+export const SideBySideVisualizers: Story = {
+    args: {
+      ...SmallMaze4x4.args,
+      width: 300,
+      height: 300,
+    },
+    render: (args) => (
+      <div style={{ display: 'flex', gap: '16px' }}>
+        <DataProvider initialMazeData={sampleMazeData4} initialMouseState={sampleInitialMouseState4}>
+          <MicromouseVisualizer {...args}>
+            <Mouse />
+          </MicromouseVisualizer>
+        </DataProvider>
+        <DataProvider initialMazeData={sampleMazeData16} initialMouseState={sampleInitialMouseState16}>
+          <MicromouseVisualizer {...args}>
+            <Mouse />
+          </MicromouseVisualizer>
+        </DataProvider>
+      </div>
+    ),
+};
+
 // 迷路データなし (Loading 表示の確認)
 export const NoMazeData: Story = {
      args: { // args にはコンポーネントの Props を指定
@@ -338,6 +364,112 @@ export const WithCustomCellMarkers: Story = {
   ),
 };
 
+// 区画・壁・柱のクリックとホバーの例
+export const WithMazePicking: Story = {
+  args: {
+    ...Default16x16.args,
+    showAxesHelper: false,
+  },
+  render: (args) => {
+    const [hoveredCell, setHoveredCell] = useState<{ x: number; y: number } | null>(null);
+    const [message, setMessage] = useState('区画・壁・柱をクリックしてください');
+
+    return (
+      <div style={{ position: 'relative' }}>
+        <DataProvider
+          initialMazeData={sampleMazeData16}
+          initialMouseState={sampleInitialMouseState16}
+        >
+          <MicromouseVisualizer
+            {...args}
+            onCellHover={(pick) => setHoveredCell(pick?.cell ?? null)}
+            onCellClick={({ cell }) => setMessage(`区画 (${cell.x}, ${cell.y})`)}
+            onWallClick={({ wall, exists }) =>
+              setMessage(`${wall.kind}[${wall.y}][${wall.x}] (${exists ? '壁あり' : '壁なし'})`)
+            }
+            onPillarClick={({ pillar }) => setMessage(`柱 (${pillar.x}, ${pillar.y})`)}
+          >
+            <Mouse />
+            {hoveredCell && (
+              <CellMarker cell={hoveredCell} color="#ffcc00" opacity={0.6} type="square" />
+            )}
+          </MicromouseVisualizer>
+        </DataProvider>
+        <div
+          style={{
+            position: 'absolute',
+            top: 10,
+            left: 10,
+            padding: '6px 10px',
+            background: 'rgba(0, 0, 0, 0.6)',
+            color: '#ffffff',
+            fontFamily: 'monospace',
+            fontSize: 14,
+          }}
+        >
+          <div>hover: {hoveredCell ? `(${hoveredCell.x}, ${hoveredCell.y})` : '-'}</div>
+          <div>click: {message}</div>
+        </div>
+      </div>
+    );
+  },
+};
+
+// 迷路エディタのツールバー（DataProvider内でストアの編集アクションを使用）
+const MazeEditorToolbar: React.FC = () => {
+  const mazeData = useData((state) => state.mazeData);
+  const newEmptyMaze = useData((state) => state.newEmptyMaze);
+  const undoMazeEdit = useData((state) => state.undoMazeEdit);
+  const redoMazeEdit = useData((state) => state.redoMazeEdit);
+  const canUndo = useData((state) => state.mazeUndoStack.length > 0);
+  const canRedo = useData((state) => state.mazeRedoStack.length > 0);
+  const [newSize, setNewSize] = useState(16);
+
+  return (
+    <div style={{ display: 'flex', gap: 12, alignItems: 'flex-start', marginTop: 10, fontFamily: 'sans-serif', fontSize: 14 }}>
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+        <div>
+          <select value={newSize} onChange={(e) => setNewSize(Number(e.target.value))}>
+            {[4, 8, 16, 32].map((size) => (
+              <option key={size} value={size}>{size}x{size}</option>
+            ))}
+          </select>
+          <button onClick={() => newEmptyMaze(newSize)} style={{ marginLeft: 6 }}>New empty maze</button>
+        </div>
+        <div>
+          <button onClick={undoMazeEdit} disabled={!canUndo}>Undo</button>
+          <button onClick={redoMazeEdit} disabled={!canRedo} style={{ marginLeft: 6 }}>Redo</button>
+        </div>
+        <div style={{ color: '#666666' }}>
+          クリック: 壁の切り替え / Shift+クリック: スタート / Shift+Alt+クリック: ゴール
+        </div>
+      </div>
+      {/* parseMazeFileで読み戻せるテキスト */}
+      <textarea
+        readOnly
+        value={mazeData ? serializeMazeFile(mazeData) : ''}
+        style={{ width: 420, height: 200, fontFamily: 'monospace', fontSize: 10 }}
+      />
+    </div>
+  );
+};
+
+// 迷路の編集モード
+export const MazeEditorMode: Story = {
+  args: {
+    ...Default16x16.args,
+    showAxesHelper: false,
+    initialViewPreset: 'top',
+    editable: true,
+  },
+  render: (args) => (
+    <DataProvider initialMazeData={sampleMazeData16}>
+      <MicromouseVisualizer {...args} />
+      <MazeEditorToolbar />
+    </DataProvider>
+  ),
+};
+
 // TextLabelを使用した例を追加
 export const WithTextLabels: Story = {
   args: {
@@ -481,6 +613,25 @@ export const WithLabelsAndMarkers: Story = {
   ),
 };
 
+// 歩数マップをヒートマップで表示する例
+export const WithDistanceMapOverlay: Story = {
+  args: {
+    ...Default16x16.args,
+    initialViewPreset: 'top',
+  },
+  render: (args) => (
+    <DataProvider
+      initialMazeData={sampleMazeData16}
+      initialMouseState={sampleInitialMouseState16}
+    >
+      <MicromouseVisualizer {...args}>
+        <Mouse />
+        <CellValueOverlay values={computeDistanceMap(sampleMazeData16)} colormap="turbo" opacity={0.5} />
+      </MicromouseVisualizer>
+    </DataProvider>
+  ),
+};
+
 // 32x32の日本2023年ハーフサイズ迷路 - 動的読み込みに置き換え
 export const Japan2023Hef32x32: Story = {
   args: {
@@ -639,7 +790,23 @@ export const WithCameraControls: Story = {
     ...Default16x16.args,
   },
   render: (args) => {
-    const { cameraRef, setCameraView, resetCamera, toggleCameraProjection, zoomToRegion } = useCamera();
+    const {
+      cameraRef,
+      setCameraView,
+      resetCamera,
+      toggleCameraProjection,
+      zoomToRegion,
+      getCameraState,
+      setCameraState,
+      saveBookmark,
+      restoreBookmark,
+    } = useCamera();
+    const [animate, setAnimate] = useState(true);
+    // シリアライズしたカメラ状態（編集して適用できる）とエラーメッセージ
+    const [cameraJson, setCameraJson] = useState('');
+    const [cameraError, setCameraError] = useState<string | null>(null);
+    // アニメーションを有効にした場合は0.8秒かけて移動
+    const transition = animate ? { duration: 0.8, easing: 'easeInOut' as const } : undefined;
 
     return (
       <div style={{ width: '100%', height: '100vh', position: 'relative' }}>
@@ -660,8 +827,12 @@ export const WithCameraControls: Story = {
           <div style={{ color: '#fff', fontSize: '14px', fontWeight: 'bold', marginBottom: '5px' }}>
             Camera Controls
           </div>
+          <label style={{ color: '#fff', fontSize: '12px', display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <input type="checkbox" checked={animate} onChange={(e) => setAnimate(e.target.checked)} />
+            Animate transitions
+          </label>
           <button
-            onClick={() => setCameraView('top')}
+            onClick={() => setCameraView('top', transition)}
             style={{
               padding: '8px 12px',
               backgroundColor: '#4CAF50',
@@ -675,7 +846,7 @@ export const WithCameraControls: Story = {
             Top View
           </button>
           <button
-            onClick={() => setCameraView('angle')}
+            onClick={() => setCameraView('angle', transition)}
             style={{
               padding: '8px 12px',
               backgroundColor: '#2196F3',
@@ -689,7 +860,7 @@ export const WithCameraControls: Story = {
             Angle View
           </button>
           <button
-            onClick={() => setCameraView('side')}
+            onClick={() => setCameraView('side', transition)}
             style={{
               padding: '8px 12px',
               backgroundColor: '#FF9800',
@@ -703,7 +874,7 @@ export const WithCameraControls: Story = {
             Side View
           </button>
           <button
-            onClick={() => setCameraView('ortho')}
+            onClick={() => setCameraView('ortho', transition)}
             style={{
               padding: '8px 12px',
               backgroundColor: '#9C27B0',
@@ -717,7 +888,7 @@ export const WithCameraControls: Story = {
             Orthographic
           </button>
           <button
-            onClick={() => resetCamera()}
+            onClick={() => resetCamera(undefined, transition)}
             style={{
               padding: '8px 12px',
               backgroundColor: '#607D8B',
@@ -731,7 +902,7 @@ export const WithCameraControls: Story = {
             Reset Camera
           </button>
           <button
-            onClick={toggleCameraProjection}
+            onClick={() => toggleCameraProjection(transition)}
             style={{
               padding: '8px 12px',
               backgroundColor: '#795548',
@@ -745,7 +916,7 @@ export const WithCameraControls: Story = {
             Toggle Projection
           </button>
           <button
-            onClick={() => zoomToRegion(0, 0, 0.27, 0.27)}
+            onClick={() => zoomToRegion(0, 0, 0.27, 0.27, transition)}
             style={{
               padding: '8px 12px',
               backgroundColor: '#E91E63',
@@ -759,7 +930,7 @@ export const WithCameraControls: Story = {
             Zoom Start Area
           </button>
           <button
-            onClick={() => zoomToRegion(0.54, 0.54, 0.81, 0.81)}
+            onClick={() => zoomToRegion(0.54, 0.54, 0.81, 0.81, transition)}
             style={{
               padding: '8px 12px',
               backgroundColor: '#3F51B5',
@@ -773,7 +944,7 @@ export const WithCameraControls: Story = {
             Zoom Goal Area
           </button>
           <button
-            onClick={() => zoomToRegion(0, 0, 0.09 * 16, 0.09 * 16)}
+            onClick={() => zoomToRegion(0, 0, 0.09 * 16, 0.09 * 16, transition)}
             style={{
               padding: '8px 12px',
               backgroundColor: '#009688',
@@ -786,6 +957,94 @@ export const WithCameraControls: Story = {
           >
             Zoom Whole
           </button>
+          <button
+            onClick={() => saveBookmark('saved')}
+            style={{
+              padding: '8px 12px',
+              backgroundColor: '#8BC34A',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+          >
+            Save View
+          </button>
+          <button
+            onClick={() => {
+              try {
+                restoreBookmark('saved', transition);
+                setCameraError(null);
+              } catch (error) {
+                setCameraError(error instanceof Error ? error.message : String(error));
+              }
+            }}
+            style={{
+              padding: '8px 12px',
+              backgroundColor: '#CDDC39',
+              color: 'black',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+          >
+            Restore View
+          </button>
+          <button
+            onClick={() => {
+              const state = getCameraState();
+              if (state) {
+                setCameraJson(serializeCameraState(state));
+                setCameraError(null);
+              }
+            }}
+            style={{
+              padding: '8px 12px',
+              backgroundColor: '#455A64',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+          >
+            Capture Camera JSON
+          </button>
+          <textarea
+            value={cameraJson}
+            onChange={(e) => setCameraJson(e.target.value)}
+            placeholder="Camera state JSON"
+            rows={5}
+            style={{ width: '220px', fontFamily: 'monospace', fontSize: '11px' }}
+          />
+          <button
+            onClick={() => {
+              try {
+                setCameraState(parseCameraState(JSON.parse(cameraJson)), transition);
+                setCameraError(null);
+              } catch (error) {
+                setCameraError(error instanceof Error ? error.message : String(error));
+              }
+            }}
+            style={{
+              padding: '8px 12px',
+              backgroundColor: '#607D8B',
+              color: 'white',
+              border: 'none',
+              borderRadius: '4px',
+              cursor: 'pointer',
+              fontSize: '12px'
+            }}
+          >
+            Apply Camera JSON
+          </button>
+          {cameraError && (
+            <div style={{ color: '#ff8a80', fontSize: '12px', maxWidth: '220px' }}>
+              {cameraError}
+            </div>
+          )}
         </div>
 
         {/* Visualizer with camera ref */}
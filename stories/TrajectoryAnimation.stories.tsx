@@ -2,24 +2,22 @@ import React, { useState } from 'react';
 import type { Meta, StoryObj } from '@storybook/react';
 import MicromouseVisualizer from '../src/components/MicromouseVisualizer/MicromouseVisualizer';
 import TrajectoryPath from '../src/components/MicromouseVisualizer/TrajectoryPath';
+import ColorLegend from '../src/components/MicromouseVisualizer/ColorLegend';
+import TrajectoryEventMarkers from '../src/components/MicromouseVisualizer/TrajectoryEventMarkers';
 import PlaybackControls from './components/PlaybackControls';
 import { DataProvider } from '../src/providers/DataProvider';
 import { loadMazeFromUrl } from '../src/utils/mazeLoader';
-import { MazeData, TrajectoryProfile, TrajectoryElement } from '../src/types';
+import { CameraKeyframe, CameraViewPreset, MazeData, TrajectoryEvent, TrajectoryPathMode, TrajectoryProfile } from '../src/types';
 import TrajectoryAnimationController from '../src/components/MicromouseVisualizer/TrajectoryAnimationController';
 import Mouse from '../src/components/MicromouseVisualizer/Mouse';
 import { sampleTrajectoryProfile } from './trajectory_profile';
+import { normalizeTrajectoryTime } from '../src/utils/trajectory';
+import { useCamera } from '../src/hooks/useCamera';
 
 // マイクロマウスの軌跡をシミュレートするためのサンプルデータを作成
-const createSampleTrajectoryProfile = (): TrajectoryProfile => {
-    let first_time = [...sampleTrajectoryProfile.keys()][0]
-    let profile = new Map<number, TrajectoryElement>();
-    sampleTrajectoryProfile.forEach((value, key) => {
-        profile.set((key - first_time) / 1000000, value);
-    });
-
-    return profile;
-};
+// （サンプルの時刻は起動からのマイクロ秒なので、最初のサンプルを0とした秒に変換する）
+const createSampleTrajectoryProfile = (): TrajectoryProfile =>
+    normalizeTrajectoryTime(sampleTrajectoryProfile, { timeUnit: 'us', timeOrigin: 'firstSample' });
 
 // meta オブジェクト
 const meta: Meta<typeof MicromouseVisualizer> = {
@@ -391,4 +389,317 @@ export const LineAndPointTrajectory: Story = {
             </div>
         );
     },
-};
\ No newline at end of file
+};
+// 速度で色分けした軌跡と凡例
+export const SpeedColoredTrajectory: Story = {
+    args: {
+        ...WithSampleTrajectory.args,
+    },
+    render: (args) => {
+        // 外壁のみの16x16の迷路
+        const mazeData = React.useMemo((): MazeData => {
+            const emptyMaze: MazeData = {
+                size: 16,
+                walls: {
+                    vwall: Array(16).fill(null).map(() => Array(17).fill(false)),
+                    hwall: Array(17).fill(null).map(() => Array(16).fill(false)),
+                },
+                start: { x: 0, y: 0 },
+                goal: [{ x: 7, y: 7 }, { x: 8, y: 7 }, { x: 7, y: 8 }, { x: 8, y: 8 }],
+            };
+            for (let i = 0; i < 16; i++) {
+                emptyMaze.walls.vwall[i][0] = true;
+                emptyMaze.walls.vwall[i][16] = true;
+                emptyMaze.walls.hwall[0][i] = true;
+                emptyMaze.walls.hwall[16][i] = true;
+            }
+            return emptyMaze;
+        }, []);
+
+        // サンプルの軌跡データ（速度は位置の差分から求める）
+        const trajectoryProfile = createSampleTrajectoryProfile();
+
+        return (
+            <div style={{ position: 'relative', width: args.width, height: args.height }}>
+                <DataProvider 
+                    initialMazeData={mazeData} 
+                    initialTrajectoryProfile={trajectoryProfile} 
+                    initialSpeed={1}
+                >
+                    <MicromouseVisualizer
+                        width={args.width}
+                        height={args.height}
+                        showGridHelper={args.showGridHelper}
+                        showAxesHelper={args.showAxesHelper}
+                        initialViewPreset={args.initialViewPreset}
+                        backgroundColor={args.backgroundColor}
+                    >
+                        <TrajectoryAnimationController />
+                        <Mouse mouseState={{ position: { x: 0, y: 0 }, angle: Math.PI / 2 }} />
+                        <TrajectoryPath colorBy="speed" colormap="turbo" showLine={true} showPoints={true} pointSize={0.0006} />
+                    </MicromouseVisualizer>
+                    <ColorLegend colorBy="speed" colormap="turbo" style={{ position: 'absolute', top: 10, right: 10 }} />
+                    <PlaybackControls showTimeDisplay={true} showSpeedControls={true} showSeekBar={true} />
+                </DataProvider>
+            </div>
+        );
+    },
+};
+// 軌道全体・未来の軌跡・現在の前後の時間窓の表示
+export const TrajectoryPathModes: Story = {
+    args: {
+        ...WithSampleTrajectory.args,
+    },
+    render: (args) => {
+        const [mode, setMode] = useState<TrajectoryPathMode>('full');
+
+        // 外壁のみの16x16の迷路
+        const mazeData = React.useMemo((): MazeData => {
+            const emptyMaze: MazeData = {
+                size: 16,
+                walls: {
+                    vwall: Array(16).fill(null).map(() => Array(17).fill(false)),
+                    hwall: Array(17).fill(null).map(() => Array(16).fill(false)),
+                },
+                start: { x: 0, y: 0 },
+                goal: [{ x: 7, y: 7 }, { x: 8, y: 7 }, { x: 7, y: 8 }, { x: 8, y: 8 }],
+            };
+            for (let i = 0; i < 16; i++) {
+                emptyMaze.walls.vwall[i][0] = true;
+                emptyMaze.walls.vwall[i][16] = true;
+                emptyMaze.walls.hwall[0][i] = true;
+                emptyMaze.walls.hwall[16][i] = true;
+            }
+            return emptyMaze;
+        }, []);
+
+        const trajectoryProfile = React.useMemo(() => createSampleTrajectoryProfile(), []);
+
+        return (
+            <div style={{ position: 'relative', width: args.width, height: args.height }}>
+                <DataProvider 
+                    initialMazeData={mazeData} 
+                    initialTrajectoryProfile={trajectoryProfile} 
+                    initialSpeed={1}
+                >
+                    <MicromouseVisualizer
+                        width={args.width}
+                        height={args.height}
+                        showGridHelper={args.showGridHelper}
+                        showAxesHelper={args.showAxesHelper}
+                        initialViewPreset={args.initialViewPreset}
+                        backgroundColor={args.backgroundColor}
+                    >
+                        <TrajectoryAnimationController />
+                        <Mouse mouseState={{ position: { x: 0, y: 0 }, angle: Math.PI / 2 }} />
+                        <TrajectoryPath mode={mode} pastColor="#00aaff" futureColor="#ffaa00" windowBefore={2} windowAfter={1} />
+                    </MicromouseVisualizer>
+                    <div style={{ position: 'absolute', top: 10, right: 10, display: 'flex', gap: '4px' }}>
+                        {(['past', 'future', 'full', 'window'] as TrajectoryPathMode[]).map((value) => (
+                            <button key={value} onClick={() => setMode(value)} disabled={mode === value}>
+                                {value}
+                            </button>
+                        ))}
+                    </div>
+                    <PlaybackControls showTimeDisplay={true} showSpeedControls={true} showSeekBar={true} />
+                </DataProvider>
+            </div>
+        );
+    },
+};
+// 軌跡上のイベントマーカーとシークバーの目盛り
+export const TrajectoryWithEvents: Story = {
+    args: {
+        ...WithSampleTrajectory.args,
+    },
+    render: (args) => {
+        // 外壁のみの16x16の迷路
+        const mazeData = React.useMemo((): MazeData => {
+            const emptyMaze: MazeData = {
+                size: 16,
+                walls: {
+                    vwall: Array(16).fill(null).map(() => Array(17).fill(false)),
+                    hwall: Array(17).fill(null).map(() => Array(16).fill(false)),
+                },
+                start: { x: 0, y: 0 },
+                goal: [{ x: 7, y: 7 }, { x: 8, y: 7 }, { x: 7, y: 8 }, { x: 8, y: 8 }],
+            };
+            for (let i = 0; i < 16; i++) {
+                emptyMaze.walls.vwall[i][0] = true;
+                emptyMaze.walls.vwall[i][16] = true;
+                emptyMaze.walls.hwall[0][i] = true;
+                emptyMaze.walls.hwall[16][i] = true;
+            }
+            return emptyMaze;
+        }, []);
+
+        const trajectoryProfile = React.useMemo(() => createSampleTrajectoryProfile(), []);
+
+        // サンプルのイベント（軌道の時間に対する割合で配置）
+        const trajectoryEvents = React.useMemo((): TrajectoryEvent[] => {
+            const times = Array.from(trajectoryProfile.keys()).sort((a, b) => a - b);
+            const endTime = times[times.length - 1] ?? 0;
+            return [
+                { time: endTime * 0.1, type: 'wallDetected', label: '壁検出' },
+                { time: endTime * 0.35, type: 'slip', label: 'スリップ' },
+                { time: endTime * 0.6, type: 'wallDetected', label: '壁検出' },
+                { time: endTime * 0.8, type: 'emergencyStop', label: '非常停止' },
+                { time: endTime, type: 'goal', label: 'ゴール' },
+            ];
+        }, [trajectoryProfile]);
+
+        return (
+            <div style={{ position: 'relative', width: args.width, height: args.height }}>
+                <DataProvider 
+                    initialMazeData={mazeData} 
+                    initialTrajectoryProfile={trajectoryProfile} 
+                    initialTrajectoryEvents={trajectoryEvents}
+                    initialSpeed={1}
+                >
+                    <MicromouseVisualizer
+                        width={args.width}
+                        height={args.height}
+                        showGridHelper={args.showGridHelper}
+                        showAxesHelper={args.showAxesHelper}
+                        initialViewPreset={args.initialViewPreset}
+                        backgroundColor={args.backgroundColor}
+                    >
+                        <TrajectoryAnimationController />
+                        <Mouse mouseState={{ position: { x: 0, y: 0 }, angle: Math.PI / 2 }} />
+                        <TrajectoryPath mode="full" pastColor="#00aaff" />
+                        <TrajectoryEventMarkers />
+                    </MicromouseVisualizer>
+                    <PlaybackControls showTimeDisplay={true} showSpeedControls={true} showSeekBar={true} />
+                </DataProvider>
+            </div>
+        );
+    },
+};
+// マウスに追従するカメラ（ドラッグするとOrbitControlsの操作に戻る）
+export const FollowCamera: Story = {
+    args: {
+        ...WithSampleTrajectory.args,
+    },
+    render: (args) => {
+        const { cameraRef, setCameraView } = useCamera();
+
+        // 外壁のみの16x16の迷路
+        const mazeData = React.useMemo((): MazeData => {
+            const emptyMaze: MazeData = {
+                size: 16,
+                walls: {
+                    vwall: Array(16).fill(null).map(() => Array(17).fill(false)),
+                    hwall: Array(17).fill(null).map(() => Array(16).fill(false)),
+                },
+                start: { x: 0, y: 0 },
+                goal: [{ x: 7, y: 7 }, { x: 8, y: 7 }, { x: 7, y: 8 }, { x: 8, y: 8 }],
+            };
+            for (let i = 0; i < 16; i++) {
+                emptyMaze.walls.vwall[i][0] = true;
+                emptyMaze.walls.vwall[i][16] = true;
+                emptyMaze.walls.hwall[0][i] = true;
+                emptyMaze.walls.hwall[16][i] = true;
+            }
+            return emptyMaze;
+        }, []);
+
+        const trajectoryProfile = React.useMemo(() => createSampleTrajectoryProfile(), []);
+
+        return (
+            <div style={{ position: 'relative', width: args.width, height: args.height }}>
+                <DataProvider 
+                    initialMazeData={mazeData} 
+                    initialTrajectoryProfile={trajectoryProfile} 
+                    initialSpeed={1}
+                >
+                    <MicromouseVisualizer
+                        width={args.width}
+                        height={args.height}
+                        showGridHelper={args.showGridHelper}
+                        showAxesHelper={args.showAxesHelper}
+                        initialViewPreset="chase"
+                        backgroundColor={args.backgroundColor}
+                        cameraRef={cameraRef}
+                    >
+                        <TrajectoryAnimationController />
+                        <Mouse mouseState={{ position: { x: 0, y: 0 }, angle: Math.PI / 2 }} />
+                        <TrajectoryPath pastColor="#00aaff" />
+                    </MicromouseVisualizer>
+                    <div style={{ position: 'absolute', top: 10, right: 10, display: 'flex', gap: '4px' }}>
+                        {(['chase', 'firstPerson', 'tracking', 'angle'] as CameraViewPreset[]).map((preset) => (
+                            <button key={preset} onClick={() => setCameraView(preset)}>
+                                {preset}
+                            </button>
+                        ))}
+                    </div>
+                    <PlaybackControls showTimeDisplay={true} showSpeedControls={true} showSeekBar={true} />
+                </DataProvider>
+            </div>
+        );
+    },
+};
+// 軌跡アニメーションの時刻に合わせたカメラパス（全体の俯瞰からゴール付近へ移動）
+export const CameraPathFlyThrough: Story = {
+    args: {
+        ...WithSampleTrajectory.args,
+    },
+    render: (args) => {
+        // 外壁のみの16x16の迷路
+        const mazeData = React.useMemo((): MazeData => {
+            const emptyMaze: MazeData = {
+                size: 16,
+                walls: {
+                    vwall: Array(16).fill(null).map(() => Array(17).fill(false)),
+                    hwall: Array(17).fill(null).map(() => Array(16).fill(false)),
+                },
+                start: { x: 0, y: 0 },
+                goal: [{ x: 7, y: 7 }, { x: 8, y: 7 }, { x: 7, y: 8 }, { x: 8, y: 8 }],
+            };
+            for (let i = 0; i < 16; i++) {
+                emptyMaze.walls.vwall[i][0] = true;
+                emptyMaze.walls.vwall[i][16] = true;
+                emptyMaze.walls.hwall[0][i] = true;
+                emptyMaze.walls.hwall[16][i] = true;
+            }
+            return emptyMaze;
+        }, []);
+
+        const trajectoryProfile = React.useMemo(() => createSampleTrajectoryProfile(), []);
+
+        // 軌道の時間に対する割合でキーフレームを配置
+        const cameraPath = React.useMemo((): CameraKeyframe[] => {
+            const times = Array.from(trajectoryProfile.keys()).sort((a, b) => a - b);
+            const endTime = times[times.length - 1] ?? 0;
+            return [
+                { time: 0, position: [0.72, -1.2, 1.6], target: [0.72, 0.72, 0], easing: 'easeInOut' },
+                { time: endTime * 0.5, position: [0.2, -0.4, 0.8], target: [0.5, 0.5, 0], easing: 'easeInOut' },
+                { time: endTime, position: [0.72, 0.3, 0.35], target: [0.72, 0.72, 0], zoom: 1.5 },
+            ];
+        }, [trajectoryProfile]);
+
+        return (
+            <div style={{ position: 'relative', width: args.width, height: args.height }}>
+                <DataProvider 
+                    initialMazeData={mazeData} 
+                    initialTrajectoryProfile={trajectoryProfile} 
+                    initialSpeed={1}
+                >
+                    <MicromouseVisualizer
+                        width={args.width}
+                        height={args.height}
+                        showGridHelper={args.showGridHelper}
+                        showAxesHelper={args.showAxesHelper}
+                        initialViewPreset={args.initialViewPreset}
+                        backgroundColor={args.backgroundColor}
+                        cameraPath={cameraPath}
+                    >
+                        <TrajectoryAnimationController />
+                        <Mouse mouseState={{ position: { x: 0, y: 0 }, angle: Math.PI / 2 }} />
+                        <TrajectoryPath pastColor="#00aaff" />
+                    </MicromouseVisualizer>
+                    <PlaybackControls showTimeDisplay={true} showSpeedControls={true} showSeekBar={true} />
+                </DataProvider>
+            </div>
+        );
+    },
+};
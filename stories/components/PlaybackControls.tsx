@@ -44,6 +44,18 @@ const styles = {
   slider: {
     width: '200px',
   },
+  seekBarContainer: {
+    position: 'relative',
+    width: '200px',
+  },
+  eventTick: {
+    position: 'absolute',
+    top: '-4px',
+    width: '2px',
+    height: '6px',
+    transform: 'translateX(-1px)',
+    pointerEvents: 'none',
+  },
   speedControl: {
     display: 'flex',
     alignItems: 'center',
@@ -68,6 +80,7 @@ interface PlaybackControlsProps {
   showSpeedControls?: boolean;
   showSeekBar?: boolean;
   showLoopControl?: boolean;
+  showEventControls?: boolean;
   controlPosition?: 'top' | 'bottom';
 }
 
@@ -80,11 +93,13 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
   showSpeedControls = true,
   showSeekBar = true,
   showLoopControl = true,
+  showEventControls = true,
   controlPosition = 'bottom',
 }) => {
   const {
     isPlaying,
     currentTime,
+    startTime,
     duration,
     playbackSpeed,
     isLoopEnabled,
@@ -93,6 +108,9 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
     handleSeek,
     handleSpeedChange,
     handleLoopToggle,
+    eventTicks,
+    jumpToNextEvent,
+    jumpToPreviousEvent,
     formatTime,
     formatSpeed,
     speedOptions,
@@ -125,21 +143,54 @@ const PlaybackControls: React.FC<PlaybackControlsProps> = ({
       {/* 時間表示 */}
       {showTimeDisplay && (
         <div style={styles.timeDisplay}>
-          {formatTime(currentTime)} / {formatTime(duration)}
+          {formatTime(currentTime - startTime)} / {formatTime(duration)}
         </div>
       )}
 
-      {/* シークバー */}
+      {/* シークバー（イベントの時刻に目盛りを表示） */}
       {showSeekBar && (
-        <input
-          type="range"
-          min={0}
-          max={duration}
-          step={0.01}
-          value={currentTime}
-          onChange={(e) => handleSeek(parseFloat(e.target.value))}
-          style={styles.slider}
-        />
+        <div style={styles.seekBarContainer}>
+          <input
+            type="range"
+            min={startTime}
+            max={startTime + duration}
+            step={0.01}
+            value={currentTime}
+            onChange={(e) => handleSeek(parseFloat(e.target.value))}
+            style={styles.slider}
+          />
+          {eventTicks.map((tick, index) => (
+            <div
+              key={`event-${index}`}
+              title={tick.event.label ?? tick.event.type}
+              style={{
+                ...styles.eventTick,
+                left: `${tick.position * 100}%`,
+                backgroundColor: tick.color,
+              }}
+            />
+          ))}
+        </div>
+      )}
+
+      {/* 前後のイベントへのジャンプ */}
+      {showEventControls && eventTicks.length > 0 && (
+        <div style={styles.speedControl}>
+          <button
+            onClick={() => jumpToPreviousEvent()}
+            style={styles.speedButton}
+            title="前のイベント"
+          >
+            ◀ イベント
+          </button>
+          <button
+            onClick={() => jumpToNextEvent()}
+            style={styles.speedButton}
+            title="次のイベント"
+          >
+            イベント ▶
+          </button>
+        </div>
       )}
 
       {/* 速度調整 */}
@@ -12,6 +12,15 @@ const dirname =
 export default defineConfig({
   test: {
     workspace: [
+      {
+        // ユーティリティのユニットテスト（Node.js上で実行）
+        extends: true,
+        test: {
+          name: 'unit',
+          include: ['src/**/*.test.ts'],
+          environment: 'node',
+        },
+      },
       {
         extends: true,
         plugins: [